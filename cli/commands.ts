@@ -0,0 +1,513 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import {
+  AuthorityType,
+  LINEAR_RELEASE,
+  VestingInfo,
+  VestingRelease,
+  fetchMintInfos,
+  formatTokenAmount,
+  milestoneCurve,
+  parseTokenAmount,
+  percentToBps,
+  periodicCurve,
+  toVestingInfo,
+  translateVestingError,
+  validateTokenAmount,
+} from "../sdk/src";
+import { CliContext, parsePublicKey } from "./context";
+import { KeeperConfig, KeeperPass, runKeeper } from "./keeper";
+import { formatSchedule, scheduleToJson } from "./output";
+
+const SECONDS_PER_DAY = 86_400;
+
+export interface CommandOptions {
+  admin?: string;
+  beneficiary?: string;
+  mint?: string;
+  amount?: string;
+  start?: string;
+  "cliff-days"?: string;
+  "vesting-days"?: string;
+  "schedule-id"?: string;
+  "initial-unlock"?: string;
+  "period-days"?: string;
+  milestones?: string;
+  to?: string;
+  "revoke-authority"?: string;
+  "authority-type"?: string;
+  authority?: string;
+  "min-claimable"?: string;
+  interval?: string;
+  "retry-after"?: string;
+  state?: string;
+  once?: boolean;
+  off?: boolean;
+}
+
+/**
+ * Parse a start time given as unix seconds or an ISO-8601 date
+ */
+function parseStartTime(value: string | undefined): number {
+  if (!value) {
+    // Default to one minute from now so the on-chain future-start check passes
+    return Math.floor(Date.now() / 1000) + 60;
+  }
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid --start: ${value}`);
+  }
+  return Math.floor(time / 1000);
+}
+
+function parseScheduleId(value: string | undefined): BN {
+  if (value === undefined) {
+    return new BN(0);
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid --schedule-id: ${value}`);
+  }
+  return new BN(value);
+}
+
+function parseAmount(value: string, decimals: number): BN {
+  const error = validateTokenAmount(value, decimals);
+  if (error) {
+    throw new Error(`Invalid --amount ${value}: ${error.message}`);
+  }
+  return parseTokenAmount(value, decimals);
+}
+
+function parseSeconds(
+  value: string | undefined,
+  name: string,
+  fallback: number
+): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!/^\d+$/.test(value) || Number(value) === 0) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return Number(value);
+}
+
+/**
+ * A comma-separated list of public keys, empty when the option isn't given
+ */
+function parsePublicKeys(value: string | undefined, name: string) {
+  if (value === undefined) {
+    return [];
+  }
+  return value.split(",").map((key) => parsePublicKey(key.trim(), name));
+}
+
+function parseDays(value: string | undefined, name: string): number {
+  if (value === undefined) {
+    throw new Error(`Missing required option --${name}`);
+  }
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return Math.round(days * SECONDS_PER_DAY);
+}
+
+function parsePercent(value: string, name: string): number {
+  const percent = Number(value);
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return percentToBps(percent);
+}
+
+/**
+ * An authority that can be given up: a public key, or "none"
+ */
+function parseOptionalAuthority(
+  value: string | undefined,
+  name: string
+): PublicKey | null {
+  return value === "none" ? null : parsePublicKey(value, name);
+}
+
+function parseAuthorityType(value: string | undefined): AuthorityType {
+  switch (value) {
+    case "admin":
+      return { admin: {} };
+    case "revoke":
+      return { revoke: {} };
+    case undefined:
+      throw new Error("Missing required option --authority-type");
+    default:
+      throw new Error(`Invalid --authority-type: ${value}`);
+  }
+}
+
+/**
+ * Build the release from --initial-unlock and either --period-days or
+ * --milestones ("<day>:<percent>,..."), defaulting to linear
+ */
+function parseRelease(options: CommandOptions): VestingRelease {
+  if (options["period-days"] && options.milestones) {
+    throw new Error("Use either --period-days or --milestones, not both");
+  }
+
+  const initialUnlockBps = options["initial-unlock"]
+    ? parsePercent(options["initial-unlock"], "initial-unlock")
+    : 0;
+
+  if (options["period-days"]) {
+    return {
+      initialUnlockBps,
+      curve: periodicCurve(parseDays(options["period-days"], "period-days")),
+    };
+  }
+
+  if (options.milestones) {
+    const milestones = options.milestones.split(",").map((entry) => {
+      const [day, percent] = entry.split(":");
+      if (percent === undefined) {
+        throw new Error(`Invalid --milestones entry: ${entry}`);
+      }
+      return {
+        offset: parseDays(day.trim(), "milestones"),
+        bps: parsePercent(percent.trim(), "milestones"),
+      };
+    });
+    return { initialUnlockBps, curve: milestoneCurve(milestones) };
+  }
+
+  return { ...LINEAR_RELEASE, initialUnlockBps };
+}
+
+async function printSchedules(ctx: CliContext, schedules: VestingInfo[]) {
+  const mints = await fetchMintInfos(
+    ctx.connection,
+    schedules.map((info) => info.account.mint)
+  );
+  const mintOf = (info: VestingInfo) => mints[info.account.mint.toBase58()];
+
+  if (ctx.json) {
+    console.log(
+      JSON.stringify(
+        schedules.map((info) => scheduleToJson(info, mintOf(info))),
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  if (schedules.length === 0) {
+    console.log("No vesting schedules found");
+    return;
+  }
+  console.log(
+    schedules.map((info) => formatSchedule(info, mintOf(info))).join("\n\n")
+  );
+}
+
+function printTransaction(ctx: CliContext, action: string, tx: string) {
+  if (ctx.json) {
+    console.log(JSON.stringify({ action, signature: tx }, null, 2));
+  } else {
+    console.log(`${action} tx: ${tx}`);
+  }
+}
+
+export async function create(ctx: CliContext, options: CommandOptions) {
+  const beneficiary = parsePublicKey(options.beneficiary, "beneficiary");
+  const mint = parsePublicKey(options.mint, "mint");
+  if (!options.amount) {
+    throw new Error("Missing required option --amount");
+  }
+
+  const { decimals } = await ctx.client.fetchMintInfo(mint);
+  // Without an explicit id, add a new grant alongside any existing ones
+  const scheduleId =
+    options["schedule-id"] === undefined
+      ? await ctx.client.findNextScheduleId(beneficiary, mint)
+      : parseScheduleId(options["schedule-id"]);
+  const tx = await ctx.client.createVestingSchedule(
+    beneficiary,
+    mint,
+    parseAmount(options.amount, decimals),
+    new BN(parseStartTime(options.start)),
+    new BN(parseDays(options["cliff-days"] ?? "0", "cliff-days")),
+    new BN(parseDays(options["vesting-days"], "vesting-days")),
+    scheduleId,
+    parseRelease(options),
+    ctx.wallet.publicKey,
+    options["revoke-authority"] === undefined
+      ? ctx.wallet.publicKey
+      : parseOptionalAuthority(options["revoke-authority"], "revoke-authority")
+  );
+  printTransaction(ctx, "create", tx);
+}
+
+export async function claim(ctx: CliContext, options: CommandOptions) {
+  const admin = parsePublicKey(options.admin, "admin");
+  const mint = parsePublicKey(options.mint, "mint");
+
+  const tx = await ctx.client.claim(
+    admin,
+    mint,
+    parseScheduleId(options["schedule-id"])
+  );
+  printTransaction(ctx, "claim", tx);
+}
+
+// Signed by the beneficiary; cranks only work on schedules they've allowed
+export async function allowCrank(ctx: CliContext, options: CommandOptions) {
+  const admin = parsePublicKey(options.admin, "admin");
+  const mint = parsePublicKey(options.mint, "mint");
+
+  const tx = await ctx.client.setAllowCrank(
+    admin,
+    mint,
+    !options.off,
+    parseScheduleId(options["schedule-id"])
+  );
+  printTransaction(ctx, "allow-crank", tx);
+}
+
+// Signed by the beneficiary; the admin can only move grants they've allowed
+export async function allowAdminTransfer(
+  ctx: CliContext,
+  options: CommandOptions
+) {
+  const admin = parsePublicKey(options.admin, "admin");
+  const mint = parsePublicKey(options.mint, "mint");
+
+  const tx = await ctx.client.setAllowAdminTransfer(
+    admin,
+    mint,
+    !options.off,
+    parseScheduleId(options["schedule-id"])
+  );
+  printTransaction(ctx, "allow-admin-transfer", tx);
+}
+
+// Anyone can sign; the tokens go to the beneficiary's own token account
+export async function crank(ctx: CliContext, options: CommandOptions) {
+  const admin = parsePublicKey(options.admin, "admin");
+  const beneficiary = parsePublicKey(options.beneficiary, "beneficiary");
+  const mint = parsePublicKey(options.mint, "mint");
+
+  const tx = await ctx.client.crankClaim(
+    admin,
+    beneficiary,
+    mint,
+    parseScheduleId(options["schedule-id"])
+  );
+  printTransaction(ctx, "crank", tx);
+}
+
+export async function revoke(ctx: CliContext, options: CommandOptions) {
+  const beneficiary = parsePublicKey(options.beneficiary, "beneficiary");
+  const mint = parsePublicKey(options.mint, "mint");
+
+  const tx = await ctx.client.revoke(
+    beneficiary,
+    mint,
+    parseScheduleId(options["schedule-id"]),
+    options.admin
+      ? parsePublicKey(options.admin, "admin")
+      : ctx.wallet.publicKey
+  );
+  printTransaction(ctx, "revoke", tx);
+}
+
+export async function close(ctx: CliContext, options: CommandOptions) {
+  const beneficiary = parsePublicKey(options.beneficiary, "beneficiary");
+  const mint = parsePublicKey(options.mint, "mint");
+
+  const tx = await ctx.client.close(
+    beneficiary,
+    mint,
+    parseScheduleId(options["schedule-id"]),
+    options.admin
+      ? parsePublicKey(options.admin, "admin")
+      : ctx.wallet.publicKey
+  );
+  printTransaction(ctx, "close", tx);
+}
+
+// Signed by the beneficiary, or by the admin authority when the beneficiary's
+// keys are lost and they ran allow-admin-transfer beforehand
+export async function transfer(ctx: CliContext, options: CommandOptions) {
+  const admin = parsePublicKey(options.admin, "admin");
+  const beneficiary = parsePublicKey(options.beneficiary, "beneficiary");
+  const mint = parsePublicKey(options.mint, "mint");
+  const newBeneficiary = parsePublicKey(options.to, "to");
+
+  const tx = await ctx.client.transferBeneficiary(
+    admin,
+    beneficiary,
+    mint,
+    newBeneficiary,
+    parseScheduleId(options["schedule-id"])
+  );
+  printTransaction(ctx, "transfer", tx);
+}
+
+// Signed by the current holder of the authority being handed over
+export async function setAuthority(ctx: CliContext, options: CommandOptions) {
+  const admin = options.admin
+    ? parsePublicKey(options.admin, "admin")
+    : ctx.wallet.publicKey;
+  const beneficiary = parsePublicKey(options.beneficiary, "beneficiary");
+  const mint = parsePublicKey(options.mint, "mint");
+
+  const tx = await ctx.client.setAuthority(
+    admin,
+    beneficiary,
+    mint,
+    parseAuthorityType(options["authority-type"]),
+    parseOptionalAuthority(options.to, "to"),
+    parseScheduleId(options["schedule-id"])
+  );
+  printTransaction(ctx, "set-authority", tx);
+}
+
+/**
+ * Show a single schedule, by address or by its admin/beneficiary/mint seeds
+ */
+export async function show(
+  ctx: CliContext,
+  options: CommandOptions,
+  address?: string
+) {
+  const schedulePDA = address
+    ? parsePublicKey(address, "schedule")
+    : ctx.client.getVestingPDA(
+        options.admin
+          ? parsePublicKey(options.admin, "admin")
+          : ctx.wallet.publicKey,
+        parsePublicKey(options.beneficiary, "beneficiary"),
+        parsePublicKey(options.mint, "mint"),
+        parseScheduleId(options["schedule-id"])
+      )[0];
+
+  const schedule = await ctx.client.fetchVestingSchedule(schedulePDA);
+  if (!schedule) {
+    throw new Error(`Vesting schedule not found: ${schedulePDA.toBase58()}`);
+  }
+  await printSchedules(ctx, [toVestingInfo(schedulePDA, schedule)]);
+}
+
+/**
+ * List schedules by admin, beneficiary and/or authority, defaulting to the
+ * wallet in every role
+ */
+export async function list(ctx: CliContext, options: CommandOptions) {
+  const byAdmin = options.admin ? [parsePublicKey(options.admin, "admin")] : [];
+  const byBeneficiary = options.beneficiary
+    ? [parsePublicKey(options.beneficiary, "beneficiary")]
+    : [];
+  const byAuthority = options.authority
+    ? [parsePublicKey(options.authority, "authority")]
+    : [];
+  if (
+    byAdmin.length === 0 &&
+    byBeneficiary.length === 0 &&
+    byAuthority.length === 0
+  ) {
+    byAdmin.push(ctx.wallet.publicKey);
+    byBeneficiary.push(ctx.wallet.publicKey);
+    byAuthority.push(ctx.wallet.publicKey);
+  }
+
+  const results = await Promise.all([
+    ...byAdmin.map((admin) => ctx.client.fetchVestingSchedulesForAdmin(admin)),
+    ...byBeneficiary.map((beneficiary) =>
+      ctx.client.fetchVestingSchedulesForBeneficiary(beneficiary)
+    ),
+    ...byAuthority.flatMap((authority) => [
+      ctx.client.fetchVestingSchedulesForAuthority(authority),
+      ctx.client.fetchVestingSchedulesForRevokeAuthority(authority),
+    ]),
+  ]);
+
+  // A wallet can hold several roles in the same schedule
+  const unique = new Map<string, VestingInfo>();
+  for (const info of results.flat()) {
+    unique.set(info.publicKey.toBase58(), info);
+  }
+  await printSchedules(ctx, [...unique.values()]);
+}
+
+function printKeeperPass(ctx: CliContext, pass: KeeperPass) {
+  if (ctx.json) {
+    // One line per pass, since the keeper keeps running
+    console.log(
+      JSON.stringify({
+        scanned: pass.scanned,
+        cranked: pass.results.map((result) => ({
+          ...result,
+          amount: result.amount.toString(),
+        })),
+      })
+    );
+    return;
+  }
+
+  console.log(
+    `${new Date().toISOString()} scanned ${pass.scanned} schedules, cranked ${
+      pass.results.length
+    }`
+  );
+  for (const result of pass.results) {
+    const { decimals, symbol } = pass.mints[result.mint];
+    const amount = `${formatTokenAmount(result.amount, decimals)} ${
+      symbol ?? result.mint
+    }`;
+    console.log(
+      result.status === "success"
+        ? `  ${result.schedule}: ${amount} tx: ${result.signature}`
+        : `  ${result.schedule}: ${amount} failed: ${result.error}`
+    );
+  }
+}
+
+/**
+ * Crank claims over the threshold every interval, recording what was done in
+ * the state file. Scans the signer's own grants unless told where to look.
+ */
+export async function keeper(ctx: CliContext, options: CommandOptions) {
+  const minClaimable = options["min-claimable"] ?? "0";
+  if (!/^\d+(\.\d+)?$/.test(minClaimable)) {
+    throw new Error(`Invalid --min-claimable: ${minClaimable}`);
+  }
+
+  const config: KeeperConfig = {
+    admins: parsePublicKeys(options.admin, "admin"),
+    beneficiaries: parsePublicKeys(options.beneficiary, "beneficiary"),
+    mints: parsePublicKeys(options.mint, "mint"),
+    minClaimable,
+    retryAfter: parseSeconds(options["retry-after"], "retry-after", 21_600),
+  };
+  if (config.admins.length === 0 && config.beneficiaries.length === 0) {
+    config.admins.push(ctx.wallet.publicKey);
+  }
+
+  await runKeeper(
+    ctx.client,
+    (transactions) => ctx.wallet.signAllTransactions(transactions),
+    config,
+    {
+      stateFile: options.state ?? "keeper-state.json",
+      interval: parseSeconds(options.interval, "interval", 3_600),
+      once: options.once,
+      onPass: (pass) => printKeeperPass(ctx, pass),
+      onError: (error) =>
+        console.error(
+          `Keeper pass failed: ${translateVestingError(error).message}`
+        ),
+    }
+  );
+}
@@ -0,0 +1,95 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AnchorProvider, Wallet } from "@coral-xyz/anchor";
+import { Connection, Keypair, PublicKey, clusterApiUrl } from "@solana/web3.js";
+import { PROGRAM_ID, VestingClient } from "../sdk/src";
+
+export interface GlobalOptions {
+  url?: string;
+  keypair?: string;
+  programId?: string;
+  json?: boolean;
+}
+
+export interface CliContext {
+  connection: Connection;
+  wallet: Wallet;
+  client: VestingClient;
+  json: boolean;
+}
+
+const DEFAULT_KEYPAIR = "~/.config/solana/id.json";
+const LOCALNET_URL = "http://127.0.0.1:8899";
+
+/**
+ * Resolve a cluster moniker (localnet, devnet, ...) or pass a URL through
+ */
+export function resolveClusterUrl(url?: string): string {
+  const value = url ?? process.env.ANCHOR_PROVIDER_URL ?? "localnet";
+  switch (value) {
+    case "localnet":
+    case "localhost":
+      return LOCALNET_URL;
+    case "devnet":
+    case "testnet":
+    case "mainnet-beta":
+      return clusterApiUrl(value);
+    case "mainnet":
+      return clusterApiUrl("mainnet-beta");
+    default:
+      return value;
+  }
+}
+
+/**
+ * Read a Solana CLI keypair file (JSON array of secret key bytes)
+ */
+export function loadKeypair(file: string): Keypair {
+  const resolved = file.startsWith("~")
+    ? path.join(os.homedir(), file.slice(1))
+    : path.resolve(file);
+
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Keypair file not found: ${resolved}`);
+  }
+
+  const secretKey = Uint8Array.from(
+    JSON.parse(fs.readFileSync(resolved, "utf8"))
+  );
+  return Keypair.fromSecretKey(secretKey);
+}
+
+export function parsePublicKey(value: string | undefined, name: string) {
+  if (!value) {
+    throw new Error(`Missing required option --${name}`);
+  }
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new Error(`Invalid public key for --${name}: ${value}`);
+  }
+}
+
+export function createContext(options: GlobalOptions): CliContext {
+  const connection = new Connection(
+    resolveClusterUrl(options.url),
+    "confirmed"
+  );
+  const wallet = new Wallet(
+    loadKeypair(options.keypair ?? process.env.ANCHOR_WALLET ?? DEFAULT_KEYPAIR)
+  );
+  const provider = new AnchorProvider(connection, wallet, {
+    commitment: "confirmed",
+  });
+  const programId = options.programId
+    ? parsePublicKey(options.programId, "program-id")
+    : PROGRAM_ID;
+
+  return {
+    connection,
+    wallet,
+    client: VestingClient.fromProvider(provider, programId),
+    json: options.json ?? false,
+  };
+}
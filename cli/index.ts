@@ -0,0 +1,165 @@
+#!/usr/bin/env ts-node
+import { parseArgs } from "util";
+import { translateVestingError } from "../sdk/src";
+import * as commands from "./commands";
+import { createContext } from "./context";
+
+const USAGE = `Usage: vesting <command> [options]
+
+Commands:
+  create   --beneficiary <pubkey> --mint <pubkey> --amount <tokens>
+           --vesting-days <days> [--cliff-days <days>] [--start <unix|ISO>]
+           [--schedule-id <id>] [--initial-unlock <percent>]
+           [--period-days <days> | --milestones <day:percent,...>]
+           [--revoke-authority <pubkey|none>]
+  claim    --admin <pubkey> --mint <pubkey> [--schedule-id <id>]
+  allow-crank
+           --admin <pubkey> --mint <pubkey> [--schedule-id <id>] [--off]
+  allow-admin-transfer
+           --admin <pubkey> --mint <pubkey> [--schedule-id <id>] [--off]
+  crank    --admin <pubkey> --beneficiary <pubkey> --mint <pubkey>
+           [--schedule-id <id>]
+  revoke   --beneficiary <pubkey> --mint <pubkey> [--admin <pubkey>]
+           [--schedule-id <id>]
+  close    --beneficiary <pubkey> --mint <pubkey> [--admin <pubkey>]
+           [--schedule-id <id>]
+  transfer --admin <pubkey> --beneficiary <pubkey> --mint <pubkey> --to <pubkey>
+           [--schedule-id <id>]
+  set-authority
+           --admin <pubkey> --beneficiary <pubkey> --mint <pubkey>
+           --authority-type <admin|revoke> --to <pubkey|none> [--schedule-id <id>]
+  show     <schedule> | --beneficiary <pubkey> --mint <pubkey> [--admin <pubkey>]
+           [--schedule-id <id>]
+  list     [--admin <pubkey>] [--beneficiary <pubkey>] [--authority <pubkey>]
+  keeper   [--admin <pubkey,...>] [--beneficiary <pubkey,...>]
+           [--mint <pubkey,...>] [--min-claimable <tokens>]
+           [--interval <seconds>] [--retry-after <seconds>] [--state <path>]
+           [--once]
+
+Options:
+  -u, --url <url>        Cluster URL or moniker (localnet, devnet, mainnet-beta)
+  -k, --keypair <path>   Signer keypair file (default ~/.config/solana/id.json)
+      --program-id <id>  Override the vesting program ID
+      --schedule-id <id> Which grant to act on when a beneficiary has several in
+                         one mint (default 0; create picks the next free id)
+      --initial-unlock <percent>
+                         Share unlocked at the start, before the cliff
+      --period-days <days>
+                         Release in steps every period instead of linearly
+      --milestones <day:percent,...>
+                         Release in tranches at days after the start; the
+                         percentages of the post-unlock amount add up to 100
+      --revoke-authority <pubkey|none>
+                         Who may revoke the grant (default the signer); none
+                         makes it irrevocable
+      --admin <pubkey>   For revoke, close and set-authority: the wallet that
+                         funded the schedule, when someone else holds the
+                         authority (default the signer)
+      --min-claimable <tokens>
+                         For keeper: leave schedules with less claimable than
+                         this for a later pass (default 0)
+      --interval <seconds>
+                         For keeper: time between passes (default 3600)
+      --retry-after <seconds>
+                         For keeper: wait before retrying a failed crank
+                         (default 21600)
+      --state <path>     For keeper: where to record what it has cranked
+                         (default keeper-state.json)
+      --once             For keeper: run a single pass and exit
+      --off              For allow-crank and allow-admin-transfer: take the
+                         permission back again
+      --json             Print machine-readable JSON
+  -h, --help             Show this help
+`;
+
+// Set once options are parsed so failures can be reported in the same format
+let jsonOutput = false;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: "string", short: "u" },
+      keypair: { type: "string", short: "k" },
+      "program-id": { type: "string" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+      admin: { type: "string" },
+      beneficiary: { type: "string" },
+      mint: { type: "string" },
+      amount: { type: "string" },
+      start: { type: "string" },
+      "cliff-days": { type: "string" },
+      "vesting-days": { type: "string" },
+      "schedule-id": { type: "string" },
+      "initial-unlock": { type: "string" },
+      "period-days": { type: "string" },
+      milestones: { type: "string" },
+      to: { type: "string" },
+      "revoke-authority": { type: "string" },
+      "authority-type": { type: "string" },
+      authority: { type: "string" },
+      "min-claimable": { type: "string" },
+      interval: { type: "string" },
+      "retry-after": { type: "string" },
+      state: { type: "string" },
+      once: { type: "boolean" },
+      off: { type: "boolean" },
+    },
+  });
+
+  jsonOutput = values.json ?? false;
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const ctx = createContext({
+    url: values.url,
+    keypair: values.keypair,
+    programId: values["program-id"],
+    json: values.json,
+  });
+
+  switch (command) {
+    case "create":
+      return commands.create(ctx, values);
+    case "claim":
+      return commands.claim(ctx, values);
+    case "allow-crank":
+      return commands.allowCrank(ctx, values);
+    case "allow-admin-transfer":
+      return commands.allowAdminTransfer(ctx, values);
+    case "crank":
+      return commands.crank(ctx, values);
+    case "revoke":
+      return commands.revoke(ctx, values);
+    case "close":
+      return commands.close(ctx, values);
+    case "transfer":
+      return commands.transfer(ctx, values);
+    case "set-authority":
+      return commands.setAuthority(ctx, values);
+    case "show":
+      return commands.show(ctx, values, args[0]);
+    case "list":
+      return commands.list(ctx, values);
+    case "keeper":
+      return commands.keeper(ctx, values);
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+main().catch((error) => {
+  const { kind, message, action } = translateVestingError(error);
+  if (jsonOutput) {
+    console.log(JSON.stringify({ error: { kind, message, action } }, null, 2));
+  } else {
+    console.error(`Error: ${message}`);
+    if (action) console.error(action);
+  }
+  process.exit(1);
+});
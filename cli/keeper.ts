@@ -0,0 +1,310 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import {
+  ClaimAllResult,
+  MintInfo,
+  SignAllTransactions,
+  VestingClient,
+  VestingInfo,
+  crankClaims,
+  fetchMintInfos,
+  parseTokenAmount,
+} from "../sdk/src";
+
+export interface KeeperConfig {
+  // Schedules are found through the admin and beneficiary memcmp fetchers
+  admins: PublicKey[];
+  beneficiaries: PublicKey[];
+  // Only crank these mints; every mint when empty
+  mints: PublicKey[];
+  // Whole tokens of each schedule's mint; schedules with less claimable are
+  // left for a later pass
+  minClaimable: string;
+  // Seconds before a schedule whose crank failed is tried again
+  retryAfter: number;
+  // Cap on cranks per transaction; by default as many as fit
+  maxPerTransaction?: number;
+}
+
+/**
+ * What the keeper has done for one schedule
+ */
+export interface ScheduleRecord {
+  beneficiary: string;
+  mint: string;
+  // Base units, summed over successful cranks. Each is the amount claimable
+  // when the crank was built, so it can undercount slightly.
+  totalCranked: string;
+  cranks: number;
+  // Unix seconds
+  lastAttempt: number;
+  lastSignature?: string;
+  lastError?: string;
+  // Failed attempts since the last success
+  failures: number;
+}
+
+export interface KeeperState {
+  version: number;
+  // Unix seconds of the last completed pass
+  lastRun: number | null;
+  // Keyed by schedule address
+  schedules: Record<string, ScheduleRecord>;
+}
+
+export interface KeeperPass {
+  state: KeeperState;
+  // Schedules found by the scan, before the threshold
+  scanned: number;
+  // One per schedule cranked
+  results: ClaimAllResult[];
+  mints: Record<string, MintInfo>;
+}
+
+export interface KeeperOptions {
+  stateFile: string;
+  // Seconds between passes
+  interval: number;
+  // Run a single pass and return
+  once?: boolean;
+  onPass?: (pass: KeeperPass) => void;
+  // A failed pass is reported and retried on the next interval, except with
+  // `once`, where it's thrown
+  onError?: (error: unknown) => void;
+}
+
+const STATE_VERSION = 1;
+
+export function emptyKeeperState(): KeeperState {
+  return { version: STATE_VERSION, lastRun: null, schedules: {} };
+}
+
+/**
+ * Read the keeper's record, or start a fresh one if the file doesn't exist
+ */
+export function loadKeeperState(file: string): KeeperState {
+  if (!fs.existsSync(file)) {
+    return emptyKeeperState();
+  }
+
+  let state: KeeperState;
+  try {
+    state = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch {
+    throw new Error(`Keeper state file is not valid JSON: ${file}`);
+  }
+  if (state?.version !== STATE_VERSION) {
+    throw new Error(`Unsupported keeper state version in ${file}`);
+  }
+  return state;
+}
+
+/**
+ * Write the record through a temporary file, so stopping mid-write can't
+ * leave a truncated one behind
+ */
+export function saveKeeperState(file: string, state: KeeperState) {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  const temporary = `${file}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(state, null, 2));
+  fs.renameSync(temporary, file);
+}
+
+/**
+ * Schedules worth cranking: allowed by their beneficiary, at least their
+ * mint's threshold claimable, and not waiting out the retry delay after a
+ * failed crank. Mints without a threshold are left alone.
+ */
+export function selectSchedules(
+  schedules: VestingInfo[],
+  thresholds: Record<string, BN>,
+  state: KeeperState,
+  retryAfter: number,
+  now: number
+): VestingInfo[] {
+  return schedules.filter(({ publicKey, account, claimableAmount }) => {
+    const threshold = thresholds[account.mint.toBase58()];
+    if (
+      !account.allowCrank ||
+      !threshold ||
+      claimableAmount.isZero() ||
+      claimableAmount.lt(threshold)
+    ) {
+      return false;
+    }
+
+    const record = state.schedules[publicKey.toBase58()];
+    return (
+      !record || record.failures === 0 || now - record.lastAttempt >= retryAfter
+    );
+  });
+}
+
+/**
+ * Fold a pass's crank results into the record. Results line up with the
+ * schedules they were built from.
+ */
+export function recordResults(
+  state: KeeperState,
+  schedules: VestingInfo[],
+  results: ClaimAllResult[],
+  now: number
+): KeeperState {
+  const records = { ...state.schedules };
+
+  results.forEach((result, index) => {
+    const { account } = schedules[index];
+    const previous = records[result.schedule] ?? {
+      beneficiary: account.beneficiary.toBase58(),
+      mint: result.mint,
+      totalCranked: "0",
+      cranks: 0,
+      lastAttempt: now,
+      failures: 0,
+    };
+
+    records[result.schedule] =
+      result.status === "success"
+        ? {
+            ...previous,
+            totalCranked: new BN(previous.totalCranked)
+              .add(result.amount)
+              .toString(),
+            cranks: previous.cranks + 1,
+            lastAttempt: now,
+            lastSignature: result.signature,
+            lastError: undefined,
+            failures: 0,
+          }
+        : {
+            ...previous,
+            lastAttempt: now,
+            lastSignature: result.signature,
+            lastError: result.error,
+            failures: previous.failures + 1,
+          };
+  });
+
+  return { ...state, lastRun: now, schedules: records };
+}
+
+/**
+ * Scan for schedules, crank the ones over the threshold with the client's
+ * wallet paying, and return the updated record
+ */
+export async function runKeeperPass(
+  client: VestingClient,
+  signAllTransactions: SignAllTransactions,
+  config: KeeperConfig,
+  state: KeeperState,
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<KeeperPass> {
+  const found = await Promise.all([
+    ...config.admins.map((admin) =>
+      client.fetchVestingSchedulesForAdmin(admin)
+    ),
+    ...config.beneficiaries.map((beneficiary) =>
+      client.fetchVestingSchedulesForBeneficiary(beneficiary)
+    ),
+  ]);
+
+  // A schedule can turn up under both its admin and its beneficiary
+  const unique = new Map<string, VestingInfo>();
+  for (const info of found.flat()) {
+    if (
+      config.mints.length === 0 ||
+      config.mints.some((mint) => mint.equals(info.account.mint))
+    ) {
+      unique.set(info.publicKey.toBase58(), info);
+    }
+  }
+  const scanned = [...unique.values()];
+
+  const mints = await fetchMintInfos(
+    client.provider.connection,
+    scanned.map(({ account }) => account.mint)
+  );
+  const thresholds = Object.fromEntries(
+    Object.entries(mints).map(([mint, { decimals }]) => [
+      mint,
+      parseTokenAmount(config.minClaimable, decimals),
+    ])
+  );
+
+  const due = selectSchedules(
+    scanned,
+    thresholds,
+    state,
+    config.retryAfter,
+    now
+  );
+  const results =
+    due.length > 0
+      ? await crankClaims(
+          client.program,
+          client.walletPublicKey,
+          due,
+          signAllTransactions,
+          { maxPerTransaction: config.maxPerTransaction }
+        )
+      : [];
+
+  return {
+    state: recordResults(state, due, results, now),
+    scanned: scanned.length,
+    results,
+    mints,
+  };
+}
+
+/**
+ * Run keeper passes every interval until the process is interrupted,
+ * persisting the record after each one
+ */
+export async function runKeeper(
+  client: VestingClient,
+  signAllTransactions: SignAllTransactions,
+  config: KeeperConfig,
+  options: KeeperOptions
+): Promise<void> {
+  let stopping = false;
+  let wake = () => {};
+  const stop = () => {
+    stopping = true;
+    wake();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  try {
+    while (!stopping) {
+      try {
+        const pass = await runKeeperPass(
+          client,
+          signAllTransactions,
+          config,
+          loadKeeperState(options.stateFile)
+        );
+        saveKeeperState(options.stateFile, pass.state);
+        options.onPass?.(pass);
+      } catch (error) {
+        if (options.once) throw error;
+        options.onError?.(error);
+      }
+      if (options.once || stopping) return;
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, options.interval * 1000);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  } finally {
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+  }
+}
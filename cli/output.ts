@@ -0,0 +1,93 @@
+import { BN } from "@coral-xyz/anchor";
+import {
+  MintInfo,
+  VESTING_STATUS_LABELS,
+  VestingInfo,
+  describeRelease,
+  formatTokenAmount,
+  getCurveKind,
+  getVestingStatus,
+} from "../sdk/src";
+
+/**
+ * Plain-object view of a schedule for `--json` output. Amounts are raw base
+ * units as strings so they survive JSON without losing precision.
+ */
+export function scheduleToJson(info: VestingInfo, mintInfo: MintInfo) {
+  const { account } = info;
+  const now = Math.floor(Date.now() / 1000);
+
+  return {
+    address: info.publicKey.toBase58(),
+    admin: account.admin.toBase58(),
+    authority: account.authority.toBase58(),
+    revokeAuthority: account.revokeAuthority?.toBase58() ?? null,
+    allowCrank: account.allowCrank,
+    allowAdminTransfer: account.allowAdminTransfer,
+    beneficiary: account.beneficiary.toBase58(),
+    mint: account.mint.toBase58(),
+    scheduleId: account.scheduleId.toString(),
+    curve: getCurveKind(account.curve),
+    periodSeconds: account.curve.periodic?.period.toNumber() ?? null,
+    milestones:
+      account.curve.milestones?.milestones.map(({ offset, bps }) => ({
+        offsetSeconds: offset.toNumber(),
+        bps,
+      })) ?? null,
+    initialUnlockBps: account.initialUnlockBps,
+    decimals: mintInfo.decimals,
+    symbol: mintInfo.symbol ?? null,
+    status: getVestingStatus(account, now),
+    totalAmount: account.totalAmount.toString(),
+    claimedAmount: account.claimedAmount.toString(),
+    vestedAmount: info.vestedAmount.toString(),
+    claimableAmount: info.claimableAmount.toString(),
+    revokedAmount: account.revokedAmount.toString(),
+    percentVested: info.percentVested,
+    startTime: new Date(account.startTime.toNumber() * 1000).toISOString(),
+    cliffEnd: info.cliffEnd.toISOString(),
+    vestingEnd: info.vestingEnd.toISOString(),
+  };
+}
+
+export function formatSchedule(info: VestingInfo, mintInfo: MintInfo): string {
+  const { account } = info;
+  const now = Math.floor(Date.now() / 1000);
+  const suffix = mintInfo.symbol ? ` ${mintInfo.symbol}` : "";
+  const amount = (value: BN) =>
+    formatTokenAmount(value, mintInfo.decimals) + suffix;
+
+  const rows: [string, string][] = [
+    ["Schedule", info.publicKey.toBase58()],
+    ["Status", VESTING_STATUS_LABELS[getVestingStatus(account, now)]],
+    ["Admin", account.admin.toBase58()],
+    ["Authority", account.authority.toBase58()],
+    ["Revocable by", account.revokeAuthority?.toBase58() ?? "No one"],
+    ["Beneficiary", account.beneficiary.toBase58()],
+    ["Crank", account.allowCrank ? "Anyone can claim" : "Beneficiary only"],
+    [
+      "Movable by",
+      account.allowAdminTransfer && account.revokeAuthority
+        ? "Beneficiary or admin authority"
+        : "Beneficiary only",
+    ],
+    ["Mint", account.mint.toBase58()],
+    ["Schedule ID", account.scheduleId.toString()],
+    ["Total", amount(account.totalAmount)],
+    ["Vested", `${amount(info.vestedAmount)} (${info.percentVested}%)`],
+    ["Claimed", amount(account.claimedAmount)],
+    ["Claimable", amount(info.claimableAmount)],
+    ["Start", new Date(account.startTime.toNumber() * 1000).toISOString()],
+    ["Cliff end", info.cliffEnd.toISOString()],
+    ["Vesting end", info.vestingEnd.toISOString()],
+    ["Release", describeRelease(account)],
+  ];
+  if (account.isRevoked) {
+    rows.push(["Revoked", amount(account.revokedAmount)]);
+  }
+
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return rows
+    .map(([label, value]) => `${label.padEnd(width)}  ${value}`)
+    .join("\n");
+}
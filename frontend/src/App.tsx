@@ -2,12 +2,37 @@ import { FC, useState } from 'react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
 import { Toaster } from 'react-hot-toast';
 import { CreateVesting } from './components/CreateVesting';
+import { BulkCreateVesting } from './components/BulkCreateVesting';
+import { ClusterSelector } from './components/ClusterSelector';
+import { ProgramStatusBanner } from './components/ProgramStatusBanner';
+import { SharedScheduleView } from './components/SharedScheduleView';
 import { VestingDashboard } from './components/VestingDashboard';
+import { VestingSimulator } from './components/VestingSimulator';
+import { VestingStatement } from './components/VestingStatement';
+import { useRoute } from './hooks/useRoute';
 
-type ViewType = 'dashboard' | 'create';
+type ViewType = 'dashboard' | 'create' | 'bulk' | 'simulate' | 'statement';
+
+interface CreatePrefill {
+  beneficiary: string;
+  mint: string;
+}
 
 const App: FC = () => {
   const [currentView, setCurrentView] = useState<ViewType>('dashboard');
+  const [createPrefill, setCreatePrefill] = useState<CreatePrefill>();
+  const { route, navigate } = useRoute();
+
+  // Leaving a shared schedule or wallet page goes back to the app's own URL
+  const showView = (view: ViewType) => {
+    if (route.kind !== 'app') navigate('/');
+    setCurrentView(view);
+  };
+
+  const openCreate = (prefill?: CreatePrefill) => {
+    setCreatePrefill(prefill);
+    showView('create');
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
@@ -15,7 +40,7 @@ const App: FC = () => {
       <Toaster position="top-right" />
       
       {/* Navigation */}
-      <nav className="bg-white shadow-sm border-b border-gray-200">
+      <nav className="bg-white shadow-sm border-b border-gray-200 print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-16">
             {/* Logo */}
@@ -29,9 +54,9 @@ const App: FC = () => {
             {/* Navigation Links */}
             <div className="flex items-center gap-4">
               <button
-                onClick={() => setCurrentView('dashboard')}
+                onClick={() => showView('dashboard')}
                 className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                  currentView === 'dashboard'
+                  route.kind === 'app' && currentView === 'dashboard'
                     ? 'bg-purple-100 text-purple-700'
                     : 'text-gray-600 hover:bg-gray-100'
                 }`}
@@ -39,36 +64,92 @@ const App: FC = () => {
                 Dashboard
               </button>
               <button
-                onClick={() => setCurrentView('create')}
+                onClick={() => openCreate()}
                 className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                  currentView === 'create'
+                  route.kind === 'app' && currentView === 'create'
                     ? 'bg-purple-100 text-purple-700'
                     : 'text-gray-600 hover:bg-gray-100'
                 }`}
               >
                 Create Vesting
               </button>
-              
+              <button
+                onClick={() => showView('bulk')}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  route.kind === 'app' && currentView === 'bulk'
+                    ? 'bg-purple-100 text-purple-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                Bulk Create
+              </button>
+              <button
+                onClick={() => showView('simulate')}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  route.kind === 'app' && currentView === 'simulate'
+                    ? 'bg-purple-100 text-purple-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                Simulator
+              </button>
+              <button
+                onClick={() => showView('statement')}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  route.kind === 'app' && currentView === 'statement'
+                    ? 'bg-purple-100 text-purple-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                Statements
+              </button>
+
+              <ClusterSelector />
+
               {/* Wallet Button */}
               <WalletMultiButton className="!bg-gradient-to-r !from-purple-600 !to-blue-600 !rounded-lg" />
             </div>
           </div>
         </div>
       </nav>
+      <div className="print:hidden">
+        <ProgramStatusBanner />
+      </div>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {currentView === 'dashboard' ? (
-          <VestingDashboard />
-        ) : (
+        {route.kind !== 'app' ? (
+          <SharedScheduleView key={`${route.kind}:${route.address}`} route={route} />
+        ) : currentView === 'dashboard' ? (
+          <VestingDashboard
+            onAddGrant={(beneficiary, mint) => openCreate({ beneficiary, mint })}
+            onViewWallet={(address) => navigate(`/wallet/${address}`)}
+          />
+        ) : currentView === 'create' ? (
           <div className="max-w-2xl mx-auto">
-            <CreateVesting onSuccess={() => setCurrentView('dashboard')} />
+            <CreateVesting
+              key={createPrefill ? `${createPrefill.beneficiary}:${createPrefill.mint}` : 'new'}
+              initialValues={createPrefill}
+              onSuccess={() => setCurrentView('dashboard')}
+            />
+          </div>
+        ) : currentView === 'bulk' ? (
+          <div className="max-w-4xl mx-auto">
+            <BulkCreateVesting />
+          </div>
+        ) : currentView === 'simulate' ? (
+          <div className="max-w-5xl mx-auto">
+            <VestingSimulator />
+          </div>
+        ) : (
+          <div className="max-w-5xl mx-auto">
+            <VestingStatement />
           </div>
         )}
       </main>
 
       {/* Footer */}
-      <footer className="bg-white border-t border-gray-200 mt-auto">
+      <footer className="bg-white border-t border-gray-200 mt-auto print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           <div className="flex justify-between items-center text-sm text-gray-500">
             <p>Token Vesting Protocol on Solana</p>
@@ -0,0 +1,180 @@
+import { FC, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { useVesting } from '../hooks/useVesting';
+import {
+  Allocation,
+  BatchRowResult,
+  BatchRowStatus,
+  parseAllocationFile,
+  shortenAddress,
+} from '../utils/program';
+
+const STATUS_STYLES: Record<BatchRowStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  invalid: 'bg-red-100 text-red-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-yellow-100 text-yellow-800',
+  conflict: 'bg-orange-100 text-orange-800',
+  success: 'bg-green-100 text-green-800',
+};
+
+export const BulkCreateVesting: FC = () => {
+  const { publicKey } = useWallet();
+  const { createBatch, loading } = useVesting();
+
+  const [mint, setMint] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [allocations, setAllocations] = useState<Allocation[]>([]);
+  const [results, setResults] = useState<BatchRowResult[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setResults([]);
+    try {
+      const contents = await file.text();
+      const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      setAllocations(parseAllocationFile(contents, format));
+      setParseError(null);
+    } catch (error: any) {
+      setAllocations([]);
+      setParseError(error?.message || 'Could not read allocation file');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!publicKey || allocations.length === 0) return;
+
+    const batchResults = await createBatch(mint, allocations, setResults);
+    if (batchResults) {
+      setResults(batchResults);
+    }
+  };
+
+  if (!publicKey) {
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+        <p className="text-yellow-800">Please connect your wallet to create vesting schedules.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2">Bulk Create Vesting Schedules</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Upload a CSV or JSON file with <code>beneficiary</code>, <code>amount</code>, <code>start</code>,{' '}
+        <code>cliff_days</code> and <code>vesting_days</code> for each grant, plus an optional{' '}
+        <code>schedule_id</code> for additional grants to the same beneficiary. Rows that already have a
+        schedule are skipped, so an interrupted upload can simply be run again; a row whose schedule id is
+        already taken by a different grant is reported as a conflict.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Token Mint */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Token Mint Address
+          </label>
+          <input
+            type="text"
+            value={mint}
+            onChange={(e) => setMint(e.target.value)}
+            placeholder="Enter SPL token mint address"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            required
+          />
+        </div>
+
+        {/* Allocation File */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Allocation File
+          </label>
+          <input
+            type="file"
+            accept=".csv,.json"
+            onChange={handleFile}
+            className="w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-purple-100 file:text-purple-700 hover:file:bg-purple-200"
+          />
+          {fileName && !parseError && (
+            <p className="text-xs text-gray-500 mt-1">
+              {fileName}: {allocations.length} rows
+            </p>
+          )}
+          {parseError && <p className="text-xs text-red-600 mt-1">{parseError}</p>}
+        </div>
+
+        {/* Rows */}
+        {allocations.length > 0 && (
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-500">
+                <tr>
+                  <th className="px-3 py-2 text-left">#</th>
+                  <th className="px-3 py-2 text-left">Beneficiary</th>
+                  <th className="px-3 py-2 text-right">Amount</th>
+                  <th className="px-3 py-2 text-left">Start</th>
+                  <th className="px-3 py-2 text-right">Cliff</th>
+                  <th className="px-3 py-2 text-right">Vesting</th>
+                  <th className="px-3 py-2 text-left">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {allocations.map((allocation, index) => {
+                  const result = results[index];
+                  return (
+                    <tr key={index}>
+                      <td className="px-3 py-2 text-gray-400">{index + 1}</td>
+                      <td className="px-3 py-2 font-mono">
+                        {allocation.beneficiary.length > 12
+                          ? shortenAddress(allocation.beneficiary)
+                          : allocation.beneficiary}
+                      </td>
+                      <td className="px-3 py-2 text-right">{allocation.amount}</td>
+                      <td className="px-3 py-2">{allocation.start}</td>
+                      <td className="px-3 py-2 text-right">{allocation.cliffDays}d</td>
+                      <td className="px-3 py-2 text-right">{allocation.vestingDays}d</td>
+                      <td className="px-3 py-2">
+                        {result ? (
+                          <div>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[result.status]}`}>
+                              {result.status}
+                            </span>
+                            {result.signature && (
+                              <p className="text-xs text-gray-400 font-mono mt-1">
+                                {shortenAddress(result.signature, 6)}
+                              </p>
+                            )}
+                            {result.errors.map((error) => (
+                              <p key={error} className="text-xs text-red-600 mt-1">{error}</p>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-xs text-gray-400">Ready</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Submit */}
+        <button
+          type="submit"
+          disabled={loading || allocations.length === 0}
+          className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-6 rounded-lg font-semibold hover:from-purple-700 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {loading ? 'Creating...' : `Create ${allocations.length} Vesting Schedules`}
+        </button>
+      </form>
+    </div>
+  );
+};
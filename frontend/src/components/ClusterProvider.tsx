@@ -0,0 +1,40 @@
+import { FC, ReactNode, createContext, useCallback, useMemo, useState } from 'react';
+import {
+  Cluster,
+  ClusterSelection,
+  clusterFromLink,
+  loadClusterSelection,
+  resolveCluster,
+  saveClusterSelection,
+} from '../utils/cluster';
+
+export interface ClusterContextState {
+  cluster: Cluster;
+  selection: ClusterSelection;
+  // Switch clusters and remember the choice; throws if a custom one is invalid
+  selectCluster: (selection: ClusterSelection) => void;
+}
+
+export const ClusterContext = createContext<ClusterContextState | null>(null);
+
+interface Props {
+  children: ReactNode;
+}
+
+export const ClusterProvider: FC<Props> = ({ children }) => {
+  // A shared link's cluster applies to this visit only; it isn't saved
+  const [selection, setSelection] = useState(() => clusterFromLink(window.location.search) ?? loadClusterSelection());
+
+  const selectCluster = useCallback((next: ClusterSelection) => {
+    resolveCluster(next);
+    saveClusterSelection(next);
+    setSelection(next);
+  }, []);
+
+  const value = useMemo(
+    () => ({ cluster: resolveCluster(selection), selection, selectCluster }),
+    [selection, selectCluster]
+  );
+
+  return <ClusterContext.Provider value={value}>{children}</ClusterContext.Provider>;
+};
@@ -0,0 +1,97 @@
+import { FC, useState } from 'react';
+import { useCluster } from '../hooks/useCluster';
+import { CLUSTER_LABELS, ClusterName } from '../utils/cluster';
+
+/**
+ * Cluster picker for the navigation bar; a custom RPC takes an endpoint and
+ * program ID before it's applied
+ */
+export const ClusterSelector: FC = () => {
+  const { selection, selectCluster } = useCluster();
+  const [editingCustom, setEditingCustom] = useState(false);
+  const [customEndpoint, setCustomEndpoint] = useState(selection.customEndpoint ?? '');
+  const [customProgramId, setCustomProgramId] = useState(selection.customProgramId ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSelect = (name: ClusterName) => {
+    setError(null);
+    if (name === 'custom') {
+      setEditingCustom(true);
+      return;
+    }
+    setEditingCustom(false);
+    // Keep the custom values around for switching back
+    selectCluster({ ...selection, name });
+  };
+
+  const applyCustom = () => {
+    try {
+      selectCluster({ name: 'custom', customEndpoint, customProgramId });
+      setEditingCustom(false);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <select
+        aria-label="Cluster"
+        value={editingCustom ? 'custom' : selection.name}
+        onChange={(e) => handleSelect(e.target.value as ClusterName)}
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white"
+      >
+        {(Object.keys(CLUSTER_LABELS) as ClusterName[]).map((name) => (
+          <option key={name} value={name}>
+            {CLUSTER_LABELS[name]}
+          </option>
+        ))}
+      </select>
+
+      {editingCustom && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-lg shadow-lg p-4 space-y-3 z-10">
+          <label className="block text-sm text-gray-700">
+            RPC URL
+            <input
+              type="url"
+              value={customEndpoint}
+              onChange={(e) => setCustomEndpoint(e.target.value)}
+              placeholder="https://..."
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Program ID <span className="text-gray-400">(optional)</span>
+            <input
+              type="text"
+              value={customProgramId}
+              onChange={(e) => setCustomProgramId(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs"
+            />
+          </label>
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setEditingCustom(false);
+                setError(null);
+              }}
+              className="px-3 py-1 text-sm text-gray-600 rounded-lg hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={applyCustom}
+              className="px-3 py-1 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+            >
+              Connect
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,40 +1,311 @@
-import { FC, useState } from 'react';
-import { useWallet } from '@solana/wallet-adapter-react';
+import { FC, useEffect, useMemo, useState } from 'react';
+import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { BN } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import { ExportRequest, useTransactionExport } from '../hooks/useTransactionExport';
 import { useVesting } from '../hooks/useVesting';
+import { ExportTransactionPanel } from './ExportTransactionPanel';
+import { VestingTimeline } from './VestingTimeline';
+import {
+  LINEAR_RELEASE,
+  MAX_MILESTONES,
+  MintInfo,
+  VESTING_CURVE_LABELS,
+  ValidationError,
+  VestingCurveKind,
+  VestingField,
+  VestingRelease,
+  describeRelease,
+  fetchMintInfo,
+  fetchTokenBalance,
+  formatTokenAmount,
+  milestoneCurve,
+  parseTokenAmount,
+  percentToBps,
+  periodicCurve,
+  toFieldErrors,
+  validateAddress,
+  validateVestingParams,
+} from '../utils/program';
+
+type FormField =
+  | 'beneficiary'
+  | 'mint'
+  | 'amount'
+  | 'startDate'
+  | 'cliffDays'
+  | 'vestingDays'
+  | 'initialUnlock'
+  | 'curve';
+
+// Form input that shows each schedule parameter's errors. The nonce account
+// is entered when exporting, not in this form.
+const FIELD_INPUTS: Record<Exclude<VestingField, 'nonceAccount'>, FormField> = {
+  beneficiary: 'beneficiary',
+  mint: 'mint',
+  totalAmount: 'amount',
+  startTime: 'startDate',
+  cliffDuration: 'cliffDays',
+  vestingDuration: 'vestingDays',
+  initialUnlockBps: 'initialUnlock',
+  curve: 'curve',
+};
+
+interface MilestoneRow {
+  days: string;
+  percent: string;
+}
+
+// Quarterly tranches over the default one-year vesting
+const DEFAULT_MILESTONES: MilestoneRow[] = [90, 180, 270, 365].map((days) => ({
+  days: String(days),
+  percent: '25',
+}));
+
+// Stands in for the total in the preview until a valid amount is entered
+const PREVIEW_TOTAL = 1_000_000;
+
+const inputClass = (error?: ValidationError) =>
+  `w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent ${
+    error ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+// Who may revoke the grant once it's created
+type Revoker = 'me' | 'other' | 'none';
+
+const FieldError: FC<{ error?: ValidationError }> = ({ error }) =>
+  error ? <p className="text-xs text-red-600 mt-1">{error.message}</p> : null;
 
 interface Props {
   onSuccess?: () => void;
+  // Prefill for an additional grant to an existing beneficiary
+  initialValues?: { beneficiary: string; mint: string };
 }
 
-export const CreateVesting: FC<Props> = ({ onSuccess }) => {
+export const CreateVesting: FC<Props> = ({ onSuccess, initialValues }) => {
   const { publicKey } = useWallet();
-  const { create, loading } = useVesting();
+  const { connection } = useConnection();
+  const { create, loading, adminSchedules } = useVesting();
+  const { createRequest } = useTransactionExport();
   
   const [formData, setFormData] = useState({
-    beneficiary: '',
-    mint: '',
+    beneficiary: initialValues?.beneficiary ?? '',
+    mint: initialValues?.mint ?? '',
     amount: '',
     startDate: '',
     startTime: '',
     cliffDays: '90',
     vestingDays: '365',
+    initialUnlock: '0',
+    curve: 'linear' as VestingCurveKind,
+    periodDays: '30',
+    revoker: 'me' as Revoker,
+    revokeAuthority: '',
   });
+  const [milestones, setMilestones] = useState<MilestoneRow[]>(DEFAULT_MILESTONES);
+
+  const [touched, setTouched] = useState<Partial<Record<FormField, boolean>>>({});
+  const [submitted, setSubmitted] = useState(false);
+  const [mintInfo, setMintInfo] = useState<MintInfo | null>(null);
+  const [balance, setBalance] = useState<BN | null>(null);
+  const [mintLookupFailed, setMintLookupFailed] = useState(false);
+  // Funded and signed by a multisig or offline wallet instead of this one
+  const [exportMode, setExportMode] = useState(false);
+  const [exportAdmin, setExportAdmin] = useState('');
+  const [exportRequest, setExportRequest] = useState<ExportRequest | null>(null);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Look up the selected mint's decimals and the admin's balance of it
+  useEffect(() => {
+    setMintInfo(null);
+    setBalance(null);
+    setMintLookupFailed(false);
+    if (!publicKey || validateAddress(formData.mint, 'mint')) return;
+
+    let cancelled = false;
+    const mint = new PublicKey(formData.mint);
+    Promise.all([fetchMintInfo(connection, mint), fetchTokenBalance(connection, publicKey, mint)])
+      .then(([info, amount]) => {
+        if (cancelled) return;
+        setMintInfo(info);
+        setBalance(amount);
+      })
+      .catch(() => {
+        if (!cancelled) setMintLookupFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, publicKey, formData.mint]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const name =
+      e.target.name === 'startTime' ? 'startDate' : e.target.name === 'periodDays' ? 'curve' : e.target.name;
+    setTouched(prev => ({ ...prev, [name]: true }));
+  };
+
+  // Until the mint loads, parse at the typed precision so the amount is still checked
+  const amountDecimals = formData.amount.split('.')[1]?.length ?? 0;
+  const totalAmount = useMemo(
+    () =>
+      /^\d+(\.\d+)?$/.test(formData.amount)
+        ? parseTokenAmount(formData.amount, mintInfo?.decimals ?? amountDecimals)
+        : new BN(0),
+    [formData.amount, mintInfo, amountDecimals]
+  );
+
+  const updateMilestone = (index: number, row: Partial<MilestoneRow>) =>
+    setMilestones((prev) => prev.map((milestone, i) => (i === index ? { ...milestone, ...row } : milestone)));
+
+  // The release the form describes; unparseable numbers become 0 and fail validation
+  const release = useMemo((): VestingRelease => {
+    const initialUnlockBps = percentToBps(Number(formData.initialUnlock || 0));
+    const days = (value: string) => Math.round(Number(value || 0) * 86400) || 0;
+
+    if (formData.curve === 'periodic') {
+      return { initialUnlockBps, curve: periodicCurve(days(formData.periodDays)) };
+    }
+    if (formData.curve === 'milestones') {
+      return {
+        initialUnlockBps,
+        curve: milestoneCurve(
+          milestones.map((row) => ({ offset: days(row.days), bps: percentToBps(Number(row.percent || 0)) }))
+        ),
+      };
+    }
+    return { ...LINEAR_RELEASE, initialUnlockBps };
+  }, [formData.curve, formData.initialUnlock, formData.periodDays, milestones]);
+
+  const startTimestamp = useMemo(() => {
+    const startDateTime = new Date(`${formData.startDate}T${formData.startTime || '00:00'}`);
+    return Number.isNaN(startDateTime.getTime()) ? 0 : Math.floor(startDateTime.getTime() / 1000);
+  }, [formData.startDate, formData.startTime]);
+
+  // Same rules the program enforces, checked before anything is signed
+  const errors = useMemo(() => {
+    const list: ValidationError[] = [];
+    const beneficiaryError = validateAddress(formData.beneficiary, 'beneficiary');
+    const mintError = validateAddress(formData.mint, 'mint');
+    if (beneficiaryError) list.push(beneficiaryError);
+    if (mintError) list.push(mintError);
+    if (!mintError && mintLookupFailed) {
+      list.push({ field: 'mint', code: 'InvalidAddress', message: 'Not a token mint on this cluster' });
+    }
+
+    if (mintInfo && amountDecimals > mintInfo.decimals) {
+      list.push({
+        field: 'totalAmount',
+        code: 'InvalidAmount',
+        message: `This token supports at most ${mintInfo.decimals} decimal places`,
+      });
+    }
+    list.push(
+      ...validateVestingParams({
+        totalAmount,
+        startTime: startTimestamp,
+        cliffDuration: Math.round(Number(formData.cliffDays || 0) * 86400),
+        vestingDuration: Math.round(Number(formData.vestingDays || 0) * 86400),
+        ...release,
+      })
+    );
+
+    const byInput: Partial<Record<FormField, ValidationError>> = {};
+    for (const [field, error] of Object.entries(toFieldErrors(list))) {
+      byInput[FIELD_INPUTS[field as keyof typeof FIELD_INPUTS]] = error;
+    }
+    return byInput;
+  }, [formData, totalAmount, amountDecimals, mintInfo, mintLookupFailed, release, startTimestamp]);
+
+  // Preview as soon as the schedule's shape is valid. Until there's a valid amount
+  // the projection shows shares of a placeholder total instead.
+  const hasPreviewAmount = !errors.amount && totalAmount.gt(new BN(0));
+  const previewTerms = useMemo(() => {
+    if (errors.cliffDays || errors.vestingDays || errors.initialUnlock || errors.curve) return null;
+    return {
+      totalAmount: hasPreviewAmount ? totalAmount : new BN(PREVIEW_TOTAL),
+      startTime: new BN(startTimestamp || Math.floor(Date.now() / 1000)),
+      cliffDuration: new BN(Math.round(Number(formData.cliffDays || 0) * 86400)),
+      vestingDuration: new BN(Math.round(Number(formData.vestingDays || 0) * 86400)),
+      ...release,
+    };
+  }, [errors, hasPreviewAmount, totalAmount, startTimestamp, formData.cliffDays, formData.vestingDays, release]);
+
+  const formatPreviewAmount = (amount: BN) =>
+    hasPreviewAmount
+      ? `${formatTokenAmount(amount, mintInfo?.decimals ?? amountDecimals)} ${mintInfo?.symbol ?? 'tokens'}`
+      : `${+((amount.toNumber() * 100) / PREVIEW_TOTAL).toFixed(2)}%`;
+
+  // Not program rules, so kept out of the schedule parameter errors
+  const revokeAuthorityError =
+    formData.revoker === 'other' ? validateAddress(formData.revokeAuthority, 'beneficiary')?.message : undefined;
+  const exportAdminError = exportMode ? validateAddress(exportAdmin, 'beneficiary')?.message : undefined;
+
+  // Grants this wallet already gave the beneficiary in this mint
+  const existingGrants = adminSchedules.filter(
+    ({ account }) =>
+      !!publicKey?.equals(account.admin) &&
+      account.beneficiary.toBase58() === formData.beneficiary &&
+      account.mint.toBase58() === formData.mint
+  ).length;
+
+  const visibleError = (field: FormField) =>
+    submitted || touched[field] ? errors[field] : undefined;
+
+  const resetForm = () => {
+    setFormData({
+      beneficiary: '',
+      mint: '',
+      amount: '',
+      startDate: '',
+      startTime: '',
+      cliffDays: '90',
+      vestingDays: '365',
+      initialUnlock: '0',
+      curve: 'linear',
+      periodDays: '30',
+      revoker: 'me',
+      revokeAuthority: '',
+    });
+    setMilestones(DEFAULT_MILESTONES);
+    setTouched({});
+    setSubmitted(false);
+    setExportRequest(null);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!publicKey) return;
 
+    setSubmitted(true);
+    if (Object.keys(errors).length > 0 || revokeAuthorityError || exportAdminError) return;
+
     // Calculate timestamps
-    const startDateTime = new Date(`${formData.startDate}T${formData.startTime}`);
-    const startTimestamp = Math.floor(startDateTime.getTime() / 1000);
     const cliffSeconds = parseInt(formData.cliffDays) * 86400;
     const vestingSeconds = parseInt(formData.vestingDays) * 86400;
+    const revokeAuthority =
+      formData.revoker === 'me' ? undefined : formData.revoker === 'other' ? formData.revokeAuthority : null;
+
+    if (exportMode) {
+      setExportRequest(
+        createRequest({
+          admin: exportAdmin,
+          beneficiary: formData.beneficiary,
+          mint: formData.mint,
+          totalAmount: formData.amount,
+          startTime: startTimestamp,
+          cliffDuration: cliffSeconds,
+          vestingDuration: vestingSeconds,
+          release,
+          revokeAuthority,
+        })
+      );
+      return;
+    }
 
     const result = await create(
       formData.beneficiary,
@@ -43,20 +314,13 @@ export const CreateVesting: FC<Props> = ({ onSuccess }) => {
       startTimestamp,
       cliffSeconds,
       vestingSeconds,
-      9 // Assuming 9 decimals (like SOL)
+      release,
+      revokeAuthority
     );
 
     if (result && onSuccess) {
       onSuccess();
-      setFormData({
-        beneficiary: '',
-        mint: '',
-        amount: '',
-        startDate: '',
-        startTime: '',
-        cliffDays: '90',
-        vestingDays: '365',
-      });
+      resetForm();
     }
   };
 
@@ -83,10 +347,12 @@ export const CreateVesting: FC<Props> = ({ onSuccess }) => {
             name="beneficiary"
             value={formData.beneficiary}
             onChange={handleChange}
+            onBlur={handleBlur}
             placeholder="Enter beneficiary wallet address"
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            className={inputClass(visibleError('beneficiary'))}
             required
           />
+          <FieldError error={visibleError('beneficiary')} />
         </div>
 
         {/* Token Mint */}
@@ -99,10 +365,25 @@ export const CreateVesting: FC<Props> = ({ onSuccess }) => {
             name="mint"
             value={formData.mint}
             onChange={handleChange}
+            onBlur={handleBlur}
             placeholder="Enter SPL token mint address"
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            className={inputClass(visibleError('mint'))}
             required
           />
+          <FieldError error={visibleError('mint')} />
+          {existingGrants > 0 && (
+            <p className="text-xs text-blue-700 mt-1">
+              This beneficiary already has {existingGrants} grant{existingGrants === 1 ? '' : 's'} from
+              you in this token. This will be created as an additional grant.
+            </p>
+          )}
+          {mintInfo && balance && (
+            <p className="text-xs text-gray-500 mt-1">
+              {mintInfo.name ? `${mintInfo.name} · ` : ''}
+              Balance: {formatTokenAmount(balance, mintInfo.decimals)} {mintInfo.symbol ?? 'tokens'} (
+              {mintInfo.decimals} decimals)
+            </p>
+          )}
         </div>
 
         {/* Amount */}
@@ -115,10 +396,15 @@ export const CreateVesting: FC<Props> = ({ onSuccess }) => {
             name="amount"
             value={formData.amount}
             onChange={handleChange}
+            onBlur={handleBlur}
             placeholder="e.g., 1000000"
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            className={inputClass(visibleError('amount'))}
             required
           />
+          <FieldError error={visibleError('amount')} />
+          {mintInfo && balance && !errors.amount && totalAmount.gt(balance) && (
+            <p className="text-xs text-yellow-700 mt-1">Exceeds your balance of this token</p>
+          )}
         </div>
 
         {/* Start Date & Time */}
@@ -132,9 +418,11 @@ export const CreateVesting: FC<Props> = ({ onSuccess }) => {
               name="startDate"
               value={formData.startDate}
               onChange={handleChange}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              onBlur={handleBlur}
+              className={inputClass(visibleError('startDate'))}
               required
             />
+            <FieldError error={visibleError('startDate')} />
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -145,7 +433,8 @@ export const CreateVesting: FC<Props> = ({ onSuccess }) => {
               name="startTime"
               value={formData.startTime}
               onChange={handleChange}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              onBlur={handleBlur}
+              className={inputClass(visibleError('startDate'))}
               required
             />
           </div>
@@ -162,10 +451,12 @@ export const CreateVesting: FC<Props> = ({ onSuccess }) => {
               name="cliffDays"
               value={formData.cliffDays}
               onChange={handleChange}
+              onBlur={handleBlur}
               min="0"
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              className={inputClass(visibleError('cliffDays'))}
               required
             />
+            <FieldError error={visibleError('cliffDays')} />
             <p className="text-xs text-gray-500 mt-1">Must be ≤50% of vesting</p>
           </div>
           <div>
@@ -177,24 +468,228 @@ export const CreateVesting: FC<Props> = ({ onSuccess }) => {
               name="vestingDays"
               value={formData.vestingDays}
               onChange={handleChange}
+              onBlur={handleBlur}
               min="1"
               max="3650"
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              className={inputClass(visibleError('vestingDays'))}
               required
             />
+            <FieldError error={visibleError('vestingDays')} />
             <p className="text-xs text-gray-500 mt-1">Min 1 day, max 10 years</p>
           </div>
         </div>
 
+        {/* Release curve */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Release
+            </label>
+            <select
+              name="curve"
+              value={formData.curve}
+              onChange={handleChange}
+              className={inputClass(visibleError('curve'))}
+            >
+              {(Object.keys(VESTING_CURVE_LABELS) as VestingCurveKind[]).map((kind) => (
+                <option key={kind} value={kind}>
+                  {VESTING_CURVE_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Initial Unlock (%)
+            </label>
+            <input
+              type="number"
+              name="initialUnlock"
+              value={formData.initialUnlock}
+              onChange={handleChange}
+              onBlur={handleBlur}
+              min="0"
+              max="100"
+              step="any"
+              className={inputClass(visibleError('initialUnlock'))}
+            />
+            <FieldError error={visibleError('initialUnlock')} />
+            <p className="text-xs text-gray-500 mt-1">Unlocked at the start, before the cliff</p>
+          </div>
+        </div>
+
+        {formData.curve === 'periodic' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Release Every (days)
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                name="periodDays"
+                value={formData.periodDays}
+                onChange={handleChange}
+                onBlur={handleBlur}
+                min="1"
+                className={inputClass(visibleError('curve'))}
+              />
+              {[
+                ['Monthly', '30'],
+                ['Quarterly', '90'],
+              ].map(([label, days]) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => setFormData((prev) => ({ ...prev, periodDays: days }))}
+                  className="px-3 py-2 text-sm bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {formData.curve === 'milestones' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Milestones (days after start, % of the rest)
+            </label>
+            <div className="space-y-2">
+              {milestones.map((row, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <input
+                    type="number"
+                    value={row.days}
+                    onChange={(e) => updateMilestone(index, { days: e.target.value })}
+                    min="0"
+                    placeholder="Day"
+                    className={inputClass(visibleError('curve'))}
+                  />
+                  <input
+                    type="number"
+                    value={row.percent}
+                    onChange={(e) => updateMilestone(index, { percent: e.target.value })}
+                    min="0"
+                    max="100"
+                    step="any"
+                    placeholder="%"
+                    className={inputClass(visibleError('curve'))}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setMilestones((prev) => prev.filter((_, i) => i !== index))}
+                    className="px-3 py-2 text-sm text-gray-500 hover:text-red-600"
+                    aria-label="Remove milestone"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            {milestones.length < MAX_MILESTONES && (
+              <button
+                type="button"
+                onClick={() => setMilestones((prev) => [...prev, { days: '', percent: '' }])}
+                className="mt-2 text-sm text-purple-600 hover:text-purple-800"
+              >
+                + Add milestone
+              </button>
+            )}
+          </div>
+        )}
+        <FieldError error={submitted || touched.curve || formData.curve !== 'linear' ? errors.curve : undefined} />
+
+        {/* Revoke authority */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Who Can Revoke
+          </label>
+          <select
+            name="revoker"
+            value={formData.revoker}
+            onChange={handleChange}
+            className={inputClass()}
+          >
+            <option value="me">{exportMode ? 'The multisig' : 'Me'}</option>
+            <option value="other">Another wallet</option>
+            <option value="none">No one (irrevocable)</option>
+          </select>
+          {formData.revoker === 'other' && (
+            <input
+              type="text"
+              name="revokeAuthority"
+              value={formData.revokeAuthority}
+              onChange={handleChange}
+              placeholder="Revoke authority address"
+              className={`${inputClass()} mt-2 font-mono text-sm`}
+            />
+          )}
+          {submitted && revokeAuthorityError && <p className="text-xs text-red-600 mt-1">{revokeAuthorityError}</p>}
+          {formData.revoker === 'none' && (
+            <p className="text-xs text-gray-500 mt-1">
+              No one will be able to stop this grant or take back its unvested tokens.
+            </p>
+          )}
+        </div>
+
+        {/* Preview */}
+        {previewTerms && (
+          <div className="border border-gray-100 rounded-lg p-3">
+            <p className="text-sm font-medium text-gray-700 mb-2">{describeRelease(release)}</p>
+            <VestingTimeline schedule={previewTerms} formatAmount={formatPreviewAmount} />
+          </div>
+        )}
+
+        {/* Multisig export */}
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={exportMode}
+              onChange={(e) => {
+                setExportMode(e.target.checked);
+                setExportRequest(null);
+              }}
+            />
+            Export for multisig
+          </label>
+          {exportMode && (
+            <>
+              <input
+                type="text"
+                value={exportAdmin}
+                onChange={(e) => setExportAdmin(e.target.value)}
+                placeholder="Multisig or offline wallet that funds and signs"
+                className={`${inputClass()} mt-2 font-mono text-sm`}
+              />
+              {submitted && exportAdminError && <p className="text-xs text-red-600 mt-1">{exportAdminError}</p>}
+              <p className="text-xs text-gray-500 mt-1">
+                The tokens come from this wallet, and the start time has to still be in the future when it signs.
+              </p>
+            </>
+          )}
+        </div>
+
         {/* Submit */}
         <button
           type="submit"
           disabled={loading}
           className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-6 rounded-lg font-semibold hover:from-purple-700 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
         >
-          {loading ? 'Creating...' : 'Create Vesting Schedule'}
+          {loading ? 'Creating...' : exportMode ? 'Prepare Transaction' : 'Create Vesting Schedule'}
         </button>
       </form>
+      {exportRequest && (
+        <ExportTransactionPanel
+          request={exportRequest}
+          onCancel={() => setExportRequest(null)}
+          onSubmitted={() => {
+            onSuccess?.();
+            resetForm();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,139 @@
+import { FC, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ExportRequest, useTransactionExport } from '../hooks/useTransactionExport';
+import { downloadJson } from '../utils/download';
+import { ExportedTransaction, shortenAddress, validateAddress } from '../utils/program';
+
+interface Props {
+  request: ExportRequest;
+  onCancel: () => void;
+  // Called once the signed transaction has been confirmed
+  onSubmitted?: () => void;
+}
+
+/**
+ * Exports an action as an unsigned transaction for a multisig or offline
+ * wallet, then takes the signed transaction back and submits it
+ */
+export const ExportTransactionPanel: FC<Props> = ({ request, onCancel, onSubmitted }) => {
+  const { loading, exportTransaction, submitSigned } = useTransactionExport();
+  const [nonceAccount, setNonceAccount] = useState('');
+  const [exported, setExported] = useState<ExportedTransaction | null>(null);
+  const [signed, setSigned] = useState('');
+
+  const nonceError = nonceAccount.trim() ? validateAddress(nonceAccount.trim(), 'nonceAccount')?.message : undefined;
+
+  const build = async () => {
+    setExported(await exportTransaction(request, nonceAccount.trim() || undefined));
+  };
+
+  const submit = async () => {
+    if (await submitSigned(signed)) {
+      onSubmitted?.();
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-3 border border-gray-200 rounded-lg p-3 bg-white text-sm">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="font-semibold text-gray-800">Export for multisig: {request.title}</p>
+          <p className="text-gray-500">
+            To be signed by <span className="font-mono">{shortenAddress(request.signer.toBase58())}</span>
+          </p>
+        </div>
+        <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-700">
+          Cancel
+        </button>
+      </div>
+
+      {!exported ? (
+        <>
+          <div>
+            <label className="block text-gray-700 mb-1">Durable nonce account (optional)</label>
+            <input
+              value={nonceAccount}
+              onChange={(e) => setNonceAccount(e.target.value)}
+              placeholder="Nonce account address"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+            />
+            {nonceError ? (
+              <p className="text-xs text-red-600 mt-1">{nonceError}</p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">
+                Without one, the transaction must be signed and submitted within about a minute.
+              </p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={build}
+            disabled={loading || !!nonceError}
+            className="w-full bg-gray-800 text-white py-2 px-4 rounded-lg font-semibold hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? 'Building...' : 'Build unsigned transaction'}
+          </button>
+        </>
+      ) : (
+        <>
+          <div>
+            <p className="text-gray-700 mb-1">
+              Unsigned transaction (base64), needing signatures from{' '}
+              {exported.signers.map((signer) => shortenAddress(signer)).join(', ')}
+            </p>
+            <textarea
+              readOnly
+              value={exported.transaction}
+              rows={4}
+              onFocus={(e) => e.target.select()}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs"
+            />
+            <div className="flex gap-4 mt-1">
+              <button
+                type="button"
+                onClick={() =>
+                  navigator.clipboard.writeText(exported.transaction).then(() => toast.success('Transaction copied'))
+                }
+                className="text-purple-600 hover:text-purple-800"
+              >
+                Copy
+              </button>
+              <button
+                type="button"
+                onClick={() => downloadJson(exported, 'vesting-transaction.json')}
+                className="text-purple-600 hover:text-purple-800"
+              >
+                Download with instructions
+              </button>
+            </div>
+            {exported.nonceAccount && (
+              <p className="text-xs text-gray-500 mt-1">
+                Uses durable nonce {shortenAddress(exported.nonceAccount)}, so it stays valid until that nonce is
+                used.
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">Signed transaction (base64)</label>
+            <textarea
+              value={signed}
+              onChange={(e) => setSigned(e.target.value)}
+              rows={4}
+              placeholder="Paste the transaction once every signer has signed it"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={submit}
+            disabled={loading || !signed.trim()}
+            className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-2 px-4 rounded-lg font-semibold hover:from-purple-700 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {loading ? 'Submitting...' : 'Submit signed transaction'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { FC, useEffect, useState } from 'react';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { useCluster } from '../hooks/useCluster';
+import { CLUSTER_LABELS } from '../utils/cluster';
+
+type ProgramStatus = 'checking' | 'deployed' | 'missing' | 'unreachable';
+
+/**
+ * Warns when the vesting program isn't deployed on the selected cluster, or the
+ * cluster can't be reached, since every action would fail
+ */
+export const ProgramStatusBanner: FC = () => {
+  const { connection } = useConnection();
+  const { cluster } = useCluster();
+  const [status, setStatus] = useState<ProgramStatus>('checking');
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('checking');
+    connection
+      .getAccountInfo(cluster.programId)
+      .then((account) => !cancelled && setStatus(account?.executable ? 'deployed' : 'missing'))
+      .catch(() => !cancelled && setStatus('unreachable'));
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, cluster]);
+
+  if (status === 'checking' || status === 'deployed') return null;
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 text-sm text-yellow-800">
+        {status === 'missing' ? (
+          <>
+            The vesting program <span className="font-mono">{cluster.programId.toBase58()}</span> is not deployed
+            on {CLUSTER_LABELS[cluster.name]}. Pick another cluster or set its program ID.
+          </>
+        ) : (
+          <>
+            Could not reach {CLUSTER_LABELS[cluster.name]} at{' '}
+            <span className="font-mono">{cluster.endpoint}</span>.
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
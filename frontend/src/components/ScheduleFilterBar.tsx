@@ -0,0 +1,88 @@
+import { FC } from 'react';
+import { MintInfo, VESTING_STATUS_LABELS, VestingStatus, shortenAddress } from '../utils/program';
+import { SORT_LABELS, ScheduleFilters, ScheduleLayout, ScheduleSort } from '../utils/scheduleFilters';
+
+interface Props {
+  filters: ScheduleFilters;
+  onChange: (changes: Partial<ScheduleFilters>) => void;
+  // Mints of the schedules on the current tab
+  mintAddresses: string[];
+  mints: Record<string, MintInfo>;
+}
+
+const selectClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white';
+
+export const ScheduleFilterBar: FC<Props> = ({ filters, onChange, mintAddresses, mints }) => (
+  <div className="flex flex-wrap gap-3 items-center">
+    <input
+      type="search"
+      value={filters.address ?? ''}
+      onChange={(e) => onChange({ address: e.target.value || undefined })}
+      placeholder="Beneficiary or admin address"
+      className="flex-1 min-w-[16rem] px-4 py-2 border border-gray-300 rounded-lg text-sm"
+    />
+    <select
+      aria-label="Status"
+      value={filters.status ?? ''}
+      onChange={(e) => onChange({ status: (e.target.value as VestingStatus) || undefined })}
+      className={selectClass}
+    >
+      <option value="">All statuses</option>
+      {(Object.keys(VESTING_STATUS_LABELS) as VestingStatus[]).map((status) => (
+        <option key={status} value={status}>
+          {VESTING_STATUS_LABELS[status]}
+        </option>
+      ))}
+    </select>
+    <select
+      aria-label="Mint"
+      value={filters.mint ?? ''}
+      onChange={(e) => onChange({ mint: e.target.value || undefined })}
+      className={selectClass}
+    >
+      <option value="">All mints</option>
+      {/* Keep a mint from a shared link selectable even if this wallet has none of it */}
+      {[...new Set([...mintAddresses, ...(filters.mint ? [filters.mint] : [])])].map((mint) => (
+        <option key={mint} value={mint}>
+          {mints[mint]?.symbol ?? shortenAddress(mint)}
+        </option>
+      ))}
+    </select>
+    <div className="flex items-center">
+      <select
+        aria-label="Sort by"
+        value={filters.sort}
+        onChange={(e) => onChange({ sort: e.target.value as ScheduleSort })}
+        className={`${selectClass} rounded-r-none`}
+      >
+        {(Object.keys(SORT_LABELS) as ScheduleSort[]).map((sort) => (
+          <option key={sort} value={sort}>
+            Sort: {SORT_LABELS[sort]}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => onChange({ descending: !filters.descending })}
+        aria-label={filters.descending ? 'Descending' : 'Ascending'}
+        className="px-3 py-2 border border-l-0 border-gray-300 rounded-r-lg text-sm bg-white hover:bg-gray-50"
+      >
+        {filters.descending ? '↓' : '↑'}
+      </button>
+    </div>
+    <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+      {(['cards', 'table'] as ScheduleLayout[]).map((layout) => (
+        <button
+          key={layout}
+          type="button"
+          onClick={() => onChange({ layout })}
+          className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+            filters.layout === layout ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          {layout === 'cards' ? 'Cards' : 'Table'}
+        </button>
+      ))}
+    </div>
+  </div>
+);
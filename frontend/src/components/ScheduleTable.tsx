@@ -0,0 +1,133 @@
+import { FC } from 'react';
+import { format } from 'date-fns';
+import { BN } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import {
+  MintInfo,
+  VESTING_STATUS_LABELS,
+  VestingInfo,
+  formatTokenAmount,
+  getVestingStatus,
+  holdsAuthority,
+  shortenAddress,
+} from '../utils/program';
+
+interface Props {
+  schedules: VestingInfo[];
+  mints: Record<string, MintInfo>;
+  isAdmin: boolean;
+  // Revoke and close only show on the rows whose authority this wallet holds
+  wallet: PublicKey;
+  // Lamports reclaimable by closing, keyed by schedule address
+  reclaimableRent: Record<string, number>;
+  onClaim: (schedule: VestingInfo) => Promise<void>;
+  onRevoke: (schedule: VestingInfo) => Promise<void>;
+  onClose: (schedule: VestingInfo) => Promise<void>;
+  loading: boolean;
+}
+
+/**
+ * One row per schedule with the same actions as VestingCard, for wallets with
+ * too many schedules to scan as cards
+ */
+export const ScheduleTable: FC<Props> = ({
+  schedules,
+  mints,
+  isAdmin,
+  wallet,
+  reclaimableRent,
+  onClaim,
+  onRevoke,
+  onClose,
+  loading,
+}) => {
+  const now = Math.floor(Date.now() / 1000);
+
+  const action = (info: VestingInfo) => {
+    const { account } = info;
+    const buttonClass =
+      'px-3 py-1 rounded-lg text-xs font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+    if (!isAdmin) {
+      return (
+        <button
+          onClick={() => onClaim(info)}
+          disabled={loading || info.claimableAmount.isZero()}
+          className={`${buttonClass} bg-purple-600 text-white hover:bg-purple-700`}
+        >
+          Claim
+        </button>
+      );
+    }
+    if (reclaimableRent[info.publicKey.toBase58()] !== undefined) {
+      if (!holdsAuthority(wallet, account.authority)) return null;
+      return (
+        <button
+          onClick={() => onClose(info)}
+          disabled={loading}
+          className={`${buttonClass} bg-gray-700 text-white hover:bg-gray-800`}
+        >
+          Close
+        </button>
+      );
+    }
+    if (!account.revokeAuthority) {
+      return <span className="text-xs text-gray-400">Irrevocable</span>;
+    }
+    if (!holdsAuthority(wallet, account.revokeAuthority)) return null;
+    return (
+      <button
+        onClick={() => onRevoke(info)}
+        disabled={loading || account.isRevoked || now >= info.vestingEnd.getTime() / 1000}
+        className={`${buttonClass} bg-red-500 text-white hover:bg-red-600`}
+      >
+        Revoke
+      </button>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-gray-500">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium">{isAdmin ? 'Beneficiary' : 'Admin'}</th>
+            <th className="px-4 py-2 text-left font-medium">Mint</th>
+            <th className="px-4 py-2 text-right font-medium">Total</th>
+            <th className="px-4 py-2 text-right font-medium">Claimed</th>
+            <th className="px-4 py-2 text-right font-medium">Claimable</th>
+            <th className="px-4 py-2 text-left font-medium">Ends</th>
+            <th className="px-4 py-2 text-left font-medium">Status</th>
+            <th className="px-4 py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {schedules.map((info) => {
+            const { account } = info;
+            const mintInfo = mints[account.mint.toBase58()];
+            const amount = (value: BN) => (mintInfo ? formatTokenAmount(value, mintInfo.decimals) : '…');
+            const counterparty = (isAdmin ? account.beneficiary : account.admin).toBase58();
+            return (
+              <tr key={info.publicKey.toBase58()} className="border-t border-gray-100">
+                <td className="px-4 py-2 font-mono text-xs" title={counterparty}>
+                  {shortenAddress(counterparty)}
+                  {!account.scheduleId.isZero() && (
+                    <span className="ml-1 text-gray-400">#{account.scheduleId.toString()}</span>
+                  )}
+                </td>
+                <td className="px-4 py-2" title={account.mint.toBase58()}>
+                  {mintInfo?.symbol ?? shortenAddress(account.mint.toBase58())}
+                </td>
+                <td className="px-4 py-2 text-right">{amount(account.totalAmount)}</td>
+                <td className="px-4 py-2 text-right">{amount(account.claimedAmount)}</td>
+                <td className="px-4 py-2 text-right">{amount(info.claimableAmount)}</td>
+                <td className="px-4 py-2">{format(info.vestingEnd, 'MMM d, yyyy')}</td>
+                <td className="px-4 py-2">{VESTING_STATUS_LABELS[getVestingStatus(account, now)]}</td>
+                <td className="px-4 py-2 text-right">{action(info)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { FC, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import toast from 'react-hot-toast';
+import { useCluster } from '../hooks/useCluster';
+import { SharedRoute, useReadOnlySchedules } from '../hooks/useReadOnlySchedules';
+import { useTransactionExport } from '../hooks/useTransactionExport';
+import { useVesting } from '../hooks/useVesting';
+import { VestingInfo, canTransferAsAdmin, holdsAuthority, shortenAddress } from '../utils/program';
+import { shareUrl } from '../utils/routes';
+import { ExportAction, VestingCard } from './VestingCard';
+
+interface Props {
+  route: SharedRoute;
+}
+
+/**
+ * A schedule or a wallet's schedules opened from a shared link. Anyone can
+ * view them; claim, revoke and close only show for the wallet they belong to.
+ */
+export const SharedScheduleView: FC<Props> = ({ route }) => {
+  const { publicKey } = useWallet();
+  const { cluster } = useCluster();
+  const { received, granted, mints, reclaimableRent, loading, error, refresh, fetchHistory } =
+    useReadOnlySchedules(route);
+  const {
+    claim,
+    setAllowCrank,
+    setAllowAdminTransfer,
+    revoke,
+    close,
+    transferBeneficiary,
+    loading: acting,
+  } = useVesting();
+  const { revokeRequest, closeRequest } = useTransactionExport();
+  const [showGranted, setShowGranted] = useState(false);
+
+  const schedules = showGranted ? granted : received;
+
+  // The view isn't subscribed to changes, so re-fetch after a successful action
+  const thenRefresh = (action: () => Promise<string | null>) => async () => {
+    if (await action()) await refresh();
+  };
+
+  const renderCard = (info: VestingInfo) => {
+    const { account } = info;
+    const isBeneficiary = !!publicKey?.equals(account.beneficiary);
+    const isAuthority = holdsAuthority(publicKey, account.authority);
+    const isRevokeAuthority = holdsAuthority(publicKey, account.revokeAuthority);
+    // A wallet granting to itself sees the beneficiary's side
+    const isAdmin =
+      !isBeneficiary && (!!publicKey?.equals(account.admin) || isAuthority || isRevokeAuthority);
+    // A multisig's grants are managed from its page without its keys, by
+    // exporting actions for it to sign
+    const onExport = showGranted
+      ? (action: ExportAction) => (action === 'revoke' ? revokeRequest(info) : closeRequest(info))
+      : undefined;
+    const beneficiary = account.beneficiary.toBase58();
+    const admin = account.admin.toBase58();
+    const mint = account.mint.toBase58();
+
+    return (
+      <VestingCard
+        key={info.publicKey.toBase58()}
+        schedule={info}
+        mintInfo={mints[mint]}
+        isAdmin={isAdmin || !!onExport}
+        onClaim={isBeneficiary ? thenRefresh(() => claim(admin, mint, account.scheduleId)) : undefined}
+        onRevoke={
+          isRevokeAuthority ? thenRefresh(() => revoke(admin, beneficiary, mint, account.scheduleId)) : undefined
+        }
+        onClose={isAuthority ? thenRefresh(() => close(admin, beneficiary, mint, account.scheduleId)) : undefined}
+        onTransfer={
+          isBeneficiary || canTransferAsAdmin(publicKey, account)
+            ? (newBeneficiary) =>
+                thenRefresh(() =>
+                  transferBeneficiary(admin, beneficiary, mint, account.scheduleId, newBeneficiary)
+                )()
+            : undefined
+        }
+        onAllowCrank={
+          isBeneficiary
+            ? (allowCrank) => thenRefresh(() => setAllowCrank(admin, mint, account.scheduleId, allowCrank))()
+            : undefined
+        }
+        onAllowAdminTransfer={
+          isBeneficiary
+            ? (allowAdminTransfer) =>
+                thenRefresh(() => setAllowAdminTransfer(admin, mint, account.scheduleId, allowAdminTransfer))()
+            : undefined
+        }
+        reclaimableLamports={isAdmin || onExport ? reclaimableRent[info.publicKey.toBase58()] : undefined}
+        onLoadHistory={fetchHistory}
+        onExport={onExport}
+        onExportSubmitted={refresh}
+        loading={acting}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">
+            {route.kind === 'schedule' ? 'Vesting Schedule' : 'Wallet Schedules'}
+          </h2>
+          <p className="font-mono text-sm text-gray-500 break-all">{route.address}</p>
+        </div>
+        {route.kind === 'wallet' && (
+          <button
+            onClick={() =>
+              navigator.clipboard
+                .writeText(shareUrl('wallet', route.address, cluster))
+                .then(() => toast.success('Link copied'))
+            }
+            className="px-4 py-2 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+          >
+            Copy link
+          </button>
+        )}
+      </div>
+
+      {!publicKey && !error && (
+        <p className="text-sm text-gray-500">
+          Viewing without a wallet. Connect the beneficiary's or admin's wallet to claim or manage a schedule.
+        </p>
+      )}
+
+      {route.kind === 'wallet' && !error && (
+        <div className="flex gap-2">
+          {[false, true].map((isGranted) => (
+            <button
+              key={String(isGranted)}
+              onClick={() => setShowGranted(isGranted)}
+              className={`px-6 py-3 rounded-lg font-semibold transition-all ${
+                showGranted === isGranted
+                  ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {isGranted ? `Granted (${granted.length})` : `Receiving (${received.length})`}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-800">{error}</div>
+      ) : loading ? (
+        <p className="text-gray-500">Loading schedules...</p>
+      ) : schedules.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">{schedules.map(renderCard)}</div>
+      ) : (
+        <div className="bg-gray-50 rounded-xl p-8 text-center text-gray-500">
+          {showGranted
+            ? `${shortenAddress(route.address)} hasn't granted any vesting schedules.`
+            : `${shortenAddress(route.address)} isn't receiving any vesting schedules.`}
+        </div>
+      )}
+    </div>
+  );
+};
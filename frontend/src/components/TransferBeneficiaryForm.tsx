@@ -0,0 +1,83 @@
+import { FC, FormEvent, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+
+interface Props {
+  beneficiary: PublicKey;
+  // The admin moves grants for beneficiaries who lost their keys
+  isAdmin: boolean;
+  onTransfer: (newBeneficiary: string) => Promise<void>;
+  loading?: boolean;
+}
+
+function addressError(value: string, beneficiary: PublicKey): string | null {
+  try {
+    if (new PublicKey(value).equals(beneficiary)) return 'This wallet already receives the grant.';
+  } catch {
+    return 'Enter a valid Solana address.';
+  }
+  return null;
+}
+
+/**
+ * Collapsed link that opens a form for moving a grant to another wallet
+ */
+export const TransferBeneficiaryForm: FC<Props> = ({ beneficiary, isAdmin, onTransfer, loading = false }) => {
+  const [open, setOpen] = useState(false);
+  const [address, setAddress] = useState('');
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="mt-3 text-sm text-gray-500 hover:text-gray-700"
+      >
+        {isAdmin ? 'Beneficiary lost their keys? Move this grant' : 'Move to a new wallet'}
+      </button>
+    );
+  }
+
+  const error = address.trim() ? addressError(address.trim(), beneficiary) : null;
+
+  // On success the schedule moves to a new address and this card goes away; on
+  // failure the form stays open to try again
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    onTransfer(address.trim());
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="mt-3 space-y-2"
+    >
+      <p className="text-sm text-gray-600">
+        The unclaimed remainder moves to the new wallet on the same schedule, and{' '}
+        {isAdmin ? 'the current wallet' : 'this wallet'} can no longer claim it.
+      </p>
+      <input
+        value={address}
+        onChange={(e) => setAddress(e.target.value)}
+        placeholder="New beneficiary address"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={loading || !address.trim() || !!error}
+          className="flex-1 bg-gray-800 text-white py-2 px-4 rounded-lg font-semibold hover:bg-gray-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {loading ? 'Processing...' : 'Move grant'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,204 @@
+import { FC, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { BN } from '@coral-xyz/anchor';
+import {
+  MintInfo,
+  UNLOCK_HORIZONS,
+  VESTING_STATUS_LABELS,
+  VestingInfo,
+  VestingStatus,
+  formatTokenAmount,
+  getVestingStatus,
+  shortenAddress,
+  summarizeTreasury,
+} from '../utils/program';
+
+type SortKey = 'beneficiary' | 'mint' | 'total' | 'claimed' | 'unclaimed' | 'end';
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'beneficiary', label: 'Beneficiary' },
+  { key: 'mint', label: 'Mint' },
+  { key: 'total', label: 'Total', numeric: true },
+  { key: 'claimed', label: 'Claimed', numeric: true },
+  { key: 'unclaimed', label: 'Vested, unclaimed', numeric: true },
+  { key: 'end', label: 'Ends' },
+];
+
+// Compare two schedules on a column; amounts stay BNs so large supplies sort exactly
+function compare(a: VestingInfo, b: VestingInfo, key: SortKey): number {
+  switch (key) {
+    case 'beneficiary':
+      return a.account.beneficiary.toBase58().localeCompare(b.account.beneficiary.toBase58());
+    case 'mint':
+      return a.account.mint.toBase58().localeCompare(b.account.mint.toBase58());
+    case 'total':
+      return a.account.totalAmount.cmp(b.account.totalAmount);
+    case 'claimed':
+      return a.account.claimedAmount.cmp(b.account.claimedAmount);
+    case 'unclaimed':
+      return a.claimableAmount.cmp(b.claimableAmount);
+    case 'end':
+      return a.vestingEnd.getTime() - b.vestingEnd.getTime();
+  }
+}
+
+interface Props {
+  schedules: VestingInfo[];
+  mints: Record<string, MintInfo>;
+}
+
+/**
+ * Totals per mint across every schedule an admin created, with a table of
+ * the schedules behind them
+ */
+export const TreasuryOverview: FC<Props> = ({ schedules, mints }) => {
+  const [query, setQuery] = useState('');
+  const [mintFilter, setMintFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState<VestingStatus | ''>('');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'end', descending: false });
+
+  const now = Math.floor(Date.now() / 1000);
+  const totals = useMemo(() => summarizeTreasury(schedules.map((info) => info.account)), [schedules]);
+
+  const rows = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    const filtered = schedules.filter((info) => {
+      const mint = info.account.mint.toBase58();
+      if (mintFilter && mint !== mintFilter) return false;
+      if (statusFilter && getVestingStatus(info.account, now) !== statusFilter) return false;
+      if (!search) return true;
+      const symbol = mints[mint]?.symbol?.toLowerCase() ?? '';
+      return (
+        info.account.beneficiary.toBase58().toLowerCase().includes(search) ||
+        mint.toLowerCase().includes(search) ||
+        symbol.includes(search)
+      );
+    });
+    const sign = sort.descending ? -1 : 1;
+    return filtered.sort((a, b) => sign * compare(a, b, sort.key));
+    // Statuses only change on a schedule's dates, and the schedules refresh
+    // often enough that `now` doesn't need to be a dependency
+  }, [schedules, mints, query, mintFilter, statusFilter, sort]);
+
+  const amount = (value: BN, mint: string) =>
+    mints[mint] ? formatTokenAmount(value, mints[mint].decimals) : '…';
+  const mintLabel = (mint: string) => mints[mint]?.symbol ?? shortenAddress(mint);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : false }));
+
+  return (
+    <div className="space-y-6">
+      {/* Summary tiles, one row per mint */}
+      {totals.map((mintTotals) => {
+        const { mint } = mintTotals;
+        const tiles: [string, BN][] = [
+          ['Locked in vaults', mintTotals.locked],
+          ['Vested, unclaimed', mintTotals.vestedUnclaimed],
+          ['Claimed', mintTotals.claimed],
+          ['Revoked back', mintTotals.revoked],
+          ...UNLOCK_HORIZONS.map((days): [string, BN] => [`Unlocks in ${days}d`, mintTotals.upcoming[days]]),
+        ];
+        return (
+          <div key={mint} className="bg-white rounded-xl shadow-sm border border-gray-100 p-4">
+            <div className="flex justify-between items-baseline mb-3">
+              <h3 className="font-semibold text-gray-800">
+                {mintLabel(mint)}
+                {mints[mint]?.symbol && (
+                  <span className="ml-2 font-mono text-xs text-gray-400">{shortenAddress(mint)}</span>
+                )}
+              </h3>
+              <p className="text-sm text-gray-500">
+                {mintTotals.scheduleCount} schedule{mintTotals.scheduleCount === 1 ? '' : 's'},{' '}
+                {amount(mintTotals.totalGranted, mint)} granted
+              </p>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+              {tiles.map(([label, value]) => (
+                <div key={label} className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500">{label}</p>
+                  <p className="font-semibold">{amount(value, mint)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search beneficiary or mint"
+          className="flex-1 min-w-[16rem] px-4 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <select
+          aria-label="Mint"
+          value={mintFilter}
+          onChange={(e) => setMintFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+        >
+          <option value="">All mints</option>
+          {totals.map(({ mint }) => (
+            <option key={mint} value={mint}>
+              {mintLabel(mint)}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Status"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as VestingStatus | '')}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+        >
+          <option value="">All statuses</option>
+          {(Object.keys(VESTING_STATUS_LABELS) as VestingStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {VESTING_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Schedules */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-gray-500">
+            <tr>
+              {COLUMNS.map(({ key, label, numeric }) => (
+                <th key={key} className={`px-4 py-2 font-medium ${numeric ? 'text-right' : 'text-left'}`}>
+                  <button type="button" onClick={() => toggleSort(key)} className="hover:text-gray-800">
+                    {label}
+                    {sort.key === key && (sort.descending ? ' ↓' : ' ↑')}
+                  </button>
+                </th>
+              ))}
+              <th className="px-4 py-2 text-left font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((info) => {
+              const mint = info.account.mint.toBase58();
+              return (
+                <tr key={info.publicKey.toBase58()} className="border-t border-gray-100">
+                  <td className="px-4 py-2 font-mono text-xs">
+                    {shortenAddress(info.account.beneficiary.toBase58())}
+                  </td>
+                  <td className="px-4 py-2">{mintLabel(mint)}</td>
+                  <td className="px-4 py-2 text-right">{amount(info.account.totalAmount, mint)}</td>
+                  <td className="px-4 py-2 text-right">{amount(info.account.claimedAmount, mint)}</td>
+                  <td className="px-4 py-2 text-right">{amount(info.claimableAmount, mint)}</td>
+                  <td className="px-4 py-2">{format(info.vestingEnd, 'MMM d, yyyy')}</td>
+                  <td className="px-4 py-2">{VESTING_STATUS_LABELS[getVestingStatus(info.account, now)]}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {rows.length === 0 && <p className="p-6 text-center text-sm text-gray-500">No schedules match.</p>}
+      </div>
+    </div>
+  );
+};
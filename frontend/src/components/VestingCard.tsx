@@ -1,23 +1,75 @@
 import { FC, useState, useEffect } from 'react';
 import { format } from 'date-fns';
-import { VestingInfo, formatTokenAmount, shortenAddress } from '../utils/program';
+import { BN } from '@coral-xyz/anchor';
+import { PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import toast from 'react-hot-toast';
+import { useCluster } from '../hooks/useCluster';
+import { ExportRequest } from '../hooks/useTransactionExport';
+import {
+  MintInfo,
+  VestingEvent,
+  VestingInfo,
+  describeRelease,
+  formatTokenAmount,
+  shortenAddress,
+} from '../utils/program';
+import { shareUrl } from '../utils/routes';
+import { ExportTransactionPanel } from './ExportTransactionPanel';
+import { TransferBeneficiaryForm } from './TransferBeneficiaryForm';
+import { VestingHistory } from './VestingHistory';
+import { VestingTimeline } from './VestingTimeline';
+
+export type ExportAction = 'revoke' | 'close';
 
 interface Props {
   schedule: VestingInfo;
+  // Undefined until the mint has been fetched
+  mintInfo?: MintInfo;
   isAdmin: boolean;
+  // Actions for the card's role; without them the card is read-only. Revoke and
+  // close are only passed to the wallet holding that authority.
   onClaim?: () => Promise<void>;
   onRevoke?: () => Promise<void>;
+  onAddGrant?: () => void;
+  // Set once the schedule is settled and can be closed for its rent
+  reclaimableLamports?: number;
+  onClose?: () => Promise<void>;
+  // Move the grant to another wallet, as its beneficiary or its admin authority
+  onTransfer?: (newBeneficiary: string) => Promise<void>;
+  // Let keepers claim for the beneficiary, as the beneficiary
+  onAllowCrank?: (allowCrank: boolean) => Promise<void>;
+  // Let the admin authority move the grant if the beneficiary loses their keys, as the beneficiary
+  onAllowAdminTransfer?: (allowAdminTransfer: boolean) => Promise<void>;
+  onLoadHistory?: (schedule: PublicKey) => Promise<VestingEvent[]>;
+  // Revoke or close as an unsigned transaction, for an authority that signs
+  // elsewhere such as a multisig
+  onExport?: (action: ExportAction) => ExportRequest;
+  onExportSubmitted?: () => void;
   loading?: boolean;
 }
 
 export const VestingCard: FC<Props> = ({
   schedule,
+  mintInfo,
   isAdmin,
   onClaim,
   onRevoke,
+  onAddGrant,
+  reclaimableLamports,
+  onClose,
+  onTransfer,
+  onAllowCrank,
+  onAllowAdminTransfer,
+  onLoadHistory,
+  onExport,
+  onExportSubmitted,
   loading = false,
 }) => {
   const [currentTime, setCurrentTime] = useState(Date.now());
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [exporting, setExporting] = useState<ExportAction | null>(null);
+  const { cluster } = useCluster();
   
   // Update time every second for live progress
   useEffect(() => {
@@ -36,6 +88,15 @@ export const VestingCard: FC<Props> = ({
   
   const claimableAmount = schedule.claimableAmount;
   const hasClaimable = claimableAmount.gt(schedule.claimableAmount.sub(schedule.claimableAmount));
+  const hasRemaining = account.totalAmount.sub(account.revokedAmount).gt(account.claimedAmount);
+
+  const formatAmount = (amount: BN) =>
+    mintInfo ? formatTokenAmount(amount, mintInfo.decimals) : '…';
+  const tokenLabel = mintInfo?.symbol ?? 'tokens';
+
+  const exportActions: ExportAction[] = [];
+  if (account.revokeAuthority && !account.isRevoked && !isFullyVested) exportActions.push('revoke');
+  if (reclaimableLamports !== undefined) exportActions.push('close');
 
   // Calculate time remaining
   const getTimeRemaining = () => {
@@ -72,11 +133,12 @@ export const VestingCard: FC<Props> = ({
       <div className="bg-gradient-to-r from-purple-600 to-blue-600 px-6 py-4">
         <div className="flex justify-between items-center">
           <div>
-            <h3 className="text-white font-semibold">
-              Token: {shortenAddress(account.mint.toBase58())}
+            <h3 className="text-white font-semibold" title={account.mint.toBase58()}>
+              Token: {mintInfo?.symbol ?? shortenAddress(account.mint.toBase58())}
             </h3>
             <p className="text-purple-200 text-sm">
               {isAdmin ? `To: ${shortenAddress(account.beneficiary.toBase58())}` : `From: ${shortenAddress(account.admin.toBase58())}`}
+              {!account.scheduleId.isZero() && ` · Grant #${account.scheduleId.toString()}`}
             </p>
           </div>
           <span className={`px-3 py-1 rounded-full text-xs font-semibold ${getStatusColor()}`}>
@@ -104,11 +166,11 @@ export const VestingCard: FC<Props> = ({
         <div className="grid grid-cols-2 gap-4 text-sm">
           <div>
             <span className="text-gray-500">Total Amount</span>
-            <p className="font-semibold">{formatTokenAmount(account.totalAmount)}</p>
+            <p className="font-semibold">{formatAmount(account.totalAmount)}</p>
           </div>
           <div>
             <span className="text-gray-500">Claimed</span>
-            <p className="font-semibold">{formatTokenAmount(account.claimedAmount)}</p>
+            <p className="font-semibold">{formatAmount(account.claimedAmount)}</p>
           </div>
           <div>
             <span className="text-gray-500">Cliff Ends</span>
@@ -118,51 +180,200 @@ export const VestingCard: FC<Props> = ({
             <span className="text-gray-500">Vesting Ends</span>
             <p className="font-semibold">{format(vestingEnd, 'MMM d, yyyy')}</p>
           </div>
+          <div className="col-span-2">
+            <span className="text-gray-500">Release</span>
+            <p className="font-semibold">{describeRelease(account)}</p>
+          </div>
+          <div className="col-span-2">
+            <span className="text-gray-500">Revocable by</span>
+            {account.revokeAuthority ? (
+              <p className="font-semibold font-mono" title={account.revokeAuthority.toBase58()}>
+                {shortenAddress(account.revokeAuthority.toBase58())}
+                {account.revokeAuthority.equals(account.admin) && ' (admin)'}
+              </p>
+            ) : (
+              <p className="font-semibold">No one, irrevocable</p>
+            )}
+          </div>
         </div>
 
         {/* Claimable Amount */}
-        {!isAdmin && isCliffReached && !account.isRevoked && (
+        {/* An initial unlock can be claimed during the cliff */}
+        {!isAdmin && (hasClaimable || (!account.isRevoked && isCliffReached)) && (
           <div className="mt-4 p-3 bg-green-50 rounded-lg">
             <div className="flex justify-between items-center">
               <div>
-                <span className="text-green-600 text-sm">Available to Claim</span>
+                <span className="text-green-600 text-sm">
+                  {account.isRevoked ? 'Vested Before Revoke' : 'Available to Claim'}
+                </span>
                 <p className="text-green-800 font-bold text-lg">
-                  {formatTokenAmount(claimableAmount)} tokens
+                  {formatAmount(claimableAmount)} {tokenLabel}
                 </p>
               </div>
             </div>
           </div>
         )}
-      </div>
 
-      {/* Actions */}
-      <div className="px-6 py-4 bg-gray-50">
-        {isAdmin ? (
+        <div className="mt-4 flex gap-4">
           <button
-            onClick={onRevoke}
-            disabled={loading || account.isRevoked || isFullyVested}
-            className="w-full bg-red-500 text-white py-2 px-4 rounded-lg font-semibold hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            type="button"
+            onClick={() =>
+              navigator.clipboard
+                .writeText(shareUrl('schedule', schedule.publicKey.toBase58(), cluster))
+                .then(() => toast.success('Link copied'))
+            }
+            className="text-sm text-purple-600 hover:text-purple-800"
           >
-            {account.isRevoked ? 'Already Revoked' : isFullyVested ? 'Cannot Revoke' : loading ? 'Processing...' : 'Revoke Vesting'}
+            Copy link
           </button>
-        ) : (
           <button
-            onClick={onClaim}
-            disabled={loading || !isCliffReached || account.isRevoked || claimableAmount.isZero()}
-            className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-2 px-4 rounded-lg font-semibold hover:from-purple-700 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            type="button"
+            onClick={() => setShowTimeline((shown) => !shown)}
+            className="text-sm text-purple-600 hover:text-purple-800"
           >
-            {!isCliffReached
-              ? 'Cliff Not Reached'
-              : account.isRevoked
-              ? 'Vesting Revoked'
-              : claimableAmount.isZero()
-              ? 'Nothing to Claim'
-              : loading
-              ? 'Claiming...'
-              : 'Claim Tokens'}
+            {showTimeline ? 'Hide timeline' : 'Show timeline'}
           </button>
+          {onLoadHistory && (
+            <button
+              type="button"
+              onClick={() => setShowHistory((shown) => !shown)}
+              className="text-sm text-purple-600 hover:text-purple-800"
+            >
+              {showHistory ? 'Hide history' : 'History'}
+            </button>
+          )}
+        </div>
+        {showTimeline && (
+          <div className="mt-3">
+            <VestingTimeline
+              schedule={account}
+              formatAmount={formatAmount}
+              now={Math.floor(currentTime / 1000)}
+            />
+          </div>
+        )}
+        {showHistory && onLoadHistory && (
+          <div className="mt-3">
+            <VestingHistory
+              schedule={schedule.publicKey}
+              loadHistory={onLoadHistory}
+              formatAmount={formatAmount}
+              mintInfo={mintInfo}
+            />
+          </div>
         )}
       </div>
+
+      {/* Actions */}
+      {((isAdmin ? onRevoke || onClose || onExport : onClaim) || onTransfer) && (
+        <div className="px-6 py-4 bg-gray-50">
+          {isAdmin ? (
+            <div className="flex gap-2">
+              {reclaimableLamports !== undefined && onClose ? (
+                <button
+                  onClick={onClose}
+                  disabled={loading}
+                  className="flex-1 bg-gray-700 text-white py-2 px-4 rounded-lg font-semibold hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {loading
+                    ? 'Processing...'
+                    : `Close & reclaim rent (${(reclaimableLamports / LAMPORTS_PER_SOL).toFixed(4)} SOL)`}
+                </button>
+              ) : onRevoke && account.revokeAuthority ? (
+                <button
+                  onClick={onRevoke}
+                  disabled={loading || account.isRevoked || isFullyVested}
+                  className="flex-1 bg-red-500 text-white py-2 px-4 rounded-lg font-semibold hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {account.isRevoked ? 'Already Revoked' : isFullyVested ? 'Cannot Revoke' : loading ? 'Processing...' : 'Revoke Vesting'}
+                </button>
+              ) : null}
+              {onAddGrant && (
+                <button
+                  onClick={onAddGrant}
+                  disabled={loading}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Add Grant
+                </button>
+              )}
+            </div>
+          ) : (
+            <button
+              onClick={onClaim}
+              disabled={loading || !hasClaimable}
+              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-2 px-4 rounded-lg font-semibold hover:from-purple-700 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              {account.isRevoked
+                ? !hasClaimable
+                  ? 'Vesting Revoked'
+                  : loading
+                  ? 'Claiming...'
+                  : 'Claim Remaining'
+                : !isCliffReached && !hasClaimable
+                ? 'Cliff Not Reached'
+                : claimableAmount.isZero()
+                ? 'Nothing to Claim'
+                : loading
+                ? 'Claiming...'
+                : 'Claim Tokens'}
+            </button>
+          )}
+          {isAdmin && onExport && exportActions.length > 0 && (
+            exporting ? (
+              <ExportTransactionPanel
+                request={onExport(exporting)}
+                onCancel={() => setExporting(null)}
+                onSubmitted={onExportSubmitted}
+              />
+            ) : (
+              <div className="mt-3 flex gap-4">
+                {exportActions.map((action) => (
+                  <button
+                    key={action}
+                    type="button"
+                    onClick={() => setExporting(action)}
+                    className="text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Export {action} for multisig
+                  </button>
+                ))}
+              </div>
+            )
+          )}
+          {!isAdmin && onAllowCrank && hasRemaining && (
+            <label className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={account.allowCrank}
+                disabled={loading}
+                onChange={(e) => onAllowCrank(e.target.checked)}
+              />
+              Let anyone claim vested tokens into my wallet for me
+            </label>
+          )}
+          {/* The admin can never move an irrevocable grant */}
+          {!isAdmin && onAllowAdminTransfer && hasRemaining && account.revokeAuthority && (
+            <label className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={account.allowAdminTransfer}
+                disabled={loading}
+                onChange={(e) => onAllowAdminTransfer(e.target.checked)}
+              />
+              Let the admin move this grant to a new wallet if I lose my keys
+            </label>
+          )}
+          {onTransfer && hasRemaining && (
+            <TransferBeneficiaryForm
+              beneficiary={account.beneficiary}
+              isAdmin={isAdmin}
+              onTransfer={onTransfer}
+              loading={loading}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 };
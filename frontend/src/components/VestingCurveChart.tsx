@@ -0,0 +1,141 @@
+import { FC, useMemo } from 'react';
+import { format } from 'date-fns';
+import { BN } from '@coral-xyz/anchor';
+import { VestingProgress, VestingTerms, calculateVestedAmountAt, getRevokePoint } from '../utils/program';
+
+interface Props {
+  schedule: VestingProgress;
+  // Unix seconds to mark as today; left out for schedules that don't exist yet
+  now?: number;
+}
+
+const WIDTH = 400;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 36 };
+// Enough samples for a smooth line without stalling the form on every keystroke
+const SAMPLES = 200;
+const MAX_STEPS = 400;
+
+// Times where the curve jumps, so steps are drawn as vertical edges
+function breakpoints(terms: VestingTerms): number[] {
+  const start = terms.startTime.toNumber();
+  const duration = terms.vestingDuration.toNumber();
+  const points = [start, start + terms.cliffDuration.toNumber(), start + duration];
+
+  if (terms.curve.periodic) {
+    const period = terms.curve.periodic.period.toNumber();
+    if (period > 0 && duration / period <= MAX_STEPS) {
+      for (let t = period; t < duration; t += period) points.push(start + t);
+    }
+  }
+  if (terms.curve.milestones) {
+    for (const { offset } of terms.curve.milestones.milestones) {
+      points.push(start + offset.toNumber());
+    }
+  }
+  return points;
+}
+
+/**
+ * Share of the grant vested over time, from a little before the start to the end,
+ * with the cliff, the amount claimed so far, today and any revoke marked on it
+ */
+export const VestingCurveChart: FC<Props> = ({ schedule, now }) => {
+  const { path, x, y, startTime, endTime, cliffTime, revokeTime } = useMemo(() => {
+    const start = schedule.startTime.toNumber();
+    const duration = schedule.vestingDuration.toNumber();
+    const from = start - Math.round(duration * 0.05);
+    const to = start + duration;
+    const total = schedule.totalAmount;
+    const revokeTime = getRevokePoint(schedule);
+
+    const times = new Set<number>();
+    for (let i = 0; i <= SAMPLES; i++) times.add(Math.round(from + ((to - from) * i) / SAMPLES));
+    for (const point of revokeTime === null ? breakpoints(schedule) : [...breakpoints(schedule), revokeTime]) {
+      times.add(point - 1);
+      times.add(point);
+    }
+
+    const x = (t: number) =>
+      PADDING.left + ((Math.min(Math.max(t, from), to) - from) / (to - from)) * (WIDTH - PADDING.left - PADDING.right);
+    const y = (amount: BN) => {
+      // Per-mille precision is plenty for a 160px chart and stays within a JS number
+      const share = total.isZero() ? 0 : amount.muln(1000).div(total).toNumber() / 1000;
+      return HEIGHT - PADDING.bottom - share * (HEIGHT - PADDING.top - PADDING.bottom);
+    };
+
+    const points = [...times]
+      .filter((t) => t >= from && t <= to)
+      .sort((a, b) => a - b)
+      .map((t) => `${x(t).toFixed(1)},${y(calculateVestedAmountAt(schedule, t)).toFixed(1)}`);
+
+    return {
+      path: `M${points.join('L')}`,
+      x,
+      y,
+      startTime: start,
+      endTime: to,
+      cliffTime: start + schedule.cliffDuration.toNumber(),
+      revokeTime,
+    };
+  }, [schedule]);
+
+  const baseline = HEIGHT - PADDING.bottom;
+  const claimed = schedule.claimedAmount;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Vesting preview">
+      {[0, 0.5, 1].map((share) => {
+        const lineY = baseline - share * (HEIGHT - PADDING.top - PADDING.bottom);
+        return (
+          <g key={share}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={lineY} y2={lineY} className="stroke-gray-200" />
+            <text x={PADDING.left - 4} y={lineY + 3} textAnchor="end" className="fill-gray-400 text-[9px]">
+              {share * 100}%
+            </text>
+          </g>
+        );
+      })}
+      {cliffTime > startTime && (
+        <g>
+          <line x1={x(cliffTime)} x2={x(cliffTime)} y1={PADDING.top} y2={baseline} className="stroke-yellow-500" strokeDasharray="2 3" />
+          <text x={x(cliffTime) + 3} y={PADDING.top + 8} className="fill-yellow-600 text-[9px]">
+            Cliff
+          </text>
+        </g>
+      )}
+      {claimed && !claimed.isZero() && (
+        <g>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(claimed)} y2={y(claimed)} className="stroke-green-500" strokeDasharray="4 3" />
+          <text x={WIDTH - PADDING.right} y={y(claimed) - 3} textAnchor="end" className="fill-green-600 text-[9px]">
+            Claimed
+          </text>
+        </g>
+      )}
+      <path d={path} fill="none" className="stroke-purple-600" strokeWidth={2} strokeLinejoin="round" />
+      {revokeTime !== null && (
+        <g>
+          <line x1={x(revokeTime)} x2={x(revokeTime)} y1={PADDING.top} y2={baseline} className="stroke-red-500" strokeDasharray="2 3" />
+          <text x={x(revokeTime) + 3} y={PADDING.top + 18} className="fill-red-600 text-[9px]">
+            Revoked
+          </text>
+        </g>
+      )}
+      {now !== undefined && now >= startTime && now <= endTime && (
+        <g>
+          <line x1={x(now)} x2={x(now)} y1={PADDING.top} y2={baseline} className="stroke-blue-500" />
+          <circle cx={x(now)} cy={y(calculateVestedAmountAt(schedule, now))} r={3} className="fill-blue-500" />
+          <text x={x(now) - 3} y={PADDING.top + 8} textAnchor="end" className="fill-blue-600 text-[9px]">
+            Today
+          </text>
+        </g>
+      )}
+      <text x={x(startTime)} y={HEIGHT - 6} className="fill-gray-500 text-[9px]">
+        {format(new Date(startTime * 1000), 'MMM d, yyyy')}
+      </text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[9px]">
+        {format(new Date(endTime * 1000), 'MMM d, yyyy')}
+      </text>
+    </svg>
+  );
+};
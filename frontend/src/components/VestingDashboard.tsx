@@ -1,14 +1,78 @@
-import { FC, useState } from 'react';
+import { FC, useMemo, useState } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
+import toast from 'react-hot-toast';
+import { useCluster } from '../hooks/useCluster';
+import { useScheduleFilters } from '../hooks/useScheduleFilters';
+import { useTransactionExport } from '../hooks/useTransactionExport';
 import { useVesting } from '../hooks/useVesting';
+import { ScheduleFilterBar } from './ScheduleFilterBar';
+import { ScheduleTable } from './ScheduleTable';
+import { TreasuryOverview } from './TreasuryOverview';
 import { VestingCard } from './VestingCard';
+import { downloadFile, downloadJson } from '../utils/download';
+import {
+  VestingActionError,
+  VestingInfo,
+  canTransferAsAdmin,
+  formatTokenAmount,
+  holdsAuthority,
+  scheduleToRecord,
+  schedulesToCsv,
+  shortenAddress,
+  totalClaimableByMint,
+} from '../utils/program';
+import { shareUrl } from '../utils/routes';
+import { PAGE_SIZES, applyFilters } from '../utils/scheduleFilters';
 
-type TabType = 'beneficiary' | 'admin';
+type AdminView = 'overview' | 'schedules';
 
-export const VestingDashboard: FC = () => {
+interface Props {
+  // Open the create form prefilled for another grant to the same beneficiary
+  onAddGrant?: (beneficiary: string, mint: string) => void;
+  // Open the read-only page for a wallet, for visitors without one connected
+  onViewWallet?: (address: string) => void;
+}
+
+export const VestingDashboard: FC<Props> = ({ onAddGrant, onViewWallet }) => {
   const { publicKey } = useWallet();
-  const { beneficiarySchedules, adminSchedules, claim, revoke, loading, refreshSchedules } = useVesting();
-  const [activeTab, setActiveTab] = useState<TabType>('beneficiary');
+  const { cluster } = useCluster();
+  const {
+    beneficiarySchedules,
+    adminSchedules,
+    mints,
+    reclaimableRent,
+    claim,
+    claimAll,
+    setAllowCrank,
+    setAllowAdminTransfer,
+    transferBeneficiary,
+    revoke,
+    close,
+    fetchHistory,
+    loading,
+    refreshSchedules,
+    lastError,
+    clearError,
+    isStale,
+  } = useVesting();
+  const { revokeRequest, closeRequest } = useTransactionExport();
+  const { filters, updateFilters } = useScheduleFilters();
+  const [adminView, setAdminView] = useState<AdminView>('overview');
+  const [lookup, setLookup] = useState('');
+
+  const activeTab = filters.tab;
+  const currentSchedules = activeTab === 'beneficiary' ? beneficiarySchedules : adminSchedules;
+  const filteredSchedules = useMemo(() => applyFilters(currentSchedules, filters), [currentSchedules, filters]);
+  const mintAddresses = useMemo(
+    () => [...new Set(currentSchedules.map((info) => info.account.mint.toBase58()))],
+    [currentSchedules]
+  );
+  // Across all of the wallet's schedules, whatever the filters show
+  const claimableByMint = useMemo(
+    () =>
+      Object.entries(totalClaimableByMint(beneficiarySchedules)).filter(([, amount]) => amount.gtn(0)),
+    [beneficiarySchedules]
+  );
 
   if (!publicKey) {
     return (
@@ -16,40 +80,147 @@ export const VestingDashboard: FC = () => {
         <div className="text-6xl mb-4">🔒</div>
         <h2 className="text-2xl font-bold text-gray-800 mb-2">Connect Your Wallet</h2>
         <p className="text-gray-600">Please connect your wallet to view your vesting schedules.</p>
+        {onViewWallet && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (lookup.trim()) onViewWallet(lookup.trim());
+            }}
+            className="mt-6 flex gap-2 max-w-lg mx-auto"
+          >
+            <input
+              value={lookup}
+              onChange={(e) => setLookup(e.target.value)}
+              placeholder="Or look up a wallet address"
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+            />
+            <button type="submit" className="px-4 py-2 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900">
+              View
+            </button>
+          </form>
+        )}
       </div>
     );
   }
 
-  const handleClaim = async (admin: string, mint: string) => {
-    await claim(admin, mint);
+  const handleClaim = async ({ account }: VestingInfo) => {
+    await claim(account.admin.toBase58(), account.mint.toBase58(), account.scheduleId);
   };
 
-  const handleRevoke = async (beneficiary: string, mint: string) => {
-    await revoke(beneficiary, mint);
+  const handleAllowCrank = async ({ account }: VestingInfo, allowCrank: boolean) => {
+    await setAllowCrank(account.admin.toBase58(), account.mint.toBase58(), account.scheduleId, allowCrank);
   };
 
-  const currentSchedules = activeTab === 'beneficiary' ? beneficiarySchedules : adminSchedules;
+  const handleAllowAdminTransfer = async ({ account }: VestingInfo, allowAdminTransfer: boolean) => {
+    await setAllowAdminTransfer(
+      account.admin.toBase58(),
+      account.mint.toBase58(),
+      account.scheduleId,
+      allowAdminTransfer
+    );
+  };
+
+  const handleRevoke = async ({ account }: VestingInfo) => {
+    await revoke(
+      account.admin.toBase58(),
+      account.beneficiary.toBase58(),
+      account.mint.toBase58(),
+      account.scheduleId
+    );
+  };
+
+  const handleTransfer = async ({ account }: VestingInfo, newBeneficiary: string) => {
+    await transferBeneficiary(
+      account.admin.toBase58(),
+      account.beneficiary.toBase58(),
+      account.mint.toBase58(),
+      account.scheduleId,
+      newBeneficiary
+    );
+  };
+
+  const handleClose = async ({ account }: VestingInfo) => {
+    await close(
+      account.admin.toBase58(),
+      account.beneficiary.toBase58(),
+      account.mint.toBase58(),
+      account.scheduleId
+    );
+  };
+
+  // Everything matching the filters, not just this page; amounts need the mint's decimals
+  const exportSchedules = (kind: 'csv' | 'json') => {
+    const records = filteredSchedules
+      .filter((info) => mints[info.account.mint.toBase58()])
+      .map((info) => scheduleToRecord(info, mints[info.account.mint.toBase58()]));
+    const fileName = `vesting-schedules-${activeTab}.${kind}`;
+    if (kind === 'csv') {
+      downloadFile(schedulesToCsv(records), fileName, 'text/csv');
+    } else {
+      downloadJson(records, fileName);
+    }
+  };
+
+  const pageSize = PAGE_SIZES[filters.layout];
+  const pageCount = Math.max(1, Math.ceil(filteredSchedules.length / pageSize));
+  // A shared link may point past the end of this wallet's schedules
+  const page = Math.min(filters.page, pageCount);
+  const pageSchedules = filteredSchedules.slice((page - 1) * pageSize, page * pageSize);
+  const showOverview = activeTab === 'admin' && adminView === 'overview' && adminSchedules.length > 0;
 
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex justify-between items-center">
-        <h2 className="text-2xl font-bold text-gray-800">Vesting Dashboard</h2>
-        <button
-          onClick={refreshSchedules}
-          className="flex items-center gap-2 px-4 py-2 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
-        >
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-          </svg>
-          Refresh
-        </button>
+        <div className="flex items-center gap-3">
+          <h2 className="text-2xl font-bold text-gray-800">Vesting Dashboard</h2>
+          <span
+            className={`flex items-center gap-1.5 text-xs font-medium ${isStale ? 'text-yellow-700' : 'text-green-700'}`}
+            title={isStale ? 'Not receiving updates' : 'Updates as schedules change on-chain'}
+          >
+            <span className={`w-2 h-2 rounded-full ${isStale ? 'bg-yellow-500' : 'bg-green-500'}`} />
+            {isStale ? 'Offline' : 'Live'}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() =>
+              navigator.clipboard
+                .writeText(shareUrl('wallet', publicKey.toBase58(), cluster))
+                .then(() => toast.success('Link copied'))
+            }
+            title="A read-only link to this wallet's schedules"
+            className="px-4 py-2 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Share
+          </button>
+          <button
+            onClick={refreshSchedules}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            Refresh
+          </button>
+        </div>
       </div>
 
+      {/* Lost connection */}
+      {isStale && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-yellow-800 text-sm">
+          Lost the live connection to the cluster, so these schedules may be out of date. They'll catch up
+          automatically when it's back, or you can refresh now.
+        </div>
+      )}
+
+      {/* Last action error */}
+      {lastError && <ErrorBanner error={lastError} onDismiss={clearError} onRefresh={refreshSchedules} />}
+
       {/* Tabs */}
       <div className="flex gap-2">
         <button
-          onClick={() => setActiveTab('beneficiary')}
+          onClick={() => updateFilters({ tab: 'beneficiary' })}
           className={`px-6 py-3 rounded-lg font-semibold transition-all ${
             activeTab === 'beneficiary'
               ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white'
@@ -59,33 +230,147 @@ export const VestingDashboard: FC = () => {
           My Vestings ({beneficiarySchedules.length})
         </button>
         <button
-          onClick={() => setActiveTab('admin')}
+          onClick={() => updateFilters({ tab: 'admin' })}
           className={`px-6 py-3 rounded-lg font-semibold transition-all ${
             activeTab === 'admin'
               ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white'
               : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
           }`}
         >
-          Created by Me ({adminSchedules.length})
+          Managed by Me ({adminSchedules.length})
         </button>
       </div>
 
+      {/* Treasury overview or the schedules themselves for the admin tab */}
+      {activeTab === 'admin' && adminSchedules.length > 0 && (
+        <div className="flex gap-1 bg-gray-100 rounded-lg p-1 w-fit">
+          {(['overview', 'schedules'] as AdminView[]).map((view) => (
+            <button
+              key={view}
+              onClick={() => setAdminView(view)}
+              className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                adminView === view ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {view === 'overview' ? 'Overview' : 'Schedules'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Claimable totals and a single claim for every schedule */}
+      {activeTab === 'beneficiary' && claimableByMint.length > 0 && (
+        <div className="bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 rounded-xl p-4 flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <p className="text-sm text-gray-600 mb-1">Claimable now</p>
+            <div className="flex flex-wrap gap-x-6 gap-y-1">
+              {claimableByMint.map(([mint, amount]) => (
+                <p key={mint} className="text-lg font-semibold text-gray-800">
+                  {mints[mint] ? formatTokenAmount(amount, mints[mint].decimals) : amount.toString()}{' '}
+                  <span className="text-sm font-normal text-gray-500">
+                    {mints[mint]?.symbol ?? shortenAddress(mint)}
+                  </span>
+                </p>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={claimAll}
+            disabled={loading}
+            className="px-6 py-3 bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Claim all
+          </button>
+        </div>
+      )}
+
+      {!showOverview && currentSchedules.length > 0 && (
+        <>
+          <ScheduleFilterBar
+            filters={filters}
+            onChange={updateFilters}
+            mintAddresses={mintAddresses}
+            mints={mints}
+          />
+          <div className="flex justify-end gap-4 text-sm">
+            <button onClick={() => exportSchedules('csv')} className="text-purple-600 hover:text-purple-800">
+              Export CSV
+            </button>
+            <button onClick={() => exportSchedules('json')} className="text-purple-600 hover:text-purple-800">
+              Export JSON
+            </button>
+          </div>
+        </>
+      )}
+
       {/* Schedules Grid */}
-      {currentSchedules.length > 0 ? (
+      {showOverview ? (
+        <TreasuryOverview schedules={adminSchedules} mints={mints} />
+      ) : currentSchedules.length > 0 && filteredSchedules.length === 0 ? (
+        <div className="bg-gray-50 rounded-xl p-8 text-center">
+          <p className="text-gray-500 mb-3">No schedules match these filters.</p>
+          <button
+            onClick={() => updateFilters({ status: undefined, mint: undefined, address: undefined })}
+            className="text-sm text-purple-600 hover:text-purple-800"
+          >
+            Clear filters
+          </button>
+        </div>
+      ) : currentSchedules.length > 0 && filters.layout === 'table' ? (
+        <ScheduleTable
+          schedules={pageSchedules}
+          mints={mints}
+          isAdmin={activeTab === 'admin'}
+          wallet={publicKey}
+          reclaimableRent={reclaimableRent}
+          onClaim={handleClaim}
+          onRevoke={handleRevoke}
+          onClose={handleClose}
+          loading={loading}
+        />
+      ) : currentSchedules.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {currentSchedules.map((schedule) => (
+          {pageSchedules.map((schedule) => (
             <VestingCard
               key={schedule.publicKey.toBase58()}
               schedule={schedule}
+              mintInfo={mints[schedule.account.mint.toBase58()]}
               isAdmin={activeTab === 'admin'}
-              onClaim={() => handleClaim(
-                schedule.account.admin.toBase58(),
-                schedule.account.mint.toBase58()
-              )}
-              onRevoke={() => handleRevoke(
+              onClaim={() => handleClaim(schedule)}
+              onRevoke={
+                holdsAuthority(publicKey, schedule.account.revokeAuthority)
+                  ? () => handleRevoke(schedule)
+                  : undefined
+              }
+              onAddGrant={onAddGrant && (() => onAddGrant(
                 schedule.account.beneficiary.toBase58(),
                 schedule.account.mint.toBase58()
-              )}
+              ))}
+              reclaimableLamports={activeTab === 'admin' ? reclaimableRent[schedule.publicKey.toBase58()] : undefined}
+              onClose={
+                holdsAuthority(publicKey, schedule.account.authority) ? () => handleClose(schedule) : undefined
+              }
+              // The admin tab also lists schedules this wallet funded but handed to another authority
+              onTransfer={
+                activeTab === 'beneficiary' || canTransferAsAdmin(publicKey, schedule.account)
+                  ? (newBeneficiary) => handleTransfer(schedule, newBeneficiary)
+                  : undefined
+              }
+              onAllowCrank={
+                activeTab === 'beneficiary' ? (allowCrank) => handleAllowCrank(schedule, allowCrank) : undefined
+              }
+              onAllowAdminTransfer={
+                activeTab === 'beneficiary'
+                  ? (allowAdminTransfer) => handleAllowAdminTransfer(schedule, allowAdminTransfer)
+                  : undefined
+              }
+              onLoadHistory={fetchHistory}
+              onExport={
+                activeTab === 'admin'
+                  ? (action) => (action === 'revoke' ? revokeRequest(schedule) : closeRequest(schedule))
+                  : undefined
+              }
+              onExportSubmitted={refreshSchedules}
               loading={loading}
             />
           ))}
@@ -107,6 +392,95 @@ export const VestingDashboard: FC = () => {
           </p>
         </div>
       )}
+
+      {!showOverview && pageCount > 1 && (
+        <Pagination
+          page={page}
+          pageCount={pageCount}
+          total={filteredSchedules.length}
+          onChange={(newPage) => updateFilters({ page: newPage })}
+        />
+      )}
+    </div>
+  );
+};
+
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  total: number;
+  onChange: (page: number) => void;
+}
+
+const Pagination: FC<PaginationProps> = ({ page, pageCount, total, onChange }) => (
+  <div className="flex justify-between items-center text-sm text-gray-600">
+    <span>{total} schedules</span>
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => onChange(page - 1)}
+        disabled={page <= 1}
+        className="px-3 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Previous
+      </button>
+      <span>
+        Page {page} of {pageCount}
+      </span>
+      <button
+        onClick={() => onChange(page + 1)}
+        disabled={page >= pageCount}
+        className="px-3 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Next
+      </button>
+    </div>
+  </div>
+);
+
+interface ErrorBannerProps {
+  error: VestingActionError;
+  onDismiss: () => void;
+  onRefresh: () => void;
+}
+
+const ErrorBanner: FC<ErrorBannerProps> = ({ error, onDismiss, onRefresh }) => {
+  // The user cancelled on purpose; the toast is enough
+  if (error.kind === 'WalletRejected') return null;
+
+  // Stale on-screen state is the usual cause of these, so offer a refresh
+  const suggestRefresh =
+    error.kind === 'NothingToClaim' ||
+    error.kind === 'VestingRevoked' ||
+    error.kind === 'VestingCompleted' ||
+    error.kind === 'ScheduleNotSettled' ||
+    error.kind === 'ScheduleNotFound' ||
+    error.kind === 'BlockhashExpired';
+
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex justify-between items-start gap-4">
+      <div>
+        <p className="text-red-800 font-semibold">{error.message}</p>
+        {error.action && <p className="text-red-700 text-sm mt-1">{error.action}</p>}
+      </div>
+      <div className="flex gap-2 shrink-0">
+        {suggestRefresh && (
+          <button
+            onClick={() => {
+              onDismiss();
+              onRefresh();
+            }}
+            className="px-3 py-1 text-sm bg-white border border-red-200 text-red-700 rounded-lg hover:bg-red-100 transition-colors"
+          >
+            Refresh
+          </button>
+        )}
+        <button
+          onClick={onDismiss}
+          className="px-3 py-1 text-sm text-red-700 rounded-lg hover:bg-red-100 transition-colors"
+        >
+          Dismiss
+        </button>
+      </div>
     </div>
   );
 };
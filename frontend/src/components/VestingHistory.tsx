@@ -0,0 +1,127 @@
+import { FC, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { BN } from '@coral-xyz/anchor';
+import { PublicKey } from '@solana/web3.js';
+import { useCluster } from '../hooks/useCluster';
+import { explorerUrl } from '../utils/cluster';
+import { downloadFile, downloadJson } from '../utils/download';
+import {
+  MintInfo,
+  VESTING_EVENT_LABELS,
+  VestingEvent,
+  eventToRecord,
+  eventsToCsv,
+  shortenAddress,
+} from '../utils/program';
+
+interface Props {
+  schedule: PublicKey;
+  loadHistory: (schedule: PublicKey) => Promise<VestingEvent[]>;
+  formatAmount: (amount: BN) => string;
+  // Needed for exports, which carry amounts in whole tokens
+  mintInfo?: MintInfo;
+}
+
+// What each event moved, in the schedule's token
+function describeEvent(event: VestingEvent, formatAmount: (amount: BN) => string): string {
+  switch (event.name) {
+    case 'vestingCreated':
+      return `${formatAmount(event.data.totalAmount)} granted`;
+    case 'tokensClaimed':
+      return `${formatAmount(event.data.amount)} claimed, ${formatAmount(event.data.remaining)} left`;
+    case 'vestingRevoked':
+      return `${formatAmount(event.data.unvestedAmount)} returned to the admin`;
+    case 'vestingClosed':
+      return 'Rent reclaimed';
+    case 'beneficiaryTransferred':
+      return `${formatAmount(event.data.remaining)} moved to ${shortenAddress(event.data.newBeneficiary.toBase58())}`;
+    case 'authorityChanged': {
+      const role = 'admin' in event.data.authorityType ? 'Admin authority' : 'Revoke authority';
+      const to = event.data.newAuthority;
+      return to ? `${role} handed to ${shortenAddress(to.toBase58())}` : `${role} given up, now irrevocable`;
+    }
+    case 'allowCrankChanged':
+      return event.data.allowCrank ? 'Anyone can now claim for the beneficiary' : 'Only the beneficiary can now claim';
+    case 'allowAdminTransferChanged':
+      return event.data.allowAdminTransfer
+        ? 'The admin can now move the grant for the beneficiary'
+        : 'Only the beneficiary can now move the grant';
+  }
+}
+
+/**
+ * Everything that happened to a schedule, newest first, loaded when shown
+ */
+export const VestingHistory: FC<Props> = ({ schedule, loadHistory, formatAmount, mintInfo }) => {
+  const { cluster } = useCluster();
+  const [events, setEvents] = useState<VestingEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Schedules are re-fetched after every action, which hands in a new PublicKey
+  // and so reloads the history with the new event
+  useEffect(() => {
+    let cancelled = false;
+    setEvents(null);
+    setError(null);
+    loadHistory(schedule)
+      .then((history) => !cancelled && setEvents(history))
+      .catch((e) => {
+        console.error('Failed to fetch history:', e);
+        if (!cancelled) setError('Could not load the history for this schedule.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [schedule, loadHistory]);
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (!events) return <p className="text-sm text-gray-500">Loading history...</p>;
+  if (events.length === 0) return <p className="text-sm text-gray-500">No transactions found.</p>;
+
+  const exportHistory = (kind: 'csv' | 'json') => {
+    if (!mintInfo) return;
+    const records = events.map((event) => eventToRecord(schedule, event, mintInfo));
+    const fileName = `vesting-history-${schedule.toBase58()}.${kind}`;
+    if (kind === 'csv') {
+      downloadFile(eventsToCsv(records), fileName, 'text/csv');
+    } else {
+      downloadJson(records, fileName);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {mintInfo && (
+        <div className="flex justify-end gap-3 text-xs">
+          <button type="button" onClick={() => exportHistory('csv')} className="text-purple-600 hover:text-purple-800">
+            Export CSV
+          </button>
+          <button type="button" onClick={() => exportHistory('json')} className="text-purple-600 hover:text-purple-800">
+            Export JSON
+          </button>
+        </div>
+      )}
+      <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg text-sm">
+        {events.map((event, i) => (
+          <li key={`${event.signature}-${i}`} className="px-3 py-2 flex justify-between gap-4">
+            <div>
+              <p className="font-medium">{VESTING_EVENT_LABELS[event.name]}</p>
+              <p className="text-gray-500">{describeEvent(event, formatAmount)}</p>
+            </div>
+            <div className="text-right shrink-0">
+              <p className="text-gray-500">{event.blockTime ? format(event.blockTime, 'MMM d, yyyy HH:mm') : '—'}</p>
+              <a
+                href={explorerUrl(cluster, 'tx', event.signature)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-purple-600 hover:text-purple-800"
+              >
+                {shortenAddress(event.signature)}
+              </a>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,284 @@
+import { FC, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { BN } from '@coral-xyz/anchor';
+import { VestingCurveChart } from './VestingCurveChart';
+import {
+  SimulationResult,
+  SimulationRowKind,
+  VestingValidationError,
+  formatTokenAmount,
+  linearCurve,
+  parseTokenAmount,
+  percentToBps,
+  periodicCurve,
+  simulateVesting,
+  simulationToCsv,
+} from '../utils/program';
+import { downloadFile } from '../utils/download';
+
+const ROW_LABELS: Record<SimulationRowKind, string> = {
+  schedule: '',
+  claim: 'Claim',
+  revoke: 'Revoke',
+};
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+// Midnight local time on a yyyy-MM-dd date, in unix seconds
+const toTimestamp = (date: string) => Math.floor(new Date(`${date}T00:00`).getTime() / 1000);
+
+/**
+ * What-if calculator for a grant: vested, claimed and returned amounts over
+ * time for hypothetical claims and a revoke. Runs entirely in the browser.
+ */
+export const VestingSimulator: FC = () => {
+  const [form, setForm] = useState({
+    amount: '1000000',
+    decimals: '6',
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    cliffDays: '90',
+    vestingDays: '365',
+    initialUnlock: '0',
+    // Blank for linear vesting
+    periodDays: '',
+    revokeDate: '',
+  });
+  const [claimDates, setClaimDates] = useState<string[]>([]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const decimals = Math.min(Math.max(Math.floor(Number(form.decimals) || 0), 0), 18);
+
+  const simulation = useMemo((): { result?: SimulationResult; error?: string } => {
+    if (!/^\d+(\.\d+)?$/.test(form.amount) || !form.startDate) {
+      return { error: 'Enter an amount and a start date' };
+    }
+    try {
+      const result = simulateVesting({
+        totalAmount: parseTokenAmount(form.amount, decimals),
+        startTime: new BN(toTimestamp(form.startDate)),
+        cliffDuration: new BN(Math.round(Number(form.cliffDays || 0) * 86400)),
+        vestingDuration: new BN(Math.round(Number(form.vestingDays || 0) * 86400)),
+        initialUnlockBps: percentToBps(Number(form.initialUnlock || 0)),
+        curve: form.periodDays ? periodicCurve(Math.round(Number(form.periodDays) * 86400)) : linearCurve(),
+        revokeAt: form.revokeDate ? toTimestamp(form.revokeDate) : undefined,
+        claimAt: claimDates.filter(Boolean).map(toTimestamp),
+      });
+      return { result };
+    } catch (error) {
+      return {
+        error: error instanceof VestingValidationError ? error.message : 'Could not simulate this schedule',
+      };
+    }
+  }, [form, decimals, claimDates]);
+
+  const amount = (value: BN) => formatTokenAmount(value, decimals);
+  const result = simulation.result;
+  const final = result?.rows[result.rows.length - 1];
+  const totals: [string, BN][] =
+    result && final
+      ? [
+          ['Claimed', final.claimed],
+          ['Vested, unclaimed', final.claimable],
+          ['Returned to admin', final.returnedToAdmin],
+          ['Still vesting', result.schedule.totalAmount.sub(final.vested).sub(final.returnedToAdmin)],
+        ]
+      : [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800">Schedule Simulator</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Model a grant before creating it. Nothing is sent to the cluster.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Total Amount
+          <input name="amount" value={form.amount} onChange={handleChange} className={`mt-1 ${inputClass}`} />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Decimals
+          <input
+            type="number"
+            name="decimals"
+            min="0"
+            max="18"
+            value={form.decimals}
+            onChange={handleChange}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Start Date
+          <input
+            type="date"
+            name="startDate"
+            value={form.startDate}
+            onChange={handleChange}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Initial Unlock (%)
+          <input
+            type="number"
+            name="initialUnlock"
+            min="0"
+            max="100"
+            step="0.01"
+            value={form.initialUnlock}
+            onChange={handleChange}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Cliff (days)
+          <input
+            type="number"
+            name="cliffDays"
+            min="0"
+            value={form.cliffDays}
+            onChange={handleChange}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Vesting Duration (days)
+          <input
+            type="number"
+            name="vestingDays"
+            min="1"
+            value={form.vestingDays}
+            onChange={handleChange}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Release Every (days)
+          <input
+            type="number"
+            name="periodDays"
+            min="1"
+            placeholder="Linear"
+            value={form.periodDays}
+            onChange={handleChange}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Revoke On <span className="text-gray-400">(optional)</span>
+          <input
+            type="date"
+            name="revokeDate"
+            value={form.revokeDate}
+            onChange={handleChange}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+      </div>
+
+      {/* Claim dates */}
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Claims</p>
+        <div className="flex flex-wrap gap-2 items-center">
+          {claimDates.map((date, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <input
+                type="date"
+                aria-label={`Claim ${index + 1}`}
+                value={date}
+                onChange={(e) =>
+                  setClaimDates((prev) => prev.map((d, i) => (i === index ? e.target.value : d)))
+                }
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+              />
+              <button
+                type="button"
+                onClick={() => setClaimDates((prev) => prev.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-red-600 px-1"
+                aria-label={`Remove claim ${index + 1}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setClaimDates((prev) => [...prev, ''])}
+            className="text-sm text-purple-600 hover:text-purple-800"
+          >
+            + Add claim
+          </button>
+        </div>
+      </div>
+
+      {simulation.error && <p className="text-sm text-red-600">{simulation.error}</p>}
+
+      {result && final && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {totals.map(([label, value]) => (
+              <div key={label} className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">{label}</p>
+                <p className="font-semibold">{amount(value)}</p>
+              </div>
+            ))}
+          </div>
+
+          <VestingCurveChart schedule={result.schedule} />
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => downloadFile(simulationToCsv(result, decimals), 'vesting-simulation.csv', 'text/csv')}
+              className="px-4 py-2 bg-gray-100 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors"
+            >
+              Export CSV
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto border border-gray-100 rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Date</th>
+                  <th className="px-3 py-2 text-left font-medium">Event</th>
+                  <th className="px-3 py-2 text-right font-medium">Vested</th>
+                  <th className="px-3 py-2 text-right font-medium">Claimed</th>
+                  <th className="px-3 py-2 text-right font-medium">Claimable</th>
+                  <th className="px-3 py-2 text-right font-medium">Returned</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows.map((row, index) => (
+                  <tr
+                    key={index}
+                    className={`border-t border-gray-100 ${row.kind === 'schedule' ? '' : 'bg-purple-50'}`}
+                  >
+                    <td className="px-3 py-1.5">{format(new Date(row.time * 1000), 'MMM d, yyyy')}</td>
+                    <td className="px-3 py-1.5">
+                      {ROW_LABELS[row.kind]}
+                      {row.amount && ` ${amount(row.amount)}`}
+                      {row.failure && <span className="text-red-600"> fails: {row.failure}</span>}
+                    </td>
+                    <td className="px-3 py-1.5 text-right">{amount(row.vested)}</td>
+                    <td className="px-3 py-1.5 text-right">{amount(row.claimed)}</td>
+                    <td className="px-3 py-1.5 text-right">{amount(row.claimable)}</td>
+                    <td className="px-3 py-1.5 text-right">{amount(row.returnedToAdmin)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import { FC, useMemo, useState } from 'react';
+import { endOfDay, format } from 'date-fns';
+import { BN } from '@coral-xyz/anchor';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { PublicKey } from '@solana/web3.js';
+import { useCluster } from '../hooks/useCluster';
+import { useVesting } from '../hooks/useVesting';
+import { CLUSTER_LABELS } from '../utils/cluster';
+import {
+  MintInfo,
+  VestingInfo,
+  VestingStatement as Statement,
+  buildVestingStatement,
+  formatTokenAmount,
+  shortenAddress,
+} from '../utils/program';
+
+const amount = (value: BN, mintInfo: MintInfo) =>
+  `${formatTokenAmount(value, mintInfo.decimals)}${mintInfo.symbol ? ` ${mintInfo.symbol}` : ''}`;
+
+/**
+ * Printable statement of one beneficiary's grants as of a chosen date, for
+ * the beneficiary themselves or an admin who granted to them
+ */
+export const VestingStatement: FC = () => {
+  const { publicKey } = useWallet();
+  const { cluster } = useCluster();
+  const { beneficiarySchedules, adminSchedules, mints, fetchHistory } = useVesting();
+  const [beneficiary, setBeneficiary] = useState('');
+  const [asOfDate, setAsOfDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The wallet itself, then everyone it has granted to
+  const beneficiaries = useMemo(() => {
+    const addresses = adminSchedules.map((info) => info.account.beneficiary.toBase58());
+    return [...new Set([...(publicKey ? [publicKey.toBase58()] : []), ...addresses])];
+  }, [publicKey, adminSchedules]);
+  const selected = beneficiary || beneficiaries[0] || '';
+
+  if (!publicKey) {
+    return (
+      <div className="bg-white rounded-xl shadow-lg p-6 text-center text-gray-600">
+        Connect your wallet to produce a statement.
+      </div>
+    );
+  }
+
+  const generate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const schedules = new Map<string, VestingInfo>();
+      for (const info of [...beneficiarySchedules, ...adminSchedules]) {
+        if (info.account.beneficiary.toBase58() === selected) {
+          schedules.set(info.publicKey.toBase58(), info);
+        }
+      }
+      const inputs = await Promise.all(
+        [...schedules.values()].map(async (info) => ({
+          info,
+          mintInfo: mints[info.account.mint.toBase58()],
+          events: await fetchHistory(info.publicKey),
+        }))
+      );
+      setStatement(
+        buildVestingStatement(
+          new PublicKey(selected),
+          inputs.filter((input) => input.mintInfo),
+          endOfDay(new Date(`${asOfDate}T00:00`))
+        )
+      );
+    } catch (e) {
+      console.error('Failed to build statement:', e);
+      setError('Could not load the history needed for this statement.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  // Totals per mint across the statement's lines
+  const totals = new Map<string, { mintInfo: MintInfo; granted: BN; vested: BN; claimed: BN; unclaimed: BN }>();
+  for (const line of statement?.lines ?? []) {
+    const key = line.mintInfo.address.toBase58();
+    const total = totals.get(key) ?? {
+      mintInfo: line.mintInfo,
+      granted: new BN(0),
+      vested: new BN(0),
+      claimed: new BN(0),
+      unclaimed: new BN(0),
+    };
+    totals.set(key, {
+      ...total,
+      granted: total.granted.add(line.totalAmount),
+      vested: total.vested.add(line.vestedAmount),
+      claimed: total.claimed.add(line.claimedAmount),
+      unclaimed: total.unclaimed.add(line.unclaimedAmount),
+    });
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg p-6 print:hidden">
+        <h2 className="text-2xl font-bold text-gray-800 mb-4">Vesting Statement</h2>
+        <div className="flex flex-wrap gap-4 items-end">
+          <label className="block text-sm font-medium text-gray-700 flex-1 min-w-[20rem]">
+            Beneficiary
+            <select
+              value={selected}
+              onChange={(e) => {
+                setBeneficiary(e.target.value);
+                setStatement(null);
+              }}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm bg-white"
+            >
+              {beneficiaries.map((address) => (
+                <option key={address} value={address}>
+                  {address === publicKey.toBase58() ? `${address} (you)` : address}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            As of
+            <input
+              type="date"
+              value={asOfDate}
+              onChange={(e) => {
+                setAsOfDate(e.target.value);
+                setStatement(null);
+              }}
+              className="mt-1 block px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <button
+            onClick={generate}
+            disabled={generating || !selected || !asOfDate}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg font-semibold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {generating ? 'Loading history...' : 'Generate'}
+          </button>
+          {statement && (
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 bg-gray-100 rounded-lg font-semibold hover:bg-gray-200"
+            >
+              Print
+            </button>
+          )}
+        </div>
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+      </div>
+
+      {statement && (
+        <div className="bg-white rounded-xl shadow-lg p-8 print:shadow-none print:p-0 space-y-6 text-sm">
+          <div className="flex justify-between items-start">
+            <div>
+              <h3 className="text-xl font-bold text-gray-800">Vesting Statement</h3>
+              <p className="text-gray-600 font-mono mt-1">{selected}</p>
+            </div>
+            <div className="text-right text-gray-600">
+              <p>As of {format(statement.asOf, 'MMMM d, yyyy')}</p>
+              <p className="text-xs text-gray-400">
+                {CLUSTER_LABELS[cluster.name]} · generated {format(new Date(), 'MMM d, yyyy HH:mm')}
+              </p>
+            </div>
+          </div>
+
+          {statement.lines.length === 0 ? (
+            <p className="text-gray-500">No grants to this beneficiary existed on this date.</p>
+          ) : (
+            <>
+              <table className="w-full">
+                <thead className="text-gray-500 border-b border-gray-200">
+                  <tr>
+                    <th className="py-2 text-left font-medium">Token</th>
+                    <th className="py-2 text-right font-medium">Granted</th>
+                    <th className="py-2 text-right font-medium">Vested</th>
+                    <th className="py-2 text-right font-medium">Claimed</th>
+                    <th className="py-2 text-right font-medium">Vested, unclaimed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...totals.values()].map((total) => (
+                    <tr key={total.mintInfo.address.toBase58()} className="border-b border-gray-100 font-semibold">
+                      <td className="py-2">{total.mintInfo.symbol ?? shortenAddress(total.mintInfo.address.toBase58())}</td>
+                      <td className="py-2 text-right">{amount(total.granted, total.mintInfo)}</td>
+                      <td className="py-2 text-right">{amount(total.vested, total.mintInfo)}</td>
+                      <td className="py-2 text-right">{amount(total.claimed, total.mintInfo)}</td>
+                      <td className="py-2 text-right">{amount(total.unclaimed, total.mintInfo)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {statement.lines.map((line) => (
+                <div key={line.schedule.toBase58()} className="border border-gray-200 rounded-lg p-4 break-inside-avoid">
+                  <div className="flex justify-between mb-2">
+                    <p className="font-semibold">
+                      Grant{!line.scheduleId.isZero() && ` #${line.scheduleId.toString()}`} from{' '}
+                      <span className="font-mono">{shortenAddress(line.admin.toBase58(), 6)}</span>
+                    </p>
+                    <p className="font-mono text-xs text-gray-500">{line.schedule.toBase58()}</p>
+                  </div>
+                  <div className="grid grid-cols-5 gap-2 mb-2">
+                    {(
+                      [
+                        ['Granted', line.totalAmount],
+                        ['Vested', line.vestedAmount],
+                        ['Claimed', line.claimedAmount],
+                        ['Unclaimed', line.unclaimedAmount],
+                        ['Revoked', line.revokedAmount],
+                      ] as [string, BN][]
+                    ).map(([label, value]) => (
+                      <div key={label}>
+                        <p className="text-xs text-gray-500">{label}</p>
+                        <p>{amount(value, line.mintInfo)}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {line.claims.length > 0 && (
+                    <table className="w-full text-xs text-gray-600">
+                      <tbody>
+                        {line.claims.map((claim) => (
+                          <tr key={claim.signature}>
+                            <td className="py-0.5">Claimed {format(claim.time, 'MMM d, yyyy HH:mm')}</td>
+                            <td className="py-0.5 text-right">{amount(claim.amount, line.mintInfo)}</td>
+                            <td className="py-0.5 pl-4 font-mono text-right">{shortenAddress(claim.signature, 8)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+          <p className="text-xs text-gray-400">
+            Vested amounts follow each schedule's on-chain terms; claims and revokes are dated by their block
+            time. Schedules that have since been closed are not included.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
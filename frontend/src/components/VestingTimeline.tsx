@@ -0,0 +1,86 @@
+import { FC, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { BN } from '@coral-xyz/anchor';
+import { VestingCurveChart } from './VestingCurveChart';
+import {
+  VestingProgress,
+  calculateVestedAmountAt,
+  projectMonthlyVesting,
+} from '../utils/program';
+
+interface Props {
+  schedule: VestingProgress;
+  formatAmount: (amount: BN) => string;
+  // Unix seconds to mark as today; left out for schedules that don't exist yet
+  now?: number;
+}
+
+/**
+ * Vesting chart plus a month-by-month table of what unlocks when, and a lookup
+ * of the vested and claimable amounts on any date
+ */
+export const VestingTimeline: FC<Props> = ({ schedule, formatAmount, now }) => {
+  const [lookupDate, setLookupDate] = useState('');
+
+  const rows = useMemo(() => projectMonthlyVesting(schedule), [schedule]);
+
+  const lookup = useMemo(() => {
+    const time = new Date(lookupDate).getTime();
+    if (!lookupDate || Number.isNaN(time)) return null;
+    const vested = calculateVestedAmountAt(schedule, Math.floor(time / 1000));
+    const claimed = schedule.claimedAmount ?? new BN(0);
+    return { vested, claimable: vested.gt(claimed) ? vested.sub(claimed) : new BN(0) };
+  }, [schedule, lookupDate]);
+
+  // The row covering today: the last one on or before it
+  const currentRow = now === undefined ? -1 : rows.filter(({ date }) => date.getTime() <= now * 1000).length - 1;
+
+  return (
+    <div className="space-y-3">
+      <VestingCurveChart schedule={schedule} now={now} />
+
+      <div className="flex items-center gap-2 text-sm">
+        <label className="flex items-center gap-2 text-gray-500">
+          On date
+          <input
+            type="date"
+            value={lookupDate}
+            onChange={(e) => setLookupDate(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-gray-900"
+          />
+        </label>
+        {lookup && (
+          <span className="text-gray-700">
+            {formatAmount(lookup.vested)} vested · {formatAmount(lookup.claimable)} claimable
+          </span>
+        )}
+      </div>
+
+      <div className="max-h-56 overflow-y-auto border border-gray-100 rounded-lg">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 text-gray-500 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Date</th>
+              <th className="px-3 py-2 text-right font-medium">Unlocked</th>
+              <th className="px-3 py-2 text-right font-medium">Vested</th>
+              <th className="px-3 py-2 text-right font-medium">Claimable</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr
+                key={row.date.getTime()}
+                className={i === currentRow ? 'bg-blue-50 font-semibold' : 'border-t border-gray-100'}
+              >
+                <td className="px-3 py-1.5">{format(row.date, 'MMM d, yyyy')}</td>
+                <td className="px-3 py-1.5 text-right">{row.unlocked.isZero() ? '–' : formatAmount(row.unlocked)}</td>
+                <td className="px-3 py-1.5 text-right">{formatAmount(row.vested)}</td>
+                <td className="px-3 py-1.5 text-right">{formatAmount(row.claimable)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
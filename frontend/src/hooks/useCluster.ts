@@ -0,0 +1,13 @@
+import { useContext } from 'react';
+import { ClusterContext, ClusterContextState } from '../components/ClusterProvider';
+
+/**
+ * The selected cluster, its endpoint and program ID, and a way to switch
+ */
+export function useCluster(): ClusterContextState {
+  const context = useContext(ClusterContext);
+  if (!context) {
+    throw new Error('useCluster must be used inside a ClusterProvider');
+  }
+  return context;
+}
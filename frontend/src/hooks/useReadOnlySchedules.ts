@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { PublicKey } from '@solana/web3.js';
+import { useCluster } from './useCluster';
+import { CLUSTER_LABELS } from '../utils/cluster';
+import {
+  MintInfo,
+  VestingClient,
+  VestingEvent,
+  VestingInfo,
+  fetchMintInfos,
+  isScheduleSettled,
+  toVestingInfo,
+} from '../utils/program';
+import { Route } from '../utils/routes';
+
+export type SharedRoute = Exclude<Route, { kind: 'app' }>;
+
+/**
+ * Schedules behind a shared link, fetched without a wallet. A schedule link
+ * yields that one schedule as `received`; a wallet link yields what the wallet
+ * receives and what it granted.
+ */
+export function useReadOnlySchedules(route: SharedRoute) {
+  const { connection } = useConnection();
+  const { cluster } = useCluster();
+  const [received, setReceived] = useState<VestingInfo[]>([]);
+  const [granted, setGranted] = useState<VestingInfo[]>([]);
+  const [mints, setMints] = useState<Record<string, MintInfo>>({});
+  const [reclaimableRent, setReclaimableRent] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const client = useMemo(() => VestingClient.readOnly(connection, cluster.programId), [connection, cluster]);
+
+  const refresh = useCallback(async () => {
+    let address: PublicKey;
+    try {
+      address = new PublicKey(route.address);
+    } catch {
+      setError(`${route.address} is not a valid address.`);
+      setLoading(false);
+      return;
+    }
+
+    setError(null);
+    try {
+      let beneficiary: VestingInfo[] = [];
+      let admin: VestingInfo[] = [];
+      if (route.kind === 'schedule') {
+        const account = await client.fetchVestingSchedule(address);
+        if (!account) {
+          setError(`There is no vesting schedule at this address on ${CLUSTER_LABELS[cluster.name]}.`);
+        } else {
+          beneficiary = [toVestingInfo(address, account)];
+        }
+      } else {
+        [beneficiary, admin] = await Promise.all([
+          client.fetchVestingSchedulesForBeneficiary(address),
+          client.fetchVestingSchedulesForAdmin(address),
+        ]);
+      }
+      setReceived(beneficiary);
+      setGranted(admin);
+
+      const all = [...beneficiary, ...admin];
+      setMints(
+        await fetchMintInfos(
+          connection,
+          all.map((info) => info.account.mint)
+        )
+      );
+      const settled = all.filter((info) => isScheduleSettled(info.account));
+      const rents = await Promise.all(settled.map((info) => client.fetchReclaimableRent(info.publicKey)));
+      setReclaimableRent(Object.fromEntries(settled.map((info, i) => [info.publicKey.toBase58(), rents[i]])));
+    } catch (e) {
+      console.error('Failed to fetch schedules:', e);
+      setError(`Could not load schedules from ${CLUSTER_LABELS[cluster.name]}.`);
+    } finally {
+      setLoading(false);
+    }
+  }, [route.kind, route.address, client, connection, cluster]);
+
+  useEffect(() => {
+    setLoading(true);
+    setReceived([]);
+    setGranted([]);
+    refresh();
+  }, [refresh]);
+
+  const fetchHistory = useCallback(
+    (schedule: PublicKey): Promise<VestingEvent[]> => client.fetchHistory(schedule),
+    [client]
+  );
+
+  return { received, granted, mints, reclaimableRent, loading, error, refresh, fetchHistory };
+}
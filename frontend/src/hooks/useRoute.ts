@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Route, parseRoute } from '../utils/routes';
+
+/**
+ * The current route from the address bar, and a way to move to another
+ * without reloading the page
+ */
+export function useRoute() {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+
+  const navigate = useCallback((path: string) => {
+    window.history.pushState(null, '', path);
+    setRoute(parseRoute(window.location.pathname));
+  }, []);
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return { route, navigate };
+}
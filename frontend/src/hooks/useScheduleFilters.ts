@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ScheduleFilters, parseFilters, serializeFilters } from '../utils/scheduleFilters';
+
+/**
+ * Dashboard filters kept in the URL's query string, so a filtered view can be
+ * shared as a link. Changing anything but the page goes back to page 1.
+ */
+export function useScheduleFilters() {
+  const [filters, setFilters] = useState<ScheduleFilters>(() => parseFilters(window.location.search));
+
+  const updateFilters = useCallback((changes: Partial<ScheduleFilters>) => {
+    setFilters((prev) => ({ ...prev, page: 1, ...changes }));
+  }, []);
+
+  useEffect(() => {
+    const query = serializeFilters(filters, window.location.search);
+    if (query !== window.location.search) {
+      window.history.replaceState(null, '', `${window.location.pathname}${query}${window.location.hash}`);
+    }
+  }, [filters]);
+
+  // Back and forward between shared links
+  useEffect(() => {
+    const handlePopState = () => setFilters(parseFilters(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return { filters, updateFilters };
+}
@@ -0,0 +1,165 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { BN } from '@coral-xyz/anchor';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import toast from 'react-hot-toast';
+import { useCluster } from './useCluster';
+import {
+  ExportedTransaction,
+  VestingClient,
+  VestingInfo,
+  VestingRelease,
+  closeVestingScheduleInstructions,
+  createVestingScheduleInstruction,
+  findNextScheduleId,
+  parseTokenAmount,
+  revokeVestingInstructions,
+  translateVestingError,
+} from '../utils/program';
+
+/**
+ * An action to hand to a multisig or offline wallet instead of signing it here
+ */
+export interface ExportRequest {
+  title: string;
+  // Signs the action and pays its fee
+  signer: PublicKey;
+  build: () => Promise<TransactionInstruction[]>;
+}
+
+export interface CreateExportParams {
+  admin: string;
+  beneficiary: string;
+  mint: string;
+  totalAmount: string;
+  startTime: number;
+  cliffDuration: number;
+  vestingDuration: number;
+  release: VestingRelease;
+  // Defaults to the admin; null makes the grant irrevocable
+  revokeAuthority?: string | null;
+}
+
+/**
+ * Unsigned transactions for multisig and offline signers, and submitting them
+ * once they come back signed. Needs no wallet: whoever prepares the payload
+ * doesn't have to be the one who signs it.
+ */
+export function useTransactionExport() {
+  const { connection } = useConnection();
+  const { cluster } = useCluster();
+  const [loading, setLoading] = useState(false);
+
+  const client = useMemo(() => VestingClient.readOnly(connection, cluster.programId), [connection, cluster]);
+
+  const exportTransaction = useCallback(
+    async (request: ExportRequest, nonceAccount?: string): Promise<ExportedTransaction | null> => {
+      setLoading(true);
+      try {
+        return await client.exportTransaction(await request.build(), request.signer, {
+          nonceAccount: nonceAccount ? new PublicKey(nonceAccount) : undefined,
+        });
+      } catch (error) {
+        console.error('Export error:', error);
+        toast.error(translateVestingError(error).message);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [client]
+  );
+
+  const submitSigned = useCallback(
+    async (payload: string): Promise<string | null> => {
+      setLoading(true);
+      const toastId = toast.loading('Submitting signed transaction...');
+      try {
+        const signature = await client.submitSignedTransaction(payload);
+        toast.success('Signed transaction confirmed!', { id: toastId });
+        return signature;
+      } catch (error) {
+        console.error('Submit error:', error);
+        const { message, action } = translateVestingError(error);
+        toast.error(action ? `${message} ${action}` : message, { id: toastId });
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [client]
+  );
+
+  // Signed by the schedule's revoke authority, which the caller checked exists
+  const revokeRequest = useCallback(
+    ({ account }: VestingInfo): ExportRequest => ({
+      title: 'Revoke vesting',
+      signer: account.revokeAuthority!,
+      build: () =>
+        revokeVestingInstructions(
+          client.program,
+          account.admin,
+          account.beneficiary,
+          account.mint,
+          account.scheduleId,
+          account.revokeAuthority!
+        ),
+    }),
+    [client]
+  );
+
+  const closeRequest = useCallback(
+    ({ account }: VestingInfo): ExportRequest => ({
+      title: 'Close schedule and reclaim rent',
+      signer: account.authority,
+      build: () =>
+        closeVestingScheduleInstructions(
+          client.program,
+          account.admin,
+          account.beneficiary,
+          account.mint,
+          account.scheduleId,
+          account.authority
+        ),
+    }),
+    [client]
+  );
+
+  // Funded from the admin's token account, so the admin signs
+  const createRequest = useCallback(
+    (params: CreateExportParams): ExportRequest => {
+      const admin = new PublicKey(params.admin);
+      const beneficiary = new PublicKey(params.beneficiary);
+      const mint = new PublicKey(params.mint);
+      return {
+        title: 'Create vesting schedule',
+        signer: admin,
+        build: async () => {
+          const { decimals } = await client.fetchMintInfo(mint);
+          const scheduleId = await findNextScheduleId(client.program, admin, beneficiary, mint);
+          const instruction = await createVestingScheduleInstruction(
+            client.program,
+            admin,
+            beneficiary,
+            mint,
+            parseTokenAmount(params.totalAmount, decimals),
+            new BN(params.startTime),
+            new BN(params.cliffDuration),
+            new BN(params.vestingDuration),
+            scheduleId,
+            params.release,
+            params.revokeAuthority === undefined
+              ? admin
+              : params.revokeAuthority === null
+              ? null
+              : new PublicKey(params.revokeAuthority)
+          );
+          return [instruction];
+        },
+      };
+    },
+    [client]
+  );
+
+  return { loading, exportTransaction, submitSigned, revokeRequest, closeRequest, createRequest };
+}
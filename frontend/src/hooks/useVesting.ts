@@ -3,25 +3,64 @@ import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { AnchorProvider, BN } from '@coral-xyz/anchor';
 import { PublicKey } from '@solana/web3.js';
 import toast from 'react-hot-toast';
+import { useCluster } from './useCluster';
 import {
-  getProgram,
-  createVestingSchedule,
-  claimTokens,
-  revokeVesting,
-  fetchVestingSchedulesForBeneficiary,
-  fetchVestingSchedulesForAdmin,
+  Allocation,
+  BatchRowResult,
+  ClaimAllResult,
+  MintInfo,
+  VestingActionError,
+  VestingClient,
+  VestingEvent,
   VestingInfo,
+  VestingRelease,
+  VestingScheduleFilter,
+  claimAll as claimAllSchedules,
+  createVestingSchedulesBatch,
+  fetchMintInfos,
+  isScheduleSettled,
+  parseTokenAmount,
+  translateVestingError,
 } from '../utils/program';
 
+// Wait this long after the last account change before updating state, so a
+// burst of notifications (e.g. a batch create) lands as one update
+const UPDATE_DEBOUNCE_MS = 500;
+// Slots arrive every ~400ms; this long without one means the websocket dropped
+const STALE_AFTER_MS = 15_000;
+const STALE_CHECK_INTERVAL_MS = 5_000;
+
+// Schedules keyed by address; null marks one that was closed
+type ScheduleUpdates = Map<string, VestingInfo | null>;
+
+function applyUpdates(schedules: VestingInfo[], updates: ScheduleUpdates): VestingInfo[] {
+  const byAddress = new Map(schedules.map((info) => [info.publicKey.toBase58(), info]));
+  for (const [address, info] of updates) {
+    if (info) {
+      byAddress.set(address, info);
+    } else {
+      byAddress.delete(address);
+    }
+  }
+  return [...byAddress.values()];
+}
+
 export function useVesting() {
   const { connection } = useConnection();
   const wallet = useWallet();
+  const { cluster } = useCluster();
   const [loading, setLoading] = useState(false);
   const [beneficiarySchedules, setBeneficiarySchedules] = useState<VestingInfo[]>([]);
   const [adminSchedules, setAdminSchedules] = useState<VestingInfo[]>([]);
+  const [mints, setMints] = useState<Record<string, MintInfo>>({});
+  // Lamports the admin can reclaim, keyed by schedule address, for settled schedules only
+  const [reclaimableRent, setReclaimableRent] = useState<Record<string, number>>({});
+  const [lastError, setLastError] = useState<VestingActionError | null>(null);
+  // Set while the websocket is down, so the schedules on screen may be out of date
+  const [isStale, setIsStale] = useState(false);
 
-  // Get provider and program
-  const getProviderAndProgram = useCallback(() => {
+  // Get provider and vesting client
+  const getProviderAndClient = useCallback(() => {
     if (!wallet.publicKey || !wallet.signTransaction || !wallet.signAllTransactions) {
       throw new Error('Wallet not connected');
     }
@@ -36,28 +75,66 @@ export function useVesting() {
       { commitment: 'confirmed' }
     );
 
-    const program = getProgram(provider);
-    return { provider, program };
-  }, [connection, wallet]);
+    const client = VestingClient.fromProvider(provider, cluster.programId);
+    return { provider, client };
+  }, [connection, wallet, cluster]);
+
+  // Translate a failed action into a friendly, typed error and surface it
+  const reportError = useCallback((error: unknown, toastId: string) => {
+    const vestingError = translateVestingError(error);
+    setLastError(vestingError);
+    toast.error(vestingError.action ? `${vestingError.message} ${vestingError.action}` : vestingError.message, {
+      id: toastId,
+    });
+    return vestingError;
+  }, []);
+
+  const clearError = useCallback(() => setLastError(null), []);
 
   // Refresh all schedules
   const refreshSchedules = useCallback(async () => {
     if (!wallet.publicKey) return;
 
     try {
-      const { program } = getProviderAndProgram();
-      
-      const [beneficiary, admin] = await Promise.all([
-        fetchVestingSchedulesForBeneficiary(program, wallet.publicKey),
-        fetchVestingSchedulesForAdmin(program, wallet.publicKey),
+      const { client } = getProviderAndClient();
+
+      const [beneficiary, funded, authority, revokeAuthority] = await Promise.all([
+        client.fetchVestingSchedulesForBeneficiary(wallet.publicKey),
+        client.fetchVestingSchedulesForAdmin(wallet.publicKey),
+        client.fetchVestingSchedulesForAuthority(wallet.publicKey),
+        client.fetchVestingSchedulesForRevokeAuthority(wallet.publicKey),
       ]);
+      // The admin tab lists schedules the wallet funded or holds an authority over
+      const admin = applyUpdates(
+        funded,
+        new Map([...authority, ...revokeAuthority].map((info) => [info.publicKey.toBase58(), info]))
+      );
 
       setBeneficiarySchedules(beneficiary);
       setAdminSchedules(admin);
+
+      // Decimals and symbols for every mint on screen; cached by the SDK
+      const infos = await fetchMintInfos(
+        connection,
+        [...beneficiary, ...admin].map((info) => info.account.mint)
+      );
+      setMints(infos);
+
+      const settled = admin.filter((info) => isScheduleSettled(info.account));
+      const rents = await Promise.all(settled.map((info) => client.fetchReclaimableRent(info.publicKey)));
+      setReclaimableRent(Object.fromEntries(settled.map((info, i) => [info.publicKey.toBase58(), rents[i]])));
     } catch (error) {
       console.error('Failed to fetch schedules:', error);
     }
-  }, [wallet.publicKey, getProviderAndProgram]);
+  }, [wallet.publicKey, connection, getProviderAndClient]);
+
+  // Schedules from the previous cluster don't exist on this one
+  useEffect(() => {
+    setBeneficiarySchedules([]);
+    setAdminSchedules([]);
+    setMints({});
+    setReclaimableRent({});
+  }, [cluster]);
 
   // Auto-refresh on wallet change
   useEffect(() => {
@@ -66,9 +143,109 @@ export function useVesting() {
     } else {
       setBeneficiarySchedules([]);
       setAdminSchedules([]);
+      setMints({});
+      setReclaimableRent({});
     }
   }, [wallet.publicKey, refreshSchedules]);
 
+  // Follow changes to the wallet's schedules over the websocket
+  useEffect(() => {
+    if (!wallet.publicKey) return;
+
+    let client: VestingClient;
+    try {
+      ({ client } = getProviderAndClient());
+    } catch {
+      return;
+    }
+
+    const pending = { admin: new Map() as ScheduleUpdates, beneficiary: new Map() as ScheduleUpdates };
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const flush = async () => {
+      const admin = pending.admin;
+      const beneficiary = pending.beneficiary;
+      pending.admin = new Map();
+      pending.beneficiary = new Map();
+
+      setAdminSchedules((prev) => applyUpdates(prev, admin));
+      setBeneficiarySchedules((prev) => applyUpdates(prev, beneficiary));
+
+      const changed = [...admin.values(), ...beneficiary.values()].filter((info): info is VestingInfo => info !== null);
+      try {
+        const infos = await fetchMintInfos(
+          connection,
+          changed.map((info) => info.account.mint)
+        );
+        setMints((prev) => ({ ...prev, ...infos }));
+
+        const rents = await Promise.all(
+          [...admin].map(async ([address, info]) =>
+            info && isScheduleSettled(info.account)
+              ? ([address, await client.fetchReclaimableRent(info.publicKey)] as const)
+              : ([address, null] as const)
+          )
+        );
+        setReclaimableRent((prev) => {
+          const next = { ...prev };
+          for (const [address, lamports] of rents) {
+            if (lamports === null) {
+              delete next[address];
+            } else {
+              next[address] = lamports;
+            }
+          }
+          return next;
+        });
+      } catch (error) {
+        console.error('Failed to update schedules:', error);
+      }
+    };
+
+    const queue = (role: keyof typeof pending, address: PublicKey, info: VestingInfo | null) => {
+      pending[role].set(address.toBase58(), info);
+      clearTimeout(flushTimer);
+      flushTimer = setTimeout(flush, UPDATE_DEBOUNCE_MS);
+    };
+
+    // The admin tab also lists schedules the wallet holds an authority over
+    const watched: [keyof typeof pending, VestingScheduleFilter][] = [
+      ['beneficiary', { beneficiary: wallet.publicKey! }],
+      ['admin', { admin: wallet.publicKey! }],
+      ['admin', { authority: wallet.publicKey! }],
+      ['admin', { revokeAuthority: wallet.publicKey! }],
+    ];
+    const unsubscribers = watched.map(([role, filter]) =>
+      client.subscribeToVestingSchedules(filter, {
+        onSchedule: (info) => queue(role, info.publicKey, info),
+        onClosed: (vestingPDA) => queue(role, vestingPDA, null),
+      })
+    );
+
+    // Slot notifications double as a heartbeat for the websocket
+    let lastSlotAt = Date.now();
+    let stale = false;
+    setIsStale(false);
+    const slotSubscription = connection.onSlotChange(() => {
+      lastSlotAt = Date.now();
+    });
+    const staleCheck = setInterval(() => {
+      const nowStale = Date.now() - lastSlotAt > STALE_AFTER_MS;
+      if (nowStale === stale) return;
+      stale = nowStale;
+      setIsStale(nowStale);
+      // Notifications sent while disconnected are lost, so catch up once back
+      if (!nowStale) refreshSchedules();
+    }, STALE_CHECK_INTERVAL_MS);
+
+    return () => {
+      clearTimeout(flushTimer);
+      clearInterval(staleCheck);
+      connection.removeSlotChangeListener(slotSubscription);
+      for (const unsubscribe of unsubscribers) unsubscribe();
+    };
+  }, [wallet.publicKey, connection, getProviderAndClient, refreshSchedules]);
+
   // Create vesting schedule
   const create = useCallback(
     async (
@@ -78,7 +255,9 @@ export function useVesting() {
       startTime: number,
       cliffDuration: number,
       vestingDuration: number,
-      decimals: number = 9
+      release?: VestingRelease,
+      // Defaults to the connected wallet; null makes the grant irrevocable
+      revokeAuthority?: string | null
     ) => {
       if (!wallet.publicKey) {
         toast.error('Please connect your wallet');
@@ -86,121 +265,371 @@ export function useVesting() {
       }
 
       setLoading(true);
+      setLastError(null);
       const toastId = toast.loading('Creating vesting schedule...');
 
       try {
-        const { program } = getProviderAndProgram();
-        
-        // Parse the amount with proper decimals
-        const [intPart, fracPart = ''] = totalAmount.split('.');
-        const paddedFrac = fracPart.padEnd(decimals, '0').slice(0, decimals);
-        const amountBN = new BN(intPart + paddedFrac);
-
-        const tx = await createVestingSchedule(
-          program,
-          wallet.publicKey,
-          new PublicKey(beneficiary),
-          new PublicKey(mint),
+        const { client } = getProviderAndClient();
+        const beneficiaryKey = new PublicKey(beneficiary);
+        const mintKey = new PublicKey(mint);
+
+        // Parse the amount with the mint's own decimals
+        const { decimals } = await client.fetchMintInfo(mintKey);
+        const amountBN = parseTokenAmount(totalAmount, decimals);
+
+        // A beneficiary who already has grants in this mint gets an additional one
+        const scheduleId = await client.findNextScheduleId(beneficiaryKey, mintKey);
+
+        const tx = await client.createVestingSchedule(
+          beneficiaryKey,
+          mintKey,
           amountBN,
           new BN(startTime),
           new BN(cliffDuration),
-          new BN(vestingDuration)
+          new BN(vestingDuration),
+          scheduleId,
+          release,
+          wallet.publicKey,
+          revokeAuthority === undefined
+            ? wallet.publicKey
+            : revokeAuthority === null
+            ? null
+            : new PublicKey(revokeAuthority)
         );
 
         toast.success('Vesting schedule created!', { id: toastId });
         await refreshSchedules();
         return tx;
-      } catch (error: any) {
+      } catch (error) {
         console.error('Create vesting error:', error);
-        const errorMsg = error?.message || 'Failed to create vesting schedule';
-        toast.error(errorMsg, { id: toastId });
+        reportError(error, toastId);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [wallet.publicKey, getProviderAndClient, refreshSchedules, reportError]
+  );
+
+  // Create many vesting schedules from an allocation file
+  const createBatch = useCallback(
+    async (mint: string, allocations: Allocation[], onProgress?: (results: BatchRowResult[]) => void) => {
+      if (!wallet.publicKey || !wallet.signAllTransactions) {
+        toast.error('Please connect your wallet');
+        return null;
+      }
+
+      setLoading(true);
+      setLastError(null);
+      const toastId = toast.loading(`Creating ${allocations.length} vesting schedules...`);
+
+      try {
+        const { client } = getProviderAndClient();
+
+        const results = await createVestingSchedulesBatch(
+          client.program,
+          wallet.publicKey,
+          new PublicKey(mint),
+          allocations,
+          wallet.signAllTransactions,
+          { onProgress }
+        );
+
+        const created = results.filter((r) => r.status === 'success').length;
+        const failed = results.filter((r) => ['failed', 'invalid', 'conflict'].includes(r.status)).length;
+        if (failed > 0) {
+          toast.error(`Created ${created} schedules, ${failed} rows failed`, { id: toastId });
+        } else {
+          toast.success(`Created ${created} vesting schedules!`, { id: toastId });
+        }
+        await refreshSchedules();
+        return results;
+      } catch (error) {
+        console.error('Batch create error:', error);
+        reportError(error, toastId);
         return null;
       } finally {
         setLoading(false);
       }
     },
-    [wallet.publicKey, getProviderAndProgram, refreshSchedules]
+    [wallet.publicKey, wallet.signAllTransactions, getProviderAndClient, refreshSchedules, reportError]
   );
 
   // Claim tokens
   const claim = useCallback(
-    async (admin: string, mint: string) => {
+    async (admin: string, mint: string, scheduleId: BN) => {
       if (!wallet.publicKey) {
         toast.error('Please connect your wallet');
         return null;
       }
 
       setLoading(true);
+      setLastError(null);
       const toastId = toast.loading('Claiming tokens...');
 
       try {
-        const { program } = getProviderAndProgram();
+        const { client } = getProviderAndClient();
 
-        const tx = await claimTokens(
-          program,
-          wallet.publicKey,
-          new PublicKey(admin),
-          new PublicKey(mint)
-        );
+        const tx = await client.claim(new PublicKey(admin), new PublicKey(mint), scheduleId);
 
         toast.success('Tokens claimed successfully!', { id: toastId });
         await refreshSchedules();
         return tx;
-      } catch (error: any) {
+      } catch (error) {
         console.error('Claim error:', error);
-        const errorMsg = error?.message || 'Failed to claim tokens';
-        toast.error(errorMsg, { id: toastId });
+        reportError(error, toastId);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [wallet.publicKey, getProviderAndClient, refreshSchedules, reportError]
+  );
+
+  // Claim from every schedule with something claimable
+  const claimAll = useCallback(async (): Promise<ClaimAllResult[] | null> => {
+    if (!wallet.publicKey || !wallet.signAllTransactions) {
+      toast.error('Please connect your wallet');
+      return null;
+    }
+
+    setLoading(true);
+    setLastError(null);
+    const toastId = toast.loading('Claiming from all schedules...');
+
+    try {
+      const { client } = getProviderAndClient();
+
+      const results = await claimAllSchedules(client.program, wallet.publicKey, wallet.signAllTransactions);
+
+      const claimed = results.filter((r) => r.status === 'success').length;
+      const failed = results.length - claimed;
+      if (results.length === 0) {
+        toast.error('Nothing to claim yet', { id: toastId });
+      } else if (failed > 0) {
+        toast.error(`Claimed from ${claimed} schedules, ${failed} failed`, { id: toastId });
+      } else {
+        toast.success(`Claimed from ${claimed} schedules!`, { id: toastId });
+      }
+      await refreshSchedules();
+      return results;
+    } catch (error) {
+      console.error('Claim all error:', error);
+      reportError(error, toastId);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [wallet.publicKey, wallet.signAllTransactions, getProviderAndClient, refreshSchedules, reportError]);
+
+  // Let keepers claim into the beneficiary's wallet, or stop them, as the beneficiary
+  const setAllowCrank = useCallback(
+    async (admin: string, mint: string, scheduleId: BN, allowCrank: boolean) => {
+      if (!wallet.publicKey) {
+        toast.error('Please connect your wallet');
+        return null;
+      }
+
+      setLoading(true);
+      setLastError(null);
+      const toastId = toast.loading(allowCrank ? 'Allowing claims for you...' : 'Stopping claims for you...');
+
+      try {
+        const { client } = getProviderAndClient();
+
+        const tx = await client.setAllowCrank(new PublicKey(admin), new PublicKey(mint), allowCrank, scheduleId);
+
+        toast.success(allowCrank ? 'Anyone can now claim for you' : 'Only you can claim now', { id: toastId });
+        await refreshSchedules();
+        return tx;
+      } catch (error) {
+        console.error('Allow crank error:', error);
+        reportError(error, toastId);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [wallet.publicKey, getProviderAndClient, refreshSchedules, reportError]
+  );
+
+  // Let the admin authority move the grant for the beneficiary, or stop it, as the beneficiary
+  const setAllowAdminTransfer = useCallback(
+    async (admin: string, mint: string, scheduleId: BN, allowAdminTransfer: boolean) => {
+      if (!wallet.publicKey) {
+        toast.error('Please connect your wallet');
+        return null;
+      }
+
+      setLoading(true);
+      setLastError(null);
+      const toastId = toast.loading(
+        allowAdminTransfer ? 'Allowing the admin to move your grant...' : 'Stopping the admin moving your grant...'
+      );
+
+      try {
+        const { client } = getProviderAndClient();
+
+        const tx = await client.setAllowAdminTransfer(
+          new PublicKey(admin),
+          new PublicKey(mint),
+          allowAdminTransfer,
+          scheduleId
+        );
+
+        toast.success(allowAdminTransfer ? 'The admin can now move your grant' : 'Only you can move your grant now', {
+          id: toastId,
+        });
+        await refreshSchedules();
+        return tx;
+      } catch (error) {
+        console.error('Allow admin transfer error:', error);
+        reportError(error, toastId);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [wallet.publicKey, getProviderAndClient, refreshSchedules, reportError]
+  );
+
+  // Move a grant to a new beneficiary, as its beneficiary or its admin authority
+  const transferBeneficiary = useCallback(
+    async (admin: string, beneficiary: string, mint: string, scheduleId: BN, newBeneficiary: string) => {
+      if (!wallet.publicKey) {
+        toast.error('Please connect your wallet');
+        return null;
+      }
+
+      setLoading(true);
+      setLastError(null);
+      const toastId = toast.loading('Moving grant to the new wallet...');
+
+      try {
+        const { client } = getProviderAndClient();
+
+        const tx = await client.transferBeneficiary(
+          new PublicKey(admin),
+          new PublicKey(beneficiary),
+          new PublicKey(mint),
+          new PublicKey(newBeneficiary),
+          scheduleId
+        );
+
+        toast.success('Grant moved to the new wallet!', { id: toastId });
+        await refreshSchedules();
+        return tx;
+      } catch (error) {
+        console.error('Transfer error:', error);
+        reportError(error, toastId);
         return null;
       } finally {
         setLoading(false);
       }
     },
-    [wallet.publicKey, getProviderAndProgram, refreshSchedules]
+    [wallet.publicKey, getProviderAndClient, refreshSchedules, reportError]
   );
 
-  // Revoke vesting
+  // Revoke vesting, as its revoke authority
   const revoke = useCallback(
-    async (beneficiary: string, mint: string) => {
+    async (admin: string, beneficiary: string, mint: string, scheduleId: BN) => {
       if (!wallet.publicKey) {
         toast.error('Please connect your wallet');
         return null;
       }
 
       setLoading(true);
+      setLastError(null);
       const toastId = toast.loading('Revoking vesting schedule...');
 
       try {
-        const { program } = getProviderAndProgram();
+        const { client } = getProviderAndClient();
 
-        const tx = await revokeVesting(
-          program,
-          wallet.publicKey,
+        const tx = await client.revoke(
           new PublicKey(beneficiary),
-          new PublicKey(mint)
+          new PublicKey(mint),
+          scheduleId,
+          new PublicKey(admin)
         );
 
         toast.success('Vesting revoked successfully!', { id: toastId });
         await refreshSchedules();
         return tx;
-      } catch (error: any) {
+      } catch (error) {
         console.error('Revoke error:', error);
-        const errorMsg = error?.message || 'Failed to revoke vesting';
-        toast.error(errorMsg, { id: toastId });
+        reportError(error, toastId);
         return null;
       } finally {
         setLoading(false);
       }
     },
-    [wallet.publicKey, getProviderAndProgram, refreshSchedules]
+    [wallet.publicKey, getProviderAndClient, refreshSchedules, reportError]
+  );
+
+  // Close a settled schedule, as its admin authority; the rent goes back to the admin who funded it
+  const close = useCallback(
+    async (admin: string, beneficiary: string, mint: string, scheduleId: BN) => {
+      if (!wallet.publicKey) {
+        toast.error('Please connect your wallet');
+        return null;
+      }
+
+      setLoading(true);
+      setLastError(null);
+      const toastId = toast.loading('Closing vesting schedule...');
+
+      try {
+        const { client } = getProviderAndClient();
+
+        const tx = await client.close(
+          new PublicKey(beneficiary),
+          new PublicKey(mint),
+          scheduleId,
+          new PublicKey(admin)
+        );
+
+        toast.success('Schedule closed and rent reclaimed!', { id: toastId });
+        await refreshSchedules();
+        return tx;
+      } catch (error) {
+        console.error('Close error:', error);
+        reportError(error, toastId);
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [wallet.publicKey, getProviderAndClient, refreshSchedules, reportError]
+  );
+
+  // Events for one schedule, newest first; failures are left to the caller
+  const fetchHistory = useCallback(
+    async (schedule: PublicKey): Promise<VestingEvent[]> => {
+      const { client } = getProviderAndClient();
+      return client.fetchHistory(schedule);
+    },
+    [getProviderAndClient]
   );
 
   return {
     loading,
+    lastError,
+    clearError,
+    isStale,
     beneficiarySchedules,
     adminSchedules,
+    mints,
+    reclaimableRent,
     create,
+    createBatch,
     claim,
+    claimAll,
+    setAllowCrank,
+    setAllowAdminTransfer,
+    transferBeneficiary,
     revoke,
+    close,
+    fetchHistory,
     refreshSchedules,
   };
 }
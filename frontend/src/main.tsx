@@ -1,13 +1,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { ClusterProvider } from './components/ClusterProvider';
 import { WalletContextProvider } from './components/WalletProvider';
 import './styles/index.css';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <WalletContextProvider>
-      <App />
-    </WalletContextProvider>
+    <ClusterProvider>
+      <WalletContextProvider>
+        <App />
+      </WalletContextProvider>
+    </ClusterProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,127 @@
+import { PublicKey, clusterApiUrl } from '@solana/web3.js';
+import { PROGRAM_ID } from './program';
+
+export type ClusterName = 'localnet' | 'devnet' | 'mainnet-beta' | 'custom';
+
+export const CLUSTER_LABELS: Record<ClusterName, string> = {
+  localnet: 'Localnet',
+  devnet: 'Devnet',
+  'mainnet-beta': 'Mainnet',
+  custom: 'Custom RPC',
+};
+
+export interface Cluster {
+  name: ClusterName;
+  endpoint: string;
+  programId: PublicKey;
+}
+
+// What the user picked; only a custom cluster needs more than its name
+export interface ClusterSelection {
+  name: ClusterName;
+  customEndpoint?: string;
+  customProgramId?: string;
+}
+
+const STORAGE_KEY = 'token-vesting:cluster';
+const env = import.meta.env;
+
+function isClusterName(value: unknown): value is ClusterName {
+  return typeof value === 'string' && value in CLUSTER_LABELS;
+}
+
+// Program ID for a cluster: its own variable, the shared one, then the SDK default
+function envProgramId(value: string | undefined): PublicKey {
+  const id = value || env.VITE_PROGRAM_ID;
+  return id ? new PublicKey(id) : PROGRAM_ID;
+}
+
+const PRESETS: Record<Exclude<ClusterName, 'custom'>, Cluster> = {
+  localnet: {
+    name: 'localnet',
+    endpoint: env.VITE_LOCALNET_RPC_URL || 'http://127.0.0.1:8899',
+    programId: envProgramId(env.VITE_LOCALNET_PROGRAM_ID),
+  },
+  devnet: {
+    name: 'devnet',
+    endpoint: env.VITE_DEVNET_RPC_URL || clusterApiUrl('devnet'),
+    programId: envProgramId(env.VITE_DEVNET_PROGRAM_ID),
+  },
+  'mainnet-beta': {
+    name: 'mainnet-beta',
+    endpoint: env.VITE_MAINNET_RPC_URL || clusterApiUrl('mainnet-beta'),
+    programId: envProgramId(env.VITE_MAINNET_PROGRAM_ID),
+  },
+};
+
+// A bare VITE_SOLANA_RPC_URL (how the app used to be configured) means a custom cluster
+export const DEFAULT_SELECTION: ClusterSelection = {
+  name: isClusterName(env.VITE_CLUSTER) ? env.VITE_CLUSTER : env.VITE_SOLANA_RPC_URL ? 'custom' : 'devnet',
+  customEndpoint: env.VITE_SOLANA_RPC_URL,
+  customProgramId: env.VITE_PROGRAM_ID,
+};
+
+/**
+ * Endpoint and program ID for a selection. Throws if a custom selection's
+ * endpoint or program ID is missing or malformed.
+ */
+export function resolveCluster(selection: ClusterSelection): Cluster {
+  if (selection.name !== 'custom') return PRESETS[selection.name];
+
+  const endpoint = selection.customEndpoint?.trim() ?? '';
+  if (!/^https?:\/\//.test(endpoint)) {
+    throw new Error('Enter an http(s) RPC URL');
+  }
+  let programId: PublicKey;
+  try {
+    programId = selection.customProgramId ? new PublicKey(selection.customProgramId.trim()) : PROGRAM_ID;
+  } catch {
+    throw new Error('Enter a valid program ID');
+  }
+  return { name: 'custom', endpoint, programId };
+}
+
+/**
+ * The selection saved in this browser, if it still resolves, else the default
+ */
+export function loadClusterSelection(): ClusterSelection {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (saved && isClusterName(saved.name)) {
+      resolveCluster(saved);
+      return saved;
+    }
+  } catch {
+    // Unreadable or no longer valid; fall back to the default
+  }
+  return DEFAULT_SELECTION;
+}
+
+/**
+ * A preset named by a shared link's `cluster` parameter, so the link opens on
+ * the cluster it was made on. Custom endpoints are never taken from links.
+ */
+export function clusterFromLink(search: string): ClusterSelection | null {
+  const name = new URLSearchParams(search).get('cluster');
+  return isClusterName(name) && name !== 'custom' ? { name } : null;
+}
+
+export function saveClusterSelection(selection: ClusterSelection): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+}
+
+/**
+ * Solana Explorer link for a transaction signature or an address on a cluster.
+ * Localnet and custom endpoints go through the explorer's custom RPC option.
+ */
+export function explorerUrl(cluster: Cluster, kind: 'tx' | 'address', value: string): string {
+  const base = `https://explorer.solana.com/${kind}/${value}`;
+  switch (cluster.name) {
+    case 'mainnet-beta':
+      return base;
+    case 'devnet':
+      return `${base}?cluster=devnet`;
+    default:
+      return `${base}?cluster=custom&customUrl=${encodeURIComponent(cluster.endpoint)}`;
+  }
+}
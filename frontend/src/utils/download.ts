@@ -0,0 +1,15 @@
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export function downloadFile(contents: string, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadJson(value: unknown, fileName: string): void {
+  downloadFile(JSON.stringify(value, null, 2), fileName, 'application/json');
+}
@@ -0,0 +1,19 @@
+import { Cluster } from './cluster';
+
+// Pages with their own URL; everything else is the app at `/`
+export type Route = { kind: 'app' } | { kind: 'schedule'; address: string } | { kind: 'wallet'; address: string };
+
+export function parseRoute(pathname: string): Route {
+  const match = pathname.match(/^\/(schedule|wallet)\/([^/]+)\/?$/);
+  if (!match) return { kind: 'app' };
+  return { kind: match[1] as 'schedule' | 'wallet', address: decodeURIComponent(match[2]) };
+}
+
+/**
+ * Link anyone can open to view a schedule or a wallet's schedules without
+ * connecting, on the cluster it was made on
+ */
+export function shareUrl(kind: 'schedule' | 'wallet', address: string, cluster: Cluster): string {
+  const query = cluster.name === 'custom' ? '' : `?cluster=${cluster.name}`;
+  return `${window.location.origin}/${kind}/${address}${query}`;
+}
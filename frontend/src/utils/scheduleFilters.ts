@@ -0,0 +1,118 @@
+import { VestingInfo, VestingStatus, VESTING_STATUS_LABELS, getVestingStatus } from './program';
+
+export type ScheduleTab = 'beneficiary' | 'admin';
+export type ScheduleSort = 'end' | 'claimable' | 'total';
+export type ScheduleLayout = 'cards' | 'table';
+
+export const SORT_LABELS: Record<ScheduleSort, string> = {
+  end: 'End date',
+  claimable: 'Claimable',
+  total: 'Total',
+};
+
+// What the dashboard shows; every field round-trips through the URL
+export interface ScheduleFilters {
+  tab: ScheduleTab;
+  status?: VestingStatus;
+  mint?: string;
+  // Part of the beneficiary's or admin's address
+  address?: string;
+  sort: ScheduleSort;
+  descending: boolean;
+  layout: ScheduleLayout;
+  // 1-based
+  page: number;
+}
+
+export const DEFAULT_FILTERS: ScheduleFilters = {
+  tab: 'beneficiary',
+  sort: 'end',
+  descending: false,
+  layout: 'cards',
+  page: 1,
+};
+
+export const PAGE_SIZES: Record<ScheduleLayout, number> = {
+  cards: 12,
+  table: 50,
+};
+
+const isStatus = (value: string | null): value is VestingStatus => value !== null && value in VESTING_STATUS_LABELS;
+
+/**
+ * Filters from a query string, ignoring anything unrecognised
+ */
+export function parseFilters(search: string): ScheduleFilters {
+  const params = new URLSearchParams(search);
+  const status = params.get('status');
+  const sort = params.get('sort');
+  const page = Number(params.get('page'));
+  return {
+    tab: params.get('tab') === 'admin' ? 'admin' : 'beneficiary',
+    status: isStatus(status) ? status : undefined,
+    mint: params.get('mint') || undefined,
+    address: params.get('address') || undefined,
+    sort: sort && sort in SORT_LABELS ? (sort as ScheduleSort) : DEFAULT_FILTERS.sort,
+    descending: params.get('order') === 'desc',
+    layout: params.get('layout') === 'table' ? 'table' : 'cards',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
+
+// Query parameters the filters own; anything else in the URL is left alone
+const FILTER_PARAMS = ['tab', 'status', 'mint', 'address', 'sort', 'order', 'layout', 'page'];
+
+/**
+ * Query string for filters, leaving out defaults so plain links stay plain.
+ * Other parameters in `search`, like the cluster, are kept.
+ */
+export function serializeFilters(filters: ScheduleFilters, search: string = ''): string {
+  const params = new URLSearchParams(search);
+  FILTER_PARAMS.forEach((key) => params.delete(key));
+  if (filters.tab !== DEFAULT_FILTERS.tab) params.set('tab', filters.tab);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.mint) params.set('mint', filters.mint);
+  if (filters.address) params.set('address', filters.address);
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.descending) params.set('order', 'desc');
+  if (filters.layout !== DEFAULT_FILTERS.layout) params.set('layout', filters.layout);
+  if (filters.page > 1) params.set('page', String(filters.page));
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Schedules matching the filters, in the chosen order. Statuses are the ones
+ * VestingCard shows, as of `now` in unix seconds.
+ */
+export function applyFilters(
+  schedules: VestingInfo[],
+  filters: ScheduleFilters,
+  now: number = Math.floor(Date.now() / 1000)
+): VestingInfo[] {
+  const address = filters.address?.trim().toLowerCase();
+  const matching = schedules.filter(({ account }) => {
+    if (filters.status && getVestingStatus(account, now) !== filters.status) return false;
+    if (filters.mint && account.mint.toBase58() !== filters.mint) return false;
+    if (
+      address &&
+      !account.beneficiary.toBase58().toLowerCase().includes(address) &&
+      !account.admin.toBase58().toLowerCase().includes(address)
+    ) {
+      return false;
+    }
+    return true;
+  });
+
+  const sign = filters.descending ? -1 : 1;
+  return matching.sort((a, b) => {
+    switch (filters.sort) {
+      case 'claimable':
+        return sign * a.claimableAmount.cmp(b.claimableAmount);
+      case 'total':
+        return sign * a.account.totalAmount.cmp(b.account.totalAmount);
+      case 'end':
+        return sign * (a.vestingEnd.getTime() - b.vestingEnd.getTime());
+    }
+  });
+}
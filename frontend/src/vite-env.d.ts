@@ -0,0 +1,20 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Cluster selected until the user picks another: localnet, devnet, mainnet-beta or custom
+  readonly VITE_CLUSTER?: string;
+  // RPC endpoint of the custom cluster
+  readonly VITE_SOLANA_RPC_URL?: string;
+  // Program ID on every cluster without its own below
+  readonly VITE_PROGRAM_ID?: string;
+  readonly VITE_LOCALNET_RPC_URL?: string;
+  readonly VITE_LOCALNET_PROGRAM_ID?: string;
+  readonly VITE_DEVNET_RPC_URL?: string;
+  readonly VITE_DEVNET_PROGRAM_ID?: string;
+  readonly VITE_MAINNET_RPC_URL?: string;
+  readonly VITE_MAINNET_PROGRAM_ID?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -21,6 +21,8 @@ export default defineConfig({
     alias: {
       '@': '/src',
     },
+    // Resolve the linked SDK's dependencies from this app's node_modules
+    preserveSymlinks: true,
   },
   build: {
     outDir: 'dist',
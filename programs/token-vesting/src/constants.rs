@@ -3,4 +3,6 @@ pub const VAULT_SEED: &[u8] = b"vault";
 
 pub const MIN_VESTING_DURATION: i64 = 86_400;
 pub const MAX_VESTING_DURATION: i64 = 315_360_000;
-pub const MAX_CLIFF_PERCENTAGE: u64 = 50;
\ No newline at end of file
+pub const MAX_CLIFF_PERCENTAGE: u64 = 50;
+pub const BPS_DENOMINATOR: u64 = 10_000;
+pub const MAX_MILESTONES: usize = 16;
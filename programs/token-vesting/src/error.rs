@@ -34,4 +34,49 @@ pub enum VestingError {
 
     #[msg("Vesting amount must be greater than zero")]
     InvalidAmount,
+
+    #[msg("Vault did not receive the full vesting amount")]
+    TransferAmountMismatch,
+
+    #[msg("Vesting schedule still holds unclaimed tokens")]
+    ScheduleNotSettled,
+
+    #[msg("Initial unlock cannot exceed 100%")]
+    InvalidUnlockPercentage,
+
+    #[msg("Vesting period must be positive and within the vesting duration")]
+    InvalidPeriod,
+
+    #[msg("Milestones must be in order, within the vesting duration and add up to 100%")]
+    InvalidMilestones,
+
+    #[msg("Only the beneficiary or the admin can transfer a vesting schedule")]
+    UnauthorizedTransfer,
+
+    #[msg("New beneficiary is the current beneficiary")]
+    SameBeneficiary,
+
+    #[msg("Vesting schedule has nothing left to transfer")]
+    NothingToTransfer,
+
+    #[msg("Vesting schedule must be migrated to the current layout first")]
+    ScheduleNotMigrated,
+
+    #[msg("This vesting schedule is irrevocable")]
+    Irrevocable,
+
+    #[msg("Signer does not hold this authority")]
+    UnauthorizedAuthority,
+
+    #[msg("A vesting schedule must keep an admin authority")]
+    AuthorityRequired,
+
+    #[msg("The beneficiary has not allowed others to claim for them")]
+    CrankNotAllowed,
+
+    #[msg("Grants of tokens that charge a transfer fee cannot be moved")]
+    TransferFeeNotSupported,
+
+    #[msg("The admin can only move a revocable grant whose beneficiary has allowed it")]
+    AdminTransferNotAllowed,
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 use anchor_lang::prelude::*;
 use anchor_spl::{
     associated_token::AssociatedToken,
-    token::{self, Mint, Token, TokenAccount, Transfer},
+    token_interface::{self, Mint, TokenAccount, TokenInterface, TransferChecked},
 };
 
 use crate::{
@@ -22,14 +22,18 @@ pub struct Claim<'info> {
             vesting_schedule.admin.as_ref(),
             beneficiary.key().as_ref(),
             mint.key().as_ref(),
+            VestingSchedule::id_seed(vesting_schedule.schedule_id).as_ref(),
         ],
         bump = vesting_schedule.bump,
+        constraint = VestingSchedule::is_migrated(&vesting_schedule.to_account_info())
+            @ VestingError::ScheduleNotMigrated,
         has_one = beneficiary,
         has_one = mint,
     )]
     pub vesting_schedule: Account<'info, VestingSchedule>,
 
-    pub mint: Account<'info, Mint>,
+    #[account(mint::token_program = token_program)]
+    pub mint: InterfaceAccount<'info, Mint>,
 
     #[account(
         mut,
@@ -37,74 +41,101 @@ pub struct Claim<'info> {
         bump = vesting_schedule.vault_bump,
         token::mint = mint,
         token::authority = vesting_schedule,
+        token::token_program = token_program,
     )]
-    pub vault: Account<'info, TokenAccount>,
+    pub vault: InterfaceAccount<'info, TokenAccount>,
 
     #[account(
         init_if_needed,
         payer = beneficiary,
         associated_token::mint = mint,
         associated_token::authority = beneficiary,
+        associated_token::token_program = token_program,
     )]
-    pub beneficiary_token_account: Account<'info, TokenAccount>,
+    pub beneficiary_token_account: InterfaceAccount<'info, TokenAccount>,
 
     pub system_program: Program<'info, System>,
-    pub token_program: Program<'info, Token>,
+    pub token_program: Interface<'info, TokenInterface>,
     pub associated_token_program: Program<'info, AssociatedToken>,
 }
 
 pub fn handler(ctx: Context<Claim>) -> Result<()> {
-    let vesting_schedule = &ctx.accounts.vesting_schedule;
+    let accounts = ctx.accounts;
+    release_claimable(
+        &mut accounts.vesting_schedule,
+        &accounts.mint,
+        &accounts.vault,
+        &accounts.beneficiary_token_account,
+        &accounts.token_program,
+    )
+}
+
+/// Pay everything claimable out of the vault into the beneficiary's token
+/// account. Shared by `claim` and `crank_claim`, which differ only in who
+/// signs; the caller's constraints have already tied every account to the
+/// schedule.
+pub(crate) fn release_claimable<'info>(
+    vesting_schedule: &mut Account<'info, VestingSchedule>,
+    mint: &InterfaceAccount<'info, Mint>,
+    vault: &InterfaceAccount<'info, TokenAccount>,
+    beneficiary_token_account: &InterfaceAccount<'info, TokenAccount>,
+    token_program: &Interface<'info, TokenInterface>,
+) -> Result<()> {
     let clock = Clock::get()?;
 
-    require!(!vesting_schedule.is_revoked, VestingError::VestingRevoked);
+    let claimable = vesting_schedule.calculate_claimable_amount(clock.unix_timestamp)?;
 
-    require!(
-        vesting_schedule.is_cliff_reached(clock.unix_timestamp),
-        VestingError::CliffNotReached
-    );
+    // Before the cliff only an initial unlock can be claimed. A revoked
+    // schedule keeps whatever had vested at revoke time claimable.
+    if claimable == 0 && !vesting_schedule.is_revoked {
+        require!(
+            vesting_schedule.is_cliff_reached(clock.unix_timestamp),
+            VestingError::CliffNotReached
+        );
+    }
 
-    let claimable = vesting_schedule.calculate_claimable_amount(clock.unix_timestamp)?;
-    
     require!(claimable > 0, VestingError::NothingToClaim);
 
     let admin_key = vesting_schedule.admin;
-    let beneficiary_key = ctx.accounts.beneficiary.key();
-    let mint_key = ctx.accounts.mint.key();
-    
+    let beneficiary_key = vesting_schedule.beneficiary;
+    let mint_key = mint.key();
+    let id_seed = VestingSchedule::id_seed(vesting_schedule.schedule_id);
+
     let signer_seeds: &[&[&[u8]]] = &[&[
         VESTING_SEED,
         admin_key.as_ref(),
         beneficiary_key.as_ref(),
         mint_key.as_ref(),
+        &id_seed,
         &[vesting_schedule.bump],
     ]];
 
-    token::transfer(
+    token_interface::transfer_checked(
         CpiContext::new_with_signer(
-            ctx.accounts.token_program.to_account_info(),
-            Transfer {
-                from: ctx.accounts.vault.to_account_info(),
-                to: ctx.accounts.beneficiary_token_account.to_account_info(),
-                authority: ctx.accounts.vesting_schedule.to_account_info(),
+            token_program.to_account_info(),
+            TransferChecked {
+                from: vault.to_account_info(),
+                mint: mint.to_account_info(),
+                to: beneficiary_token_account.to_account_info(),
+                authority: vesting_schedule.to_account_info(),
             },
             signer_seeds,
         ),
         claimable,
+        mint.decimals,
     )?;
 
-    let vesting_schedule = &mut ctx.accounts.vesting_schedule;
     vesting_schedule.claimed_amount = vesting_schedule
         .claimed_amount
         .checked_add(claimable)
         .ok_or(VestingError::CalculationOverflow)?;
 
     emit!(TokensClaimed {
-        beneficiary: ctx.accounts.beneficiary.key(),
-        mint: ctx.accounts.mint.key(),
+        beneficiary: beneficiary_key,
+        mint: mint_key,
         amount: claimable,
         total_claimed: vesting_schedule.claimed_amount,
-        remaining: vesting_schedule.total_amount - vesting_schedule.claimed_amount,
+        remaining: vesting_schedule.remaining_amount(),
     });
 
     msg!(
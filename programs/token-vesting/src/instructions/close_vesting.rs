@@ -0,0 +1,172 @@
+use anchor_lang::{prelude::*, solana_program::program::invoke};
+use anchor_spl::{
+    token_2022::spl_token_2022::{
+        self,
+        extension::{
+            transfer_fee::{instruction::harvest_withheld_tokens_to_mint, TransferFeeAmount},
+            BaseStateWithExtensions, StateWithExtensions,
+        },
+    },
+    token_interface::{self, CloseAccount, Mint, TokenAccount, TokenInterface, TransferChecked},
+};
+
+use crate::{
+    constants::{VAULT_SEED, VESTING_SEED},
+    error::VestingError,
+    state::VestingSchedule,
+};
+
+#[derive(Accounts)]
+pub struct CloseVestingSchedule<'info> {
+    pub authority: Signer<'info>,
+
+    /// CHECK: The funder, checked against the schedule; gets the rent back
+    #[account(mut)]
+    pub admin: UncheckedAccount<'info>,
+
+    #[account(
+        mut,
+        seeds = [
+            VESTING_SEED,
+            admin.key().as_ref(),
+            vesting_schedule.beneficiary.as_ref(),
+            mint.key().as_ref(),
+            VestingSchedule::id_seed(vesting_schedule.schedule_id).as_ref(),
+        ],
+        bump = vesting_schedule.bump,
+        constraint = VestingSchedule::is_migrated(&vesting_schedule.to_account_info())
+            @ VestingError::ScheduleNotMigrated,
+        has_one = admin,
+        has_one = authority,
+        has_one = mint,
+        close = admin,
+    )]
+    pub vesting_schedule: Account<'info, VestingSchedule>,
+
+    // Writable so Token-2022 transfer fees withheld in the vault can be harvested
+    #[account(mut, mint::token_program = token_program)]
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        mut,
+        seeds = [VAULT_SEED, vesting_schedule.key().as_ref()],
+        bump = vesting_schedule.vault_bump,
+        token::mint = mint,
+        token::authority = vesting_schedule,
+        token::token_program = token_program,
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+
+    /// Gets anything sent to the vault beyond the grant
+    #[account(
+        mut,
+        associated_token::mint = mint,
+        associated_token::authority = admin,
+        associated_token::token_program = token_program,
+    )]
+    pub admin_token_account: InterfaceAccount<'info, TokenAccount>,
+
+    pub token_program: Interface<'info, TokenInterface>,
+}
+
+pub fn handler(ctx: Context<CloseVestingSchedule>) -> Result<()> {
+    let vesting_schedule = &ctx.accounts.vesting_schedule;
+
+    // Everything owed has been claimed or returned to the admin
+    require!(
+        vesting_schedule.remaining_amount() == 0,
+        VestingError::ScheduleNotSettled
+    );
+
+    let admin_key = ctx.accounts.admin.key();
+    let beneficiary_key = vesting_schedule.beneficiary;
+    let mint_key = ctx.accounts.mint.key();
+    let id_seed = VestingSchedule::id_seed(vesting_schedule.schedule_id);
+
+    let signer_seeds: &[&[&[u8]]] = &[&[
+        VESTING_SEED,
+        admin_key.as_ref(),
+        beneficiary_key.as_ref(),
+        mint_key.as_ref(),
+        &id_seed,
+        &[vesting_schedule.bump],
+    ]];
+
+    // Tokens sent to the vault directly aren't part of the grant, and would
+    // otherwise keep it from being closed
+    let stray = ctx.accounts.vault.amount;
+    if stray > 0 {
+        token_interface::transfer_checked(
+            CpiContext::new_with_signer(
+                ctx.accounts.token_program.to_account_info(),
+                TransferChecked {
+                    from: ctx.accounts.vault.to_account_info(),
+                    mint: ctx.accounts.mint.to_account_info(),
+                    to: ctx.accounts.admin_token_account.to_account_info(),
+                    authority: ctx.accounts.vesting_schedule.to_account_info(),
+                },
+                signer_seeds,
+            ),
+            stray,
+            ctx.accounts.mint.decimals,
+        )?;
+    }
+
+    if vault_has_withheld_fees(&ctx.accounts.vault.to_account_info())? {
+        invoke(
+            &harvest_withheld_tokens_to_mint(
+                &ctx.accounts.token_program.key(),
+                &ctx.accounts.mint.key(),
+                &[&ctx.accounts.vault.key()],
+            )?,
+            &[
+                ctx.accounts.mint.to_account_info(),
+                ctx.accounts.vault.to_account_info(),
+            ],
+        )?;
+    }
+
+    token_interface::close_account(CpiContext::new_with_signer(
+        ctx.accounts.token_program.to_account_info(),
+        CloseAccount {
+            account: ctx.accounts.vault.to_account_info(),
+            destination: ctx.accounts.admin.to_account_info(),
+            authority: ctx.accounts.vesting_schedule.to_account_info(),
+        },
+        signer_seeds,
+    ))?;
+
+    emit!(VestingClosed {
+        admin: admin_key,
+        beneficiary: beneficiary_key,
+        mint: mint_key,
+        schedule_id: vesting_schedule.schedule_id,
+    });
+
+    msg!("Closed vesting schedule for {}", beneficiary_key);
+
+    Ok(())
+}
+
+/// Token-2022 vaults keep transfer fees withheld from incoming transfers, and
+/// can't be closed until they're harvested to the mint
+pub fn vault_has_withheld_fees(vault: &AccountInfo) -> Result<bool> {
+    if *vault.owner != spl_token_2022::ID {
+        return Ok(false);
+    }
+
+    let data = vault.try_borrow_data()?;
+    let account = StateWithExtensions::<spl_token_2022::state::Account>::unpack(&data)?;
+    Ok(match account.get_extension::<TransferFeeAmount>() {
+        Ok(fees) => u64::from(fees.withheld_amount) > 0,
+        Err(_) => false,
+    })
+}
+
+#[event]
+pub struct VestingClosed {
+    pub admin: Pubkey,
+    pub beneficiary: Pubkey,
+    pub mint: Pubkey,
+    pub schedule_id: u64,
+}
@@ -0,0 +1,91 @@
+use anchor_lang::prelude::*;
+use anchor_spl::{
+    associated_token::AssociatedToken,
+    token_interface::{Mint, TokenAccount, TokenInterface},
+};
+
+use crate::{
+    constants::{VAULT_SEED, VESTING_SEED},
+    error::VestingError,
+    instructions::claim::release_claimable,
+    state::VestingSchedule,
+};
+
+#[derive(Accounts)]
+pub struct CrankClaim<'info> {
+    /// Anyone; pays the fee, and the rent if the beneficiary has no token
+    /// account yet
+    #[account(mut)]
+    pub cranker: Signer<'info>,
+
+    /// CHECK: Only receives tokens; tied to the schedule by has_one
+    pub beneficiary: UncheckedAccount<'info>,
+
+    #[account(
+        mut,
+        seeds = [
+            VESTING_SEED,
+            vesting_schedule.admin.as_ref(),
+            beneficiary.key().as_ref(),
+            mint.key().as_ref(),
+            VestingSchedule::id_seed(vesting_schedule.schedule_id).as_ref(),
+        ],
+        bump = vesting_schedule.bump,
+        constraint = VestingSchedule::is_migrated(&vesting_schedule.to_account_info())
+            @ VestingError::ScheduleNotMigrated,
+        constraint = vesting_schedule.allow_crank @ VestingError::CrankNotAllowed,
+        has_one = beneficiary,
+        has_one = mint,
+    )]
+    pub vesting_schedule: Account<'info, VestingSchedule>,
+
+    #[account(mint::token_program = token_program)]
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        mut,
+        seeds = [VAULT_SEED, vesting_schedule.key().as_ref()],
+        bump = vesting_schedule.vault_bump,
+        token::mint = mint,
+        token::authority = vesting_schedule,
+        token::token_program = token_program,
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+
+    #[account(
+        init_if_needed,
+        payer = cranker,
+        associated_token::mint = mint,
+        associated_token::authority = beneficiary,
+        associated_token::token_program = token_program,
+    )]
+    pub beneficiary_token_account: InterfaceAccount<'info, TokenAccount>,
+
+    pub system_program: Program<'info, System>,
+    pub token_program: Interface<'info, TokenInterface>,
+    pub associated_token_program: Program<'info, AssociatedToken>,
+}
+
+/// Claim on the beneficiary's behalf, for keepers sweeping grants nobody has
+/// claimed. The tokens can only go to the beneficiary's associated token
+/// account, exactly as a claim would, but moving them is still the
+/// beneficiary's call: only schedules they've opted in with `set_allow_crank`
+/// can be cranked.
+pub fn handler(ctx: Context<CrankClaim>) -> Result<()> {
+    let accounts = ctx.accounts;
+    release_claimable(
+        &mut accounts.vesting_schedule,
+        &accounts.mint,
+        &accounts.vault,
+        &accounts.beneficiary_token_account,
+        &accounts.token_program,
+    )?;
+
+    msg!(
+        "Cranked by {} for {}",
+        accounts.cranker.key(),
+        accounts.beneficiary.key()
+    );
+
+    Ok(())
+}
@@ -1,16 +1,24 @@
 use anchor_lang::prelude::*;
 use anchor_spl::{
     associated_token::AssociatedToken,
-    token::{self, Mint, Token, TokenAccount, Transfer},
+    token_2022::spl_token_2022::{
+        self,
+        extension::{transfer_fee::TransferFeeConfig, BaseStateWithExtensions, StateWithExtensions},
+    },
+    token_interface::{self, Mint, TokenAccount, TokenInterface, TransferChecked},
 };
 
 use crate::{
-    constants::{MAX_CLIFF_PERCENTAGE, MAX_VESTING_DURATION, MIN_VESTING_DURATION, VAULT_SEED, VESTING_SEED},
+    constants::{
+        BPS_DENOMINATOR, MAX_CLIFF_PERCENTAGE, MAX_VESTING_DURATION, MIN_VESTING_DURATION,
+        VAULT_SEED, VESTING_SEED,
+    },
     error::VestingError,
-    state::VestingSchedule,
+    state::{VestingCurve, VestingSchedule},
 };
 
 #[derive(Accounts)]
+#[instruction(schedule_id: u64)]
 pub struct CreateVestingSchedule<'info> {
     #[account(mut)]
     pub admin: Signer<'info>,
@@ -18,7 +26,8 @@ pub struct CreateVestingSchedule<'info> {
     /// CHECK: Can be any valid pubkey
     pub beneficiary: UncheckedAccount<'info>,
 
-    pub mint: Account<'info, Mint>,
+    #[account(mint::token_program = token_program)]
+    pub mint: InterfaceAccount<'info, Mint>,
 
     #[account(
         init,
@@ -29,6 +38,7 @@ pub struct CreateVestingSchedule<'info> {
             admin.key().as_ref(),
             beneficiary.key().as_ref(),
             mint.key().as_ref(),
+            VestingSchedule::id_seed(schedule_id).as_ref(),
         ],
         bump,
     )]
@@ -41,54 +51,42 @@ pub struct CreateVestingSchedule<'info> {
         bump,
         token::mint = mint,
         token::authority = vesting_schedule,
+        token::token_program = token_program,
     )]
-    pub vault: Account<'info, TokenAccount>,
+    pub vault: InterfaceAccount<'info, TokenAccount>,
 
     #[account(
         mut,
         associated_token::mint = mint,
         associated_token::authority = admin,
+        associated_token::token_program = token_program,
     )]
-    pub admin_token_account: Account<'info, TokenAccount>,
+    pub admin_token_account: InterfaceAccount<'info, TokenAccount>,
 
     pub system_program: Program<'info, System>,
-    pub token_program: Program<'info, Token>,
+    pub token_program: Interface<'info, TokenInterface>,
     pub associated_token_program: Program<'info, AssociatedToken>,
 }
 
+#[allow(clippy::too_many_arguments)]
 pub fn handler(
     ctx: Context<CreateVestingSchedule>,
+    schedule_id: u64,
     total_amount: u64,
     start_time: i64,
     cliff_duration: i64,
     vesting_duration: i64,
+    initial_unlock_bps: u16,
+    curve: VestingCurve,
+    revoke_authority: Option<Pubkey>,
 ) -> Result<()> {
-    require!(total_amount > 0, VestingError::InvalidAmount);
-
-    require!(
-        vesting_duration >= MIN_VESTING_DURATION,
-        VestingError::DurationTooShort
-    );
-    require!(
-        vesting_duration <= MAX_VESTING_DURATION,
-        VestingError::DurationTooLong
-    );
-
-    require!(
-        cliff_duration <= vesting_duration,
-        VestingError::CliffTooLong
-    );
-
-    let cliff_percentage = (cliff_duration as u64)
-        .checked_mul(100)
-        .ok_or(VestingError::CalculationOverflow)?
-        .checked_div(vesting_duration as u64)
-        .ok_or(VestingError::CalculationOverflow)?;
-    
-    require!(
-        cliff_percentage <= MAX_CLIFF_PERCENTAGE,
-        VestingError::CliffPercentageTooHigh
-    );
+    validate_terms(
+        total_amount,
+        cliff_duration,
+        vesting_duration,
+        initial_unlock_bps,
+        &curve,
+    )?;
 
     let clock = Clock::get()?;
     require!(
@@ -110,27 +108,52 @@ pub fn handler(
     vesting_schedule.revoked_amount = 0;
     vesting_schedule.bump = ctx.bumps.vesting_schedule;
     vesting_schedule.vault_bump = ctx.bumps.vault;
+    vesting_schedule.schedule_id = schedule_id;
+    vesting_schedule.initial_unlock_bps = initial_unlock_bps;
+    vesting_schedule.authority = ctx.accounts.admin.key();
+    vesting_schedule.revoke_authority = revoke_authority;
+    vesting_schedule.curve = curve.clone();
+    vesting_schedule.allow_crank = false;
+    vesting_schedule.allow_admin_transfer = false;
 
-    token::transfer(
+    // Send enough to cover any Token-2022 transfer fee so the vault holds total_amount
+    let transfer_amount = amount_with_transfer_fee(
+        &ctx.accounts.mint.to_account_info(),
+        total_amount,
+        clock.epoch,
+    )?;
+
+    token_interface::transfer_checked(
         CpiContext::new(
             ctx.accounts.token_program.to_account_info(),
-            Transfer {
+            TransferChecked {
                 from: ctx.accounts.admin_token_account.to_account_info(),
+                mint: ctx.accounts.mint.to_account_info(),
                 to: ctx.accounts.vault.to_account_info(),
                 authority: ctx.accounts.admin.to_account_info(),
             },
         ),
-        total_amount,
+        transfer_amount,
+        ctx.accounts.mint.decimals,
     )?;
 
+    ctx.accounts.vault.reload()?;
+    require!(
+        ctx.accounts.vault.amount == total_amount,
+        VestingError::TransferAmountMismatch
+    );
+
     emit!(VestingCreated {
         admin: ctx.accounts.admin.key(),
         beneficiary: ctx.accounts.beneficiary.key(),
         mint: ctx.accounts.mint.key(),
+        schedule_id,
         total_amount,
         start_time,
         cliff_duration,
         vesting_duration,
+        initial_unlock_bps,
+        curve,
     });
 
     msg!(
@@ -143,13 +166,95 @@ pub fn handler(
     Ok(())
 }
 
+/// Schedule rules shared by create and preview; everything but the start time
+pub fn validate_terms(
+    total_amount: u64,
+    cliff_duration: i64,
+    vesting_duration: i64,
+    initial_unlock_bps: u16,
+    curve: &VestingCurve,
+) -> Result<()> {
+    require!(total_amount > 0, VestingError::InvalidAmount);
+
+    require!(
+        vesting_duration >= MIN_VESTING_DURATION,
+        VestingError::DurationTooShort
+    );
+    require!(
+        vesting_duration <= MAX_VESTING_DURATION,
+        VestingError::DurationTooLong
+    );
+
+    require!(
+        cliff_duration <= vesting_duration,
+        VestingError::CliffTooLong
+    );
+
+    let cliff_percentage = (cliff_duration as u64)
+        .checked_mul(100)
+        .ok_or(VestingError::CalculationOverflow)?
+        .checked_div(vesting_duration as u64)
+        .ok_or(VestingError::CalculationOverflow)?;
+    
+    require!(
+        cliff_percentage <= MAX_CLIFF_PERCENTAGE,
+        VestingError::CliffPercentageTooHigh
+    );
+
+    require!(
+        initial_unlock_bps as u64 <= BPS_DENOMINATOR,
+        VestingError::InvalidUnlockPercentage
+    );
+
+    curve.validate(vesting_duration)
+}
+
+/// Fee the mint charges this epoch for sending `amount`, zero without one
+pub fn transfer_fee(mint: &AccountInfo, amount: u64, epoch: u64) -> Result<u64> {
+    if *mint.owner != spl_token_2022::ID {
+        return Ok(0);
+    }
+
+    let data = mint.try_borrow_data()?;
+    let mint_state = StateWithExtensions::<spl_token_2022::state::Mint>::unpack(&data)?;
+    match mint_state.get_extension::<TransferFeeConfig>() {
+        Ok(config) => Ok(config
+            .calculate_epoch_fee(epoch, amount)
+            .ok_or(VestingError::CalculationOverflow)?),
+        Err(_) => Ok(0),
+    }
+}
+
+/// Amount to send so that `amount` arrives after the mint's transfer fee, if any
+fn amount_with_transfer_fee(mint: &AccountInfo, amount: u64, epoch: u64) -> Result<u64> {
+    if *mint.owner != spl_token_2022::ID {
+        return Ok(amount);
+    }
+
+    let data = mint.try_borrow_data()?;
+    let mint_state = StateWithExtensions::<spl_token_2022::state::Mint>::unpack(&data)?;
+    let fee = match mint_state.get_extension::<TransferFeeConfig>() {
+        Ok(config) => config
+            .calculate_inverse_epoch_fee(epoch, amount)
+            .ok_or(VestingError::CalculationOverflow)?,
+        Err(_) => 0,
+    };
+
+    amount
+        .checked_add(fee)
+        .ok_or(VestingError::CalculationOverflow.into())
+}
+
 #[event]
 pub struct VestingCreated {
     pub admin: Pubkey,
     pub beneficiary: Pubkey,
     pub mint: Pubkey,
+    pub schedule_id: u64,
     pub total_amount: u64,
     pub start_time: i64,
     pub cliff_duration: i64,
     pub vesting_duration: i64,
+    pub initial_unlock_bps: u16,
+    pub curve: VestingCurve,
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+use anchor_lang::{
+    prelude::*,
+    system_program::{self, Transfer},
+    Discriminator,
+};
+
+use crate::state::VestingSchedule;
+
+#[derive(Accounts)]
+pub struct MigrateVestingSchedule<'info> {
+    #[account(mut)]
+    pub payer: Signer<'info>,
+
+    /// CHECK: Legacy schedules are too short to deserialize; the discriminator
+    /// and size are checked in the handler
+    #[account(mut, owner = crate::ID)]
+    pub vesting_schedule: UncheckedAccount<'info>,
+
+    pub system_program: Program<'info, System>,
+}
+
+/// Grow a schedule created by an earlier version to the current layout. The
+/// new fields are zero-filled: `schedule_id` 0 matches an id-less PDA, and no
+/// initial unlock with a linear curve is how those schedules vested. Both
+/// authorities are set to the admin, who held them before they existed, with
+/// any curve moved past them. Cranking and admin transfers are left
+/// disallowed, in the bytes that follow the curve. Already migrated schedules
+/// are left untouched.
+pub fn handler(ctx: Context<MigrateVestingSchedule>) -> Result<()> {
+    let vesting_schedule = &ctx.accounts.vesting_schedule;
+    let space = 8 + VestingSchedule::INIT_SPACE;
+
+    {
+        let data = vesting_schedule.try_borrow_data()?;
+        require!(
+            data.len() >= 8 && data[..8] == VestingSchedule::DISCRIMINATOR,
+            ErrorCode::AccountDiscriminatorMismatch
+        );
+        if data.len() == space {
+            return Ok(());
+        }
+        require!(
+            data.len() == VestingSchedule::LEGACY_SPACE
+                || data.len() == VestingSchedule::PRE_CURVE_SPACE
+                || data.len() == VestingSchedule::PRE_AUTHORITY_SPACE
+                || data.len() == VestingSchedule::PRE_CRANK_SPACE
+                || data.len() == VestingSchedule::PRE_ADMIN_TRANSFER_SPACE,
+            ErrorCode::AccountDidNotDeserialize
+        );
+    }
+    let old_len = vesting_schedule.data_len();
+
+    let rent = Rent::get()?
+        .minimum_balance(space)
+        .saturating_sub(vesting_schedule.lamports());
+    if rent > 0 {
+        system_program::transfer(
+            CpiContext::new(
+                ctx.accounts.system_program.to_account_info(),
+                Transfer {
+                    from: ctx.accounts.payer.to_account_info(),
+                    to: vesting_schedule.to_account_info(),
+                },
+            ),
+            rent,
+        )?;
+    }
+
+    vesting_schedule.realloc(space, true)?;
+
+    // The authorities go before the curve, which moves up if there was one.
+    // Accounts that already have them only gain the bytes the realloc zeroed.
+    if old_len < VestingSchedule::PRE_CRANK_SPACE {
+        let mut data = vesting_schedule.try_borrow_mut_data()?;
+        let offset = VestingSchedule::AUTHORITY_OFFSET;
+        let curve_offset = offset + 32 + 33;
+        if old_len == VestingSchedule::PRE_AUTHORITY_SPACE {
+            data.copy_within(offset..old_len, curve_offset);
+        }
+        let admin = data[8..40].to_vec();
+        data[offset..offset + 32].copy_from_slice(&admin);
+        data[offset + 32] = 1;
+        data[offset + 33..curve_offset].copy_from_slice(&admin);
+    }
+
+    msg!("Migrated vesting schedule {}", vesting_schedule.key());
+
+    Ok(())
+}
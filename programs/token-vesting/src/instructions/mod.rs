@@ -1,7 +1,23 @@
 pub mod create_vesting;
 pub mod claim;
+pub mod crank_claim;
 pub mod revoke;
+pub mod migrate_vesting;
+pub mod close_vesting;
+pub mod preview_vesting;
+pub mod transfer_beneficiary;
+pub mod set_authority;
+pub mod set_allow_crank;
+pub mod set_allow_admin_transfer;
 
 pub use create_vesting::*;
 pub use claim::*;
-pub use revoke::*;
\ No newline at end of file
+pub use crank_claim::*;
+pub use revoke::*;
+pub use migrate_vesting::*;
+pub use close_vesting::*;
+pub use preview_vesting::*;
+pub use transfer_beneficiary::*;
+pub use set_authority::*;
+pub use set_allow_crank::*;
+pub use set_allow_admin_transfer::*;
\ No newline at end of file
@@ -0,0 +1,43 @@
+use anchor_lang::prelude::*;
+
+use crate::{
+    instructions::create_vesting::validate_terms,
+    state::{VestingCurve, VestingSchedule},
+};
+
+#[derive(Accounts)]
+pub struct PreviewVesting {}
+
+/// Vested amount at `at` for a schedule with these terms, computed exactly as
+/// claim and revoke do. Meant to be simulated, to check off-chain calculators.
+#[allow(clippy::too_many_arguments)]
+pub fn handler(
+    _ctx: Context<PreviewVesting>,
+    total_amount: u64,
+    start_time: i64,
+    cliff_duration: i64,
+    vesting_duration: i64,
+    initial_unlock_bps: u16,
+    curve: VestingCurve,
+    at: i64,
+) -> Result<u64> {
+    validate_terms(
+        total_amount,
+        cliff_duration,
+        vesting_duration,
+        initial_unlock_bps,
+        &curve,
+    )?;
+
+    let schedule = VestingSchedule {
+        total_amount,
+        start_time,
+        cliff_duration,
+        vesting_duration,
+        initial_unlock_bps,
+        curve,
+        ..Default::default()
+    };
+
+    schedule.calculate_vested_amount(at)
+}
@@ -1,5 +1,5 @@
 use anchor_lang::prelude::*;
-use anchor_spl::token::{self, Mint, Token, TokenAccount, Transfer};
+use anchor_spl::token_interface::{self, Mint, TokenAccount, TokenInterface, TransferChecked};
 
 use crate::{
     constants::{VAULT_SEED, VESTING_SEED},
@@ -9,8 +9,11 @@ use crate::{
 
 #[derive(Accounts)]
 pub struct Revoke<'info> {
-    #[account(mut)]
-    pub admin: Signer<'info>,
+    pub revoke_authority: Signer<'info>,
+
+    /// CHECK: The funder, checked against the schedule; unvested tokens go back
+    /// to its token account
+    pub admin: UncheckedAccount<'info>,
 
     #[account(
         mut,
@@ -19,14 +22,18 @@ pub struct Revoke<'info> {
             admin.key().as_ref(),
             vesting_schedule.beneficiary.as_ref(),
             mint.key().as_ref(),
+            VestingSchedule::id_seed(vesting_schedule.schedule_id).as_ref(),
         ],
         bump = vesting_schedule.bump,
+        constraint = VestingSchedule::is_migrated(&vesting_schedule.to_account_info())
+            @ VestingError::ScheduleNotMigrated,
         has_one = admin,
         has_one = mint,
     )]
     pub vesting_schedule: Account<'info, VestingSchedule>,
 
-    pub mint: Account<'info, Mint>,
+    #[account(mint::token_program = token_program)]
+    pub mint: InterfaceAccount<'info, Mint>,
 
     #[account(
         mut,
@@ -34,23 +41,34 @@ pub struct Revoke<'info> {
         bump = vesting_schedule.vault_bump,
         token::mint = mint,
         token::authority = vesting_schedule,
+        token::token_program = token_program,
     )]
-    pub vault: Account<'info, TokenAccount>,
+    pub vault: InterfaceAccount<'info, TokenAccount>,
 
     #[account(
         mut,
         associated_token::mint = mint,
         associated_token::authority = admin,
+        associated_token::token_program = token_program,
     )]
-    pub admin_token_account: Account<'info, TokenAccount>,
+    pub admin_token_account: InterfaceAccount<'info, TokenAccount>,
 
-    pub token_program: Program<'info, Token>,
+    pub token_program: Interface<'info, TokenInterface>,
 }
 
 pub fn handler(ctx: Context<Revoke>) -> Result<()> {
     let vesting_schedule = &ctx.accounts.vesting_schedule;
     let clock = Clock::get()?;
 
+    let revoke_authority = vesting_schedule
+        .revoke_authority
+        .ok_or(VestingError::Irrevocable)?;
+    require_keys_eq!(
+        revoke_authority,
+        ctx.accounts.revoke_authority.key(),
+        VestingError::UnauthorizedAuthority
+    );
+
     require!(!vesting_schedule.is_revoked, VestingError::VestingRevoked);
 
     require!(
@@ -64,26 +82,30 @@ pub fn handler(ctx: Context<Revoke>) -> Result<()> {
         let admin_key = ctx.accounts.admin.key();
         let beneficiary_key = vesting_schedule.beneficiary;
         let mint_key = ctx.accounts.mint.key();
+        let id_seed = VestingSchedule::id_seed(vesting_schedule.schedule_id);
 
         let signer_seeds: &[&[&[u8]]] = &[&[
             VESTING_SEED,
             admin_key.as_ref(),
             beneficiary_key.as_ref(),
             mint_key.as_ref(),
+            &id_seed,
             &[vesting_schedule.bump],
         ]];
 
-        token::transfer(
+        token_interface::transfer_checked(
             CpiContext::new_with_signer(
                 ctx.accounts.token_program.to_account_info(),
-                Transfer {
+                TransferChecked {
                     from: ctx.accounts.vault.to_account_info(),
+                    mint: ctx.accounts.mint.to_account_info(),
                     to: ctx.accounts.admin_token_account.to_account_info(),
                     authority: ctx.accounts.vesting_schedule.to_account_info(),
                 },
                 signer_seeds,
             ),
             unvested,
+            ctx.accounts.mint.decimals,
         )?;
     }
 
@@ -0,0 +1,58 @@
+use anchor_lang::prelude::*;
+
+use crate::{constants::VESTING_SEED, error::VestingError, state::VestingSchedule};
+
+#[derive(Accounts)]
+pub struct SetAllowAdminTransfer<'info> {
+    pub beneficiary: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [
+            VESTING_SEED,
+            vesting_schedule.admin.as_ref(),
+            beneficiary.key().as_ref(),
+            vesting_schedule.mint.as_ref(),
+            VestingSchedule::id_seed(vesting_schedule.schedule_id).as_ref(),
+        ],
+        bump = vesting_schedule.bump,
+        constraint = VestingSchedule::is_migrated(&vesting_schedule.to_account_info())
+            @ VestingError::ScheduleNotMigrated,
+        has_one = beneficiary,
+    )]
+    pub vesting_schedule: Account<'info, VestingSchedule>,
+}
+
+/// Let the admin authority move the grant to a new wallet with
+/// `transfer_beneficiary`, or stop it again. Only the beneficiary decides, as
+/// it hands the admin a way to take the grant from them; even then an
+/// irrevocable grant can only be moved by its beneficiary.
+pub fn handler(ctx: Context<SetAllowAdminTransfer>, allow_admin_transfer: bool) -> Result<()> {
+    let vesting_schedule = &mut ctx.accounts.vesting_schedule;
+    vesting_schedule.allow_admin_transfer = allow_admin_transfer;
+
+    emit!(AllowAdminTransferChanged {
+        admin: vesting_schedule.admin,
+        beneficiary: vesting_schedule.beneficiary,
+        mint: vesting_schedule.mint,
+        schedule_id: vesting_schedule.schedule_id,
+        allow_admin_transfer,
+    });
+
+    msg!(
+        "Admin transfer of {} {}",
+        vesting_schedule.key(),
+        if allow_admin_transfer { "allowed" } else { "disallowed" }
+    );
+
+    Ok(())
+}
+
+#[event]
+pub struct AllowAdminTransferChanged {
+    pub admin: Pubkey,
+    pub beneficiary: Pubkey,
+    pub mint: Pubkey,
+    pub schedule_id: u64,
+    pub allow_admin_transfer: bool,
+}
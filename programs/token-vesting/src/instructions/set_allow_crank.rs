@@ -0,0 +1,57 @@
+use anchor_lang::prelude::*;
+
+use crate::{constants::VESTING_SEED, error::VestingError, state::VestingSchedule};
+
+#[derive(Accounts)]
+pub struct SetAllowCrank<'info> {
+    pub beneficiary: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [
+            VESTING_SEED,
+            vesting_schedule.admin.as_ref(),
+            beneficiary.key().as_ref(),
+            vesting_schedule.mint.as_ref(),
+            VestingSchedule::id_seed(vesting_schedule.schedule_id).as_ref(),
+        ],
+        bump = vesting_schedule.bump,
+        constraint = VestingSchedule::is_migrated(&vesting_schedule.to_account_info())
+            @ VestingError::ScheduleNotMigrated,
+        has_one = beneficiary,
+    )]
+    pub vesting_schedule: Account<'info, VestingSchedule>,
+}
+
+/// Let anyone claim the beneficiary's vested tokens into their token account
+/// with `crank_claim`, or stop them again. Only the beneficiary decides, since
+/// a claim can have tax or accounting consequences for them.
+pub fn handler(ctx: Context<SetAllowCrank>, allow_crank: bool) -> Result<()> {
+    let vesting_schedule = &mut ctx.accounts.vesting_schedule;
+    vesting_schedule.allow_crank = allow_crank;
+
+    emit!(AllowCrankChanged {
+        admin: vesting_schedule.admin,
+        beneficiary: vesting_schedule.beneficiary,
+        mint: vesting_schedule.mint,
+        schedule_id: vesting_schedule.schedule_id,
+        allow_crank,
+    });
+
+    msg!(
+        "Cranking of {} {}",
+        vesting_schedule.key(),
+        if allow_crank { "allowed" } else { "disallowed" }
+    );
+
+    Ok(())
+}
+
+#[event]
+pub struct AllowCrankChanged {
+    pub admin: Pubkey,
+    pub beneficiary: Pubkey,
+    pub mint: Pubkey,
+    pub schedule_id: u64,
+    pub allow_crank: bool,
+}
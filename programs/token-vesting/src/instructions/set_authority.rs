@@ -0,0 +1,94 @@
+use anchor_lang::prelude::*;
+
+use crate::{
+    constants::VESTING_SEED,
+    error::VestingError,
+    state::{AuthorityType, VestingSchedule},
+};
+
+#[derive(Accounts)]
+pub struct SetAuthority<'info> {
+    /// The current holder of the authority being changed
+    pub authority: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [
+            VESTING_SEED,
+            vesting_schedule.admin.as_ref(),
+            vesting_schedule.beneficiary.as_ref(),
+            vesting_schedule.mint.as_ref(),
+            VestingSchedule::id_seed(vesting_schedule.schedule_id).as_ref(),
+        ],
+        bump = vesting_schedule.bump,
+        constraint = VestingSchedule::is_migrated(&vesting_schedule.to_account_info())
+            @ VestingError::ScheduleNotMigrated,
+    )]
+    pub vesting_schedule: Account<'info, VestingSchedule>,
+}
+
+/// Hand one of a schedule's authorities to another key. Each authority is
+/// changed by whoever holds it. The admin authority can't be removed; giving
+/// up the revoke authority makes the grant irrevocable for good.
+pub fn handler(
+    ctx: Context<SetAuthority>,
+    authority_type: AuthorityType,
+    new_authority: Option<Pubkey>,
+) -> Result<()> {
+    let vesting_schedule = &mut ctx.accounts.vesting_schedule;
+    let signer = ctx.accounts.authority.key();
+
+    match authority_type {
+        AuthorityType::Admin => {
+            require_keys_eq!(
+                vesting_schedule.authority,
+                signer,
+                VestingError::UnauthorizedAuthority
+            );
+            let new_authority = new_authority.ok_or(VestingError::AuthorityRequired)?;
+            vesting_schedule.authority = new_authority;
+        }
+        AuthorityType::Revoke => {
+            let revoke_authority = vesting_schedule
+                .revoke_authority
+                .ok_or(VestingError::Irrevocable)?;
+            require_keys_eq!(
+                revoke_authority,
+                signer,
+                VestingError::UnauthorizedAuthority
+            );
+            vesting_schedule.revoke_authority = new_authority;
+        }
+    }
+
+    emit!(AuthorityChanged {
+        admin: vesting_schedule.admin,
+        beneficiary: vesting_schedule.beneficiary,
+        mint: vesting_schedule.mint,
+        schedule_id: vesting_schedule.schedule_id,
+        authority_type,
+        old_authority: signer,
+        new_authority,
+    });
+
+    msg!(
+        "{:?} authority of {} set to {:?}",
+        authority_type,
+        vesting_schedule.key(),
+        new_authority
+    );
+
+    Ok(())
+}
+
+#[event]
+pub struct AuthorityChanged {
+    pub admin: Pubkey,
+    pub beneficiary: Pubkey,
+    pub mint: Pubkey,
+    pub schedule_id: u64,
+    pub authority_type: AuthorityType,
+    pub old_authority: Pubkey,
+    /// None when the revoke authority was given up
+    pub new_authority: Option<Pubkey>,
+}
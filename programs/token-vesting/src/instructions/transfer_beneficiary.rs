@@ -0,0 +1,233 @@
+use anchor_lang::{prelude::*, solana_program::program::invoke};
+use anchor_spl::{
+    token_2022::spl_token_2022::extension::transfer_fee::instruction::harvest_withheld_tokens_to_mint,
+    token_interface::{self, CloseAccount, Mint, TokenAccount, TokenInterface, TransferChecked},
+};
+
+use crate::{
+    constants::{VAULT_SEED, VESTING_SEED},
+    error::VestingError,
+    instructions::{close_vesting::vault_has_withheld_fees, create_vesting::transfer_fee},
+    state::VestingSchedule,
+};
+
+#[derive(Accounts)]
+#[instruction(new_schedule_id: u64)]
+pub struct TransferBeneficiary<'info> {
+    /// The current beneficiary, or the schedule's admin authority when the
+    /// beneficiary's keys are lost and they allowed it. Pays for the new
+    /// accounts and gets the old ones' rent back.
+    #[account(mut)]
+    pub authority: Signer<'info>,
+
+    /// CHECK: Can be any valid pubkey
+    pub new_beneficiary: UncheckedAccount<'info>,
+
+    #[account(
+        mut,
+        seeds = [
+            VESTING_SEED,
+            vesting_schedule.admin.as_ref(),
+            vesting_schedule.beneficiary.as_ref(),
+            mint.key().as_ref(),
+            VestingSchedule::id_seed(vesting_schedule.schedule_id).as_ref(),
+        ],
+        bump = vesting_schedule.bump,
+        constraint = VestingSchedule::is_migrated(&vesting_schedule.to_account_info())
+            @ VestingError::ScheduleNotMigrated,
+        has_one = mint,
+        close = authority,
+    )]
+    pub vesting_schedule: Account<'info, VestingSchedule>,
+
+    #[account(
+        init,
+        payer = authority,
+        space = 8 + VestingSchedule::INIT_SPACE,
+        seeds = [
+            VESTING_SEED,
+            vesting_schedule.admin.as_ref(),
+            new_beneficiary.key().as_ref(),
+            mint.key().as_ref(),
+            VestingSchedule::id_seed(new_schedule_id).as_ref(),
+        ],
+        bump,
+    )]
+    pub new_vesting_schedule: Account<'info, VestingSchedule>,
+
+    // Writable so Token-2022 transfer fees withheld in the vault can be harvested
+    #[account(mut, mint::token_program = token_program)]
+    pub mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        mut,
+        seeds = [VAULT_SEED, vesting_schedule.key().as_ref()],
+        bump = vesting_schedule.vault_bump,
+        token::mint = mint,
+        token::authority = vesting_schedule,
+        token::token_program = token_program,
+    )]
+    pub vault: InterfaceAccount<'info, TokenAccount>,
+
+    #[account(
+        init,
+        payer = authority,
+        seeds = [VAULT_SEED, new_vesting_schedule.key().as_ref()],
+        bump,
+        token::mint = mint,
+        token::authority = new_vesting_schedule,
+        token::token_program = token_program,
+    )]
+    pub new_vault: InterfaceAccount<'info, TokenAccount>,
+
+    pub system_program: Program<'info, System>,
+    pub token_program: Interface<'info, TokenInterface>,
+}
+
+/// Move a grant to a new beneficiary. The beneficiary is part of the
+/// schedule's address, so the schedule is recreated under the new one with the
+/// same terms, claimed and revoked amounts, and the vault's balance follows it.
+/// Cranking and admin transfers start out disallowed again, as on a new grant.
+/// The admin authority can only move a grant its beneficiary has allowed it to
+/// with `set_allow_admin_transfer`, and never an irrevocable one, which would
+/// otherwise be as good as revocable.
+/// The old schedule and vault are closed, leaving nothing for the old wallet
+/// to claim. Fees withheld in the vault are harvested to the mint first, but a
+/// mint charging a fee on the move itself is refused: the new vault would hold
+/// less than the schedule owes.
+pub fn handler(ctx: Context<TransferBeneficiary>, new_schedule_id: u64) -> Result<()> {
+    let vesting_schedule = &ctx.accounts.vesting_schedule;
+    let authority = ctx.accounts.authority.key();
+
+    if authority != vesting_schedule.beneficiary {
+        require!(
+            authority == vesting_schedule.authority,
+            VestingError::UnauthorizedTransfer
+        );
+        require!(
+            vesting_schedule.allow_admin_transfer && vesting_schedule.revoke_authority.is_some(),
+            VestingError::AdminTransferNotAllowed
+        );
+    }
+    require!(
+        ctx.accounts.new_beneficiary.key() != vesting_schedule.beneficiary,
+        VestingError::SameBeneficiary
+    );
+    require!(
+        vesting_schedule.remaining_amount() > 0,
+        VestingError::NothingToTransfer
+    );
+    require!(
+        transfer_fee(
+            &ctx.accounts.mint.to_account_info(),
+            ctx.accounts.vault.amount,
+            Clock::get()?.epoch,
+        )? == 0,
+        VestingError::TransferFeeNotSupported
+    );
+
+    let new_vesting_schedule = &mut ctx.accounts.new_vesting_schedule;
+    new_vesting_schedule.set_inner(VestingSchedule {
+        beneficiary: ctx.accounts.new_beneficiary.key(),
+        bump: ctx.bumps.new_vesting_schedule,
+        vault_bump: ctx.bumps.new_vault,
+        schedule_id: new_schedule_id,
+        // The new wallet decides for itself whether to allow cranks and admin
+        // transfers
+        allow_crank: false,
+        allow_admin_transfer: false,
+        ..(**vesting_schedule).clone()
+    });
+
+    if vault_has_withheld_fees(&ctx.accounts.vault.to_account_info())? {
+        invoke(
+            &harvest_withheld_tokens_to_mint(
+                &ctx.accounts.token_program.key(),
+                &ctx.accounts.mint.key(),
+                &[&ctx.accounts.vault.key()],
+            )?,
+            &[
+                ctx.accounts.mint.to_account_info(),
+                ctx.accounts.vault.to_account_info(),
+            ],
+        )?;
+    }
+
+    let admin_key = vesting_schedule.admin;
+    let beneficiary_key = vesting_schedule.beneficiary;
+    let mint_key = ctx.accounts.mint.key();
+    let id_seed = VestingSchedule::id_seed(vesting_schedule.schedule_id);
+
+    let signer_seeds: &[&[&[u8]]] = &[&[
+        VESTING_SEED,
+        admin_key.as_ref(),
+        beneficiary_key.as_ref(),
+        mint_key.as_ref(),
+        &id_seed,
+        &[vesting_schedule.bump],
+    ]];
+
+    let amount = ctx.accounts.vault.amount;
+    token_interface::transfer_checked(
+        CpiContext::new_with_signer(
+            ctx.accounts.token_program.to_account_info(),
+            TransferChecked {
+                from: ctx.accounts.vault.to_account_info(),
+                mint: ctx.accounts.mint.to_account_info(),
+                to: ctx.accounts.new_vault.to_account_info(),
+                authority: ctx.accounts.vesting_schedule.to_account_info(),
+            },
+            signer_seeds,
+        ),
+        amount,
+        ctx.accounts.mint.decimals,
+    )?;
+
+    ctx.accounts.new_vault.reload()?;
+    require!(
+        ctx.accounts.new_vault.amount == amount,
+        VestingError::TransferAmountMismatch
+    );
+
+    token_interface::close_account(CpiContext::new_with_signer(
+        ctx.accounts.token_program.to_account_info(),
+        CloseAccount {
+            account: ctx.accounts.vault.to_account_info(),
+            destination: ctx.accounts.authority.to_account_info(),
+            authority: ctx.accounts.vesting_schedule.to_account_info(),
+        },
+        signer_seeds,
+    ))?;
+
+    emit!(BeneficiaryTransferred {
+        admin: admin_key,
+        mint: mint_key,
+        old_beneficiary: beneficiary_key,
+        old_schedule_id: vesting_schedule.schedule_id,
+        new_beneficiary: ctx.accounts.new_beneficiary.key(),
+        new_schedule_id,
+        authority,
+        remaining: vesting_schedule.remaining_amount(),
+    });
+
+    msg!(
+        "Moved vesting schedule from {} to {}",
+        beneficiary_key,
+        ctx.accounts.new_beneficiary.key()
+    );
+
+    Ok(())
+}
+
+#[event]
+pub struct BeneficiaryTransferred {
+    pub admin: Pubkey,
+    pub mint: Pubkey,
+    pub old_beneficiary: Pubkey,
+    pub old_schedule_id: u64,
+    pub new_beneficiary: Pubkey,
+    pub new_schedule_id: u64,
+    /// Who authorised the move: the old beneficiary or the admin authority
+    pub authority: Pubkey,
+    pub remaining: u64,
+}
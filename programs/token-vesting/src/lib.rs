@@ -6,6 +6,7 @@ pub mod instructions;
 pub mod state;
 
 use instructions::*;
+use state::{AuthorityType, VestingCurve};
 
 declare_id!("4JHtvoNPJ8GzPk5C2M6fvMnFzSkV3intLHVLUvxuZxhM");
 
@@ -13,19 +14,28 @@ declare_id!("4JHtvoNPJ8GzPk5C2M6fvMnFzSkV3intLHVLUvxuZxhM");
 pub mod token_vesting {
     use super::*;
 
+    #[allow(clippy::too_many_arguments)]
     pub fn create_vesting_schedule(
         ctx: Context<CreateVestingSchedule>,
+        schedule_id: u64,
         total_amount: u64,
         start_time: i64,
         cliff_duration: i64,
         vesting_duration: i64,
+        initial_unlock_bps: u16,
+        curve: VestingCurve,
+        revoke_authority: Option<Pubkey>,
     ) -> Result<()> {
         instructions::create_vesting::handler(
             ctx,
+            schedule_id,
             total_amount,
             start_time,
             cliff_duration,
             vesting_duration,
+            initial_unlock_bps,
+            curve,
+            revoke_authority,
         )
     }
 
@@ -33,7 +43,68 @@ pub mod token_vesting {
         instructions::claim::handler(ctx)
     }
 
+    pub fn crank_claim(ctx: Context<CrankClaim>) -> Result<()> {
+        instructions::crank_claim::handler(ctx)
+    }
+
     pub fn revoke(ctx: Context<Revoke>) -> Result<()> {
         instructions::revoke::handler(ctx)
     }
+
+    pub fn migrate_vesting_schedule(ctx: Context<MigrateVestingSchedule>) -> Result<()> {
+        instructions::migrate_vesting::handler(ctx)
+    }
+
+    pub fn transfer_beneficiary(
+        ctx: Context<TransferBeneficiary>,
+        new_schedule_id: u64,
+    ) -> Result<()> {
+        instructions::transfer_beneficiary::handler(ctx, new_schedule_id)
+    }
+
+    pub fn set_authority(
+        ctx: Context<SetAuthority>,
+        authority_type: AuthorityType,
+        new_authority: Option<Pubkey>,
+    ) -> Result<()> {
+        instructions::set_authority::handler(ctx, authority_type, new_authority)
+    }
+
+    pub fn set_allow_crank(ctx: Context<SetAllowCrank>, allow_crank: bool) -> Result<()> {
+        instructions::set_allow_crank::handler(ctx, allow_crank)
+    }
+
+    pub fn set_allow_admin_transfer(
+        ctx: Context<SetAllowAdminTransfer>,
+        allow_admin_transfer: bool,
+    ) -> Result<()> {
+        instructions::set_allow_admin_transfer::handler(ctx, allow_admin_transfer)
+    }
+
+    pub fn close_vesting_schedule(ctx: Context<CloseVestingSchedule>) -> Result<()> {
+        instructions::close_vesting::handler(ctx)
+    }
+
+    #[allow(clippy::too_many_arguments)]
+    pub fn preview_vested_amount(
+        ctx: Context<PreviewVesting>,
+        total_amount: u64,
+        start_time: i64,
+        cliff_duration: i64,
+        vesting_duration: i64,
+        initial_unlock_bps: u16,
+        curve: VestingCurve,
+        at: i64,
+    ) -> Result<u64> {
+        instructions::preview_vesting::handler(
+            ctx,
+            total_amount,
+            start_time,
+            cliff_duration,
+            vesting_duration,
+            initial_unlock_bps,
+            curve,
+            at,
+        )
+    }
 }
\ No newline at end of file
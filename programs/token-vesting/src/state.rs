@@ -1,7 +1,12 @@
 use anchor_lang::prelude::*;
 
+use crate::{
+    constants::{BPS_DENOMINATOR, MAX_MILESTONES},
+    error::VestingError,
+};
+
 #[account]
-#[derive(InitSpace)]
+#[derive(InitSpace, Default)]
 pub struct VestingSchedule {
     pub admin: Pubkey,
     pub beneficiary: Pubkey,
@@ -15,41 +20,204 @@ pub struct VestingSchedule {
     pub revoked_amount: u64,
     pub bump: u8,
     pub vault_bump: u8,
+    pub schedule_id: u64,
+    /// Share of the total, in basis points, unlocked at the start time
+    /// regardless of the cliff (a TGE unlock)
+    pub initial_unlock_bps: u16,
+    /// Manages the schedule once created: closes it, moves it for a beneficiary
+    /// who lost their keys and hands authorities on. Starts out as the admin,
+    /// who stays the funder that revoked tokens and rent go back to.
+    pub authority: Pubkey,
+    /// Can revoke the unvested remainder; none makes the grant irrevocable
+    pub revoke_authority: Option<Pubkey>,
+    /// How the rest of the total is released between the cliff and the end
+    pub curve: VestingCurve,
+    /// Whether the beneficiary lets anyone claim for them with `crank_claim`
+    pub allow_crank: bool,
+    /// Whether the beneficiary lets the admin authority move the grant to a
+    /// new wallet for them, should they lose their keys
+    pub allow_admin_transfer: bool,
+}
+
+/// Which of a schedule's authorities `set_authority` changes
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, Debug, PartialEq, Eq)]
+pub enum AuthorityType {
+    Admin,
+    Revoke,
+}
+
+/// Release curve for the part of a grant not unlocked at the start. Nothing
+/// is released before the cliff, and everything is by the end of vesting.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Debug, Default, PartialEq, Eq, InitSpace)]
+pub enum VestingCurve {
+    /// Continuously, in proportion to the time elapsed since the start
+    #[default]
+    Linear,
+    /// In equal steps at the end of every `period` seconds since the start
+    Periodic { period: i64 },
+    /// In tranches at fixed offsets from the start
+    Milestones {
+        // Keep in sync with MAX_MILESTONES
+        #[max_len(16)]
+        milestones: Vec<Milestone>,
+    },
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Debug, PartialEq, Eq, InitSpace)]
+pub struct Milestone {
+    /// Seconds after the start time
+    pub offset: i64,
+    /// Share of the post-unlock amount released, in basis points
+    pub bps: u16,
+}
+
+impl VestingCurve {
+    pub fn validate(&self, vesting_duration: i64) -> Result<()> {
+        match self {
+            VestingCurve::Linear => {}
+            VestingCurve::Periodic { period } => {
+                require!(
+                    *period > 0 && *period <= vesting_duration,
+                    VestingError::InvalidPeriod
+                );
+            }
+            VestingCurve::Milestones { milestones } => {
+                require!(
+                    !milestones.is_empty() && milestones.len() <= MAX_MILESTONES,
+                    VestingError::InvalidMilestones
+                );
+
+                let mut previous_offset = 0;
+                let mut total_bps: u64 = 0;
+                for milestone in milestones {
+                    require!(
+                        milestone.offset > previous_offset
+                            && milestone.offset <= vesting_duration
+                            && milestone.bps > 0,
+                        VestingError::InvalidMilestones
+                    );
+                    previous_offset = milestone.offset;
+                    total_bps += milestone.bps as u64;
+                }
+                require!(total_bps == BPS_DENOMINATOR, VestingError::InvalidMilestones);
+            }
+        }
+        Ok(())
+    }
+
+    /// Amount of `amount` released `elapsed` seconds into a `duration`-long
+    /// schedule, for times between the cliff and the end
+    fn released_amount(&self, amount: u64, elapsed: i64, duration: i64) -> Result<u64> {
+        let (numerator, denominator) = match self {
+            VestingCurve::Linear => (elapsed as u128, duration as u128),
+            VestingCurve::Periodic { period } => {
+                let completed = elapsed
+                    .checked_div(*period)
+                    .ok_or(error!(VestingError::CalculationOverflow))?;
+                ((completed * period) as u128, duration as u128)
+            }
+            VestingCurve::Milestones { milestones } => {
+                let reached: u64 = milestones
+                    .iter()
+                    .take_while(|milestone| milestone.offset <= elapsed)
+                    .map(|milestone| milestone.bps as u64)
+                    .sum();
+                (reached as u128, BPS_DENOMINATOR as u128)
+            }
+        };
+
+        let released = (amount as u128)
+            .checked_mul(numerator)
+            .ok_or(error!(VestingError::CalculationOverflow))?
+            .checked_div(denominator)
+            .ok_or(error!(VestingError::CalculationOverflow))?;
+
+        Ok(released as u64)
+    }
 }
 
 impl VestingSchedule {
+    /// Size of accounts created before `allow_admin_transfer` was added. Like
+    /// `allow_crank` before it, it follows the curve, in their zero padding.
+    pub const PRE_ADMIN_TRANSFER_SPACE: usize = 8 + VestingSchedule::INIT_SPACE - 1;
+
+    /// Size of accounts created before `allow_crank` was added. It comes after
+    /// the curve, in what was their zero padding.
+    pub const PRE_CRANK_SPACE: usize = VestingSchedule::PRE_ADMIN_TRANSFER_SPACE - 1;
+
+    /// Size of accounts created before authorities were added. Their curve
+    /// starts where the authorities are now.
+    pub const PRE_AUTHORITY_SPACE: usize = VestingSchedule::PRE_CRANK_SPACE - 32 - 33;
+
+    /// Offset of `authority`, just before the variable-length curve so it can
+    /// be found with a memcmp filter
+    pub const AUTHORITY_OFFSET: usize = VestingSchedule::PRE_CURVE_SPACE + 2;
+
+    /// Size of accounts created before the release curve was added
+    pub const PRE_CURVE_SPACE: usize =
+        VestingSchedule::PRE_AUTHORITY_SPACE - 2 - VestingCurve::INIT_SPACE;
+
+    /// Size of accounts created before `schedule_id` was added
+    pub const LEGACY_SPACE: usize = VestingSchedule::PRE_CURVE_SPACE - 8;
+
+    /// Whether an account has the current layout. Accounts from before the
+    /// authorities still deserialize, but read their curve as the authorities,
+    /// so they have to be migrated before use.
+    pub fn is_migrated(account: &AccountInfo) -> bool {
+        account.data_len() == 8 + VestingSchedule::INIT_SPACE
+    }
+
+    /// PDA seed for a schedule id. Id 0 adds no bytes, so the first grant for an
+    /// admin/beneficiary/mint keeps the address it had before ids existed.
+    pub fn id_seed(schedule_id: u64) -> Vec<u8> {
+        if schedule_id == 0 {
+            Vec::new()
+        } else {
+            schedule_id.to_le_bytes().to_vec()
+        }
+    }
+
     pub fn calculate_vested_amount(&self, current_time: i64) -> Result<u64> {
+        // Vesting stops at revoke; what had vested by then stays claimable
         if self.is_revoked {
             return Ok(self.total_amount.saturating_sub(self.revoked_amount));
         }
 
+        if current_time < self.start_time {
+            return Ok(0);
+        }
+
+        let initial_unlock = self.initial_unlock_amount();
+
         let cliff_end = self.start_time
             .checked_add(self.cliff_duration)
-            .ok_or(error!(crate::error::VestingError::CalculationOverflow))?;
+            .ok_or(error!(VestingError::CalculationOverflow))?;
 
         if current_time < cliff_end {
-            return Ok(0);
+            return Ok(initial_unlock);
         }
 
         let vesting_end = self.start_time
             .checked_add(self.vesting_duration)
-            .ok_or(error!(crate::error::VestingError::CalculationOverflow))?;
+            .ok_or(error!(VestingError::CalculationOverflow))?;
 
         if current_time >= vesting_end {
             return Ok(self.total_amount);
         }
 
-        let elapsed = (current_time - self.start_time) as u128;
-        let duration = self.vesting_duration as u128;
-        let total = self.total_amount as u128;
+        let released = self.curve.released_amount(
+            self.total_amount - initial_unlock,
+            current_time - self.start_time,
+            self.vesting_duration,
+        )?;
 
-        let vested = total
-            .checked_mul(elapsed)
-            .ok_or(error!(crate::error::VestingError::CalculationOverflow))?
-            .checked_div(duration)
-            .ok_or(error!(crate::error::VestingError::CalculationOverflow))?;
+        Ok(initial_unlock + released)
+    }
 
-        Ok(vested as u64)
+    /// Part of the total unlocked at the start time
+    pub fn initial_unlock_amount(&self) -> u64 {
+        ((self.total_amount as u128) * (self.initial_unlock_bps as u128)
+            / (BPS_DENOMINATOR as u128)) as u64
     }
 
     pub fn calculate_claimable_amount(&self, current_time: i64) -> Result<u64> {
@@ -62,6 +230,13 @@ impl VestingSchedule {
         Ok(self.total_amount.saturating_sub(vested))
     }
 
+    /// Tokens still owed to the beneficiary, excluding any returned on revoke
+    pub fn remaining_amount(&self) -> u64 {
+        self.total_amount
+            .saturating_sub(self.revoked_amount)
+            .saturating_sub(self.claimed_amount)
+    }
+
     pub fn is_cliff_reached(&self, current_time: i64) -> bool {
         current_time >= self.start_time + self.cliff_duration
     }
@@ -0,0 +1,652 @@
+import { BN, Program } from "@coral-xyz/anchor";
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { PROGRAM_ID } from "./constants";
+import { TokenVesting } from "./idl/token_vesting";
+import { getVestingPDA } from "./pda";
+import { parseTokenAmount } from "./math";
+import { fetchMintInfo } from "./mint";
+import {
+  claimInstructions,
+  crankClaimInstructions,
+  createVestingScheduleInstruction,
+  decodeVestingSchedule,
+  fetchVestingSchedulesForBeneficiary,
+} from "./program";
+import { VestingInfo, VestingSchedule } from "./types";
+import {
+  validateAddress,
+  validateTokenAmount,
+  validateVestingParams,
+} from "./validation";
+import {
+  SignAllTransactions,
+  packInstructions,
+  signAndSendTransactions,
+} from "./transactions";
+
+const SECONDS_PER_DAY = 86_400;
+
+// getMultipleAccountsInfo accepts at most 100 keys per request
+const ACCOUNT_INFO_CHUNK = 100;
+
+/**
+ * One grant in an allocation file
+ */
+export interface Allocation {
+  beneficiary: string;
+  // Whole tokens, scaled by the mint's decimals
+  amount: string;
+  // Unix seconds or an ISO-8601 date
+  start: string;
+  cliffDays: number;
+  vestingDays: number;
+  // Distinguishes extra grants to the same beneficiary; defaults to 0
+  scheduleId?: number;
+}
+
+export type BatchRowStatus =
+  | "invalid"
+  | "skipped"
+  // A schedule with different terms already holds the row's schedule id
+  | "conflict"
+  | "pending"
+  | "success"
+  | "failed";
+
+export interface BatchRowResult {
+  // Zero-based index into the allocation list
+  row: number;
+  beneficiary: string;
+  status: BatchRowStatus;
+  schedule?: string;
+  signature?: string;
+  errors: string[];
+}
+
+export interface BatchOptions {
+  // Cap on grants per transaction; by default as many as fit
+  maxPerTransaction?: number;
+  onProgress?: (results: BatchRowResult[]) => void;
+}
+
+interface ParsedAllocation {
+  beneficiary: PublicKey;
+  totalAmount: BN;
+  startTime: number;
+  cliffDuration: number;
+  vestingDuration: number;
+  scheduleId: number;
+}
+
+const CSV_COLUMNS: Record<string, keyof Allocation> = {
+  beneficiary: "beneficiary",
+  amount: "amount",
+  start: "start",
+  cliffdays: "cliffDays",
+  cliff_days: "cliffDays",
+  vestingdays: "vestingDays",
+  vesting_days: "vestingDays",
+  scheduleid: "scheduleId",
+  schedule_id: "scheduleId",
+};
+
+/**
+ * Split CSV into records of cells. Quoted cells can hold commas, line breaks
+ * and doubled quotes, as spreadsheets export them. Blank lines and lines
+ * starting with # are skipped.
+ */
+function csvRecords(contents: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let quoteLine = 0;
+
+  const endRecord = () => {
+    record.push(cell.trim());
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < contents.length; i++) {
+    const char = contents[i];
+    if (char === "\n") line++;
+
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (contents[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === "#" && record.length === 0 && cell.trim() === "") {
+      // Skip to the line break, which ends the (empty) record
+      const end = contents.indexOf("\n", i);
+      i = (end === -1 ? contents.length : end) - 1;
+    } else if (char === '"' && cell.trim() === "") {
+      quoted = true;
+      quoteLine = line;
+      cell = "";
+    } else if (char === '"') {
+      throw new Error(
+        `Allocation file has a quote inside an unquoted field on line ${line}`
+      );
+    } else if (char === ",") {
+      record.push(cell.trim());
+      cell = "";
+    } else if (char === "\n") {
+      endRecord();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(
+      `Allocation file has an unterminated quoted field on line ${quoteLine}`
+    );
+  }
+  endRecord();
+
+  return records;
+}
+
+function parseCsv(contents: string): Allocation[] {
+  const records = csvRecords(contents);
+  if (records.length === 0) return [];
+
+  const header = records[0].map((name) => CSV_COLUMNS[name.toLowerCase()]);
+  for (const column of ["beneficiary", "amount", "start", "vestingDays"]) {
+    if (!header.includes(column as keyof Allocation)) {
+      throw new Error(`Allocation file is missing the "${column}" column`);
+    }
+  }
+
+  return records.slice(1).map((cells) => {
+    const row: Record<string, string> = {};
+    header.forEach((key, index) => {
+      if (key) row[key] = cells[index] ?? "";
+    });
+    return {
+      beneficiary: row.beneficiary,
+      amount: row.amount,
+      start: row.start,
+      cliffDays: Number(row.cliffDays || 0),
+      vestingDays: Number(row.vestingDays),
+      scheduleId: Number(row.scheduleId || 0),
+    };
+  });
+}
+
+/**
+ * Parse a CSV (with a header row) or JSON array allocation file
+ */
+export function parseAllocationFile(
+  contents: string,
+  format?: "csv" | "json"
+): Allocation[] {
+  const trimmed = contents.trim();
+  const isJson = format ? format === "json" : trimmed.startsWith("[");
+  if (!isJson) return parseCsv(trimmed);
+
+  const rows = JSON.parse(trimmed);
+  if (!Array.isArray(rows)) {
+    throw new Error("JSON allocation file must contain an array");
+  }
+  return rows.map((row) => ({
+    beneficiary: String(row.beneficiary ?? ""),
+    amount: String(row.amount ?? ""),
+    start: String(row.start ?? ""),
+    cliffDays: Number(row.cliffDays ?? row.cliff_days ?? 0),
+    vestingDays: Number(row.vestingDays ?? row.vesting_days),
+    scheduleId: Number(row.scheduleId ?? row.schedule_id ?? 0),
+  }));
+}
+
+function parseStart(value: string): number {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? NaN : Math.floor(time / 1000);
+}
+
+/**
+ * Convert and check one allocation against the rules create_vesting enforces
+ */
+function parseAllocation(
+  allocation: Allocation,
+  decimals: number,
+  currentTime: number
+): { parsed?: ParsedAllocation; errors: string[] } {
+  const errors: string[] = [];
+
+  const addressError = validateAddress(allocation.beneficiary, "beneficiary");
+  if (addressError) {
+    errors.push(addressError.message);
+  }
+
+  let totalAmount = new BN(0);
+  const amountError = validateTokenAmount(allocation.amount, decimals);
+  if (amountError) {
+    errors.push(amountError.message);
+  } else {
+    totalAmount = parseTokenAmount(allocation.amount, decimals);
+  }
+
+  const startTime = parseStart(allocation.start);
+  const cliffDuration = Math.round(allocation.cliffDays * SECONDS_PER_DAY);
+  const vestingDuration = Math.round(allocation.vestingDays * SECONDS_PER_DAY);
+  if (Number.isNaN(startTime)) {
+    errors.push("Invalid start time");
+  }
+  if (!Number.isFinite(cliffDuration)) {
+    errors.push("Invalid cliff days");
+  }
+  if (!Number.isFinite(vestingDuration)) {
+    errors.push("Invalid vesting days");
+  }
+  const scheduleId = allocation.scheduleId ?? 0;
+  if (!Number.isSafeInteger(scheduleId) || scheduleId < 0) {
+    errors.push("Schedule id must be a non-negative integer");
+  }
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const ruleErrors = validateVestingParams(
+    { totalAmount, startTime, cliffDuration, vestingDuration },
+    currentTime
+  );
+  if (ruleErrors.length > 0) {
+    return { errors: ruleErrors.map((error) => error.message) };
+  }
+
+  return {
+    parsed: {
+      beneficiary: new PublicKey(allocation.beneficiary),
+      totalAmount,
+      startTime,
+      cliffDuration,
+      vestingDuration,
+      scheduleId,
+    },
+    errors,
+  };
+}
+
+/**
+ * The schedule a row would create, if its beneficiary and schedule id are
+ * usable
+ */
+function allocationPDA(
+  allocation: Allocation,
+  admin: PublicKey,
+  mint: PublicKey,
+  programId: PublicKey
+): PublicKey | null {
+  const scheduleId = allocation.scheduleId ?? 0;
+  if (
+    validateAddress(allocation.beneficiary, "beneficiary") ||
+    !Number.isSafeInteger(scheduleId) ||
+    scheduleId < 0
+  ) {
+    return null;
+  }
+  const [pda] = getVestingPDA(
+    admin,
+    new PublicKey(allocation.beneficiary),
+    mint,
+    scheduleId,
+    programId
+  );
+  return pda;
+}
+
+/**
+ * Whether an existing schedule has the terms a row asks for, as when an
+ * earlier run of the same file created it
+ */
+function isSameGrant(
+  allocation: Allocation,
+  decimals: number,
+  schedule: VestingSchedule
+): boolean {
+  if (validateTokenAmount(allocation.amount, decimals)) return false;
+  return (
+    schedule.totalAmount.eq(parseTokenAmount(allocation.amount, decimals)) &&
+    schedule.startTime.toNumber() === parseStart(allocation.start) &&
+    schedule.cliffDuration.toNumber() ===
+      Math.round(allocation.cliffDays * SECONDS_PER_DAY) &&
+    schedule.vestingDuration.toNumber() ===
+      Math.round(allocation.vestingDays * SECONDS_PER_DAY)
+  );
+}
+
+/**
+ * Check every row before anything is signed. Rows whose schedule already
+ * exists are skipped, or reported as a conflict if it's a different grant,
+ * before the rest are checked against the rules create_vesting enforces and
+ * that no earlier row names the same grant.
+ */
+function checkAllocations(
+  allocations: Allocation[],
+  admin: PublicKey,
+  mint: PublicKey,
+  decimals: number,
+  currentTime: number,
+  programId: PublicKey,
+  existing: Record<string, VestingSchedule>
+) {
+  const results: BatchRowResult[] = allocations.map((allocation, row) => ({
+    row,
+    beneficiary: allocation.beneficiary,
+    status: "pending",
+    errors: [],
+  }));
+  const valid: { row: number; parsed: ParsedAllocation; pda: PublicKey }[] = [];
+  const seen = new Set<string>();
+  allocations.forEach((allocation, row) => {
+    const pda = allocationPDA(allocation, admin, mint, programId);
+    // Checked first, as a rerun after the start time would fail validation
+    const schedule = pda && existing[pda.toBase58()];
+    if (pda && schedule) {
+      results[row].schedule = pda.toBase58();
+      if (isSameGrant(allocation, decimals, schedule)) {
+        results[row].status = "skipped";
+        results[row].errors = ["Vesting schedule already exists"];
+      } else {
+        results[row].status = "conflict";
+        results[row].errors = [
+          "A different vesting schedule already has this schedule id",
+        ];
+      }
+      return;
+    }
+
+    const { parsed, errors } = parseAllocation(
+      allocation,
+      decimals,
+      currentTime
+    );
+    if (!parsed || !pda) {
+      results[row].status = "invalid";
+      results[row].errors = errors;
+      return;
+    }
+
+    results[row].schedule = pda.toBase58();
+    if (seen.has(pda.toBase58())) {
+      results[row].status = "invalid";
+      results[row].errors = [
+        "Duplicate beneficiary and schedule id in allocation file",
+      ];
+      return;
+    }
+    seen.add(pda.toBase58());
+    valid.push({ row, parsed, pda });
+  });
+
+  return { results, valid };
+}
+
+/**
+ * Check an allocation file without sending anything, as the batch does before
+ * signing. Rows that would be submitted come back pending, with the address of
+ * the schedule they'd create; the rest are invalid, with the reasons. Pass the
+ * schedules that already exist, keyed by address, to also see which rows would
+ * be skipped or conflict.
+ */
+export function validateAllocations(
+  allocations: Allocation[],
+  admin: PublicKey,
+  mint: PublicKey,
+  decimals: number,
+  currentTime: number = Math.floor(Date.now() / 1000),
+  programId: PublicKey = PROGRAM_ID,
+  existing: Record<string, VestingSchedule> = {}
+): BatchRowResult[] {
+  return checkAllocations(
+    allocations,
+    admin,
+    mint,
+    decimals,
+    currentTime,
+    programId,
+    existing
+  ).results;
+}
+
+/**
+ * Create many vesting schedules for one mint with one wallet prompt per
+ * TRANSACTIONS_PER_PROMPT transactions.
+ *
+ * Rows whose schedule account already exists are skipped, so re-running the
+ * same file after an interruption only submits the grants that are missing. A
+ * row whose schedule id is taken by a grant with other terms is reported as a
+ * conflict instead, and needs a schedule id of its own.
+ */
+export async function createVestingSchedulesBatch(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  mint: PublicKey,
+  allocations: Allocation[],
+  signAllTransactions: SignAllTransactions,
+  options: BatchOptions = {}
+): Promise<BatchRowResult[]> {
+  const connection = program.provider.connection;
+  const { decimals } = await fetchMintInfo(connection, mint);
+  const currentTime = Math.floor(Date.now() / 1000);
+
+  // Look up grants an earlier run may already have created
+  const pdas = allocations
+    .map((allocation) =>
+      allocationPDA(allocation, admin, mint, program.programId)
+    )
+    .filter((pda): pda is PublicKey => pda !== null);
+  const existing: Record<string, VestingSchedule> = {};
+  for (let i = 0; i < pdas.length; i += ACCOUNT_INFO_CHUNK) {
+    const chunk = pdas.slice(i, i + ACCOUNT_INFO_CHUNK);
+    const infos = await connection.getMultipleAccountsInfo(chunk);
+    chunk.forEach((pda, index) => {
+      const info = infos[index];
+      if (info) {
+        existing[pda.toBase58()] = decodeVestingSchedule(program, info.data);
+      }
+    });
+  }
+
+  const { results, valid: pending } = checkAllocations(
+    allocations,
+    admin,
+    mint,
+    decimals,
+    currentTime,
+    program.programId,
+    existing
+  );
+  const report = () => options.onProgress?.(results.map((r) => ({ ...r })));
+  report();
+
+  const instructions = await Promise.all(
+    pending.map(({ parsed }) =>
+      createVestingScheduleInstruction(
+        program,
+        admin,
+        parsed.beneficiary,
+        mint,
+        parsed.totalAmount,
+        new BN(parsed.startTime),
+        new BN(parsed.cliffDuration),
+        new BN(parsed.vestingDuration),
+        parsed.scheduleId
+      )
+    )
+  );
+  const packed = packInstructions(
+    instructions.map((instruction) => [instruction]),
+    admin,
+    options.maxPerTransaction
+  );
+
+  await signAndSendTransactions(
+    connection,
+    packed.map(({ transaction }) => transaction),
+    signAllTransactions,
+    (index, result) => {
+      for (const group of packed[index].groups) {
+        const row = results[pending[group].row];
+        row.signature = result.signature;
+        if (result.error) {
+          row.status = "failed";
+          row.errors = [result.error];
+        } else {
+          row.status = "success";
+        }
+      }
+      report();
+    }
+  );
+
+  return results;
+}
+
+/**
+ * Claimable amount per mint, summed over schedules, keyed by mint address
+ */
+export function totalClaimableByMint(
+  schedules: VestingInfo[]
+): Record<string, BN> {
+  const totals: Record<string, BN> = {};
+  for (const { account, claimableAmount } of schedules) {
+    const mint = account.mint.toBase58();
+    totals[mint] = (totals[mint] ?? new BN(0)).add(claimableAmount);
+  }
+  return totals;
+}
+
+export interface ClaimAllResult {
+  schedule: string;
+  mint: string;
+  // Claimable when the batch was built; the program pays out what has vested
+  // by the time the claim lands, which may be a little more
+  amount: BN;
+  status: "success" | "failed";
+  signature?: string;
+  error?: string;
+}
+
+export interface ClaimAllOptions {
+  // Cap on claims per transaction; by default as many as fit
+  maxPerTransaction?: number;
+}
+
+/**
+ * Pack each schedule's claim instructions, sign them a chunk per prompt and
+ * send them, failing only the claims packed into a failed transaction
+ */
+async function sendClaims(
+  program: Program<TokenVesting>,
+  feePayer: PublicKey,
+  schedules: VestingInfo[],
+  groups: TransactionInstruction[][],
+  signAllTransactions: SignAllTransactions,
+  options: ClaimAllOptions
+): Promise<ClaimAllResult[]> {
+  const packed = packInstructions(groups, feePayer, options.maxPerTransaction);
+
+  const results: ClaimAllResult[] = schedules.map((info) => ({
+    schedule: info.publicKey.toBase58(),
+    mint: info.account.mint.toBase58(),
+    amount: info.claimableAmount,
+    status: "failed",
+  }));
+  await signAndSendTransactions(
+    program.provider.connection,
+    packed.map(({ transaction }) => transaction),
+    signAllTransactions,
+    (index, result) => {
+      for (const group of packed[index].groups) {
+        results[group].signature = result.signature;
+        results[group].status = result.error ? "failed" : "success";
+        results[group].error = result.error;
+      }
+    }
+  );
+
+  return results;
+}
+
+/**
+ * Claim from every schedule of a beneficiary that has anything claimable,
+ * with one wallet prompt per TRANSACTIONS_PER_PROMPT transactions. Returns
+ * one result per schedule claimed from; a failed transaction fails only the
+ * claims packed into it.
+ */
+export async function claimAll(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey,
+  signAllTransactions: SignAllTransactions,
+  options: ClaimAllOptions = {}
+): Promise<ClaimAllResult[]> {
+  const schedules = (
+    await fetchVestingSchedulesForBeneficiary(program, beneficiary)
+  ).filter((info) => info.claimableAmount.gtn(0));
+
+  const groups = await Promise.all(
+    schedules.map(({ account }) =>
+      claimInstructions(
+        program,
+        beneficiary,
+        account.admin,
+        account.mint,
+        account.scheduleId
+      )
+    )
+  );
+
+  return sendClaims(
+    program,
+    beneficiary,
+    schedules,
+    groups,
+    signAllTransactions,
+    options
+  );
+}
+
+/**
+ * Crank the claims of the given schedules, whoever their beneficiaries are,
+ * with the cranker paying. Each beneficiary receives their own tokens; one
+ * result comes back per schedule.
+ */
+export async function crankClaims(
+  program: Program<TokenVesting>,
+  cranker: PublicKey,
+  schedules: VestingInfo[],
+  signAllTransactions: SignAllTransactions,
+  options: ClaimAllOptions = {}
+): Promise<ClaimAllResult[]> {
+  const groups = await Promise.all(
+    schedules.map(({ account }) =>
+      crankClaimInstructions(
+        program,
+        cranker,
+        account.admin,
+        account.beneficiary,
+        account.mint,
+        account.scheduleId
+      )
+    )
+  );
+
+  return sendClaims(
+    program,
+    cranker,
+    schedules,
+    groups,
+    signAllTransactions,
+    options
+  );
+}
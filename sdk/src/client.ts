@@ -0,0 +1,392 @@
+import { AnchorProvider, BN, Program, Provider } from "@coral-xyz/anchor";
+import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { TokenVesting } from "./idl/token_vesting";
+import { PROGRAM_ID } from "./constants";
+import { LINEAR_RELEASE } from "./curve";
+import { HistoryOptions, VestingEvent, fetchVestingHistory } from "./history";
+import { MintInfo, fetchMintInfo } from "./mint";
+import {
+  ExportedTransaction,
+  UnsignedTransactionOptions,
+  buildUnsignedTransaction,
+  exportTransaction,
+  submitSignedTransaction,
+} from "./offline";
+import { getVaultPDA, getVestingPDA } from "./pda";
+import {
+  VestingScheduleFilter,
+  VestingSubscriptionHandlers,
+  subscribeToVestingSchedules,
+} from "./subscriptions";
+import {
+  claimTokens,
+  closeVestingSchedule,
+  crankClaim,
+  createVestingSchedule,
+  fetchReclaimableRent,
+  fetchVestingSchedule,
+  fetchVestingSchedulesForAdmin,
+  fetchVestingSchedulesForAuthority,
+  fetchVestingSchedulesForBeneficiary,
+  fetchVestingSchedulesForGrant,
+  fetchVestingSchedulesForRevokeAuthority,
+  findNextScheduleId,
+  getProgram,
+  previewVestedAmount,
+  revokeVesting,
+  setAllowAdminTransfer,
+  setAllowCrank,
+  setAuthority,
+  transferBeneficiary,
+} from "./program";
+import {
+  AuthorityType,
+  VestingInfo,
+  VestingRelease,
+  VestingSchedule,
+  VestingTerms,
+} from "./types";
+
+/**
+ * Typed client for the token-vesting program.
+ *
+ * Wraps a `Program<TokenVesting>` so callers don't have to thread the program
+ * through every helper. Actions default the signer to the provider's wallet.
+ */
+export class VestingClient {
+  constructor(readonly program: Program<TokenVesting>) {}
+
+  static fromProvider(
+    provider: Provider,
+    programId: PublicKey = PROGRAM_ID
+  ): VestingClient {
+    return new VestingClient(getProgram(provider, programId));
+  }
+
+  /**
+   * Client that only reads, for viewing schedules without a wallet. Actions
+   * fail, since there's no wallet to sign them.
+   */
+  static readOnly(
+    connection: Connection,
+    programId: PublicKey = PROGRAM_ID
+  ): VestingClient {
+    return VestingClient.fromProvider({ connection }, programId);
+  }
+
+  get programId(): PublicKey {
+    return this.program.programId;
+  }
+
+  get provider(): Provider {
+    return this.program.provider;
+  }
+
+  /**
+   * Public key of the provider's wallet, used as the default signer
+   */
+  get walletPublicKey(): PublicKey {
+    const publicKey = (this.provider as AnchorProvider).wallet?.publicKey;
+    if (!publicKey) {
+      throw new Error("Provider has no wallet");
+    }
+    return publicKey;
+  }
+
+  getVestingPDA(
+    admin: PublicKey,
+    beneficiary: PublicKey,
+    mint: PublicKey,
+    scheduleId: BN | number = 0
+  ): [PublicKey, number] {
+    return getVestingPDA(admin, beneficiary, mint, scheduleId, this.programId);
+  }
+
+  getVaultPDA(vestingSchedule: PublicKey): [PublicKey, number] {
+    return getVaultPDA(vestingSchedule, this.programId);
+  }
+
+  createVestingSchedule(
+    beneficiary: PublicKey,
+    mint: PublicKey,
+    totalAmount: BN,
+    startTime: BN,
+    cliffDuration: BN,
+    vestingDuration: BN,
+    scheduleId: BN | number = 0,
+    release: VestingRelease = LINEAR_RELEASE,
+    admin: PublicKey = this.walletPublicKey,
+    revokeAuthority: PublicKey | null = admin
+  ): Promise<string> {
+    return createVestingSchedule(
+      this.program,
+      admin,
+      beneficiary,
+      mint,
+      totalAmount,
+      startTime,
+      cliffDuration,
+      vestingDuration,
+      scheduleId,
+      release,
+      revokeAuthority
+    );
+  }
+
+  claim(
+    admin: PublicKey,
+    mint: PublicKey,
+    scheduleId: BN | number = 0,
+    beneficiary: PublicKey = this.walletPublicKey
+  ): Promise<string> {
+    return claimTokens(this.program, beneficiary, admin, mint, scheduleId);
+  }
+
+  /**
+   * Claim someone else's vested tokens into their own token account, with
+   * the connected wallet paying
+   */
+  crankClaim(
+    admin: PublicKey,
+    beneficiary: PublicKey,
+    mint: PublicKey,
+    scheduleId: BN | number = 0
+  ): Promise<string> {
+    return crankClaim(
+      this.program,
+      this.walletPublicKey,
+      admin,
+      beneficiary,
+      mint,
+      scheduleId
+    );
+  }
+
+  /**
+   * Revoke as the schedule's revoke authority. Pass the admin who funded it
+   * when that isn't the connected wallet.
+   */
+  revoke(
+    beneficiary: PublicKey,
+    mint: PublicKey,
+    scheduleId: BN | number = 0,
+    admin: PublicKey = this.walletPublicKey
+  ): Promise<string> {
+    return revokeVesting(
+      this.program,
+      admin,
+      beneficiary,
+      mint,
+      scheduleId,
+      this.walletPublicKey
+    );
+  }
+
+  /**
+   * Hand the connected wallet's admin or revoke authority over a schedule to
+   * another key, or give up the revoke authority with null
+   */
+  setAuthority(
+    admin: PublicKey,
+    beneficiary: PublicKey,
+    mint: PublicKey,
+    authorityType: AuthorityType,
+    newAuthority: PublicKey | null,
+    scheduleId: BN | number = 0
+  ): Promise<string> {
+    return setAuthority(
+      this.program,
+      this.walletPublicKey,
+      admin,
+      beneficiary,
+      mint,
+      authorityType,
+      newAuthority,
+      scheduleId
+    );
+  }
+
+  /**
+   * As the beneficiary, let anyone crank claims on one of the connected
+   * wallet's grants, or stop them
+   */
+  setAllowCrank(
+    admin: PublicKey,
+    mint: PublicKey,
+    allowCrank: boolean,
+    scheduleId: BN | number = 0
+  ): Promise<string> {
+    return setAllowCrank(
+      this.program,
+      this.walletPublicKey,
+      admin,
+      mint,
+      allowCrank,
+      scheduleId
+    );
+  }
+
+  /**
+   * As the beneficiary, let the admin authority move one of the connected
+   * wallet's grants to a new wallet, or stop it
+   */
+  setAllowAdminTransfer(
+    admin: PublicKey,
+    mint: PublicKey,
+    allowAdminTransfer: boolean,
+    scheduleId: BN | number = 0
+  ): Promise<string> {
+    return setAllowAdminTransfer(
+      this.program,
+      this.walletPublicKey,
+      admin,
+      mint,
+      allowAdminTransfer,
+      scheduleId
+    );
+  }
+
+  /**
+   * Move a grant to a new wallet. The connected wallet signs, as the current
+   * beneficiary or as the admin authority of a revocable grant whose
+   * beneficiary has allowed it.
+   */
+  transferBeneficiary(
+    admin: PublicKey,
+    beneficiary: PublicKey,
+    mint: PublicKey,
+    newBeneficiary: PublicKey,
+    scheduleId: BN | number = 0,
+    newScheduleId?: BN | number
+  ): Promise<string> {
+    return transferBeneficiary(
+      this.program,
+      this.walletPublicKey,
+      admin,
+      beneficiary,
+      mint,
+      newBeneficiary,
+      scheduleId,
+      newScheduleId
+    );
+  }
+
+  close(
+    beneficiary: PublicKey,
+    mint: PublicKey,
+    scheduleId: BN | number = 0,
+    admin: PublicKey = this.walletPublicKey
+  ): Promise<string> {
+    return closeVestingSchedule(
+      this.program,
+      admin,
+      beneficiary,
+      mint,
+      scheduleId,
+      this.walletPublicKey
+    );
+  }
+
+  fetchReclaimableRent(vestingPDA: PublicKey): Promise<number> {
+    return fetchReclaimableRent(this.program, vestingPDA);
+  }
+
+  previewVestedAmount(terms: VestingTerms, at: number): Promise<BN> {
+    return previewVestedAmount(this.program, terms, at);
+  }
+
+  fetchVestingSchedule(vestingPDA: PublicKey): Promise<VestingSchedule | null> {
+    return fetchVestingSchedule(this.program, vestingPDA);
+  }
+
+  subscribeToVestingSchedules(
+    filter: VestingScheduleFilter,
+    handlers: VestingSubscriptionHandlers
+  ): () => Promise<void> {
+    return subscribeToVestingSchedules(this.program, filter, handlers);
+  }
+
+  fetchHistory(
+    vestingPDA: PublicKey,
+    options?: HistoryOptions
+  ): Promise<VestingEvent[]> {
+    return fetchVestingHistory(this.program, vestingPDA, options);
+  }
+
+  fetchVestingSchedulesForBeneficiary(
+    beneficiary: PublicKey
+  ): Promise<VestingInfo[]> {
+    return fetchVestingSchedulesForBeneficiary(this.program, beneficiary);
+  }
+
+  fetchVestingSchedulesForAdmin(admin: PublicKey): Promise<VestingInfo[]> {
+    return fetchVestingSchedulesForAdmin(this.program, admin);
+  }
+
+  fetchVestingSchedulesForAuthority(
+    authority: PublicKey
+  ): Promise<VestingInfo[]> {
+    return fetchVestingSchedulesForAuthority(this.program, authority);
+  }
+
+  fetchVestingSchedulesForRevokeAuthority(
+    revokeAuthority: PublicKey
+  ): Promise<VestingInfo[]> {
+    return fetchVestingSchedulesForRevokeAuthority(
+      this.program,
+      revokeAuthority
+    );
+  }
+
+  fetchVestingSchedulesForGrant(
+    beneficiary: PublicKey,
+    mint: PublicKey,
+    admin: PublicKey = this.walletPublicKey
+  ): Promise<VestingInfo[]> {
+    return fetchVestingSchedulesForGrant(
+      this.program,
+      admin,
+      beneficiary,
+      mint
+    );
+  }
+
+  findNextScheduleId(
+    beneficiary: PublicKey,
+    mint: PublicKey,
+    admin: PublicKey = this.walletPublicKey
+  ): Promise<BN> {
+    return findNextScheduleId(this.program, admin, beneficiary, mint);
+  }
+
+  fetchMintInfo(mint: PublicKey): Promise<MintInfo> {
+    return fetchMintInfo(this.provider.connection, mint);
+  }
+
+  /**
+   * Wrap instructions from one of the `...Instructions` builders in an
+   * unsigned transaction for a multisig or offline signer to sign. Works on a
+   * read-only client, since nothing is signed here.
+   */
+  async exportTransaction(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey,
+    options: UnsignedTransactionOptions = {}
+  ): Promise<ExportedTransaction> {
+    return exportTransaction(
+      await buildUnsignedTransaction(
+        this.provider.connection,
+        instructions,
+        feePayer,
+        options
+      )
+    );
+  }
+
+  /**
+   * Send an exported transaction once it has been signed
+   */
+  submitSignedTransaction(payload: string): Promise<string> {
+    return submitSignedTransaction(this.provider.connection, payload);
+  }
+}
@@ -0,0 +1,37 @@
+import { PublicKey } from "@solana/web3.js";
+import IDL from "./idl/token_vesting.json";
+
+// Program ID - Update the IDL address after deploying to your cluster
+export const PROGRAM_ID = new PublicKey(IDL.address);
+
+// Seeds for PDA derivation
+export const VESTING_SEED = Buffer.from("vesting");
+export const VAULT_SEED = Buffer.from("vault");
+
+// Byte offsets of the VestingSchedule fields used in memcmp filters
+export const ADMIN_OFFSET = 8; // Skip discriminator
+export const BENEFICIARY_OFFSET = 8 + 32; // Skip discriminator + admin pubkey
+export const MINT_OFFSET = 8 + 32 + 32; // Skip discriminator + admin + beneficiary
+// Just before the variable-length curve; the revoke authority is an Option,
+// so a memcmp on it starts at its Some tag
+export const AUTHORITY_OFFSET = 165;
+export const REVOKE_AUTHORITY_OFFSET = AUTHORITY_OFFSET + 32;
+
+// VestingSchedule account sizes. Older accounts predate the admin transfer
+// opt-in, some the crank opt-in too, others the authorities or the release
+// curve fields before them, and legacy ones the schedule_id as well.
+export const VESTING_SCHEDULE_SIZE = 397;
+export const PRE_ADMIN_TRANSFER_VESTING_SCHEDULE_SIZE =
+  VESTING_SCHEDULE_SIZE - 1;
+export const PRE_CRANK_VESTING_SCHEDULE_SIZE =
+  PRE_ADMIN_TRANSFER_VESTING_SCHEDULE_SIZE - 1;
+export const PRE_AUTHORITY_VESTING_SCHEDULE_SIZE = 330;
+export const PRE_CURVE_VESTING_SCHEDULE_SIZE = 163;
+export const LEGACY_VESTING_SCHEDULE_SIZE = PRE_CURVE_VESTING_SCHEDULE_SIZE - 8;
+
+// Vesting constraints, mirrored from programs/token-vesting/src/constants.rs
+export const MIN_VESTING_DURATION = 86_400;
+export const MAX_VESTING_DURATION = 315_360_000;
+export const MAX_CLIFF_PERCENTAGE = 50;
+export const BPS_DENOMINATOR = 10_000;
+export const MAX_MILESTONES = 16;
@@ -0,0 +1,86 @@
+import { BN } from "@coral-xyz/anchor";
+import { BPS_DENOMINATOR } from "./constants";
+import { VestingCurve, VestingRelease } from "./types";
+
+export type VestingCurveKind = "linear" | "periodic" | "milestones";
+
+export const VESTING_CURVE_LABELS: Record<VestingCurveKind, string> = {
+  linear: "Linear",
+  periodic: "Periodic steps",
+  milestones: "Milestones",
+};
+
+// How every schedule vested before curves existed
+export const LINEAR_RELEASE: VestingRelease = {
+  initialUnlockBps: 0,
+  curve: { linear: {} },
+};
+
+export function linearCurve(): VestingCurve {
+  return { linear: {} };
+}
+
+/**
+ * Release in equal steps at the end of every period, e.g. 30 days for monthly
+ * vesting or 90 days for quarterly tranches
+ */
+export function periodicCurve(periodSeconds: BN | number): VestingCurve {
+  return { periodic: { period: new BN(periodSeconds) } };
+}
+
+/**
+ * Release in tranches at fixed offsets from the start. Each tranche is a share
+ * of the amount left after the initial unlock, in basis points; together they
+ * must add up to 100%.
+ */
+export function milestoneCurve(
+  milestones: { offset: BN | number; bps: number }[]
+): VestingCurve {
+  return {
+    milestones: {
+      milestones: milestones.map(({ offset, bps }) => ({
+        offset: new BN(offset),
+        bps,
+      })),
+    },
+  };
+}
+
+export function getCurveKind(curve: VestingCurve): VestingCurveKind {
+  if (curve.periodic) return "periodic";
+  if (curve.milestones) return "milestones";
+  return "linear";
+}
+
+const formatPercent = (bps: number) => `${+(bps / 100).toFixed(2)}%`;
+
+/**
+ * One-line summary of a release, e.g. "10% at start, then every 90 days"
+ */
+export function describeRelease({
+  initialUnlockBps,
+  curve,
+}: VestingRelease): string {
+  let description: string;
+  if (curve.periodic) {
+    const days = curve.periodic.period.toNumber() / 86_400;
+    description = `every ${+days.toFixed(2)} day${days === 1 ? "" : "s"}`;
+  } else if (curve.milestones) {
+    const count = curve.milestones.milestones.length;
+    description = `${count} milestone${count === 1 ? "" : "s"}`;
+  } else {
+    description = "linear";
+  }
+
+  return initialUnlockBps > 0
+    ? `${formatPercent(initialUnlockBps)} at start, then ${description}`
+    : description.charAt(0).toUpperCase() + description.slice(1);
+}
+
+/**
+ * Convert a percentage, as entered in forms and on the command line, to
+ * basis points
+ */
+export function percentToBps(percent: number): number {
+  return Math.round((percent * BPS_DENOMINATOR) / 100);
+}
@@ -0,0 +1,437 @@
+import IDL from "./idl/token_vesting.json";
+import { ValidationErrorCode, VestingValidationError } from "./validation";
+
+// VestingError variants from programs/token-vesting/src/error.rs
+export type ProgramErrorName =
+  | "DurationTooShort"
+  | "DurationTooLong"
+  | "CliffTooLong"
+  | "CliffPercentageTooHigh"
+  | "StartTimeInPast"
+  | "CliffNotReached"
+  | "NothingToClaim"
+  | "VestingRevoked"
+  | "VestingCompleted"
+  | "CalculationOverflow"
+  | "InvalidAmount"
+  | "TransferAmountMismatch"
+  | "ScheduleNotSettled"
+  | "InvalidUnlockPercentage"
+  | "InvalidPeriod"
+  | "InvalidMilestones"
+  | "UnauthorizedTransfer"
+  | "SameBeneficiary"
+  | "NothingToTransfer"
+  | "ScheduleNotMigrated"
+  | "Irrevocable"
+  | "UnauthorizedAuthority"
+  | "AuthorityRequired"
+  | "CrankNotAllowed"
+  | "TransferFeeNotSupported"
+  | "AdminTransferNotAllowed";
+
+/**
+ * Everything a vesting action can fail with, for consumers to switch on
+ */
+export type VestingErrorKind =
+  | ProgramErrorName
+  | ValidationErrorCode
+  | "WalletRejected"
+  | "InsufficientSol"
+  | "InsufficientTokens"
+  | "MissingTokenAccount"
+  | "ScheduleNotFound"
+  | "BlockhashExpired"
+  | "Unauthorized"
+  | "Unknown";
+
+interface FriendlyMessage {
+  message: string;
+  action?: string;
+}
+
+const FRIENDLY_MESSAGES: Record<VestingErrorKind, FriendlyMessage> = {
+  DurationTooShort: {
+    message: "The vesting duration is shorter than 1 day.",
+    action: "Choose a vesting duration of at least 1 day.",
+  },
+  DurationTooLong: {
+    message: "The vesting duration is longer than 10 years.",
+    action: "Choose a vesting duration of at most 10 years.",
+  },
+  CliffTooLong: {
+    message: "The cliff is longer than the vesting duration.",
+    action: "Shorten the cliff or lengthen the vesting duration.",
+  },
+  CliffPercentageTooHigh: {
+    message: "The cliff is more than 50% of the vesting duration.",
+    action: "Shorten the cliff to at most half of the vesting duration.",
+  },
+  StartTimeInPast: {
+    message: "The start time has already passed.",
+    action: "Pick a start time in the future and submit again.",
+  },
+  CliffNotReached: {
+    message: "These tokens are still in the cliff period.",
+    action: "Wait until the cliff ends before claiming.",
+  },
+  NothingToClaim: {
+    message: "There are no vested tokens to claim right now.",
+    action: "Check back once more tokens have vested.",
+  },
+  VestingRevoked: {
+    message: "This vesting schedule has already been revoked.",
+    action: "Refresh to see its current state.",
+  },
+  VestingCompleted: {
+    message: "This schedule is fully vested and can no longer be revoked.",
+    action: "No action needed; the beneficiary can claim the full amount.",
+  },
+  CalculationOverflow: {
+    message: "The schedule parameters are out of range.",
+    action: "Check the amount, cliff and vesting duration.",
+  },
+  InvalidAmount: {
+    message: "The vesting amount must be greater than zero.",
+    action: "Enter a positive amount.",
+  },
+  TransferAmountMismatch: {
+    message: "The vault received less than the vesting amount.",
+    action: "The token's transfer fee may have changed this epoch. Try again.",
+  },
+  ScheduleNotSettled: {
+    message: "This schedule still holds tokens the beneficiary can claim.",
+    action: "Wait until everything is claimed or revoked before closing it.",
+  },
+  InvalidUnlockPercentage: {
+    message: "The initial unlock is more than 100% of the grant.",
+    action: "Choose an initial unlock between 0% and 100%.",
+  },
+  InvalidPeriod: {
+    message: "The vesting period is longer than the vesting duration.",
+    action: "Choose a positive period no longer than the vesting duration.",
+  },
+  InvalidMilestones: {
+    message: "The milestone table is invalid.",
+    action:
+      "List milestones in order within the vesting duration, adding up to 100%.",
+  },
+  UnauthorizedTransfer: {
+    message: "Only the beneficiary or the admin can move this grant.",
+    action: "Connect the wallet that receives or manages this grant.",
+  },
+  SameBeneficiary: {
+    message: "The new beneficiary is the wallet already receiving this grant.",
+    action: "Enter a different wallet address.",
+  },
+  NothingToTransfer: {
+    message: "This grant has been fully paid out, so there is nothing to move.",
+  },
+  ScheduleNotMigrated: {
+    message: "This schedule was created by an older version of the program.",
+    action: "Migrate the schedule, then try again.",
+  },
+  Irrevocable: {
+    message: "This grant is irrevocable, so no one can revoke it.",
+  },
+  UnauthorizedAuthority: {
+    message: "This wallet doesn't hold that authority over the schedule.",
+    action: "Connect the wallet that holds the authority.",
+  },
+  AuthorityRequired: {
+    message: "A schedule must always have an admin authority.",
+    action: "Enter the address to hand the admin authority to.",
+  },
+  CrankNotAllowed: {
+    message: "The beneficiary hasn't allowed others to claim for them.",
+    action: "The beneficiary can allow it, or claim themselves.",
+  },
+  TransferFeeNotSupported: {
+    message: "This token charges a transfer fee, so the grant can't be moved.",
+    action: "The beneficiary can keep claiming to their current wallet.",
+  },
+  AdminTransferNotAllowed: {
+    message:
+      "The beneficiary hasn't allowed the admin to move this grant, or it's irrevocable.",
+    action: "Only the beneficiary can move it to a new wallet.",
+  },
+  InvalidAddress: {
+    message: "One of the addresses is not a valid Solana address.",
+    action: "Check the beneficiary and mint addresses.",
+  },
+  WalletRejected: {
+    message: "The request was rejected in your wallet.",
+    action: "Approve the request in your wallet to continue.",
+  },
+  InsufficientSol: {
+    message: "Your wallet doesn't have enough SOL to pay fees and rent.",
+    action: "Add SOL to your wallet and try again.",
+  },
+  InsufficientTokens: {
+    message: "Your token account doesn't hold enough tokens.",
+    action: "Top up the token account or reduce the amount.",
+  },
+  MissingTokenAccount: {
+    message: "Your wallet has no token account for this mint.",
+    action: "Create and fund an associated token account for the mint first.",
+  },
+  ScheduleNotFound: {
+    message: "This vesting schedule doesn't exist or has already been closed.",
+    action: "Refresh to see your current schedules.",
+  },
+  BlockhashExpired: {
+    message: "The transaction expired before it was confirmed.",
+    action: "Try again; the network may be congested.",
+  },
+  Unauthorized: {
+    message: "This wallet is not allowed to perform that action.",
+    action: "Connect the wallet that created or receives this grant.",
+  },
+  Unknown: {
+    message: "Something went wrong.",
+  },
+};
+
+// Custom error numbers from the IDL, e.g. 6005 -> CliffNotReached
+const PROGRAM_ERRORS = new Map<number, ProgramErrorName>(
+  IDL.errors.map(({ code, name }) => [code, name as ProgramErrorName])
+);
+
+// Anchor constraint failures that mean the signer doesn't own the schedule
+const UNAUTHORIZED_CODES = new Set([
+  "ConstraintHasOne",
+  "ConstraintSeeds",
+  "ConstraintSigner",
+  "ConstraintTokenOwner",
+  "ConstraintAssociated",
+]);
+
+// Accounts whose absence means the wallet has no token account for the mint,
+// and those whose absence means the schedule is gone, e.g. closed
+const TOKEN_ACCOUNTS = new Set([
+  "beneficiary_token_account",
+  "admin_token_account",
+]);
+const SCHEDULE_ACCOUNTS = new Set(["vesting_schedule", "vault"]);
+
+// SPL Token's InsufficientFunds error number
+const TOKEN_INSUFFICIENT_FUNDS = 1;
+
+export class VestingActionError extends Error {
+  constructor(
+    readonly kind: VestingErrorKind,
+    message: string,
+    readonly action: string | undefined,
+    readonly cause: unknown,
+    readonly logs: string[] = []
+  ) {
+    super(message);
+    this.name = "VestingActionError";
+  }
+}
+
+function build(
+  kind: VestingErrorKind,
+  cause: unknown,
+  logs: string[],
+  message?: string
+): VestingActionError {
+  const friendly = FRIENDLY_MESSAGES[kind];
+  return new VestingActionError(
+    kind,
+    message ?? friendly.message,
+    friendly.action,
+    cause,
+    logs
+  );
+}
+
+// The parts of wallet, web3.js and Anchor errors looked at below. Everything
+// is unknown until checked, since errors can come from any library version.
+interface ErrorLike {
+  name?: unknown;
+  message?: unknown;
+  code?: unknown;
+  logs?: unknown;
+  transactionLogs?: unknown;
+  // AnchorError
+  error?: unknown;
+  // A confirmation's TransactionError, wrapped or bare
+  err?: unknown;
+  InstructionError?: unknown;
+}
+
+interface AnchorErrorCode {
+  code: string;
+  number: number;
+}
+
+function isErrorLike(value: unknown): value is ErrorLike {
+  return typeof value === "object" && value !== null;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+function isAnchorErrorCode(value: unknown): value is AnchorErrorCode {
+  return (
+    isErrorLike(value) &&
+    typeof (value as Partial<AnchorErrorCode>).code === "string" &&
+    typeof (value as Partial<AnchorErrorCode>).number === "number"
+  );
+}
+
+function extractLogs(error: unknown): string[] {
+  if (!isErrorLike(error)) return [];
+  if (isStringArray(error.logs)) return error.logs;
+  if (isStringArray(error.transactionLogs)) return error.transactionLogs;
+  return [];
+}
+
+function rawMessage(error: unknown): string {
+  if (typeof error === "string") return error;
+  if (isErrorLike(error) && typeof error.message === "string") {
+    return error.message;
+  }
+  return JSON.stringify(error) ?? "";
+}
+
+// The account an AnchorError names, from its origin or the program's log
+function erroredAccount(error: ErrorLike, text: string): string | null {
+  if (isErrorLike(error.error)) {
+    const { origin } = error.error as { origin?: unknown };
+    if (typeof origin === "string") return origin;
+  }
+  return text.match(/AnchorError caused by account: (\w+)/)?.[1] ?? null;
+}
+
+// What an uninitialized account means depends on which one it is
+function uninitializedKind(account: string | null): VestingErrorKind | null {
+  if (account && TOKEN_ACCOUNTS.has(account)) return "MissingTokenAccount";
+  if (account && SCHEDULE_ACCOUNTS.has(account)) return "ScheduleNotFound";
+  return null;
+}
+
+function anchorErrorCode(error: ErrorLike): AnchorErrorCode | null {
+  if (!isErrorLike(error.error)) return null;
+  const { errorCode } = error.error as { errorCode?: unknown };
+  return isAnchorErrorCode(errorCode) ? errorCode : null;
+}
+
+// n from {InstructionError: [i, {Custom: n}]}
+function instructionErrorCode(error: unknown): number | null {
+  if (!isErrorLike(error) || !Array.isArray(error.InstructionError)) {
+    return null;
+  }
+  const [, detail] = error.InstructionError;
+  const custom = isErrorLike(detail)
+    ? (detail as { Custom?: unknown }).Custom
+    : undefined;
+  return typeof custom === "number" ? custom : null;
+}
+
+function customCode(error: ErrorLike): number | null {
+  if (typeof error.code === "number") return error.code;
+  return instructionErrorCode(error) ?? instructionErrorCode(error.err);
+}
+
+function fromProgramCode(code: number): VestingErrorKind | null {
+  return PROGRAM_ERRORS.get(code) ?? null;
+}
+
+/**
+ * Map anything thrown while sending a vesting transaction to a typed error
+ * with a user-facing message and a suggested next action.
+ */
+export function translateVestingError(error: unknown): VestingActionError {
+  if (error instanceof VestingActionError) return error;
+
+  if (error instanceof VestingValidationError) {
+    const [first] = error.errors;
+    return build(first.code, error, [], first.message);
+  }
+
+  const err: ErrorLike = isErrorLike(error) ? error : {};
+  const logs = extractLogs(error);
+  const message = rawMessage(error);
+  const text = `${message}\n${logs.join("\n")}`;
+
+  // Wallet adapters throw WalletSignTransactionError and friends
+  if (
+    err.code === 4001 ||
+    (typeof err.name === "string" &&
+      err.name.startsWith("Wallet") &&
+      /reject|cancel|declin/i.test(text)) ||
+    /user rejected/i.test(text)
+  ) {
+    return build("WalletRejected", error, logs);
+  }
+
+  // AnchorError thrown by .rpc(), matched by shape to survive duplicate installs
+  const errorCode = anchorErrorCode(err);
+  if (errorCode) {
+    const kind = fromProgramCode(errorCode.number);
+    if (kind) return build(kind, error, logs);
+    if (errorCode.code === "AccountNotInitialized") {
+      const missing = uninitializedKind(erroredAccount(err, text));
+      if (missing) return build(missing, error, logs);
+    }
+    if (UNAUTHORIZED_CODES.has(errorCode.code)) {
+      return build("Unauthorized", error, logs);
+    }
+  }
+
+  // ProgramError or a confirmed transaction's {InstructionError: [i, {Custom: n}]}
+  const custom = customCode(err);
+  if (custom !== null) {
+    const kind = fromProgramCode(custom);
+    if (kind) return build(kind, error, logs);
+  }
+
+  const hexCode = text.match(/custom program error: (0x[0-9a-f]+)/i);
+  if (hexCode) {
+    const code = parseInt(hexCode[1], 16);
+    const kind = fromProgramCode(code);
+    if (kind) return build(kind, error, logs);
+    if (
+      code === TOKEN_INSUFFICIENT_FUNDS &&
+      /Error: insufficient funds/i.test(text)
+    ) {
+      return build("InsufficientTokens", error, logs);
+    }
+  }
+
+  if (
+    /insufficient lamports|no record of a prior credit|insufficient funds for (fee|rent)/i.test(
+      text
+    )
+  ) {
+    return build("InsufficientSol", error, logs);
+  }
+  if (
+    /blockhash not found|block height exceeded|TransactionExpired/i.test(text)
+  ) {
+    return build("BlockhashExpired", error, logs);
+  }
+  if (/AccountNotInitialized/.test(text)) {
+    const missing = uninitializedKind(erroredAccount(err, text));
+    if (missing) return build(missing, error, logs);
+  }
+  // spl-token's TokenAccountNotFoundError has no message, only its name
+  if (
+    err.name === "TokenAccountNotFoundError" ||
+    /could not find account/i.test(text)
+  ) {
+    return build("MissingTokenAccount", error, logs);
+  }
+
+  return build(
+    "Unknown",
+    error,
+    logs,
+    message.split("\n")[0] || FRIENDLY_MESSAGES.Unknown.message
+  );
+}
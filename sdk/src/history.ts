@@ -0,0 +1,156 @@
+import { EventParser, IdlEvents, Program } from "@coral-xyz/anchor";
+import {
+  ConfirmedSignatureInfo,
+  PublicKey,
+  VersionedTransactionResponse,
+} from "@solana/web3.js";
+import { TokenVesting } from "./idl/token_vesting";
+
+type Events = IdlEvents<TokenVesting>;
+
+export type VestingEventName = keyof Events;
+
+export const VESTING_EVENT_LABELS: Record<VestingEventName, string> = {
+  vestingCreated: "Created",
+  tokensClaimed: "Claimed",
+  vestingRevoked: "Revoked",
+  vestingClosed: "Closed",
+  authorityChanged: "Authority changed",
+  beneficiaryTransferred: "Transferred",
+  allowCrankChanged: "Crank setting changed",
+  allowAdminTransferChanged: "Admin transfer setting changed",
+};
+
+// An event as decoded from the program's logs
+export type DecodedVestingEvent = {
+  [K in VestingEventName]: { name: K; data: Events[K] };
+}[VestingEventName];
+
+// An event emitted by the program, with the transaction it came from
+export type VestingEvent = DecodedVestingEvent & {
+  signature: string;
+  slot: number;
+  // Null if the RPC node no longer knows when the block was produced
+  blockTime: Date | null;
+};
+
+export interface HistoryOptions {
+  // Most recent transactions to look through; all of them by default
+  limit?: number;
+}
+
+// getSignaturesForAddress returns at most this many per page
+const SIGNATURES_PAGE_SIZE = 1000;
+// Transactions fetched per batched RPC request
+const TRANSACTIONS_BATCH_SIZE = 50;
+
+// Signatures of successful transactions touching an address, newest first
+async function fetchSignatures(
+  program: Program<TokenVesting>,
+  address: PublicKey,
+  limit: number
+): Promise<ConfirmedSignatureInfo[]> {
+  const { connection } = program.provider;
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+
+  while (signatures.length < limit) {
+    const page = await connection.getSignaturesForAddress(address, {
+      before,
+      limit: Math.min(SIGNATURES_PAGE_SIZE, limit - signatures.length),
+    });
+    signatures.push(...page.filter((info) => info.err === null));
+    if (page.length < SIGNATURES_PAGE_SIZE) break;
+    before = page[page.length - 1].signature;
+  }
+  return signatures;
+}
+
+// A transaction's logs split by top-level instruction; every top-level
+// instruction starts with an "invoke [1]" line
+function logsByInstruction(logs: string[]): string[][] {
+  const segments: string[][] = [];
+  for (const log of logs) {
+    if (/^Program \w+ invoke \[1\]$/.test(log)) segments.push([]);
+    segments[segments.length - 1]?.push(log);
+  }
+  return segments;
+}
+
+/**
+ * Logs of the instructions in a transaction that touched `address`. A single
+ * transaction can claim from several schedules, and the events don't all say
+ * which schedule they're for, so they're attributed through the instruction's
+ * accounts. If the node truncated the logs, they can't be split reliably and
+ * all of them are returned.
+ */
+function logsForAddress(
+  transaction: VersionedTransactionResponse,
+  address: PublicKey
+): string[] {
+  const logs = transaction.meta?.logMessages ?? [];
+  const { message } = transaction.transaction;
+  const instructions = message.compiledInstructions;
+  const segments = logsByInstruction(logs);
+  if (segments.length !== instructions.length) return logs;
+
+  const keys = message.getAccountKeys({
+    accountKeysFromLookups: transaction.meta?.loadedAddresses,
+  });
+  return segments
+    .filter((_, i) =>
+      instructions[i].accountKeyIndexes.some((index) =>
+        keys.get(index)?.equals(address)
+      )
+    )
+    .flat();
+}
+
+/**
+ * Decoded events for a vesting schedule, newest first.
+ *
+ * Walks the signatures of every successful transaction that touched the
+ * schedule account and decodes the program's events from their logs. Closed
+ * schedules keep their history, since signatures outlive accounts.
+ */
+export async function fetchVestingHistory(
+  program: Program<TokenVesting>,
+  vestingPDA: PublicKey,
+  options: HistoryOptions = {}
+): Promise<VestingEvent[]> {
+  const { connection } = program.provider;
+  const signatures = await fetchSignatures(
+    program,
+    vestingPDA,
+    options.limit ?? Number.POSITIVE_INFINITY
+  );
+  const parser = new EventParser(program.programId, program.coder);
+  const history: VestingEvent[] = [];
+
+  for (let i = 0; i < signatures.length; i += TRANSACTIONS_BATCH_SIZE) {
+    const batch = signatures.slice(i, i + TRANSACTIONS_BATCH_SIZE);
+    const transactions = await connection.getTransactions(
+      batch.map((info) => info.signature),
+      { commitment: "confirmed", maxSupportedTransactionVersion: 0 }
+    );
+
+    transactions.forEach((transaction, j) => {
+      if (!transaction) return;
+      const blockTime = transaction.blockTime ?? batch[j].blockTime;
+      // Events in a transaction are in execution order; the list is newest first
+      const events = [
+        ...parser.parseLogs(logsForAddress(transaction, vestingPDA)),
+      ].reverse();
+
+      for (const event of events) {
+        history.push({
+          ...(event as DecodedVestingEvent),
+          signature: batch[j].signature,
+          slot: transaction.slot,
+          blockTime: blockTime ? new Date(blockTime * 1000) : null,
+        });
+      }
+    });
+  }
+  return history;
+}
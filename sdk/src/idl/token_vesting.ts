@@ -0,0 +1,1029 @@
+/**
+ * Program IDL in camelCase format in order to be used in JS/TS.
+ *
+ * Note that this is only a type helper and is not the actual IDL. The original
+ * IDL can be found at `target/idl/token_vesting.json`.
+ */
+export type TokenVesting = {
+  address: "4JHtvoNPJ8GzPk5C2M6fvMnFzSkV3intLHVLUvxuZxhM";
+  metadata: {
+    name: "tokenVesting";
+    version: "0.1.0";
+    spec: "0.1.0";
+  };
+  instructions: [
+    {
+      name: "createVestingSchedule";
+      discriminator: [195, 30, 184, 253, 77, 154, 187, 66];
+      accounts: [
+        {
+          name: "admin";
+          writable: true;
+          signer: true;
+        },
+        {
+          name: "beneficiary";
+        },
+        {
+          name: "mint";
+        },
+        {
+          name: "vestingSchedule";
+          writable: true;
+        },
+        {
+          name: "vault";
+          writable: true;
+          pda: {
+            seeds: [
+              {
+                kind: "const";
+                value: [118, 97, 117, 108, 116];
+              },
+              {
+                kind: "account";
+                path: "vestingSchedule";
+              }
+            ];
+          };
+        },
+        {
+          name: "adminTokenAccount";
+          writable: true;
+        },
+        {
+          name: "systemProgram";
+          address: "11111111111111111111111111111111";
+        },
+        {
+          name: "tokenProgram";
+        },
+        {
+          name: "associatedTokenProgram";
+          address: "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
+        }
+      ];
+      args: [
+        {
+          name: "scheduleId";
+          type: "u64";
+        },
+        {
+          name: "totalAmount";
+          type: "u64";
+        },
+        {
+          name: "startTime";
+          type: "i64";
+        },
+        {
+          name: "cliffDuration";
+          type: "i64";
+        },
+        {
+          name: "vestingDuration";
+          type: "i64";
+        },
+        {
+          name: "initialUnlockBps";
+          type: "u16";
+        },
+        {
+          name: "curve";
+          type: {
+            defined: {
+              name: "vestingCurve";
+            };
+          };
+        },
+        {
+          name: "revokeAuthority";
+          type: {
+            option: "pubkey";
+          };
+        }
+      ];
+    },
+    {
+      name: "claim";
+      discriminator: [62, 198, 214, 193, 213, 159, 108, 210];
+      accounts: [
+        {
+          name: "beneficiary";
+          writable: true;
+          signer: true;
+        },
+        {
+          name: "vestingSchedule";
+          writable: true;
+        },
+        {
+          name: "mint";
+        },
+        {
+          name: "vault";
+          writable: true;
+        },
+        {
+          name: "beneficiaryTokenAccount";
+          writable: true;
+        },
+        {
+          name: "systemProgram";
+          address: "11111111111111111111111111111111";
+        },
+        {
+          name: "tokenProgram";
+        },
+        {
+          name: "associatedTokenProgram";
+          address: "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
+        }
+      ];
+      args: [];
+    },
+    {
+      name: "crankClaim";
+      discriminator: [193, 62, 163, 14, 168, 236, 179, 103];
+      accounts: [
+        {
+          name: "cranker";
+          writable: true;
+          signer: true;
+        },
+        {
+          name: "beneficiary";
+        },
+        {
+          name: "vestingSchedule";
+          writable: true;
+        },
+        {
+          name: "mint";
+        },
+        {
+          name: "vault";
+          writable: true;
+        },
+        {
+          name: "beneficiaryTokenAccount";
+          writable: true;
+        },
+        {
+          name: "systemProgram";
+          address: "11111111111111111111111111111111";
+        },
+        {
+          name: "tokenProgram";
+        },
+        {
+          name: "associatedTokenProgram";
+          address: "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
+        }
+      ];
+      args: [];
+    },
+    {
+      name: "revoke";
+      discriminator: [170, 23, 31, 34, 133, 173, 93, 242];
+      accounts: [
+        {
+          name: "revokeAuthority";
+          signer: true;
+        },
+        {
+          name: "admin";
+        },
+        {
+          name: "vestingSchedule";
+          writable: true;
+        },
+        {
+          name: "mint";
+        },
+        {
+          name: "vault";
+          writable: true;
+        },
+        {
+          name: "adminTokenAccount";
+          writable: true;
+        },
+        {
+          name: "tokenProgram";
+        }
+      ];
+      args: [];
+    },
+    {
+      name: "migrateVestingSchedule";
+      discriminator: [205, 124, 127, 160, 99, 255, 198, 171];
+      accounts: [
+        {
+          name: "payer";
+          writable: true;
+          signer: true;
+        },
+        {
+          name: "vestingSchedule";
+          writable: true;
+        },
+        {
+          name: "systemProgram";
+          address: "11111111111111111111111111111111";
+        }
+      ];
+      args: [];
+    },
+    {
+      name: "transferBeneficiary";
+      discriminator: [43, 100, 158, 183, 38, 120, 169, 249];
+      accounts: [
+        {
+          name: "authority";
+          writable: true;
+          signer: true;
+        },
+        {
+          name: "newBeneficiary";
+        },
+        {
+          name: "vestingSchedule";
+          writable: true;
+        },
+        {
+          name: "newVestingSchedule";
+          writable: true;
+        },
+        {
+          name: "mint";
+          writable: true;
+        },
+        {
+          name: "vault";
+          writable: true;
+        },
+        {
+          name: "newVault";
+          writable: true;
+        },
+        {
+          name: "systemProgram";
+          address: "11111111111111111111111111111111";
+        },
+        {
+          name: "tokenProgram";
+        }
+      ];
+      args: [
+        {
+          name: "newScheduleId";
+          type: "u64";
+        }
+      ];
+    },
+    {
+      name: "setAuthority";
+      discriminator: [133, 250, 37, 21, 110, 163, 26, 121];
+      accounts: [
+        {
+          name: "authority";
+          signer: true;
+        },
+        {
+          name: "vestingSchedule";
+          writable: true;
+        }
+      ];
+      args: [
+        {
+          name: "authorityType";
+          type: {
+            defined: {
+              name: "authorityType";
+            };
+          };
+        },
+        {
+          name: "newAuthority";
+          type: {
+            option: "pubkey";
+          };
+        }
+      ];
+    },
+    {
+      name: "setAllowCrank";
+      discriminator: [141, 46, 166, 73, 13, 232, 148, 231];
+      accounts: [
+        {
+          name: "beneficiary";
+          signer: true;
+        },
+        {
+          name: "vestingSchedule";
+          writable: true;
+        }
+      ];
+      args: [
+        {
+          name: "allowCrank";
+          type: "bool";
+        }
+      ];
+    },
+    {
+      name: "setAllowAdminTransfer";
+      discriminator: [235, 26, 81, 216, 207, 91, 63, 93];
+      accounts: [
+        {
+          name: "beneficiary";
+          signer: true;
+        },
+        {
+          name: "vestingSchedule";
+          writable: true;
+        }
+      ];
+      args: [
+        {
+          name: "allowAdminTransfer";
+          type: "bool";
+        }
+      ];
+    },
+    {
+      name: "closeVestingSchedule";
+      discriminator: [53, 177, 56, 104, 70, 183, 187, 179];
+      accounts: [
+        {
+          name: "authority";
+          signer: true;
+        },
+        {
+          name: "admin";
+          writable: true;
+        },
+        {
+          name: "vestingSchedule";
+          writable: true;
+        },
+        {
+          name: "mint";
+          writable: true;
+        },
+        {
+          name: "vault";
+          writable: true;
+        },
+        {
+          name: "adminTokenAccount";
+          writable: true;
+        },
+        {
+          name: "tokenProgram";
+        }
+      ];
+      args: [];
+    },
+    {
+      name: "previewVestedAmount";
+      discriminator: [166, 114, 170, 129, 162, 151, 236, 41];
+      accounts: [];
+      args: [
+        {
+          name: "totalAmount";
+          type: "u64";
+        },
+        {
+          name: "startTime";
+          type: "i64";
+        },
+        {
+          name: "cliffDuration";
+          type: "i64";
+        },
+        {
+          name: "vestingDuration";
+          type: "i64";
+        },
+        {
+          name: "initialUnlockBps";
+          type: "u16";
+        },
+        {
+          name: "curve";
+          type: {
+            defined: {
+              name: "vestingCurve";
+            };
+          };
+        },
+        {
+          name: "at";
+          type: "i64";
+        }
+      ];
+      returns: "u64";
+    }
+  ];
+  accounts: [
+    {
+      name: "vestingSchedule";
+      discriminator: [130, 200, 173, 148, 39, 75, 243, 147];
+    }
+  ];
+  events: [
+    {
+      name: "vestingCreated";
+      discriminator: [181, 223, 229, 220, 204, 6, 169, 125];
+    },
+    {
+      name: "tokensClaimed";
+      discriminator: [25, 128, 244, 55, 241, 136, 200, 91];
+    },
+    {
+      name: "vestingRevoked";
+      discriminator: [215, 148, 193, 127, 237, 245, 90, 75];
+    },
+    {
+      name: "vestingClosed";
+      discriminator: [141, 146, 62, 52, 160, 60, 177, 123];
+    },
+    {
+      name: "authorityChanged";
+      discriminator: [31, 19, 174, 152, 4, 82, 215, 226];
+    },
+    {
+      name: "beneficiaryTransferred";
+      discriminator: [70, 88, 246, 222, 226, 28, 252, 39];
+    },
+    {
+      name: "allowCrankChanged";
+      discriminator: [2, 106, 17, 94, 24, 240, 136, 217];
+    },
+    {
+      name: "allowAdminTransferChanged";
+      discriminator: [206, 71, 193, 177, 234, 60, 110, 225];
+    }
+  ];
+  errors: [
+    {
+      code: 6000;
+      name: "durationTooShort";
+      msg: "Vesting duration must be at least 1 day";
+    },
+    {
+      code: 6001;
+      name: "durationTooLong";
+      msg: "Vesting duration cannot exceed 10 years";
+    },
+    {
+      code: 6002;
+      name: "cliffTooLong";
+      msg: "Cliff duration cannot exceed vesting duration";
+    },
+    {
+      code: 6003;
+      name: "cliffPercentageTooHigh";
+      msg: "Cliff cannot exceed 50% of vesting duration";
+    },
+    {
+      code: 6004;
+      name: "startTimeInPast";
+      msg: "Vesting start time must be in the future";
+    },
+    {
+      code: 6005;
+      name: "cliffNotReached";
+      msg: "Cannot claim during cliff period";
+    },
+    {
+      code: 6006;
+      name: "nothingToClaim";
+      msg: "No tokens available for claiming";
+    },
+    {
+      code: 6007;
+      name: "vestingRevoked";
+      msg: "This vesting schedule has been revoked";
+    },
+    {
+      code: 6008;
+      name: "vestingCompleted";
+      msg: "Cannot revoke completed vesting schedule";
+    },
+    {
+      code: 6009;
+      name: "calculationOverflow";
+      msg: "Calculation overflow";
+    },
+    {
+      code: 6010;
+      name: "invalidAmount";
+      msg: "Vesting amount must be greater than zero";
+    },
+    {
+      code: 6011;
+      name: "transferAmountMismatch";
+      msg: "Vault did not receive the full vesting amount";
+    },
+    {
+      code: 6012;
+      name: "scheduleNotSettled";
+      msg: "Vesting schedule still holds unclaimed tokens";
+    },
+    {
+      code: 6013;
+      name: "invalidUnlockPercentage";
+      msg: "Initial unlock cannot exceed 100%";
+    },
+    {
+      code: 6014;
+      name: "invalidPeriod";
+      msg: "Vesting period must be positive and within the vesting duration";
+    },
+    {
+      code: 6015;
+      name: "invalidMilestones";
+      msg: "Milestones must be in order, within the vesting duration and add up to 100%";
+    },
+    {
+      code: 6016;
+      name: "unauthorizedTransfer";
+      msg: "Only the beneficiary or the admin can transfer a vesting schedule";
+    },
+    {
+      code: 6017;
+      name: "sameBeneficiary";
+      msg: "New beneficiary is the current beneficiary";
+    },
+    {
+      code: 6018;
+      name: "nothingToTransfer";
+      msg: "Vesting schedule has nothing left to transfer";
+    },
+    {
+      code: 6019;
+      name: "scheduleNotMigrated";
+      msg: "Vesting schedule must be migrated to the current layout first";
+    },
+    {
+      code: 6020;
+      name: "irrevocable";
+      msg: "This vesting schedule is irrevocable";
+    },
+    {
+      code: 6021;
+      name: "unauthorizedAuthority";
+      msg: "Signer does not hold this authority";
+    },
+    {
+      code: 6022;
+      name: "authorityRequired";
+      msg: "A vesting schedule must keep an admin authority";
+    },
+    {
+      code: 6023;
+      name: "crankNotAllowed";
+      msg: "The beneficiary has not allowed others to claim for them";
+    },
+    {
+      code: 6024;
+      name: "transferFeeNotSupported";
+      msg: "Grants of tokens that charge a transfer fee cannot be moved";
+    },
+    {
+      code: 6025;
+      name: "adminTransferNotAllowed";
+      msg: "The admin can only move a revocable grant whose beneficiary has allowed it";
+    }
+  ];
+  types: [
+    {
+      name: "vestingSchedule";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "admin";
+            type: "pubkey";
+          },
+          {
+            name: "beneficiary";
+            type: "pubkey";
+          },
+          {
+            name: "mint";
+            type: "pubkey";
+          },
+          {
+            name: "totalAmount";
+            type: "u64";
+          },
+          {
+            name: "claimedAmount";
+            type: "u64";
+          },
+          {
+            name: "startTime";
+            type: "i64";
+          },
+          {
+            name: "cliffDuration";
+            type: "i64";
+          },
+          {
+            name: "vestingDuration";
+            type: "i64";
+          },
+          {
+            name: "isRevoked";
+            type: "bool";
+          },
+          {
+            name: "revokedAmount";
+            type: "u64";
+          },
+          {
+            name: "bump";
+            type: "u8";
+          },
+          {
+            name: "vaultBump";
+            type: "u8";
+          },
+          {
+            name: "scheduleId";
+            type: "u64";
+          },
+          {
+            name: "initialUnlockBps";
+            type: "u16";
+          },
+          {
+            name: "authority";
+            type: "pubkey";
+          },
+          {
+            name: "revokeAuthority";
+            type: {
+              option: "pubkey";
+            };
+          },
+          {
+            name: "curve";
+            type: {
+              defined: {
+                name: "vestingCurve";
+              };
+            };
+          },
+          {
+            name: "allowCrank";
+            type: "bool";
+          },
+          {
+            name: "allowAdminTransfer";
+            type: "bool";
+          }
+        ];
+      };
+    },
+    {
+      name: "authorityType";
+      type: {
+        kind: "enum";
+        variants: [
+          {
+            name: "admin";
+          },
+          {
+            name: "revoke";
+          }
+        ];
+      };
+    },
+    {
+      name: "vestingCurve";
+      type: {
+        kind: "enum";
+        variants: [
+          {
+            name: "linear";
+          },
+          {
+            name: "periodic";
+            fields: [
+              {
+                name: "period";
+                type: "i64";
+              }
+            ];
+          },
+          {
+            name: "milestones";
+            fields: [
+              {
+                name: "milestones";
+                type: {
+                  vec: {
+                    defined: {
+                      name: "milestone";
+                    };
+                  };
+                };
+              }
+            ];
+          }
+        ];
+      };
+    },
+    {
+      name: "milestone";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "offset";
+            type: "i64";
+          },
+          {
+            name: "bps";
+            type: "u16";
+          }
+        ];
+      };
+    },
+    {
+      name: "vestingCreated";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "admin";
+            type: "pubkey";
+          },
+          {
+            name: "beneficiary";
+            type: "pubkey";
+          },
+          {
+            name: "mint";
+            type: "pubkey";
+          },
+          {
+            name: "scheduleId";
+            type: "u64";
+          },
+          {
+            name: "totalAmount";
+            type: "u64";
+          },
+          {
+            name: "startTime";
+            type: "i64";
+          },
+          {
+            name: "cliffDuration";
+            type: "i64";
+          },
+          {
+            name: "vestingDuration";
+            type: "i64";
+          },
+          {
+            name: "initialUnlockBps";
+            type: "u16";
+          },
+          {
+            name: "curve";
+            type: {
+              defined: {
+                name: "vestingCurve";
+              };
+            };
+          }
+        ];
+      };
+    },
+    {
+      name: "tokensClaimed";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "beneficiary";
+            type: "pubkey";
+          },
+          {
+            name: "mint";
+            type: "pubkey";
+          },
+          {
+            name: "amount";
+            type: "u64";
+          },
+          {
+            name: "totalClaimed";
+            type: "u64";
+          },
+          {
+            name: "remaining";
+            type: "u64";
+          }
+        ];
+      };
+    },
+    {
+      name: "vestingRevoked";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "admin";
+            type: "pubkey";
+          },
+          {
+            name: "beneficiary";
+            type: "pubkey";
+          },
+          {
+            name: "mint";
+            type: "pubkey";
+          },
+          {
+            name: "unvestedAmount";
+            type: "u64";
+          },
+          {
+            name: "vestedAmount";
+            type: "u64";
+          }
+        ];
+      };
+    },
+    {
+      name: "vestingClosed";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "admin";
+            type: "pubkey";
+          },
+          {
+            name: "beneficiary";
+            type: "pubkey";
+          },
+          {
+            name: "mint";
+            type: "pubkey";
+          },
+          {
+            name: "scheduleId";
+            type: "u64";
+          }
+        ];
+      };
+    },
+    {
+      name: "authorityChanged";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "admin";
+            type: "pubkey";
+          },
+          {
+            name: "beneficiary";
+            type: "pubkey";
+          },
+          {
+            name: "mint";
+            type: "pubkey";
+          },
+          {
+            name: "scheduleId";
+            type: "u64";
+          },
+          {
+            name: "authorityType";
+            type: {
+              defined: {
+                name: "authorityType";
+              };
+            };
+          },
+          {
+            name: "oldAuthority";
+            type: "pubkey";
+          },
+          {
+            name: "newAuthority";
+            type: {
+              option: "pubkey";
+            };
+          }
+        ];
+      };
+    },
+    {
+      name: "beneficiaryTransferred";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "admin";
+            type: "pubkey";
+          },
+          {
+            name: "mint";
+            type: "pubkey";
+          },
+          {
+            name: "oldBeneficiary";
+            type: "pubkey";
+          },
+          {
+            name: "oldScheduleId";
+            type: "u64";
+          },
+          {
+            name: "newBeneficiary";
+            type: "pubkey";
+          },
+          {
+            name: "newScheduleId";
+            type: "u64";
+          },
+          {
+            name: "authority";
+            type: "pubkey";
+          },
+          {
+            name: "remaining";
+            type: "u64";
+          }
+        ];
+      };
+    },
+    {
+      name: "allowCrankChanged";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "admin";
+            type: "pubkey";
+          },
+          {
+            name: "beneficiary";
+            type: "pubkey";
+          },
+          {
+            name: "mint";
+            type: "pubkey";
+          },
+          {
+            name: "scheduleId";
+            type: "u64";
+          },
+          {
+            name: "allowCrank";
+            type: "bool";
+          }
+        ];
+      };
+    },
+    {
+      name: "allowAdminTransferChanged";
+      type: {
+        kind: "struct";
+        fields: [
+          {
+            name: "admin";
+            type: "pubkey";
+          },
+          {
+            name: "beneficiary";
+            type: "pubkey";
+          },
+          {
+            name: "mint";
+            type: "pubkey";
+          },
+          {
+            name: "scheduleId";
+            type: "u64";
+          },
+          {
+            name: "allowAdminTransfer";
+            type: "bool";
+          }
+        ];
+      };
+    }
+  ];
+};
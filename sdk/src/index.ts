@@ -0,0 +1,20 @@
+export * from "./constants";
+export * from "./pda";
+export * from "./types";
+export * from "./math";
+export * from "./simulator";
+export * from "./treasury";
+export * from "./curve";
+export * from "./mint";
+export * from "./validation";
+export * from "./errors";
+export * from "./program";
+export * from "./history";
+export * from "./reports";
+export * from "./subscriptions";
+export * from "./transactions";
+export * from "./offline";
+export * from "./batch";
+export * from "./client";
+export type { TokenVesting } from "./idl/token_vesting";
+export { default as IDL } from "./idl/token_vesting.json";
@@ -0,0 +1,310 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { BPS_DENOMINATOR } from "./constants";
+import {
+  ProjectionRow,
+  VestingCurve,
+  VestingInfo,
+  VestingProgress,
+  VestingSchedule,
+  VestingTerms,
+} from "./types";
+
+/**
+ * Calculate vested amount at a given time. Revoked schedules stay frozen at
+ * what had vested when they were revoked.
+ */
+export function calculateVestedAmount(
+  schedule: VestingProgress,
+  currentTime: number
+): BN {
+  if (schedule.isRevoked) {
+    return schedule.totalAmount.sub(schedule.revokedAmount ?? new BN(0));
+  }
+  return calculateScheduledAmount(schedule, currentTime);
+}
+
+/**
+ * Vested amount at any time, past or future. Unlike calculateVestedAmount, a
+ * revoked schedule follows its curve up to the revoke and only then stays flat.
+ */
+export function calculateVestedAmountAt(
+  schedule: VestingProgress,
+  time: number
+): BN {
+  return BN.min(
+    calculateScheduledAmount(schedule, time),
+    calculateVestedAmount(schedule, time)
+  );
+}
+
+/**
+ * When a revoked schedule stopped vesting: the earliest time its curve reached
+ * the amount the revoke froze it at. The revoke time itself isn't stored on
+ * the account, but nothing vested between this point and the revoke.
+ */
+export function getRevokePoint(schedule: VestingProgress): number | null {
+  if (!schedule.isRevoked) return null;
+
+  const frozen = calculateVestedAmount(schedule, 0);
+  let low = schedule.startTime.toNumber();
+  let high = low + schedule.vestingDuration.toNumber();
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (calculateScheduledAmount(schedule, mid).gte(frozen)) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Amount released by a schedule's terms at a given time, ignoring any revoke.
+ * Mirrors VestingSchedule::calculate_vested_amount in state.rs.
+ */
+export function calculateScheduledAmount(
+  terms: VestingTerms,
+  currentTime: number
+): BN {
+  const startTime = terms.startTime.toNumber();
+  const vestingDuration = terms.vestingDuration.toNumber();
+  const cliffEnd = startTime + terms.cliffDuration.toNumber();
+  const vestingEnd = startTime + vestingDuration;
+
+  if (currentTime < startTime) {
+    return new BN(0);
+  }
+
+  const initialUnlock = calculateInitialUnlock(terms);
+
+  if (currentTime < cliffEnd) {
+    return initialUnlock;
+  }
+
+  if (currentTime >= vestingEnd) {
+    return terms.totalAmount;
+  }
+
+  const released = releasedAmount(
+    terms.curve,
+    terms.totalAmount.sub(initialUnlock),
+    currentTime - startTime,
+    vestingDuration
+  );
+  return initialUnlock.add(released);
+}
+
+/**
+ * Part of the total unlocked at the start time
+ */
+export function calculateInitialUnlock(
+  terms: Pick<VestingTerms, "totalAmount" | "initialUnlockBps">
+): BN {
+  return terms.totalAmount
+    .mul(new BN(terms.initialUnlockBps))
+    .div(new BN(BPS_DENOMINATOR));
+}
+
+// Amount of `amount` released `elapsed` seconds into a `duration`-long
+// schedule, for times between the cliff and the end
+function releasedAmount(
+  curve: VestingCurve,
+  amount: BN,
+  elapsed: number,
+  duration: number
+): BN {
+  if (curve.periodic) {
+    const period = curve.periodic.period.toNumber();
+    const completed = Math.floor(elapsed / period) * period;
+    return amount.mul(new BN(completed)).div(new BN(duration));
+  }
+
+  if (curve.milestones) {
+    const reached = curve.milestones.milestones
+      .filter((milestone) => milestone.offset.toNumber() <= elapsed)
+      .reduce((sum, milestone) => sum + milestone.bps, 0);
+    return amount.mul(new BN(reached)).div(new BN(BPS_DENOMINATOR));
+  }
+
+  return amount.mul(new BN(elapsed)).div(new BN(duration));
+}
+
+/**
+ * Calculate claimable amount at a given time, including the vested remainder
+ * of a revoked schedule
+ */
+export function calculateClaimableAmount(
+  schedule: VestingProgress,
+  currentTime: number
+): BN {
+  const vested = calculateVestedAmount(schedule, currentTime);
+  const claimable = vested.sub(schedule.claimedAmount ?? new BN(0));
+  return claimable.gt(new BN(0)) ? claimable : new BN(0);
+}
+
+/**
+ * Whether every token has been claimed or returned to the admin, so the
+ * schedule and its vault can be closed
+ */
+export function isScheduleSettled(schedule: VestingSchedule): boolean {
+  return schedule.claimedAmount
+    .add(schedule.revokedAmount)
+    .gte(schedule.totalAmount);
+}
+
+export type VestingStatus =
+  | "notStarted"
+  | "cliff"
+  | "vesting"
+  | "fullyVested"
+  | "revoked";
+
+export const VESTING_STATUS_LABELS: Record<VestingStatus, string> = {
+  notStarted: "Not Started",
+  cliff: "Cliff Period",
+  vesting: "Vesting",
+  fullyVested: "Fully Vested",
+  revoked: "Revoked",
+};
+
+/**
+ * Lifecycle status of a schedule at a given time
+ */
+export function getVestingStatus(
+  schedule: VestingSchedule,
+  currentTime: number
+): VestingStatus {
+  const startTime = schedule.startTime.toNumber();
+  const cliffEnd = startTime + schedule.cliffDuration.toNumber();
+  const vestingEnd = startTime + schedule.vestingDuration.toNumber();
+
+  if (schedule.isRevoked) return "revoked";
+  if (currentTime >= vestingEnd) return "fullyVested";
+  if (currentTime >= cliffEnd) return "vesting";
+  if (currentTime >= startTime) return "cliff";
+  return "notStarted";
+}
+
+// Same day of the month `months` later, clamped to the end of shorter months
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(date.getTime());
+  target.setUTCDate(1);
+  target.setUTCMonth(target.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+/**
+ * The start of vesting, each monthly anniversary of it, and the end
+ */
+export function getMonthlyDates(
+  terms: Pick<VestingTerms, "startTime" | "vestingDuration">
+): Date[] {
+  const start = new Date(terms.startTime.toNumber() * 1000);
+  const end = new Date(
+    (terms.startTime.toNumber() + terms.vestingDuration.toNumber()) * 1000
+  );
+
+  const dates = [start];
+  for (let month = 1; ; month++) {
+    const date = addMonths(start, month);
+    if (date >= end) break;
+    dates.push(date);
+  }
+  dates.push(end);
+  return dates;
+}
+
+/**
+ * Month-by-month projection from the start to the end of vesting, on the
+ * dates from getMonthlyDates
+ */
+export function projectMonthlyVesting(
+  schedule: VestingProgress
+): ProjectionRow[] {
+  const claimed = schedule.claimedAmount ?? new BN(0);
+  let previous = new BN(0);
+  return getMonthlyDates(schedule).map((date) => {
+    const vested = calculateVestedAmountAt(
+      schedule,
+      Math.floor(date.getTime() / 1000)
+    );
+    const row = {
+      date,
+      vested,
+      unlocked: vested.sub(previous),
+      claimable: vested.gt(claimed) ? vested.sub(claimed) : new BN(0),
+    };
+    previous = vested;
+    return row;
+  });
+}
+
+/**
+ * Build the derived view of a schedule used by the UI and CLI
+ */
+export function toVestingInfo(
+  publicKey: PublicKey,
+  schedule: VestingSchedule,
+  currentTime: number = Math.floor(Date.now() / 1000)
+): VestingInfo {
+  const vestedAmount = calculateVestedAmount(schedule, currentTime);
+  const claimableAmount = calculateClaimableAmount(schedule, currentTime);
+
+  const startTime = schedule.startTime.toNumber() * 1000;
+  const cliffEnd = new Date(
+    startTime + schedule.cliffDuration.toNumber() * 1000
+  );
+  const vestingEnd = new Date(
+    startTime + schedule.vestingDuration.toNumber() * 1000
+  );
+
+  const percentVested = schedule.totalAmount.gt(new BN(0))
+    ? vestedAmount.mul(new BN(100)).div(schedule.totalAmount).toNumber()
+    : 0;
+
+  return {
+    publicKey,
+    account: schedule,
+    vestedAmount,
+    claimableAmount,
+    cliffEnd,
+    vestingEnd,
+    percentVested,
+  };
+}
+
+/**
+ * Format a raw token amount with the mint's decimals, as from fetchMintInfo
+ */
+export function formatTokenAmount(amount: BN, decimals: number): string {
+  const divisor = new BN(10).pow(new BN(decimals));
+  const integerPart = amount.div(divisor);
+  const fractionalPart = amount.mod(divisor);
+
+  const fractionalStr = fractionalPart.toString().padStart(decimals, "0");
+  const trimmedFractional = fractionalStr.replace(/0+$/, "");
+
+  if (trimmedFractional) {
+    return `${integerPart.toString()}.${trimmedFractional}`;
+  }
+  return integerPart.toString();
+}
+
+/**
+ * Parse a token amount into raw units with the mint's decimals, as from
+ * fetchMintInfo
+ */
+export function parseTokenAmount(amount: string, decimals: number): BN {
+  const [integerPart, fractionalPart = ""] = amount.split(".");
+  const paddedFractional = fractionalPart
+    .padEnd(decimals, "0")
+    .slice(0, decimals);
+  const fullAmount = integerPart + paddedFractional;
+  return new BN(fullAmount);
+}
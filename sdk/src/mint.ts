@@ -0,0 +1,163 @@
+import { BN } from "@coral-xyz/anchor";
+import { Connection, PublicKey } from "@solana/web3.js";
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+  unpackMint,
+} from "@solana/spl-token";
+
+// Metaplex Token Metadata program, for optional name/symbol lookup
+export const TOKEN_METADATA_PROGRAM_ID = new PublicKey(
+  "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"
+);
+
+export interface MintInfo {
+  address: PublicKey;
+  decimals: number;
+  // Classic SPL Token or Token-2022, whichever owns the mint
+  tokenProgram: PublicKey;
+  symbol?: string;
+  name?: string;
+}
+
+// Keyed by RPC endpoint and mint; promises so concurrent lookups share a request
+const mintCache = new Map<string, Promise<MintInfo>>();
+
+const cacheKey = (connection: Connection, mint: PublicKey) =>
+  `${connection.rpcEndpoint}:${mint.toBase58()}`;
+
+export function getMetadataPDA(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [
+      Buffer.from("metadata"),
+      TOKEN_METADATA_PROGRAM_ID.toBuffer(),
+      mint.toBuffer(),
+    ],
+    TOKEN_METADATA_PROGRAM_ID
+  )[0];
+}
+
+/**
+ * Read name and symbol from a Metaplex metadata account. The strings are
+ * borsh-encoded and null-padded to a fixed length.
+ */
+function decodeMetadata(data: Buffer): { name: string; symbol: string } {
+  // key (1) + update authority (32) + mint (32)
+  let offset = 1 + 32 + 32;
+  const readString = () => {
+    const length = data.readUInt32LE(offset);
+    offset += 4;
+    const value = data
+      .subarray(offset, offset + length)
+      .toString("utf8")
+      .replace(/\0/g, "")
+      .trim();
+    offset += length;
+    return value;
+  };
+  const name = readString();
+  const symbol = readString();
+  return { name, symbol };
+}
+
+async function loadMintInfo(
+  connection: Connection,
+  mint: PublicKey
+): Promise<MintInfo> {
+  const [mintAccount, metadataAccount] =
+    await connection.getMultipleAccountsInfo([mint, getMetadataPDA(mint)]);
+  if (!mintAccount) {
+    throw new Error(`Mint not found: ${mint.toBase58()}`);
+  }
+
+  const tokenProgram = mintAccount.owner;
+  if (
+    !tokenProgram.equals(TOKEN_PROGRAM_ID) &&
+    !tokenProgram.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    throw new Error(`Not a token mint: ${mint.toBase58()}`);
+  }
+
+  const { decimals } = unpackMint(mint, mintAccount, tokenProgram);
+  const info: MintInfo = { address: mint, decimals, tokenProgram };
+
+  if (metadataAccount) {
+    try {
+      const { name, symbol } = decodeMetadata(metadataAccount.data);
+      info.name = name || undefined;
+      info.symbol = symbol || undefined;
+    } catch {
+      // Metadata is optional; fall back to the bare mint
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Fetch a mint's decimals (and name/symbol when it has metadata), cached per
+ * mint for the lifetime of the page or process
+ */
+export function fetchMintInfo(
+  connection: Connection,
+  mint: PublicKey
+): Promise<MintInfo> {
+  const key = cacheKey(connection, mint);
+  let info = mintCache.get(key);
+  if (!info) {
+    info = loadMintInfo(connection, mint);
+    // Don't cache failures, so a typo'd or not-yet-created mint can be retried
+    info.catch(() => mintCache.delete(key));
+    mintCache.set(key, info);
+  }
+  return info;
+}
+
+/**
+ * The token program that owns a mint, for deriving its token accounts
+ */
+export async function getTokenProgramForMint(
+  connection: Connection,
+  mint: PublicKey
+): Promise<PublicKey> {
+  return (await fetchMintInfo(connection, mint)).tokenProgram;
+}
+
+/**
+ * Fetch mint info for many mints at once, keyed by base58 address
+ */
+export async function fetchMintInfos(
+  connection: Connection,
+  mints: PublicKey[]
+): Promise<Record<string, MintInfo>> {
+  const unique = [...new Set(mints.map((mint) => mint.toBase58()))];
+  const infos = await Promise.all(
+    unique.map((mint) => fetchMintInfo(connection, new PublicKey(mint)))
+  );
+  return Object.fromEntries(unique.map((mint, i) => [mint, infos[i]]));
+}
+
+/**
+ * Balance of an owner's associated token account, zero if it doesn't exist.
+ * The token program is looked up from the mint when not given.
+ */
+export async function fetchTokenBalance(
+  connection: Connection,
+  owner: PublicKey,
+  mint: PublicKey,
+  tokenProgram?: PublicKey
+): Promise<BN> {
+  const address = getAssociatedTokenAddressSync(
+    mint,
+    owner,
+    false,
+    tokenProgram ?? (await getTokenProgramForMint(connection, mint))
+  );
+  try {
+    const { value } = await connection.getTokenAccountBalance(address);
+    return new BN(value.amount);
+  } catch {
+    return new BN(0);
+  }
+}
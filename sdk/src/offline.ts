@@ -0,0 +1,207 @@
+import {
+  Connection,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { translateVestingError } from "./errors";
+
+export interface UnsignedTransactionOptions {
+  // Use this durable nonce account's nonce instead of a recent blockhash, so
+  // the transaction doesn't expire while it waits for offline signers. Its
+  // nonce authority has to sign too.
+  nonceAccount?: PublicKey;
+}
+
+// An instruction as plain JSON, for tools that take instructions rather than
+// a whole transaction
+export interface SerializedInstruction {
+  programId: string;
+  keys: { pubkey: string; isSigner: boolean; isWritable: boolean }[];
+  // Base64
+  data: string;
+}
+
+export interface ExportedTransaction {
+  // Base64 of the unsigned transaction in wire format
+  transaction: string;
+  instructions: SerializedInstruction[];
+  // Everyone who has to sign, fee payer first
+  signers: string[];
+  // Set in durable-nonce mode; otherwise the transaction expires with its
+  // blockhash after about a minute
+  nonceAccount: string | null;
+}
+
+export function serializeInstructions(
+  instructions: TransactionInstruction[]
+): SerializedInstruction[] {
+  return instructions.map(({ programId, keys, data }) => ({
+    programId: programId.toBase58(),
+    keys: keys.map(({ pubkey, isSigner, isWritable }) => ({
+      pubkey: pubkey.toBase58(),
+      isSigner,
+      isWritable,
+    })),
+    data: data.toString("base64"),
+  }));
+}
+
+export function deserializeInstructions(
+  instructions: SerializedInstruction[]
+): TransactionInstruction[] {
+  return instructions.map(
+    ({ programId, keys, data }) =>
+      new TransactionInstruction({
+        programId: new PublicKey(programId),
+        keys: keys.map(({ pubkey, isSigner, isWritable }) => ({
+          pubkey: new PublicKey(pubkey),
+          isSigner,
+          isWritable,
+        })),
+        data: Buffer.from(data, "base64"),
+      })
+  );
+}
+
+/**
+ * Wrap an action's instructions in a transaction for someone else to sign,
+ * such as a multisig or a hardware wallet kept offline. The fee payer is
+ * usually the action's signer, so one signature covers both.
+ */
+export async function buildUnsignedTransaction(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  feePayer: PublicKey,
+  options: UnsignedTransactionOptions = {}
+): Promise<Transaction> {
+  const transaction = new Transaction();
+  transaction.feePayer = feePayer;
+
+  if (options.nonceAccount) {
+    const nonce = await connection.getNonce(options.nonceAccount, "confirmed");
+    if (!nonce) {
+      throw new Error(
+        `${options.nonceAccount.toBase58()} is not a nonce account`
+      );
+    }
+    // Advancing the nonce has to come first for the runtime to accept it in
+    // place of a blockhash
+    transaction.add(
+      SystemProgram.nonceAdvance({
+        noncePubkey: options.nonceAccount,
+        authorizedPubkey: nonce.authorizedPubkey,
+      })
+    );
+    transaction.recentBlockhash = nonce.nonce;
+  } else {
+    const { blockhash } = await connection.getLatestBlockhash("confirmed");
+    transaction.recentBlockhash = blockhash;
+  }
+
+  return transaction.add(...instructions);
+}
+
+/**
+ * The nonce account a durable-nonce transaction advances, or null for one
+ * using a recent blockhash
+ */
+export function getNonceAccount(transaction: Transaction): PublicKey | null {
+  const [first] = transaction.instructions;
+  if (!first?.programId.equals(SystemProgram.programId)) return null;
+  try {
+    return SystemInstruction.decodeNonceAdvance(first).noncePubkey;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serialize an unsigned transaction, with its instructions and who has to sign
+ * it, for export
+ */
+export function exportTransaction(
+  transaction: Transaction
+): ExportedTransaction {
+  const message = transaction.compileMessage();
+  return {
+    transaction: transaction
+      .serialize({ requireAllSignatures: false, verifySignatures: false })
+      .toString("base64"),
+    instructions: serializeInstructions(transaction.instructions),
+    signers: message.accountKeys
+      .slice(0, message.header.numRequiredSignatures)
+      .map((key) => key.toBase58()),
+    nonceAccount: getNonceAccount(transaction)?.toBase58() ?? null,
+  };
+}
+
+/**
+ * Read back a transaction exported with `exportTransaction`, signed or not
+ */
+export function decodeTransaction(payload: string): Transaction {
+  try {
+    return Transaction.from(Buffer.from(payload.trim(), "base64"));
+  } catch {
+    throw new Error("Not a base64-encoded transaction");
+  }
+}
+
+/**
+ * Send a transaction that was signed elsewhere and wait for it to confirm.
+ * Throws if a signature is missing or invalid, or if the transaction fails.
+ */
+export async function submitSignedTransaction(
+  connection: Connection,
+  payload: string
+): Promise<string> {
+  const transaction = decodeTransaction(payload);
+
+  const missing = transaction.signatures
+    .filter(({ signature }) => !signature)
+    .map(({ publicKey }) => publicKey.toBase58());
+  if (missing.length > 0) {
+    throw new Error(
+      `The transaction is still missing signatures from ${missing.join(", ")}`
+    );
+  }
+  if (!transaction.verifySignatures()) {
+    throw new Error(
+      "A signature doesn't match the transaction; it may have been changed after signing"
+    );
+  }
+
+  const nonceAccount = getNonceAccount(transaction);
+  const minContextSlot = await connection.getSlot("confirmed");
+  // The blockhash's own expiry isn't part of the transaction; the latest one's
+  // is never earlier, so waiting for it can only wait a little too long
+  const { lastValidBlockHeight } = await connection.getLatestBlockhash(
+    "confirmed"
+  );
+
+  const signature = await connection.sendRawTransaction(
+    transaction.serialize()
+  );
+  const confirmation = await connection.confirmTransaction(
+    nonceAccount
+      ? {
+          signature,
+          minContextSlot,
+          nonceAccountPubkey: nonceAccount,
+          nonceValue: transaction.recentBlockhash!,
+        }
+      : {
+          signature,
+          blockhash: transaction.recentBlockhash!,
+          lastValidBlockHeight,
+        },
+    "confirmed"
+  );
+  if (confirmation.value.err) {
+    throw translateVestingError(confirmation.value.err);
+  }
+
+  return signature;
+}
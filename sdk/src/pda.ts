@@ -0,0 +1,47 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { PROGRAM_ID, VAULT_SEED, VESTING_SEED } from "./constants";
+
+/**
+ * PDA seed for a schedule id. Id 0 is an empty seed, so the first grant keeps
+ * the address it had before schedule ids existed.
+ */
+export function getScheduleIdSeed(scheduleId: BN | number): Buffer {
+  const id = new BN(scheduleId);
+  return id.isZero() ? Buffer.alloc(0) : id.toArrayLike(Buffer, "le", 8);
+}
+
+/**
+ * Derive the vesting schedule PDA
+ */
+export function getVestingPDA(
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number = 0,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [
+      VESTING_SEED,
+      admin.toBuffer(),
+      beneficiary.toBuffer(),
+      mint.toBuffer(),
+      getScheduleIdSeed(scheduleId),
+    ],
+    programId
+  );
+}
+
+/**
+ * Derive the vault PDA
+ */
+export function getVaultPDA(
+  vestingSchedule: PublicKey,
+  programId: PublicKey = PROGRAM_ID
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [VAULT_SEED, vestingSchedule.toBuffer()],
+    programId
+  );
+}
@@ -0,0 +1,1207 @@
+import { Program, Provider, BN, utils } from "@coral-xyz/anchor";
+import {
+  GetProgramAccountsFilter,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import IDL from "./idl/token_vesting.json";
+import { TokenVesting } from "./idl/token_vesting";
+import {
+  ADMIN_OFFSET,
+  AUTHORITY_OFFSET,
+  BENEFICIARY_OFFSET,
+  MINT_OFFSET,
+  PROGRAM_ID,
+  REVOKE_AUTHORITY_OFFSET,
+  PRE_CRANK_VESTING_SCHEDULE_SIZE,
+  VESTING_SCHEDULE_SIZE,
+} from "./constants";
+import { LINEAR_RELEASE } from "./curve";
+import { getVaultPDA, getVestingPDA } from "./pda";
+import { toVestingInfo } from "./math";
+import { getTokenProgramForMint } from "./mint";
+import { assertValidVestingParams } from "./validation";
+import {
+  AuthorityType,
+  VestingInfo,
+  VestingRelease,
+  VestingSchedule,
+  VestingTerms,
+} from "./types";
+
+/**
+ * Get the Anchor program instance
+ */
+export function getProgram(
+  provider: Provider,
+  programId: PublicKey = PROGRAM_ID
+): Program<TokenVesting> {
+  return new Program<TokenVesting>(
+    { ...IDL, address: programId.toBase58() } as TokenVesting,
+    provider
+  );
+}
+
+async function createVestingScheduleBuilder(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  totalAmount: BN,
+  startTime: BN,
+  cliffDuration: BN,
+  vestingDuration: BN,
+  scheduleId: BN | number = 0,
+  release: VestingRelease = LINEAR_RELEASE,
+  revokeAuthority: PublicKey | null = admin
+) {
+  assertValidVestingParams({
+    totalAmount,
+    startTime,
+    cliffDuration,
+    vestingDuration,
+    ...release,
+  });
+
+  const [vestingPDA] = getVestingPDA(
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    program.programId
+  );
+  const [vaultPDA] = getVaultPDA(vestingPDA, program.programId);
+  const tokenProgram = await getTokenProgramForMint(
+    program.provider.connection,
+    mint
+  );
+  const adminTokenAccount = getAssociatedTokenAddressSync(
+    mint,
+    admin,
+    false,
+    tokenProgram
+  );
+
+  return program.methods
+    .createVestingSchedule(
+      new BN(scheduleId),
+      totalAmount,
+      startTime,
+      cliffDuration,
+      vestingDuration,
+      release.initialUnlockBps,
+      release.curve,
+      revokeAuthority
+    )
+    .accountsStrict({
+      admin,
+      beneficiary,
+      mint,
+      vestingSchedule: vestingPDA,
+      vault: vaultPDA,
+      adminTokenAccount,
+      systemProgram: SystemProgram.programId,
+      tokenProgram,
+      associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+    });
+}
+
+/**
+ * Create a new vesting schedule. The admin funds it and holds its authorities;
+ * revoking can be left to another key, or to no one for an irrevocable grant.
+ */
+export async function createVestingSchedule(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  totalAmount: BN,
+  startTime: BN,
+  cliffDuration: BN,
+  vestingDuration: BN,
+  scheduleId: BN | number = 0,
+  release: VestingRelease = LINEAR_RELEASE,
+  revokeAuthority: PublicKey | null = admin
+): Promise<string> {
+  const builder = await createVestingScheduleBuilder(
+    program,
+    admin,
+    beneficiary,
+    mint,
+    totalAmount,
+    startTime,
+    cliffDuration,
+    vestingDuration,
+    scheduleId,
+    release,
+    revokeAuthority
+  );
+  const tx = await builder.rpc();
+
+  return tx;
+}
+
+/**
+ * Build the create instruction without sending it, for batching or signing
+ * elsewhere
+ */
+export async function createVestingScheduleInstruction(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  totalAmount: BN,
+  startTime: BN,
+  cliffDuration: BN,
+  vestingDuration: BN,
+  scheduleId: BN | number = 0,
+  release: VestingRelease = LINEAR_RELEASE,
+  revokeAuthority: PublicKey | null = admin
+): Promise<TransactionInstruction> {
+  const builder = await createVestingScheduleBuilder(
+    program,
+    admin,
+    beneficiary,
+    mint,
+    totalAmount,
+    startTime,
+    cliffDuration,
+    vestingDuration,
+    scheduleId,
+    release,
+    revokeAuthority
+  );
+  return builder.instruction();
+}
+
+/**
+ * Instructions that upgrade a schedule created by an earlier program version,
+ * so the program can deserialize it. Empty for schedules already at the
+ * current size.
+ */
+async function migrationInstructions(
+  program: Program<TokenVesting>,
+  vestingPDA: PublicKey,
+  payer: PublicKey
+): Promise<TransactionInstruction[]> {
+  const account = await program.provider.connection.getAccountInfo(vestingPDA);
+  if (!account || account.data.length >= VESTING_SCHEDULE_SIZE) {
+    return [];
+  }
+
+  return [
+    await program.methods
+      .migrateVestingSchedule()
+      .accountsStrict({
+        payer,
+        vestingSchedule: vestingPDA,
+        systemProgram: SystemProgram.programId,
+      })
+      .instruction(),
+  ];
+}
+
+/**
+ * The accounts claim and crank_claim share: the schedule, its vault and the
+ * beneficiary's associated token account the tokens are paid into
+ */
+async function claimAccounts(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey,
+  admin: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number
+) {
+  const [vestingPDA] = getVestingPDA(
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    program.programId
+  );
+  const [vaultPDA] = getVaultPDA(vestingPDA, program.programId);
+  const tokenProgram = await getTokenProgramForMint(
+    program.provider.connection,
+    mint
+  );
+  const beneficiaryTokenAccount = getAssociatedTokenAddressSync(
+    mint,
+    beneficiary,
+    false,
+    tokenProgram
+  );
+
+  return {
+    beneficiary,
+    vestingSchedule: vestingPDA,
+    mint,
+    vault: vaultPDA,
+    beneficiaryTokenAccount,
+    systemProgram: SystemProgram.programId,
+    tokenProgram,
+    associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+  };
+}
+
+async function claimBuilder(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey,
+  admin: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number = 0
+) {
+  const accounts = await claimAccounts(
+    program,
+    beneficiary,
+    admin,
+    mint,
+    scheduleId
+  );
+
+  const builder = program.methods.claim().accountsStrict(accounts);
+  return { builder, vestingPDA: accounts.vestingSchedule };
+}
+
+/**
+ * Claim vested tokens
+ */
+export async function claimTokens(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey,
+  admin: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number = 0
+): Promise<string> {
+  const { builder, vestingPDA } = await claimBuilder(
+    program,
+    beneficiary,
+    admin,
+    mint,
+    scheduleId
+  );
+  const tx = await builder
+    .preInstructions(
+      await migrationInstructions(program, vestingPDA, beneficiary)
+    )
+    .rpc();
+
+  return tx;
+}
+
+/**
+ * Build the claim, and the migration an old schedule needs first, without
+ * sending them, for batching or signing elsewhere
+ */
+export async function claimInstructions(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey,
+  admin: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number = 0
+): Promise<TransactionInstruction[]> {
+  const { builder, vestingPDA } = await claimBuilder(
+    program,
+    beneficiary,
+    admin,
+    mint,
+    scheduleId
+  );
+  return [
+    ...(await migrationInstructions(program, vestingPDA, beneficiary)),
+    await builder.instruction(),
+  ];
+}
+
+async function crankClaimBuilder(
+  program: Program<TokenVesting>,
+  cranker: PublicKey,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number = 0
+) {
+  const accounts = await claimAccounts(
+    program,
+    beneficiary,
+    admin,
+    mint,
+    scheduleId
+  );
+
+  const builder = program.methods
+    .crankClaim()
+    .accountsStrict({ cranker, ...accounts });
+  return { builder, vestingPDA: accounts.vestingSchedule };
+}
+
+/**
+ * Claim on a beneficiary's behalf. Anyone can sign; the tokens always go to
+ * the beneficiary's associated token account, which the cranker pays to
+ * create if it doesn't exist yet.
+ */
+export async function crankClaim(
+  program: Program<TokenVesting>,
+  cranker: PublicKey,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number = 0
+): Promise<string> {
+  const { builder, vestingPDA } = await crankClaimBuilder(
+    program,
+    cranker,
+    admin,
+    beneficiary,
+    mint,
+    scheduleId
+  );
+  const tx = await builder
+    .preInstructions(await migrationInstructions(program, vestingPDA, cranker))
+    .rpc();
+
+  return tx;
+}
+
+/**
+ * Build a crank claim, and the migration an old schedule needs first, without
+ * sending them
+ */
+export async function crankClaimInstructions(
+  program: Program<TokenVesting>,
+  cranker: PublicKey,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number = 0
+): Promise<TransactionInstruction[]> {
+  const { builder, vestingPDA } = await crankClaimBuilder(
+    program,
+    cranker,
+    admin,
+    beneficiary,
+    mint,
+    scheduleId
+  );
+  return [
+    ...(await migrationInstructions(program, vestingPDA, cranker)),
+    await builder.instruction(),
+  ];
+}
+
+async function revokeBuilder(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number,
+  revokeAuthority: PublicKey
+) {
+  const [vestingPDA] = getVestingPDA(
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    program.programId
+  );
+  const [vaultPDA] = getVaultPDA(vestingPDA, program.programId);
+  const tokenProgram = await getTokenProgramForMint(
+    program.provider.connection,
+    mint
+  );
+  const adminTokenAccount = getAssociatedTokenAddressSync(
+    mint,
+    admin,
+    false,
+    tokenProgram
+  );
+
+  const builder = program.methods.revoke().accountsStrict({
+    revokeAuthority,
+    admin,
+    vestingSchedule: vestingPDA,
+    mint,
+    vault: vaultPDA,
+    adminTokenAccount,
+    tokenProgram,
+  });
+  return { builder, vestingPDA };
+}
+
+/**
+ * Revoke a vesting schedule, signed by its revoke authority. The unvested
+ * remainder goes back to the admin who funded it.
+ */
+export async function revokeVesting(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number = 0,
+  revokeAuthority: PublicKey = admin
+): Promise<string> {
+  const { builder, vestingPDA } = await revokeBuilder(
+    program,
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    revokeAuthority
+  );
+  const tx = await builder
+    .preInstructions(
+      await migrationInstructions(program, vestingPDA, revokeAuthority)
+    )
+    .rpc();
+
+  return tx;
+}
+
+/**
+ * Build the revoke, and any migration it needs, without sending them, for
+ * signing elsewhere
+ */
+export async function revokeVestingInstructions(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number = 0,
+  revokeAuthority: PublicKey = admin
+): Promise<TransactionInstruction[]> {
+  const { builder, vestingPDA } = await revokeBuilder(
+    program,
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    revokeAuthority
+  );
+  return [
+    ...(await migrationInstructions(program, vestingPDA, revokeAuthority)),
+    await builder.instruction(),
+  ];
+}
+
+async function closeBuilder(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number,
+  authority: PublicKey
+) {
+  const [vestingPDA] = getVestingPDA(
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    program.programId
+  );
+  const [vaultPDA] = getVaultPDA(vestingPDA, program.programId);
+  const tokenProgram = await getTokenProgramForMint(
+    program.provider.connection,
+    mint
+  );
+  const adminTokenAccount = getAssociatedTokenAddressSync(
+    mint,
+    admin,
+    false,
+    tokenProgram
+  );
+
+  const builder = program.methods.closeVestingSchedule().accountsStrict({
+    authority,
+    admin,
+    vestingSchedule: vestingPDA,
+    mint,
+    vault: vaultPDA,
+    adminTokenAccount,
+    tokenProgram,
+  });
+  return { builder, vestingPDA };
+}
+
+/**
+ * Close a settled vesting schedule and its vault, signed by its admin
+ * authority, returning their rent to the admin who funded it
+ */
+export async function closeVestingSchedule(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number = 0,
+  authority: PublicKey = admin
+): Promise<string> {
+  const { builder, vestingPDA } = await closeBuilder(
+    program,
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    authority
+  );
+  const tx = await builder
+    .preInstructions(
+      await migrationInstructions(program, vestingPDA, authority)
+    )
+    .rpc();
+
+  return tx;
+}
+
+/**
+ * Build the close, and any migration it needs, without sending them, for
+ * signing elsewhere
+ */
+export async function closeVestingScheduleInstructions(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  scheduleId: BN | number = 0,
+  authority: PublicKey = admin
+): Promise<TransactionInstruction[]> {
+  const { builder, vestingPDA } = await closeBuilder(
+    program,
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    authority
+  );
+  return [
+    ...(await migrationInstructions(program, vestingPDA, authority)),
+    await builder.instruction(),
+  ];
+}
+
+async function transferBeneficiaryBuilder(
+  program: Program<TokenVesting>,
+  authority: PublicKey,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  newBeneficiary: PublicKey,
+  scheduleId: BN | number,
+  newScheduleId?: BN | number
+) {
+  const [vestingPDA] = getVestingPDA(
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    program.programId
+  );
+  const [vaultPDA] = getVaultPDA(vestingPDA, program.programId);
+  const nextId = new BN(
+    newScheduleId ??
+      (await findNextScheduleId(program, admin, newBeneficiary, mint))
+  );
+  const [newVestingPDA] = getVestingPDA(
+    admin,
+    newBeneficiary,
+    mint,
+    nextId,
+    program.programId
+  );
+  const [newVaultPDA] = getVaultPDA(newVestingPDA, program.programId);
+  const tokenProgram = await getTokenProgramForMint(
+    program.provider.connection,
+    mint
+  );
+
+  const builder = program.methods.transferBeneficiary(nextId).accountsStrict({
+    authority,
+    newBeneficiary,
+    vestingSchedule: vestingPDA,
+    newVestingSchedule: newVestingPDA,
+    mint,
+    vault: vaultPDA,
+    newVault: newVaultPDA,
+    systemProgram: SystemProgram.programId,
+    tokenProgram,
+  });
+  return { builder, vestingPDA };
+}
+
+/**
+ * Move a schedule to a new beneficiary, with its unclaimed remainder, timing
+ * and amounts already claimed kept. Signed by the current beneficiary, or by
+ * the admin authority when the beneficiary's keys are lost, if the grant is
+ * revocable and its beneficiary allowed it with setAllowAdminTransfer. The
+ * schedule gets a new address; by default it takes the new beneficiary's next
+ * free schedule id.
+ */
+export async function transferBeneficiary(
+  program: Program<TokenVesting>,
+  authority: PublicKey,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  newBeneficiary: PublicKey,
+  scheduleId: BN | number = 0,
+  newScheduleId?: BN | number
+): Promise<string> {
+  const { builder, vestingPDA } = await transferBeneficiaryBuilder(
+    program,
+    authority,
+    admin,
+    beneficiary,
+    mint,
+    newBeneficiary,
+    scheduleId,
+    newScheduleId
+  );
+  const tx = await builder
+    .preInstructions(
+      await migrationInstructions(program, vestingPDA, authority)
+    )
+    .rpc();
+
+  return tx;
+}
+
+/**
+ * Build the move to a new beneficiary, and any migration it needs, without
+ * sending them, for signing elsewhere
+ */
+export async function transferBeneficiaryInstructions(
+  program: Program<TokenVesting>,
+  authority: PublicKey,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  newBeneficiary: PublicKey,
+  scheduleId: BN | number = 0,
+  newScheduleId?: BN | number
+): Promise<TransactionInstruction[]> {
+  const { builder, vestingPDA } = await transferBeneficiaryBuilder(
+    program,
+    authority,
+    admin,
+    beneficiary,
+    mint,
+    newBeneficiary,
+    scheduleId,
+    newScheduleId
+  );
+  return [
+    ...(await migrationInstructions(program, vestingPDA, authority)),
+    await builder.instruction(),
+  ];
+}
+
+function setAuthorityBuilder(
+  program: Program<TokenVesting>,
+  authority: PublicKey,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  authorityType: AuthorityType,
+  newAuthority: PublicKey | null,
+  scheduleId: BN | number
+) {
+  const [vestingPDA] = getVestingPDA(
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    program.programId
+  );
+
+  const builder = program.methods
+    .setAuthority(authorityType, newAuthority)
+    .accountsStrict({
+      authority,
+      vestingSchedule: vestingPDA,
+    });
+  return { builder, vestingPDA };
+}
+
+/**
+ * Hand a schedule's admin or revoke authority to another key, signed by its
+ * current holder. A null revoke authority makes the grant irrevocable; the
+ * admin authority can't be removed.
+ */
+export async function setAuthority(
+  program: Program<TokenVesting>,
+  authority: PublicKey,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  authorityType: AuthorityType,
+  newAuthority: PublicKey | null,
+  scheduleId: BN | number = 0
+): Promise<string> {
+  const { builder, vestingPDA } = setAuthorityBuilder(
+    program,
+    authority,
+    admin,
+    beneficiary,
+    mint,
+    authorityType,
+    newAuthority,
+    scheduleId
+  );
+  const tx = await builder
+    .preInstructions(
+      await migrationInstructions(program, vestingPDA, authority)
+    )
+    .rpc();
+
+  return tx;
+}
+
+/**
+ * Build the authority change, and any migration it needs, without sending
+ * them, for signing elsewhere
+ */
+export async function setAuthorityInstructions(
+  program: Program<TokenVesting>,
+  authority: PublicKey,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey,
+  authorityType: AuthorityType,
+  newAuthority: PublicKey | null,
+  scheduleId: BN | number = 0
+): Promise<TransactionInstruction[]> {
+  const { builder, vestingPDA } = setAuthorityBuilder(
+    program,
+    authority,
+    admin,
+    beneficiary,
+    mint,
+    authorityType,
+    newAuthority,
+    scheduleId
+  );
+  return [
+    ...(await migrationInstructions(program, vestingPDA, authority)),
+    await builder.instruction(),
+  ];
+}
+
+function setAllowCrankBuilder(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey,
+  admin: PublicKey,
+  mint: PublicKey,
+  allowCrank: boolean,
+  scheduleId: BN | number
+) {
+  const [vestingPDA] = getVestingPDA(
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    program.programId
+  );
+
+  const builder = program.methods.setAllowCrank(allowCrank).accountsStrict({
+    beneficiary,
+    vestingSchedule: vestingPDA,
+  });
+  return { builder, vestingPDA };
+}
+
+/**
+ * Let anyone crank the beneficiary's claims on a schedule, or stop them.
+ * Signed by the beneficiary; schedules start out not allowing it.
+ */
+export async function setAllowCrank(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey,
+  admin: PublicKey,
+  mint: PublicKey,
+  allowCrank: boolean,
+  scheduleId: BN | number = 0
+): Promise<string> {
+  const { builder, vestingPDA } = setAllowCrankBuilder(
+    program,
+    beneficiary,
+    admin,
+    mint,
+    allowCrank,
+    scheduleId
+  );
+  const tx = await builder
+    .preInstructions(
+      await migrationInstructions(program, vestingPDA, beneficiary)
+    )
+    .rpc();
+
+  return tx;
+}
+
+/**
+ * Build the crank opt-in change, and any migration it needs, without sending
+ * them, for signing elsewhere
+ */
+export async function setAllowCrankInstructions(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey,
+  admin: PublicKey,
+  mint: PublicKey,
+  allowCrank: boolean,
+  scheduleId: BN | number = 0
+): Promise<TransactionInstruction[]> {
+  const { builder, vestingPDA } = setAllowCrankBuilder(
+    program,
+    beneficiary,
+    admin,
+    mint,
+    allowCrank,
+    scheduleId
+  );
+  return [
+    ...(await migrationInstructions(program, vestingPDA, beneficiary)),
+    await builder.instruction(),
+  ];
+}
+
+function setAllowAdminTransferBuilder(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey,
+  admin: PublicKey,
+  mint: PublicKey,
+  allowAdminTransfer: boolean,
+  scheduleId: BN | number
+) {
+  const [vestingPDA] = getVestingPDA(
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    program.programId
+  );
+
+  const builder = program.methods
+    .setAllowAdminTransfer(allowAdminTransfer)
+    .accountsStrict({
+      beneficiary,
+      vestingSchedule: vestingPDA,
+    });
+  return { builder, vestingPDA };
+}
+
+/**
+ * Let the admin authority move a grant to a new wallet for its beneficiary,
+ * or stop it. Signed by the beneficiary; schedules start out not allowing it,
+ * and irrevocable ones can't be moved by the admin either way.
+ */
+export async function setAllowAdminTransfer(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey,
+  admin: PublicKey,
+  mint: PublicKey,
+  allowAdminTransfer: boolean,
+  scheduleId: BN | number = 0
+): Promise<string> {
+  const { builder, vestingPDA } = setAllowAdminTransferBuilder(
+    program,
+    beneficiary,
+    admin,
+    mint,
+    allowAdminTransfer,
+    scheduleId
+  );
+  const tx = await builder
+    .preInstructions(
+      await migrationInstructions(program, vestingPDA, beneficiary)
+    )
+    .rpc();
+
+  return tx;
+}
+
+/**
+ * Build the admin transfer opt-in change, and any migration it needs, without
+ * sending them, for signing elsewhere
+ */
+export async function setAllowAdminTransferInstructions(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey,
+  admin: PublicKey,
+  mint: PublicKey,
+  allowAdminTransfer: boolean,
+  scheduleId: BN | number = 0
+): Promise<TransactionInstruction[]> {
+  const { builder, vestingPDA } = setAllowAdminTransferBuilder(
+    program,
+    beneficiary,
+    admin,
+    mint,
+    allowAdminTransfer,
+    scheduleId
+  );
+  return [
+    ...(await migrationInstructions(program, vestingPDA, beneficiary)),
+    await builder.instruction(),
+  ];
+}
+
+/**
+ * Lamports the admin gets back by closing a schedule: the rent held by the
+ * schedule account and its vault
+ */
+export async function fetchReclaimableRent(
+  program: Program<TokenVesting>,
+  vestingPDA: PublicKey
+): Promise<number> {
+  const [vaultPDA] = getVaultPDA(vestingPDA, program.programId);
+  const accounts = await program.provider.connection.getMultipleAccountsInfo([
+    vestingPDA,
+    vaultPDA,
+  ]);
+  return accounts.reduce((sum, account) => sum + (account?.lamports ?? 0), 0);
+}
+
+/**
+ * Vested amount at a given time as the program computes it, by simulating
+ * preview_vested_amount. Fails like create would if the terms are invalid.
+ */
+export async function previewVestedAmount(
+  program: Program<TokenVesting>,
+  terms: VestingTerms,
+  at: number
+): Promise<BN> {
+  return program.methods
+    .previewVestedAmount(
+      terms.totalAmount,
+      terms.startTime,
+      terms.cliffDuration,
+      terms.vestingDuration,
+      terms.initialUnlockBps,
+      terms.curve,
+      new BN(at)
+    )
+    .view();
+}
+
+/**
+ * An account from an earlier program version in the current layout, as the
+ * migration leaves it. Missing fields are zero, which matches how those
+ * schedules vest (schedule id 0, no initial unlock, linear curve) and leaves
+ * cranking and admin transfers disallowed, both authorities are the admin,
+ * and any curve moves past them.
+ */
+function upgradeLayout(data: Buffer): Buffer {
+  const upgraded = Buffer.alloc(VESTING_SCHEDULE_SIZE);
+  // Only opt-ins are missing, in the zero padding after the curve
+  if (data.length >= PRE_CRANK_VESTING_SCHEDULE_SIZE) {
+    data.copy(upgraded);
+    return upgraded;
+  }
+
+  data.copy(upgraded, 0, 0, AUTHORITY_OFFSET);
+  const admin = data.subarray(ADMIN_OFFSET, ADMIN_OFFSET + 32);
+  admin.copy(upgraded, AUTHORITY_OFFSET);
+  upgraded[REVOKE_AUTHORITY_OFFSET] = 1;
+  admin.copy(upgraded, REVOKE_AUTHORITY_OFFSET + 1);
+  // Only accounts from after the curve was added have one to move
+  if (data.length > AUTHORITY_OFFSET) {
+    data.copy(upgraded, REVOKE_AUTHORITY_OFFSET + 33, AUTHORITY_OFFSET);
+  }
+  return upgraded;
+}
+
+/**
+ * Decode a vesting schedule account, including ones from earlier program
+ * versions that haven't been migrated yet
+ */
+export function decodeVestingSchedule(
+  program: Program<TokenVesting>,
+  data: Buffer
+): VestingSchedule {
+  return program.coder.accounts.decode<VestingSchedule>(
+    "vestingSchedule",
+    data.length < VESTING_SCHEDULE_SIZE ? upgradeLayout(data) : data
+  );
+}
+
+/**
+ * Fetch a specific vesting schedule
+ */
+export async function fetchVestingSchedule(
+  program: Program<TokenVesting>,
+  vestingPDA: PublicKey
+): Promise<VestingSchedule | null> {
+  try {
+    const account = await program.provider.connection.getAccountInfo(
+      vestingPDA
+    );
+    return account ? decodeVestingSchedule(program, account.data) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch every vesting schedule matching the filters, legacy or current
+ */
+async function fetchVestingSchedules(
+  program: Program<TokenVesting>,
+  filters: GetProgramAccountsFilter[]
+): Promise<VestingInfo[]> {
+  const currentTime = Math.floor(Date.now() / 1000);
+  const discriminator = program.coder.accounts.memcmp("vestingSchedule");
+
+  const accounts = await program.provider.connection.getProgramAccounts(
+    program.programId,
+    {
+      filters: [
+        {
+          memcmp: { offset: discriminator.offset, bytes: discriminator.bytes },
+        },
+        ...filters,
+      ],
+    }
+  );
+
+  return accounts.map(({ pubkey, account }) =>
+    toVestingInfo(
+      pubkey,
+      decodeVestingSchedule(program, account.data),
+      currentTime
+    )
+  );
+}
+
+/**
+ * Fetch all vesting schedules for a beneficiary
+ */
+export function fetchVestingSchedulesForBeneficiary(
+  program: Program<TokenVesting>,
+  beneficiary: PublicKey
+): Promise<VestingInfo[]> {
+  return fetchVestingSchedules(program, [
+    { memcmp: { offset: BENEFICIARY_OFFSET, bytes: beneficiary.toBase58() } },
+  ]);
+}
+
+/**
+ * Fetch all vesting schedules created by an admin
+ */
+export function fetchVestingSchedulesForAdmin(
+  program: Program<TokenVesting>,
+  admin: PublicKey
+): Promise<VestingInfo[]> {
+  return fetchVestingSchedules(program, [
+    { memcmp: { offset: ADMIN_OFFSET, bytes: admin.toBase58() } },
+  ]);
+}
+
+/**
+ * Schedules matching a memcmp on one of the authorities. Schedules not yet
+ * migrated don't have them at that offset but hold both in their admin, so
+ * those are found through the admin instead.
+ */
+async function fetchVestingSchedulesHeldBy(
+  program: Program<TokenVesting>,
+  holder: PublicKey,
+  filter: GetProgramAccountsFilter,
+  heldBy: (account: VestingSchedule) => PublicKey | null
+): Promise<VestingInfo[]> {
+  const [matched, funded] = await Promise.all([
+    fetchVestingSchedules(program, [filter]),
+    fetchVestingSchedulesForAdmin(program, holder),
+  ]);
+  const schedules = new Map(
+    matched.map((info) => [info.publicKey.toBase58(), info])
+  );
+  for (const info of funded) {
+    if (heldBy(info.account)?.equals(holder)) {
+      schedules.set(info.publicKey.toBase58(), info);
+    }
+  }
+  return [...schedules.values()];
+}
+
+/**
+ * Fetch all vesting schedules an admin authority manages, whoever funded them
+ */
+export function fetchVestingSchedulesForAuthority(
+  program: Program<TokenVesting>,
+  authority: PublicKey
+): Promise<VestingInfo[]> {
+  return fetchVestingSchedulesHeldBy(
+    program,
+    authority,
+    { memcmp: { offset: AUTHORITY_OFFSET, bytes: authority.toBase58() } },
+    (account) => account.authority
+  );
+}
+
+/**
+ * Fetch all vesting schedules a key can revoke
+ */
+export function fetchVestingSchedulesForRevokeAuthority(
+  program: Program<TokenVesting>,
+  revokeAuthority: PublicKey
+): Promise<VestingInfo[]> {
+  return fetchVestingSchedulesHeldBy(
+    program,
+    revokeAuthority,
+    {
+      memcmp: {
+        offset: REVOKE_AUTHORITY_OFFSET,
+        bytes: revokeAuthorityBytes(revokeAuthority),
+      },
+    },
+    (account) => account.revokeAuthority
+  );
+}
+
+/**
+ * memcmp bytes for a revoke authority: the Some tag, then the key
+ */
+export function revokeAuthorityBytes(revokeAuthority: PublicKey): string {
+  return utils.bytes.bs58.encode(
+    Buffer.concat([Buffer.from([1]), revokeAuthority.toBuffer()])
+  );
+}
+
+/**
+ * Every grant from an admin to a beneficiary in one mint, oldest id first
+ */
+export async function fetchVestingSchedulesForGrant(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey
+): Promise<VestingInfo[]> {
+  const schedules = await fetchVestingSchedules(program, [
+    { memcmp: { offset: ADMIN_OFFSET, bytes: admin.toBase58() } },
+    { memcmp: { offset: BENEFICIARY_OFFSET, bytes: beneficiary.toBase58() } },
+    { memcmp: { offset: MINT_OFFSET, bytes: mint.toBase58() } },
+  ]);
+  return schedules.sort((a, b) =>
+    a.account.scheduleId.cmp(b.account.scheduleId)
+  );
+}
+
+/**
+ * The first unused schedule id for another grant to the same beneficiary
+ */
+export async function findNextScheduleId(
+  program: Program<TokenVesting>,
+  admin: PublicKey,
+  beneficiary: PublicKey,
+  mint: PublicKey
+): Promise<BN> {
+  const existing = await fetchVestingSchedulesForGrant(
+    program,
+    admin,
+    beneficiary,
+    mint
+  );
+  const last = existing[existing.length - 1];
+  return last ? last.account.scheduleId.addn(1) : new BN(0);
+}
@@ -0,0 +1,270 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { describeRelease } from "./curve";
+import { VESTING_EVENT_LABELS, VestingEvent } from "./history";
+import {
+  VESTING_STATUS_LABELS,
+  calculateScheduledAmount,
+  formatTokenAmount,
+  getVestingStatus,
+} from "./math";
+import { MintInfo } from "./mint";
+import { VestingInfo } from "./types";
+
+/**
+ * A schedule flattened for accounting exports. Amounts are in whole tokens,
+ * using the mint's decimals, as strings so they keep every digit.
+ */
+export interface ScheduleRecord {
+  schedule: string;
+  admin: string;
+  beneficiary: string;
+  mint: string;
+  symbol: string;
+  decimals: number;
+  scheduleId: string;
+  status: string;
+  release: string;
+  startTime: string;
+  cliffEnd: string;
+  vestingEnd: string;
+  totalAmount: string;
+  vestedAmount: string;
+  claimedAmount: string;
+  claimableAmount: string;
+  revokedAmount: string;
+}
+
+// One event from a schedule's history, in the same units as ScheduleRecord
+export interface EventRecord {
+  schedule: string;
+  mint: string;
+  symbol: string;
+  event: string;
+  time: string;
+  signature: string;
+  slot: number;
+  // Granted on create, paid out on claim, returned to the admin on revoke
+  amount: string;
+}
+
+const SCHEDULE_COLUMNS: (keyof ScheduleRecord)[] = [
+  "schedule",
+  "admin",
+  "beneficiary",
+  "mint",
+  "symbol",
+  "decimals",
+  "scheduleId",
+  "status",
+  "release",
+  "startTime",
+  "cliffEnd",
+  "vestingEnd",
+  "totalAmount",
+  "vestedAmount",
+  "claimedAmount",
+  "claimableAmount",
+  "revokedAmount",
+];
+
+const EVENT_COLUMNS: (keyof EventRecord)[] = [
+  "schedule",
+  "mint",
+  "symbol",
+  "event",
+  "time",
+  "signature",
+  "slot",
+  "amount",
+];
+
+// Quote a CSV field if it contains a separator, quote or line break
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv<T>(records: T[], columns: (keyof T)[]): string {
+  const lines = records.map((record) =>
+    columns
+      .map((column) => csvField(record[column] as unknown as string | number))
+      .join(",")
+  );
+  return [columns.join(","), ...lines].join("\n") + "\n";
+}
+
+export function scheduleToRecord(
+  info: VestingInfo,
+  mintInfo: MintInfo,
+  currentTime: number = Math.floor(Date.now() / 1000)
+): ScheduleRecord {
+  const { account } = info;
+  const amount = (value: BN) => formatTokenAmount(value, mintInfo.decimals);
+
+  return {
+    schedule: info.publicKey.toBase58(),
+    admin: account.admin.toBase58(),
+    beneficiary: account.beneficiary.toBase58(),
+    mint: account.mint.toBase58(),
+    symbol: mintInfo.symbol ?? "",
+    decimals: mintInfo.decimals,
+    scheduleId: account.scheduleId.toString(),
+    status: VESTING_STATUS_LABELS[getVestingStatus(account, currentTime)],
+    release: describeRelease(account),
+    startTime: new Date(account.startTime.toNumber() * 1000).toISOString(),
+    cliffEnd: info.cliffEnd.toISOString(),
+    vestingEnd: info.vestingEnd.toISOString(),
+    totalAmount: amount(account.totalAmount),
+    vestedAmount: amount(info.vestedAmount),
+    claimedAmount: amount(account.claimedAmount),
+    claimableAmount: amount(info.claimableAmount),
+    revokedAmount: amount(account.revokedAmount),
+  };
+}
+
+export function schedulesToCsv(records: ScheduleRecord[]): string {
+  return toCsv(records, SCHEDULE_COLUMNS);
+}
+
+// Raw amount an event moved, if any
+function eventAmount(event: VestingEvent): BN | null {
+  switch (event.name) {
+    case "vestingCreated":
+      return event.data.totalAmount;
+    case "tokensClaimed":
+      return event.data.amount;
+    case "vestingRevoked":
+      return event.data.unvestedAmount;
+    case "vestingClosed":
+    case "authorityChanged":
+    case "allowCrankChanged":
+    case "allowAdminTransferChanged":
+      return null;
+    case "beneficiaryTransferred":
+      return event.data.remaining;
+  }
+}
+
+export function eventToRecord(
+  schedule: PublicKey,
+  event: VestingEvent,
+  mintInfo: MintInfo
+): EventRecord {
+  const amount = eventAmount(event);
+  return {
+    schedule: schedule.toBase58(),
+    mint: mintInfo.address.toBase58(),
+    symbol: mintInfo.symbol ?? "",
+    event: VESTING_EVENT_LABELS[event.name],
+    time: event.blockTime?.toISOString() ?? "",
+    signature: event.signature,
+    slot: event.slot,
+    amount: amount ? formatTokenAmount(amount, mintInfo.decimals) : "",
+  };
+}
+
+export function eventsToCsv(records: EventRecord[]): string {
+  return toCsv(records, EVENT_COLUMNS);
+}
+
+// A schedule and everything needed to state it as of a past date
+export interface StatementInput {
+  info: VestingInfo;
+  mintInfo: MintInfo;
+  // From fetchVestingHistory, in any order
+  events: VestingEvent[];
+}
+
+export interface StatementLine {
+  schedule: PublicKey;
+  admin: PublicKey;
+  mintInfo: MintInfo;
+  scheduleId: BN;
+  totalAmount: BN;
+  vestedAmount: BN;
+  claimedAmount: BN;
+  // Vested but not claimed
+  unclaimedAmount: BN;
+  revokedAmount: BN;
+  claims: { time: Date; amount: BN; signature: string }[];
+}
+
+export interface VestingStatement {
+  beneficiary: PublicKey;
+  asOf: Date;
+  lines: StatementLine[];
+}
+
+/**
+ * A beneficiary's position in each of their schedules at `asOf`, rebuilt from
+ * the schedules' histories: claims and a revoke only count once their block
+ * time has passed, and schedules created later are left out. Events without
+ * a block time can't be placed and are ignored.
+ */
+export function buildVestingStatement(
+  beneficiary: PublicKey,
+  inputs: StatementInput[],
+  asOf: Date
+): VestingStatement {
+  const asOfSeconds = Math.floor(asOf.getTime() / 1000);
+  const lines: StatementLine[] = [];
+
+  for (const { info, mintInfo, events } of inputs) {
+    const { account } = info;
+    if (!account.beneficiary.equals(beneficiary)) continue;
+
+    const past = events.flatMap((event) =>
+      event.blockTime && event.blockTime <= asOf
+        ? [{ event, time: event.blockTime }]
+        : []
+    );
+    past.sort((a, b) => a.time.getTime() - b.time.getTime());
+    // A schedule moved to this beneficiary starts with the transfer
+    const isStart = (event: VestingEvent) =>
+      event.name === "vestingCreated" ||
+      (event.name === "beneficiaryTransferred" &&
+        event.data.newBeneficiary.equals(beneficiary));
+    const created = events.some(isStart);
+    if (created && !past.some(({ event }) => isStart(event))) {
+      continue;
+    }
+
+    const claims: StatementLine["claims"] = [];
+    let revokedAmount: BN | null = null;
+    for (const { event, time } of past) {
+      if (event.name === "tokensClaimed") {
+        claims.push({
+          time,
+          amount: event.data.amount,
+          signature: event.signature,
+        });
+      } else if (event.name === "vestingRevoked") {
+        revokedAmount = event.data.unvestedAmount;
+      }
+    }
+
+    const claimedAmount = claims.reduce(
+      (sum, claim) => sum.add(claim.amount),
+      new BN(0)
+    );
+    const vestedAmount = revokedAmount
+      ? account.totalAmount.sub(revokedAmount)
+      : calculateScheduledAmount(account, asOfSeconds);
+
+    lines.push({
+      schedule: info.publicKey,
+      admin: account.admin,
+      mintInfo,
+      scheduleId: account.scheduleId,
+      totalAmount: account.totalAmount,
+      vestedAmount,
+      claimedAmount,
+      unclaimedAmount: vestedAmount.sub(claimedAmount),
+      revokedAmount: revokedAmount ?? new BN(0),
+      claims,
+    });
+  }
+
+  return { beneficiary, asOf, lines };
+}
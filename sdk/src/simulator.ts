@@ -0,0 +1,158 @@
+import { BN } from "@coral-xyz/anchor";
+import {
+  calculateClaimableAmount,
+  calculateVestedAmount,
+  formatTokenAmount,
+  getMonthlyDates,
+} from "./math";
+import { VestingProgress, VestingTerms } from "./types";
+import { assertValidVestingParams } from "./validation";
+
+export interface SimulationParams extends VestingTerms {
+  // Unix seconds the admin revokes at, if they do
+  revokeAt?: number;
+  // Unix seconds the beneficiary claims at
+  claimAt?: number[];
+}
+
+export type SimulationRowKind = "schedule" | "claim" | "revoke";
+
+// Why a simulated claim or revoke would fail, as the program's error name
+export type SimulationFailure =
+  | "CliffNotReached"
+  | "NothingToClaim"
+  | "VestingRevoked"
+  | "VestingCompleted";
+
+export interface SimulationRow {
+  time: number;
+  kind: SimulationRowKind;
+  // Totals after this row's action
+  vested: BN;
+  claimed: BN;
+  // Vested but still in the vault
+  claimable: BN;
+  returnedToAdmin: BN;
+  // What this row's claim paid out or revoke returned
+  amount?: BN;
+  failure?: SimulationFailure;
+}
+
+export interface SimulationResult {
+  rows: SimulationRow[];
+  // The schedule's state at the end, in the same shape as an account
+  schedule: VestingProgress;
+}
+
+/**
+ * Play out a hypothetical schedule without touching a cluster.
+ *
+ * Claims and the revoke are applied in time order the way claim.rs and
+ * revoke.rs apply them, using the same calculateVestedAmount as everywhere
+ * else, so a claim that would fail on-chain records the error instead. Rows
+ * are added at the start, each month and the end to show the curve between
+ * actions. The start time may be in the past.
+ */
+export function simulateVesting(params: SimulationParams): SimulationResult {
+  const { revokeAt, claimAt = [], ...terms } = params;
+  const startTime = terms.startTime.toNumber();
+  assertValidVestingParams(terms, startTime - 1);
+
+  const cliffEnd = startTime + terms.cliffDuration.toNumber();
+  const vestingEnd = startTime + terms.vestingDuration.toNumber();
+  const schedule = {
+    ...terms,
+    claimedAmount: new BN(0),
+    isRevoked: false,
+    revokedAmount: new BN(0),
+  };
+
+  const actions: { time: number; kind: SimulationRowKind }[] = [
+    ...getMonthlyDates(terms).map((date) => ({
+      time: Math.floor(date.getTime() / 1000),
+      kind: "schedule" as const,
+    })),
+    ...claimAt.map((time) => ({ time, kind: "claim" as const })),
+    ...(revokeAt === undefined
+      ? []
+      : [{ time: revokeAt, kind: "revoke" as const }]),
+  ];
+  // Stable, so actions at the same time keep this order
+  actions.sort((a, b) => a.time - b.time);
+
+  const rows = actions.map(({ time, kind }): SimulationRow => {
+    let amount: BN | undefined;
+    let failure: SimulationFailure | undefined;
+
+    if (kind === "claim") {
+      const claimable = calculateClaimableAmount(schedule, time);
+      if (claimable.isZero()) {
+        failure =
+          !schedule.isRevoked && time < cliffEnd
+            ? "CliffNotReached"
+            : "NothingToClaim";
+      } else {
+        amount = claimable;
+        schedule.claimedAmount = schedule.claimedAmount.add(claimable);
+      }
+    } else if (kind === "revoke") {
+      if (schedule.isRevoked) {
+        failure = "VestingRevoked";
+      } else if (time >= vestingEnd) {
+        failure = "VestingCompleted";
+      } else {
+        amount = terms.totalAmount.sub(calculateVestedAmount(schedule, time));
+        schedule.isRevoked = true;
+        schedule.revokedAmount = amount;
+      }
+    }
+
+    return {
+      time,
+      kind,
+      vested: calculateVestedAmount(schedule, time),
+      claimed: schedule.claimedAmount,
+      claimable: calculateClaimableAmount(schedule, time),
+      returnedToAdmin: schedule.revokedAmount,
+      amount,
+      failure,
+    };
+  });
+
+  return { rows, schedule };
+}
+
+const CSV_HEADER = [
+  "date",
+  "event",
+  "vested",
+  "claimed",
+  "claimable",
+  "returned_to_admin",
+  "amount",
+  "failure",
+];
+
+/**
+ * Simulation rows as CSV, with amounts in whole tokens
+ */
+export function simulationToCsv(
+  result: SimulationResult,
+  decimals: number
+): string {
+  const amount = (value?: BN) =>
+    value ? formatTokenAmount(value, decimals) : "";
+  const lines = result.rows.map((row) =>
+    [
+      new Date(row.time * 1000).toISOString(),
+      row.kind,
+      amount(row.vested),
+      amount(row.claimed),
+      amount(row.claimable),
+      amount(row.returnedToAdmin),
+      amount(row.amount),
+      row.failure ?? "",
+    ].join(",")
+  );
+  return [CSV_HEADER.join(","), ...lines].join("\n") + "\n";
+}
@@ -0,0 +1,130 @@
+import { EventParser, Program } from "@coral-xyz/anchor";
+import { GetProgramAccountsFilter, PublicKey } from "@solana/web3.js";
+import { TokenVesting } from "./idl/token_vesting";
+import {
+  ADMIN_OFFSET,
+  AUTHORITY_OFFSET,
+  BENEFICIARY_OFFSET,
+  REVOKE_AUTHORITY_OFFSET,
+} from "./constants";
+import { DecodedVestingEvent } from "./history";
+import { toVestingInfo } from "./math";
+import { getVestingPDA } from "./pda";
+import { decodeVestingSchedule, revokeAuthorityBytes } from "./program";
+import { VestingInfo } from "./types";
+
+// Whose schedules to watch: those an admin created, those paying a
+// beneficiary, or those a key holds the admin or revoke authority over
+export type VestingScheduleFilter =
+  | { admin: PublicKey }
+  | { beneficiary: PublicKey }
+  | { authority: PublicKey }
+  | { revokeAuthority: PublicKey };
+
+export interface VestingSubscriptionHandlers {
+  // A schedule was created or its account changed
+  onSchedule: (info: VestingInfo) => void;
+  // A schedule was closed; its account no longer exists
+  onClosed: (vestingPDA: PublicKey) => void;
+}
+
+// The memcmp picking out a filter's schedules, as the fetchers use
+function memcmpFilter(filter: VestingScheduleFilter): GetProgramAccountsFilter {
+  const [offset, bytes] =
+    "admin" in filter
+      ? [ADMIN_OFFSET, filter.admin.toBase58()]
+      : "beneficiary" in filter
+      ? [BENEFICIARY_OFFSET, filter.beneficiary.toBase58()]
+      : "authority" in filter
+      ? [AUTHORITY_OFFSET, filter.authority.toBase58()]
+      : [REVOKE_AUTHORITY_OFFSET, revokeAuthorityBytes(filter.revokeAuthority)];
+  return { memcmp: { offset, bytes } };
+}
+
+/**
+ * Watch the schedules matching a filter over the RPC websocket.
+ *
+ * Account changes arrive through a program account subscription with the same
+ * memcmp filters the fetchers use. A closed account no longer matches those
+ * filters, so closes are picked up from the program's VestingClosed events
+ * instead, as are schedules closed by moving them to a new beneficiary.
+ * Schedules not yet migrated hold their authorities in the admin, so only an
+ * admin filter sees those. Returns a function that removes both subscriptions.
+ */
+export function subscribeToVestingSchedules(
+  program: Program<TokenVesting>,
+  filter: VestingScheduleFilter,
+  handlers: VestingSubscriptionHandlers
+): () => Promise<void> {
+  const { connection } = program.provider;
+  const discriminator = program.coder.accounts.memcmp("vestingSchedule");
+  const filters: GetProgramAccountsFilter[] = [
+    { memcmp: { offset: discriminator.offset, bytes: discriminator.bytes } },
+    memcmpFilter(filter),
+  ];
+
+  const accountSubscription = connection.onProgramAccountChange(
+    program.programId,
+    ({ accountId, accountInfo }) => {
+      handlers.onSchedule(
+        toVestingInfo(
+          accountId,
+          decodeVestingSchedule(program, accountInfo.data)
+        )
+      );
+    },
+    { commitment: "confirmed", filters }
+  );
+
+  const parser = new EventParser(program.programId, program.coder);
+  const logsSubscription = connection.onLogs(
+    program.programId,
+    ({ err, logs }) => {
+      if (err) return;
+      for (const event of parser.parseLogs(logs)) {
+        const decoded = event as DecodedVestingEvent;
+        // The schedule account this event closed, if any
+        const closed =
+          decoded.name === "vestingClosed"
+            ? decoded.data
+            : decoded.name === "beneficiaryTransferred"
+            ? {
+                admin: decoded.data.admin,
+                beneficiary: decoded.data.oldBeneficiary,
+                mint: decoded.data.mint,
+                scheduleId: decoded.data.oldScheduleId,
+              }
+            : null;
+        if (!closed) continue;
+        const { admin, beneficiary, mint, scheduleId } = closed;
+
+        // Close events don't name the authorities, so authority watchers
+        // hear of every close
+        const watched =
+          "admin" in filter
+            ? admin.equals(filter.admin)
+            : "beneficiary" in filter
+            ? beneficiary.equals(filter.beneficiary)
+            : true;
+        if (watched) {
+          const [vestingPDA] = getVestingPDA(
+            admin,
+            beneficiary,
+            mint,
+            scheduleId,
+            program.programId
+          );
+          handlers.onClosed(vestingPDA);
+        }
+      }
+    },
+    "confirmed"
+  );
+
+  return async () => {
+    await Promise.all([
+      connection.removeProgramAccountChangeListener(accountSubscription),
+      connection.removeOnLogsListener(logsSubscription),
+    ]);
+  };
+}
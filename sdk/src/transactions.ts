@@ -0,0 +1,154 @@
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { translateVestingError } from "./errors";
+
+// Maximum serialized size of a legacy transaction (packet data size)
+export const MAX_TRANSACTION_SIZE = 1232;
+
+// Wallet-adapter compatible batch signer
+export type SignAllTransactions = (
+  transactions: Transaction[]
+) => Promise<Transaction[]>;
+
+export interface PackedTransaction {
+  transaction: Transaction;
+  // Indices of the instruction groups packed into this transaction
+  groups: number[];
+}
+
+export interface TransactionResult {
+  signature?: string;
+  error?: string;
+}
+
+// Transactions signed per wallet prompt. A blockhash only lasts about a
+// minute, so each chunk gets a fresh one once the previous chunk has landed.
+export const TRANSACTIONS_PER_PROMPT = 20;
+
+// Any valid base58 hash works for measuring; the real one is set before signing
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+function transactionSize(transaction: Transaction): number {
+  const message = transaction.compileMessage();
+  const signatures = message.header.numRequiredSignatures;
+  // Compact-u16 signature count (one byte below 128) plus 64 bytes each
+  return 1 + signatures * 64 + message.serialize().length;
+}
+
+/**
+ * Greedily pack instruction groups into as few transactions as fit.
+ *
+ * Each group's instructions always land in the same transaction. A group that
+ * does not fit on its own still gets a transaction, which will fail to send.
+ */
+export function packInstructions(
+  groups: TransactionInstruction[][],
+  feePayer: PublicKey,
+  maxGroupsPerTransaction: number = Number.POSITIVE_INFINITY
+): PackedTransaction[] {
+  const packed: PackedTransaction[] = [];
+  let current: PackedTransaction | null = null;
+
+  const newTransaction = () => {
+    const transaction = new Transaction();
+    transaction.feePayer = feePayer;
+    transaction.recentBlockhash = PLACEHOLDER_BLOCKHASH;
+    return transaction;
+  };
+
+  groups.forEach((instructions, index) => {
+    if (current && current.groups.length < maxGroupsPerTransaction) {
+      const candidate = newTransaction().add(
+        ...current.transaction.instructions,
+        ...instructions
+      );
+      if (transactionSize(candidate) <= MAX_TRANSACTION_SIZE) {
+        current.transaction = candidate;
+        current.groups.push(index);
+        return;
+      }
+    }
+
+    current = {
+      transaction: newTransaction().add(...instructions),
+      groups: [index],
+    };
+    packed.push(current);
+  });
+
+  return packed;
+}
+
+/**
+ * Sign a batch of transactions with one wallet prompt per chunk, then send and
+ * confirm them in order. Each chunk is signed with a blockhash fetched just
+ * before its prompt, so a long batch can't outlive it. Failures are reported
+ * per transaction instead of thrown, except when the first prompt fails,
+ * before anything was sent.
+ */
+export async function signAndSendTransactions(
+  connection: Connection,
+  transactions: Transaction[],
+  signAllTransactions: SignAllTransactions,
+  onResult?: (index: number, result: TransactionResult) => void,
+  transactionsPerPrompt: number = TRANSACTIONS_PER_PROMPT
+): Promise<TransactionResult[]> {
+  const results: TransactionResult[] = [];
+  const report = (result: TransactionResult) => {
+    results.push(result);
+    onResult?.(results.length - 1, result);
+  };
+
+  while (results.length < transactions.length) {
+    const chunk = transactions.slice(
+      results.length,
+      results.length + transactionsPerPrompt
+    );
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash("confirmed");
+    chunk.forEach((transaction) => {
+      transaction.recentBlockhash = blockhash;
+    });
+
+    let signed: Transaction[];
+    try {
+      signed = await signAllTransactions(chunk);
+    } catch (error) {
+      if (results.length === 0) throw error;
+      // Earlier chunks have landed; fail the rest rather than lose them
+      const message = translateVestingError(error).message;
+      while (results.length < transactions.length) {
+        report({ error: message });
+      }
+      break;
+    }
+
+    for (const transaction of signed) {
+      try {
+        const signature = await connection.sendRawTransaction(
+          transaction.serialize()
+        );
+        const confirmation = await connection.confirmTransaction(
+          { signature, blockhash, lastValidBlockHeight },
+          "confirmed"
+        );
+        report(
+          confirmation.value.err
+            ? {
+                signature,
+                error: translateVestingError(confirmation.value.err).message,
+              }
+            : { signature }
+        );
+      } catch (error) {
+        report({ error: translateVestingError(error).message });
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,83 @@
+import { BN } from "@coral-xyz/anchor";
+import { calculateVestedAmount } from "./math";
+import { VestingSchedule } from "./types";
+
+// Windows, in days, that upcoming unlocks are totalled over
+export const UNLOCK_HORIZONS = [30, 90, 365] as const;
+export type UnlockHorizon = (typeof UNLOCK_HORIZONS)[number];
+
+/**
+ * Where the tokens of every schedule for one mint are. `locked` is what the
+ * vaults still hold, made up of `vestedUnclaimed` and the unvested rest.
+ */
+export interface TreasuryTotals {
+  mint: string;
+  scheduleCount: number;
+  totalGranted: BN;
+  locked: BN;
+  vestedUnclaimed: BN;
+  claimed: BN;
+  // Returned to the admin by revokes
+  revoked: BN;
+  // Amount that will vest within each horizon from now
+  upcoming: Record<UnlockHorizon, BN>;
+}
+
+function emptyTotals(mint: string): TreasuryTotals {
+  return {
+    mint,
+    scheduleCount: 0,
+    totalGranted: new BN(0),
+    locked: new BN(0),
+    vestedUnclaimed: new BN(0),
+    claimed: new BN(0),
+    revoked: new BN(0),
+    upcoming: {
+      30: new BN(0),
+      90: new BN(0),
+      365: new BN(0),
+    },
+  };
+}
+
+/**
+ * Aggregate totals per mint, e.g. over fetchVestingSchedulesForAdmin, sorted
+ * by the amount locked. Revoked schedules count toward what was claimed and
+ * returned but never unlock anything more.
+ */
+export function summarizeTreasury(
+  schedules: VestingSchedule[],
+  currentTime: number = Math.floor(Date.now() / 1000)
+): TreasuryTotals[] {
+  const byMint = new Map<string, TreasuryTotals>();
+
+  for (const schedule of schedules) {
+    const mint = schedule.mint.toBase58();
+    const totals = byMint.get(mint) ?? emptyTotals(mint);
+    byMint.set(mint, totals);
+
+    const vested = calculateVestedAmount(schedule, currentTime);
+    totals.scheduleCount += 1;
+    totals.totalGranted = totals.totalGranted.add(schedule.totalAmount);
+    totals.locked = totals.locked.add(
+      schedule.totalAmount
+        .sub(schedule.claimedAmount)
+        .sub(schedule.revokedAmount)
+    );
+    totals.vestedUnclaimed = totals.vestedUnclaimed.add(
+      vested.sub(schedule.claimedAmount)
+    );
+    totals.claimed = totals.claimed.add(schedule.claimedAmount);
+    totals.revoked = totals.revoked.add(schedule.revokedAmount);
+
+    for (const days of UNLOCK_HORIZONS) {
+      const later = calculateVestedAmount(
+        schedule,
+        currentTime + days * 86_400
+      );
+      totals.upcoming[days] = totals.upcoming[days].add(later.sub(vested));
+    }
+  }
+
+  return [...byMint.values()].sort((a, b) => b.locked.cmp(a.locked));
+}
@@ -0,0 +1,58 @@
+import { BN, IdlAccounts, IdlTypes } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { TokenVesting } from "./idl/token_vesting";
+
+// Decoded on-chain account, typed from the generated IDL
+export type VestingSchedule = IdlAccounts<TokenVesting>["vestingSchedule"];
+
+export type VestingCurve = IdlTypes<TokenVesting>["vestingCurve"];
+export type Milestone = IdlTypes<TokenVesting>["milestone"];
+export type AuthorityType = IdlTypes<TokenVesting>["authorityType"];
+
+/**
+ * How a grant is released: a share unlocked at the start time (in basis
+ * points), then the rest along the curve from the cliff to the end
+ */
+export interface VestingRelease {
+  initialUnlockBps: number;
+  curve: VestingCurve;
+}
+
+// The schedule fields that determine how much has vested at a given time
+export type VestingTerms = Pick<
+  VestingSchedule,
+  | "totalAmount"
+  | "startTime"
+  | "cliffDuration"
+  | "vestingDuration"
+  | "initialUnlockBps"
+  | "curve"
+>;
+
+// Terms plus whatever is known of a schedule's progress; a full
+// VestingSchedule qualifies, and so do terms not yet created on-chain
+export type VestingProgress = VestingTerms &
+  Partial<
+    Pick<VestingSchedule, "claimedAmount" | "isRevoked" | "revokedAmount">
+  >;
+
+// One row of a schedule's projected unlocks
+export interface ProjectionRow {
+  date: Date;
+  // Cumulative amount vested by `date`
+  vested: BN;
+  // Amount that vested since the previous row
+  unlocked: BN;
+  // Vested but not yet claimed by `date`, assuming no further claims
+  claimable: BN;
+}
+
+export interface VestingInfo {
+  publicKey: PublicKey;
+  account: VestingSchedule;
+  vestedAmount: BN;
+  claimableAmount: BN;
+  cliffEnd: Date;
+  vestingEnd: Date;
+  percentVested: number;
+}
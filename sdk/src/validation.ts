@@ -0,0 +1,285 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import {
+  BPS_DENOMINATOR,
+  MAX_CLIFF_PERCENTAGE,
+  MAX_MILESTONES,
+  MAX_VESTING_DURATION,
+  MIN_VESTING_DURATION,
+} from "./constants";
+import { VestingCurve } from "./types";
+
+const U64_MAX = new BN("18446744073709551615");
+
+export type VestingField =
+  | "beneficiary"
+  | "mint"
+  | "totalAmount"
+  | "startTime"
+  | "cliffDuration"
+  | "vestingDuration"
+  | "initialUnlockBps"
+  | "curve"
+  // Durable nonce an exported transaction is built on
+  | "nonceAccount";
+
+/**
+ * VestingError variants raised by create_vesting_schedule, plus the
+ * client-only InvalidAddress for keys that are not valid public keys
+ */
+export type ValidationErrorCode =
+  | "InvalidAmount"
+  | "DurationTooShort"
+  | "DurationTooLong"
+  | "CliffTooLong"
+  | "CliffPercentageTooHigh"
+  | "CalculationOverflow"
+  | "StartTimeInPast"
+  | "InvalidUnlockPercentage"
+  | "InvalidPeriod"
+  | "InvalidMilestones"
+  | "InvalidAddress";
+
+export interface ValidationError {
+  field: VestingField;
+  code: ValidationErrorCode;
+  message: string;
+}
+
+export interface VestingParams {
+  totalAmount: BN;
+  startTime: BN | number;
+  cliffDuration: BN | number;
+  vestingDuration: BN | number;
+  // Linear with no initial unlock when omitted
+  initialUnlockBps?: number;
+  curve?: VestingCurve;
+}
+
+export class VestingValidationError extends Error {
+  constructor(readonly errors: ValidationError[]) {
+    super(errors.map((error) => error.message).join("; "));
+    this.name = "VestingValidationError";
+  }
+
+  // First error per field, for inline form messages
+  get fieldErrors(): Partial<Record<VestingField, ValidationError>> {
+    return toFieldErrors(this.errors);
+  }
+}
+
+const toNumber = (value: BN | number) =>
+  typeof value === "number" ? value : value.toNumber();
+
+/**
+ * Check schedule parameters against every rule create_vesting_schedule
+ * enforces. Errors are returned in the order the program checks them, so the
+ * first entry is the error the transaction would fail with.
+ */
+export function validateVestingParams(
+  params: VestingParams,
+  currentTime: number = Math.floor(Date.now() / 1000)
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const startTime = toNumber(params.startTime);
+  const cliffDuration = toNumber(params.cliffDuration);
+  const vestingDuration = toNumber(params.vestingDuration);
+
+  if (params.totalAmount.lten(0) || params.totalAmount.gt(U64_MAX)) {
+    errors.push({
+      field: "totalAmount",
+      code: "InvalidAmount",
+      message: "Vesting amount must be greater than zero",
+    });
+  }
+
+  if (vestingDuration < MIN_VESTING_DURATION) {
+    errors.push({
+      field: "vestingDuration",
+      code: "DurationTooShort",
+      message: "Vesting duration must be at least 1 day",
+    });
+  } else if (vestingDuration > MAX_VESTING_DURATION) {
+    errors.push({
+      field: "vestingDuration",
+      code: "DurationTooLong",
+      message: "Vesting duration cannot exceed 10 years",
+    });
+  }
+
+  if (cliffDuration > vestingDuration) {
+    errors.push({
+      field: "cliffDuration",
+      code: "CliffTooLong",
+      message: "Cliff duration cannot exceed vesting duration",
+    });
+  } else if (cliffDuration < 0) {
+    // The program casts the cliff to u64, so a negative value overflows
+    errors.push({
+      field: "cliffDuration",
+      code: "CalculationOverflow",
+      message: "Cliff duration cannot be negative",
+    });
+  } else if (
+    vestingDuration > 0 &&
+    Math.floor((cliffDuration * 100) / vestingDuration) > MAX_CLIFF_PERCENTAGE
+  ) {
+    errors.push({
+      field: "cliffDuration",
+      code: "CliffPercentageTooHigh",
+      message: `Cliff cannot exceed ${MAX_CLIFF_PERCENTAGE}% of vesting duration`,
+    });
+  }
+
+  const initialUnlockBps = params.initialUnlockBps ?? 0;
+  if (
+    !Number.isInteger(initialUnlockBps) ||
+    initialUnlockBps < 0 ||
+    initialUnlockBps > BPS_DENOMINATOR
+  ) {
+    errors.push({
+      field: "initialUnlockBps",
+      code: "InvalidUnlockPercentage",
+      message: "Initial unlock must be between 0% and 100%",
+    });
+  }
+
+  const curveError =
+    params.curve && validateCurve(params.curve, vestingDuration);
+  if (curveError) {
+    errors.push(curveError);
+  }
+
+  if (startTime <= currentTime) {
+    errors.push({
+      field: "startTime",
+      code: "StartTimeInPast",
+      message: "Vesting start time must be in the future",
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Check a release curve the way VestingCurve::validate in state.rs does
+ */
+export function validateCurve(
+  curve: VestingCurve,
+  vestingDuration: number
+): ValidationError | null {
+  if (curve.periodic) {
+    const period = curve.periodic.period.toNumber();
+    if (period <= 0 || period > vestingDuration) {
+      return {
+        field: "curve",
+        code: "InvalidPeriod",
+        message:
+          "Vesting period must be positive and within the vesting duration",
+      };
+    }
+  }
+
+  if (curve.milestones) {
+    const { milestones } = curve.milestones;
+    const invalid = (message: string): ValidationError => ({
+      field: "curve",
+      code: "InvalidMilestones",
+      message,
+    });
+
+    if (milestones.length === 0 || milestones.length > MAX_MILESTONES) {
+      return invalid(`Add between 1 and ${MAX_MILESTONES} milestones`);
+    }
+
+    let previousOffset = 0;
+    let totalBps = 0;
+    for (const milestone of milestones) {
+      const offset = milestone.offset.toNumber();
+      if (offset <= previousOffset) {
+        return invalid("Milestones must be in order, after the start time");
+      }
+      if (offset > vestingDuration) {
+        return invalid("Milestones must fall within the vesting duration");
+      }
+      if (milestone.bps <= 0) {
+        return invalid("Every milestone must release some tokens");
+      }
+      previousOffset = offset;
+      totalBps += milestone.bps;
+    }
+    if (totalBps !== BPS_DENOMINATOR) {
+      return invalid("Milestones must add up to 100%");
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a base58 address field
+ */
+export function validateAddress(
+  value: string,
+  field: VestingField
+): ValidationError | null {
+  try {
+    new PublicKey(value);
+    return null;
+  } catch {
+    return {
+      field,
+      code: "InvalidAddress",
+      message: "Invalid Solana address",
+    };
+  }
+}
+
+/**
+ * Validate a decimal token amount before parseTokenAmount, which would
+ * otherwise drop the digits past the mint's decimals
+ */
+export function validateTokenAmount(
+  value: string,
+  decimals: number
+): ValidationError | null {
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    return {
+      field: "totalAmount",
+      code: "InvalidAmount",
+      message: "Amount must be a positive number",
+    };
+  }
+  const [, fractionalPart = ""] = value.split(".");
+  if (fractionalPart.length > decimals) {
+    return {
+      field: "totalAmount",
+      code: "InvalidAmount",
+      message: `This token supports at most ${decimals} decimal places`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Throw a VestingValidationError if any rule fails
+ */
+export function assertValidVestingParams(
+  params: VestingParams,
+  currentTime?: number
+): void {
+  const errors = validateVestingParams(params, currentTime);
+  if (errors.length > 0) {
+    throw new VestingValidationError(errors);
+  }
+}
+
+export function toFieldErrors(
+  errors: ValidationError[]
+): Partial<Record<VestingField, ValidationError>> {
+  const byField: Partial<Record<VestingField, ValidationError>> = {};
+  for (const error of errors) {
+    byField[error.field] ??= error;
+  }
+  return byField;
+}
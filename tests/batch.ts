@@ -0,0 +1,241 @@
+import { BN } from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  Allocation,
+  LINEAR_RELEASE,
+  PROGRAM_ID,
+  VestingSchedule,
+  getVestingPDA,
+  parseAllocationFile,
+  validateAllocations,
+} from "../sdk/src";
+
+const admin = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey;
+const alice = Keypair.generate().publicKey.toBase58();
+const bob = Keypair.generate().publicKey.toBase58();
+const now = 1_700_000_000;
+
+function allocation(overrides: Partial<Allocation> = {}): Allocation {
+  return {
+    beneficiary: alice,
+    amount: "1000",
+    start: String(now + 3_600),
+    cliffDays: 30,
+    vestingDays: 365,
+    scheduleId: 0,
+    ...overrides,
+  };
+}
+
+// The schedule allocation() creates, as an earlier run left it
+function createdSchedule(
+  overrides: Partial<VestingSchedule> = {}
+): VestingSchedule {
+  return {
+    admin,
+    beneficiary: new PublicKey(alice),
+    mint,
+    totalAmount: new BN(1_000_000_000),
+    claimedAmount: new BN(0),
+    startTime: new BN(now + 3_600),
+    cliffDuration: new BN(30 * 86_400),
+    vestingDuration: new BN(365 * 86_400),
+    isRevoked: false,
+    revokedAmount: new BN(0),
+    bump: 255,
+    vaultBump: 255,
+    scheduleId: new BN(0),
+    authority: admin,
+    revokeAuthority: admin,
+    allowCrank: false,
+    allowAdminTransfer: false,
+    ...LINEAR_RELEASE,
+    ...overrides,
+  };
+}
+
+describe("allocation files", () => {
+  it("parses CSV with column aliases, comments and blank lines", () => {
+    const csv = [
+      "# Seed round",
+      "Beneficiary,Amount,Start,cliff_days,VestingDays,schedule_id",
+      `${alice},1000.5,1700003600,30,365,0`,
+      "",
+      `${bob},250,2030-01-01T00:00:00Z,0,90,2`,
+    ].join("\r\n");
+
+    expect(parseAllocationFile(csv)).to.deep.equal([
+      {
+        beneficiary: alice,
+        amount: "1000.5",
+        start: "1700003600",
+        cliffDays: 30,
+        vestingDays: 365,
+        scheduleId: 0,
+      },
+      {
+        beneficiary: bob,
+        amount: "250",
+        start: "2030-01-01T00:00:00Z",
+        cliffDays: 0,
+        vestingDays: 90,
+        scheduleId: 2,
+      },
+    ]);
+  });
+
+  it("keeps commas and quotes inside quoted CSV fields", () => {
+    const csv = [
+      "beneficiary,amount,start,vesting_days",
+      `"${alice}","1000","Jan 1, 2030",365`,
+      `${bob},"2""50",1700003600,90`,
+    ].join("\n");
+
+    const [first, second] = parseAllocationFile(csv, "csv");
+    expect(first.start).to.equal("Jan 1, 2030");
+    expect(first.vestingDays).to.equal(365);
+    expect(second.amount).to.equal('2"50');
+  });
+
+  it("rejects malformed CSV", () => {
+    expect(() =>
+      parseAllocationFile(`beneficiary,amount,start\n${alice},1,2`)
+    ).to.throw('missing the "vestingDays" column');
+    expect(() =>
+      parseAllocationFile(
+        `beneficiary,amount,start,vesting_days\n${alice},1,"Jan 1, 2030,365`
+      )
+    ).to.throw("unterminated quoted field on line 2");
+    expect(() =>
+      parseAllocationFile(
+        `beneficiary,amount,start,vesting_days\n${alice},1"0,2030,365`
+      )
+    ).to.throw("quote inside an unquoted field on line 2");
+  });
+
+  it("parses a JSON array", () => {
+    const json = JSON.stringify([
+      { beneficiary: alice, amount: 1000, start: now, vesting_days: 365 },
+    ]);
+
+    expect(parseAllocationFile(json)).to.deep.equal([
+      {
+        beneficiary: alice,
+        amount: "1000",
+        start: String(now),
+        cliffDays: 0,
+        vestingDays: 365,
+        scheduleId: 0,
+      },
+    ]);
+    expect(() => parseAllocationFile('{"rows": []}', "json")).to.throw(
+      "must contain an array"
+    );
+  });
+});
+
+describe("allocation validation", () => {
+  const validate = (allocations: Allocation[]) =>
+    validateAllocations(allocations, admin, mint, 6, now);
+
+  it("leaves valid rows pending with the schedule they'd create", () => {
+    const [result] = validate([allocation({ scheduleId: 4 })]);
+
+    const [pda] = getVestingPDA(admin, new PublicKey(alice), mint, 4);
+    expect(result).to.deep.equal({
+      row: 0,
+      beneficiary: alice,
+      status: "pending",
+      schedule: pda.toBase58(),
+      errors: [],
+    });
+  });
+
+  it("reports everything wrong with a row", () => {
+    const [bad, past] = validate([
+      allocation({ beneficiary: "not-an-address", amount: "-5" }),
+      allocation({ start: String(now - 60), cliffDays: 300 }),
+    ]);
+
+    expect(bad.status).to.equal("invalid");
+    expect(bad.errors).to.deep.equal([
+      "Invalid Solana address",
+      "Amount must be a positive number",
+    ]);
+    expect(past.status).to.equal("invalid");
+    expect(past.errors).to.include("Vesting start time must be in the future");
+    expect(past.errors).to.include(
+      "Cliff cannot exceed 50% of vesting duration"
+    );
+  });
+
+  it("rejects amounts finer than the mint allows", () => {
+    const [exact, tooPrecise] = validate([
+      allocation({ amount: "0.000001" }),
+      allocation({ amount: "1.0000001", scheduleId: 1 }),
+    ]);
+
+    expect(exact.status).to.equal("pending");
+    expect(tooPrecise.status).to.equal("invalid");
+    expect(tooPrecise.errors).to.deep.equal([
+      "This token supports at most 6 decimal places",
+    ]);
+  });
+
+  it("rejects repeats of a beneficiary and schedule id", () => {
+    const results = validate([
+      allocation(),
+      allocation({ amount: "5" }),
+      allocation({ scheduleId: 1 }),
+      allocation({ beneficiary: bob }),
+    ]);
+
+    expect(results.map(({ status }) => status)).to.deep.equal([
+      "pending",
+      "invalid",
+      "pending",
+      "pending",
+    ]);
+    expect(results[1].errors).to.deep.equal([
+      "Duplicate beneficiary and schedule id in allocation file",
+    ]);
+    // The repeat still names the grant it collides with
+    expect(results[1].schedule).to.equal(results[0].schedule);
+  });
+
+  it("skips grants a rerun finds already created, even once started", () => {
+    const [created] = getVestingPDA(admin, new PublicKey(alice), mint, 0);
+    const [other] = getVestingPDA(admin, new PublicKey(alice), mint, 1);
+    const existing = {
+      [created.toBase58()]: createdSchedule(),
+      [other.toBase58()]: createdSchedule({ totalAmount: new BN(5) }),
+    };
+
+    const results = validateAllocations(
+      [
+        allocation(),
+        allocation({ scheduleId: 1 }),
+        allocation({ beneficiary: bob, start: String(now + 90_000) }),
+      ],
+      admin,
+      mint,
+      6,
+      // A day later, past the first two rows' start
+      now + 86_400,
+      PROGRAM_ID,
+      existing
+    );
+
+    expect(results.map(({ status }) => status)).to.deep.equal([
+      "skipped",
+      "conflict",
+      "pending",
+    ]);
+    expect(results[0].schedule).to.equal(created.toBase58());
+    expect(results[1].errors).to.deep.equal([
+      "A different vesting schedule already has this schedule id",
+    ]);
+  });
+});
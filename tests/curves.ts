@@ -0,0 +1,278 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import {
+  createAssociatedTokenAccount,
+  createMint,
+  mintTo,
+} from "@solana/spl-token";
+import { expect } from "chai";
+import {
+  MAX_MILESTONES,
+  MAX_VESTING_DURATION,
+  MIN_VESTING_DURATION,
+  TokenVesting,
+  VestingClient,
+  VestingCurve,
+  VestingTerms,
+  calculateScheduledAmount,
+  calculateVestedAmount,
+  calculateVestedAmountAt,
+  getRevokePoint,
+  linearCurve,
+  milestoneCurve,
+  periodicCurve,
+  projectMonthlyVesting,
+} from "../sdk/src";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Deterministic PRNG (mulberry32) so a failing case can be reproduced
+function random(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  // Integer in [min, max]
+  const int = (min: number, max: number) =>
+    min + Math.floor(next() * (max - min + 1));
+  return { next, int };
+}
+
+type Random = ReturnType<typeof random>;
+
+function randomCurve(rng: Random, duration: number): VestingCurve {
+  const kind = rng.int(0, 2);
+  if (kind === 0) return linearCurve();
+  if (kind === 1) return periodicCurve(rng.int(1, duration));
+
+  // Distinct sorted offsets, and basis points split into positive parts
+  const count = rng.int(1, Math.min(MAX_MILESTONES, duration));
+  const offsets = new Set<number>();
+  while (offsets.size < count) offsets.add(rng.int(1, duration));
+  const cuts = new Set<number>();
+  while (cuts.size < count - 1) cuts.add(rng.int(1, 9_999));
+  const bounds = [0, ...[...cuts].sort((a, b) => a - b), 10_000];
+
+  return milestoneCurve(
+    [...offsets]
+      .sort((a, b) => a - b)
+      .map((offset, i) => ({ offset, bps: bounds[i + 1] - bounds[i] }))
+  );
+}
+
+function randomTerms(rng: Random): VestingTerms {
+  const duration = rng.int(MIN_VESTING_DURATION, MAX_VESTING_DURATION);
+  // Anywhere up to u64::MAX, to exercise the u128 intermediate math
+  const totalAmount = new anchor.BN(rng.int(1, 0xffffffff))
+    .shln(32)
+    .add(new anchor.BN(rng.int(0, 0xffffffff)))
+    .shrn(rng.int(0, 63));
+
+  return {
+    totalAmount: totalAmount.isZero() ? new anchor.BN(1) : totalAmount,
+    startTime: new anchor.BN(1_700_000_000),
+    cliffDuration: new anchor.BN(rng.int(0, Math.floor(duration / 2))),
+    vestingDuration: new anchor.BN(duration),
+    initialUnlockBps: rng.next() < 0.3 ? 0 : rng.int(0, 10_000),
+    curve: randomCurve(rng, duration),
+  };
+}
+
+// The boundaries where the curve changes, and a few points in between
+function samplePoints(rng: Random, terms: VestingTerms): number[] {
+  const start = terms.startTime.toNumber();
+  const cliffEnd = start + terms.cliffDuration.toNumber();
+  const end = start + terms.vestingDuration.toNumber();
+  const points = [start - 1, start, cliffEnd - 1, cliffEnd, end - 1, end];
+
+  if (terms.curve.milestones) {
+    const [milestone] = terms.curve.milestones.milestones;
+    points.push(start + milestone.offset.toNumber() - 1);
+    points.push(start + milestone.offset.toNumber());
+  }
+  for (let i = 0; i < 3; i++) points.push(rng.int(start, end));
+  return points;
+}
+
+describe("vesting curves", () => {
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.TokenVesting as Program<TokenVesting>;
+  const client = new VestingClient(program);
+  const admin = provider.wallet as anchor.Wallet;
+
+  it("never releases more than the total, and never takes any back", () => {
+    const rng = random(1);
+    for (let i = 0; i < 500; i++) {
+      const terms = randomTerms(rng);
+      const times = samplePoints(rng, terms).sort((a, b) => a - b);
+      const amounts = times.map((t) => calculateScheduledAmount(terms, t));
+
+      for (let j = 1; j < amounts.length; j++) {
+        expect(amounts[j].gte(amounts[j - 1])).to.be.true;
+      }
+      expect(amounts[amounts.length - 1].eq(terms.totalAmount)).to.be.true;
+    }
+  });
+
+  it("projects monthly unlocks that add up to the total", () => {
+    const rng = random(7);
+    for (let i = 0; i < 100; i++) {
+      const terms = randomTerms(rng);
+      const rows = projectMonthlyVesting(terms);
+      const end = terms.startTime.toNumber() + terms.vestingDuration.toNumber();
+
+      expect(rows[rows.length - 1].date.getTime()).to.equal(end * 1000);
+      expect(rows[rows.length - 1].vested.eq(terms.totalAmount)).to.be.true;
+      const unlocked = rows.reduce(
+        (sum, row) => sum.add(row.unlocked),
+        new anchor.BN(0)
+      );
+      expect(unlocked.eq(terms.totalAmount)).to.be.true;
+      for (let j = 1; j < rows.length; j++) {
+        expect(rows[j].date > rows[j - 1].date).to.be.true;
+      }
+    }
+
+    // Anniversaries past the 28th fall back to the end of shorter months
+    const rows = projectMonthlyVesting({
+      totalAmount: new anchor.BN(1_200),
+      startTime: new anchor.BN(Date.UTC(2025, 0, 31) / 1000),
+      cliffDuration: new anchor.BN(0),
+      vestingDuration: new anchor.BN(365 * 86_400),
+      initialUnlockBps: 0,
+      curve: linearCurve(),
+    });
+    expect(rows[1].date.toISOString()).to.equal("2025-02-28T00:00:00.000Z");
+    expect(rows[2].date.toISOString()).to.equal("2025-03-31T00:00:00.000Z");
+  });
+
+  it("finds where a revoked schedule stopped vesting", () => {
+    const rng = random(9);
+    for (let i = 0; i < 200; i++) {
+      const terms = randomTerms(rng);
+      const start = terms.startTime.toNumber();
+      const revokedAt = rng.int(
+        start,
+        start + terms.vestingDuration.toNumber()
+      );
+      const schedule = {
+        ...terms,
+        isRevoked: true,
+        revokedAmount: terms.totalAmount.sub(
+          calculateScheduledAmount(terms, revokedAt)
+        ),
+      };
+
+      const point = getRevokePoint(schedule)!;
+      expect(point).to.be.at.most(revokedAt);
+      // Nothing vested between the revoke point and the revoke itself
+      expect(
+        calculateScheduledAmount(terms, point).eq(
+          calculateScheduledAmount(terms, revokedAt)
+        )
+      ).to.be.true;
+      // The historic curve matches the terms before the revoke, then stays flat
+      expect(
+        calculateVestedAmountAt(schedule, point - 1).eq(
+          calculateScheduledAmount(terms, point - 1)
+        )
+      ).to.be.true;
+      expect(
+        calculateVestedAmountAt(schedule, revokedAt + 86_400).eq(
+          calculateVestedAmount(schedule, 0)
+        )
+      ).to.be.true;
+    }
+  });
+
+  it("matches the program's calculation for random schedules", async () => {
+    const rng = random(42);
+    for (let i = 0; i < 40; i++) {
+      const terms = randomTerms(rng);
+      for (const at of samplePoints(rng, terms)) {
+        const offChain = calculateScheduledAmount(terms, at);
+        const onChain = await client.previewVestedAmount(terms, at);
+        expect(
+          offChain.toString(),
+          `case ${i} at ${at}: ${JSON.stringify(terms)}`
+        ).to.equal(onChain.toString());
+      }
+    }
+  });
+
+  it("lets the initial unlock be claimed during the cliff", async () => {
+    const mint = await createMint(
+      provider.connection,
+      admin.payer,
+      admin.publicKey,
+      null,
+      6
+    );
+    const adminTokenAccount = await createAssociatedTokenAccount(
+      provider.connection,
+      admin.payer,
+      mint,
+      admin.publicKey
+    );
+    await mintTo(
+      provider.connection,
+      admin.payer,
+      mint,
+      adminTokenAccount,
+      admin.publicKey,
+      1_000_000
+    );
+
+    const beneficiary = anchor.web3.Keypair.generate();
+    const airdrop = await provider.connection.requestAirdrop(
+      beneficiary.publicKey,
+      anchor.web3.LAMPORTS_PER_SOL
+    );
+    await provider.connection.confirmTransaction(airdrop);
+    const beneficiaryClient = VestingClient.fromProvider(
+      new anchor.AnchorProvider(
+        provider.connection,
+        new anchor.Wallet(beneficiary),
+        provider.opts
+      ),
+      program.programId
+    );
+
+    const oneDay = 86_400;
+    await client.createVestingSchedule(
+      beneficiary.publicKey,
+      mint,
+      new anchor.BN(1_000_000),
+      new anchor.BN(Math.floor(Date.now() / 1000) + 3),
+      new anchor.BN(oneDay * 90),
+      new anchor.BN(oneDay * 360),
+      0,
+      { initialUnlockBps: 2_000, curve: periodicCurve(oneDay * 90) }
+    );
+    await sleep(5_000);
+
+    await beneficiaryClient.claim(admin.publicKey, mint);
+
+    const [schedulePda] = client.getVestingPDA(
+      admin.publicKey,
+      beneficiary.publicKey,
+      mint
+    );
+    const schedule = await client.fetchVestingSchedule(schedulePda);
+    expect(schedule?.claimedAmount.toNumber()).to.equal(200_000);
+    expect(schedule?.curve.periodic?.period.toNumber()).to.equal(oneDay * 90);
+
+    // The rest waits for the cliff
+    try {
+      await beneficiaryClient.claim(admin.publicKey, mint);
+      expect.fail("Should have thrown error");
+    } catch (error: any) {
+      expect(error.error.errorCode.code).to.equal("CliffNotReached");
+    }
+  });
+});
@@ -0,0 +1,155 @@
+import { TokenAccountNotFoundError } from "@solana/spl-token";
+import {
+  SendTransactionError,
+  TransactionExpiredBlockheightExceededError,
+} from "@solana/web3.js";
+import { expect } from "chai";
+import { translateVestingError } from "../sdk/src";
+
+const signature = "5h6xBEauJ3PK6SWCZ1PGjBvj8vDdWG3KpwATGy1ARAXF";
+
+// What a failed preflight simulation throws from sendRawTransaction
+function preflightFailure(message: string, logs: string[]) {
+  return new SendTransactionError({
+    action: "simulate",
+    signature,
+    transactionMessage: message,
+    logs,
+  });
+}
+
+describe("error translation", () => {
+  it("recognizes a rejection in the wallet", () => {
+    const adapterError = Object.assign(
+      new Error("User rejected the request."),
+      {
+        name: "WalletSignTransactionError",
+      }
+    );
+    const injected = { code: 4001, message: "Approval denied" };
+
+    for (const error of [adapterError, injected]) {
+      const translated = translateVestingError(error);
+      expect(translated.kind).to.equal("WalletRejected");
+      expect(translated.message).to.equal(
+        "The request was rejected in your wallet."
+      );
+      expect(translated.cause).to.equal(error);
+    }
+  });
+
+  it("recognizes a fee payer without enough SOL", () => {
+    const error = preflightFailure(
+      "Attempt to debit an account but found no record of a prior credit.",
+      []
+    );
+
+    expect(translateVestingError(error).kind).to.equal("InsufficientSol");
+    expect(
+      translateVestingError(
+        preflightFailure("Transaction simulation failed", [
+          "Transfer: insufficient lamports 1000, need 2039280",
+        ])
+      ).kind
+    ).to.equal("InsufficientSol");
+  });
+
+  it("recognizes a missing token account", () => {
+    expect(
+      translateVestingError(new TokenAccountNotFoundError()).kind
+    ).to.equal("MissingTokenAccount");
+
+    const anchorError = {
+      error: {
+        errorCode: { code: "AccountNotInitialized", number: 3012 },
+      },
+      logs: ["Program log: AnchorError caused by account: admin_token_account"],
+    };
+    const translated = translateVestingError(anchorError);
+    expect(translated.kind).to.equal("MissingTokenAccount");
+    expect(translated.logs).to.deep.equal(anchorError.logs);
+  });
+
+  it("tells a closed schedule from a missing token account", () => {
+    const uninitialized = (origin?: string) => ({
+      error: {
+        errorCode: { code: "AccountNotInitialized", number: 3012 },
+        origin,
+      },
+    });
+
+    expect(
+      translateVestingError(uninitialized("vesting_schedule")).kind
+    ).to.equal("ScheduleNotFound");
+    expect(
+      translateVestingError(uninitialized("beneficiary_token_account")).kind
+    ).to.equal("MissingTokenAccount");
+    // Some other account, or none named: nothing more specific to say
+    expect(translateVestingError(uninitialized("mint")).kind).to.equal(
+      "Unknown"
+    );
+    expect(translateVestingError(uninitialized()).kind).to.equal("Unknown");
+
+    // A failed simulation only has the program's log to go on
+    expect(
+      translateVestingError(
+        preflightFailure("Transaction simulation failed", [
+          "Program log: AnchorError caused by account: vault. Error Code: AccountNotInitialized. Error Number: 3012. Error Message: The program expected this account to be already initialized.",
+        ])
+      ).kind
+    ).to.equal("ScheduleNotFound");
+  });
+
+  it("recognizes an expired blockhash", () => {
+    expect(
+      translateVestingError(
+        new TransactionExpiredBlockheightExceededError(signature)
+      ).kind
+    ).to.equal("BlockhashExpired");
+    expect(
+      translateVestingError(
+        preflightFailure(
+          "Transaction simulation failed: Blockhash not found",
+          []
+        )
+      ).kind
+    ).to.equal("BlockhashExpired");
+  });
+
+  it("reads program errors from a confirmed transaction", () => {
+    // confirmation.value.err, and the same wrapped in a status
+    const err = { InstructionError: [0, { Custom: 6023 }] };
+
+    expect(translateVestingError(err).kind).to.equal("CrankNotAllowed");
+    expect(translateVestingError({ err }).kind).to.equal("CrankNotAllowed");
+    // Built-in instruction errors aren't the program's
+    expect(
+      translateVestingError({ InstructionError: [1, "InvalidAccountData"] })
+        .kind
+    ).to.equal("Unknown");
+  });
+
+  it("reads program errors from anchor errors and logs", () => {
+    expect(
+      translateVestingError({
+        error: { errorCode: { code: "CliffNotReached", number: 6005 } },
+      }).kind
+    ).to.equal("CliffNotReached");
+    expect(
+      translateVestingError(
+        preflightFailure(
+          "Transaction simulation failed: Error processing Instruction 0: custom program error: 0x1775",
+          []
+        )
+      ).kind
+    ).to.equal("CliffNotReached");
+  });
+
+  it("falls back to the first line of anything else", () => {
+    expect(translateVestingError(new Error("boom\nstack")).message).to.equal(
+      "boom"
+    );
+    expect(translateVestingError(null).message).to.equal("null");
+    expect(translateVestingError(undefined).kind).to.equal("Unknown");
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Vesting schedules in the layouts of earlier program versions, which the
+ * current program can no longer create. They're preloaded into the test
+ * validator through Anchor.toml so the migration can be tested on real
+ * accounts. Regenerate the JSON files with:
+ *
+ *   npx ts-node tests/fixtures/legacy.ts
+ */
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { PROGRAM_ID, getVaultPDA, getVestingPDA } from "../../sdk/src";
+
+// Derived from fixed seeds so the tests can sign without a committed secret key
+function fixtureKeypair(name: string): Keypair {
+  return Keypair.fromSeed(
+    createHash("sha256").update(`token-vesting fixture ${name}`).digest()
+  );
+}
+
+export const LEGACY_ADMIN = fixtureKeypair("admin");
+export const LEGACY_BENEFICIARY = fixtureKeypair("beneficiary");
+export const LEGACY_MINT = fixtureKeypair("mint").publicKey;
+
+export const LEGACY_TOTAL_AMOUNT = 1_000_000_000;
+// Started at the beginning of 2024 and vests linearly for the maximum ten
+// years, so each grant is partly vested whenever the tests run
+const START_TIME = 1_704_067_200;
+const VESTING_DURATION = 315_360_000;
+
+export interface LegacyGrant {
+  name: string;
+  size: number;
+  scheduleId: number;
+  // Only layouts from after the curve was added have these
+  initialUnlockBps: number;
+  period: number | null;
+}
+
+export const LEGACY_GRANTS: LegacyGrant[] = [
+  // Before schedule ids, so always id 0
+  {
+    name: "legacy",
+    size: 155,
+    scheduleId: 0,
+    initialUnlockBps: 0,
+    period: null,
+  },
+  {
+    name: "pre-curve",
+    size: 163,
+    scheduleId: 1,
+    initialUnlockBps: 0,
+    period: null,
+  },
+  // Steps of a second, so it vests about as steadily as the linear ones
+  {
+    name: "pre-authority",
+    size: 330,
+    scheduleId: 2,
+    initialUnlockBps: 1_000,
+    period: 1,
+  },
+  // Authorities still the admin, as a migrated pre-authority one would have
+  {
+    name: "pre-crank",
+    size: 395,
+    scheduleId: 3,
+    initialUnlockBps: 500,
+    period: 1,
+  },
+  {
+    name: "pre-admin-transfer",
+    size: 396,
+    scheduleId: 4,
+    initialUnlockBps: 500,
+    period: 1,
+  },
+];
+
+// Largest curve, 16 milestones of 10 bytes after the tag and length
+const CURVE_SPACE = 1 + 4 + 16 * 10;
+
+export function legacySchedulePDA(grant: LegacyGrant): PublicKey {
+  return getVestingPDA(
+    LEGACY_ADMIN.publicKey,
+    LEGACY_BENEFICIARY.publicKey,
+    LEGACY_MINT,
+    grant.scheduleId,
+    PROGRAM_ID
+  )[0];
+}
+
+function u64(value: number): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigInt64LE(BigInt(value));
+  return buffer;
+}
+
+function scheduleData(grant: LegacyGrant, bump: number, vaultBump: number) {
+  const discriminator = createHash("sha256")
+    .update("account:VestingSchedule")
+    .digest()
+    .subarray(0, 8);
+  const fields = [
+    discriminator,
+    LEGACY_ADMIN.publicKey.toBuffer(),
+    LEGACY_BENEFICIARY.publicKey.toBuffer(),
+    LEGACY_MINT.toBuffer(),
+    u64(LEGACY_TOTAL_AMOUNT),
+    u64(0), // claimed
+    u64(START_TIME),
+    u64(0), // cliff
+    u64(VESTING_DURATION),
+    Buffer.from([0]), // not revoked
+    u64(0), // revoked amount
+    Buffer.from([bump, vaultBump]),
+  ];
+  if (grant.size > 155) {
+    fields.push(u64(grant.scheduleId));
+  }
+  if (grant.size > 163) {
+    const bps = Buffer.alloc(2);
+    bps.writeUInt16LE(grant.initialUnlockBps);
+    fields.push(bps);
+  }
+  if (grant.size > 330) {
+    const admin = LEGACY_ADMIN.publicKey.toBuffer();
+    fields.push(admin, Buffer.from([1]), admin); // authority, Some(revoke)
+  }
+  if (grant.size > 163) {
+    const curve = Buffer.alloc(CURVE_SPACE);
+    if (grant.period !== null) {
+      curve[0] = 1; // Periodic
+      curve.writeBigInt64LE(BigInt(grant.period), 1);
+    }
+    fields.push(curve);
+  }
+  if (grant.size > 395) {
+    fields.push(Buffer.from([0])); // cranking not allowed
+  }
+
+  const data = Buffer.concat(fields);
+  if (data.length !== grant.size) {
+    throw new Error(`${grant.name} layout is ${data.length} bytes`);
+  }
+  return data;
+}
+
+function rentExempt(size: number): number {
+  // Default rent: 3480 lamports per byte-year, two years, 128 bytes overhead
+  return (128 + size) * 3_480 * 2;
+}
+
+function accountFixture(address: PublicKey, owner: PublicKey, data: Buffer) {
+  return {
+    pubkey: address.toBase58(),
+    account: {
+      lamports: rentExempt(data.length),
+      data: [data.toString("base64"), "base64"],
+      owner: owner.toBase58(),
+      executable: false,
+      rentEpoch: 0,
+      space: data.length,
+    },
+  };
+}
+
+/**
+ * Every account the fixtures need, keyed by file name
+ */
+export function legacyFixtures(): Record<string, object> {
+  const mint = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 1,
+      mintAuthority: LEGACY_ADMIN.publicKey,
+      supply: BigInt(LEGACY_TOTAL_AMOUNT * LEGACY_GRANTS.length),
+      decimals: 9,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    mint
+  );
+  const fixtures: Record<string, object> = {
+    "legacy-mint.json": accountFixture(LEGACY_MINT, TOKEN_PROGRAM_ID, mint),
+  };
+
+  for (const grant of LEGACY_GRANTS) {
+    const [schedule, bump] = getVestingPDA(
+      LEGACY_ADMIN.publicKey,
+      LEGACY_BENEFICIARY.publicKey,
+      LEGACY_MINT,
+      grant.scheduleId,
+      PROGRAM_ID
+    );
+    const [vault, vaultBump] = getVaultPDA(schedule, PROGRAM_ID);
+
+    const vaultData = Buffer.alloc(ACCOUNT_SIZE);
+    AccountLayout.encode(
+      {
+        mint: LEGACY_MINT,
+        owner: schedule,
+        amount: BigInt(LEGACY_TOTAL_AMOUNT),
+        delegateOption: 0,
+        delegate: PublicKey.default,
+        state: AccountState.Initialized,
+        isNativeOption: 0,
+        isNative: BigInt(0),
+        delegatedAmount: BigInt(0),
+        closeAuthorityOption: 0,
+        closeAuthority: PublicKey.default,
+      },
+      vaultData
+    );
+
+    fixtures[`${grant.name}-schedule.json`] = accountFixture(
+      schedule,
+      PROGRAM_ID,
+      scheduleData(grant, bump, vaultBump)
+    );
+    fixtures[`${grant.name}-vault.json`] = accountFixture(
+      vault,
+      TOKEN_PROGRAM_ID,
+      vaultData
+    );
+  }
+
+  return fixtures;
+}
+
+// Mocha loads this file with the tests; only write when run directly
+if (require.main === module) {
+  for (const [file, fixture] of Object.entries(legacyFixtures())) {
+    fs.writeFileSync(
+      path.join(__dirname, file),
+      JSON.stringify(fixture, null, 2) + "\n"
+    );
+    console.log(`${file}: ${(fixture as { pubkey: string }).pubkey}`);
+  }
+}
@@ -0,0 +1,150 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as anchor from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  ClaimAllResult,
+  LINEAR_RELEASE,
+  VestingSchedule,
+  toVestingInfo,
+} from "../sdk/src";
+import {
+  emptyKeeperState,
+  loadKeeperState,
+  recordResults,
+  saveKeeperState,
+  selectSchedules,
+} from "../cli/keeper";
+
+const oneDay = 86_400;
+const start = 1_700_000_000;
+const mint = Keypair.generate().publicKey;
+const otherMint = Keypair.generate().publicKey;
+
+// 1000 tokens vesting linearly over 100 days, nothing claimed yet, that the
+// beneficiary lets anyone crank
+function schedule(mintKey: PublicKey = mint, allowCrank = true) {
+  const admin = Keypair.generate().publicKey;
+  const account: VestingSchedule = {
+    admin,
+    beneficiary: Keypair.generate().publicKey,
+    mint: mintKey,
+    totalAmount: new anchor.BN(1_000_000_000),
+    claimedAmount: new anchor.BN(0),
+    startTime: new anchor.BN(start),
+    cliffDuration: new anchor.BN(0),
+    vestingDuration: new anchor.BN(100 * oneDay),
+    isRevoked: false,
+    revokedAmount: new anchor.BN(0),
+    bump: 255,
+    vaultBump: 255,
+    scheduleId: new anchor.BN(0),
+    authority: admin,
+    revokeAuthority: admin,
+    allowCrank,
+    allowAdminTransfer: false,
+    ...LINEAR_RELEASE,
+  };
+  return toVestingInfo(Keypair.generate().publicKey, account, start + oneDay);
+}
+
+function result(
+  info: ReturnType<typeof schedule>,
+  status: ClaimAllResult["status"]
+): ClaimAllResult {
+  return {
+    schedule: info.publicKey.toBase58(),
+    mint: info.account.mint.toBase58(),
+    amount: info.claimableAmount,
+    status,
+    signature: "sig",
+    error: status === "failed" ? "Nothing to claim" : undefined,
+  };
+}
+
+describe("keeper", () => {
+  // One day in, 10 tokens are claimable
+  const now = start + oneDay;
+  const thresholds = { [mint.toBase58()]: new anchor.BN(5_000_000) };
+
+  it("picks schedules at or over their mint's threshold", () => {
+    const over = schedule();
+    const elsewhere = schedule(otherMint);
+
+    const selected = selectSchedules(
+      [over, elsewhere],
+      thresholds,
+      emptyKeeperState(),
+      3_600,
+      now
+    );
+    expect(selected).to.deep.equal([over]);
+
+    const higher = { [mint.toBase58()]: new anchor.BN(20_000_000) };
+    expect(selectSchedules([over], higher, emptyKeeperState(), 3_600, now)).to
+      .be.empty;
+  });
+
+  it("leaves schedules whose beneficiary hasn't allowed cranks", () => {
+    const disallowed = schedule(mint, false);
+
+    expect(
+      selectSchedules([disallowed], thresholds, emptyKeeperState(), 3_600, now)
+    ).to.be.empty;
+  });
+
+  it("records cranks and waits before retrying a failure", () => {
+    const cranked = schedule();
+    const failed = schedule();
+
+    const state = recordResults(
+      emptyKeeperState(),
+      [cranked, failed],
+      [result(cranked, "success"), result(failed, "failed")],
+      now
+    );
+    expect(state.lastRun).to.equal(now);
+    expect(state.schedules[cranked.publicKey.toBase58()]).to.include({
+      totalCranked: "10000000",
+      cranks: 1,
+      failures: 0,
+    });
+    expect(state.schedules[failed.publicKey.toBase58()]).to.include({
+      cranks: 0,
+      failures: 1,
+      lastError: "Nothing to claim",
+    });
+
+    const select = (at: number) =>
+      selectSchedules([cranked, failed], thresholds, state, 3_600, at);
+    expect(select(now + 60)).to.deep.equal([cranked]);
+    expect(select(now + 3_600)).to.deep.equal([cranked, failed]);
+  });
+
+  it("keeps the record across restarts", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "keeper-"));
+    const file = path.join(directory, "state.json");
+    try {
+      expect(loadKeeperState(file)).to.deep.equal(emptyKeeperState());
+
+      const info = schedule();
+      const state = recordResults(
+        emptyKeeperState(),
+        [info],
+        [result(info, "success")],
+        now
+      );
+      saveKeeperState(file, state);
+      expect(loadKeeperState(file)).to.deep.equal(
+        JSON.parse(JSON.stringify(state))
+      );
+
+      fs.writeFileSync(file, "{ truncated");
+      expect(() => loadKeeperState(file)).to.throw("not valid JSON");
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
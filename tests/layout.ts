@@ -0,0 +1,172 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Connection, Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  AUTHORITY_OFFSET,
+  BPS_DENOMINATOR,
+  LEGACY_VESTING_SCHEDULE_SIZE,
+  MAX_MILESTONES,
+  PRE_ADMIN_TRANSFER_VESTING_SCHEDULE_SIZE,
+  PRE_AUTHORITY_VESTING_SCHEDULE_SIZE,
+  PRE_CRANK_VESTING_SCHEDULE_SIZE,
+  PRE_CURVE_VESTING_SCHEDULE_SIZE,
+  REVOKE_AUTHORITY_OFFSET,
+  VESTING_SCHEDULE_SIZE,
+  VestingClient,
+  VestingSchedule,
+  decodeVestingSchedule,
+  milestoneCurve,
+  periodicCurve,
+} from "../sdk/src";
+
+// Decoding needs only the IDL, never the network
+const program = VestingClient.readOnly(
+  new Connection("http://127.0.0.1:1")
+).program;
+
+const oneDay = 86_400;
+const admin = Keypair.generate().publicKey;
+
+// A second grant with a TGE unlock and monthly steps, whose authorities have
+// been handed on
+const account: VestingSchedule = {
+  admin,
+  beneficiary: Keypair.generate().publicKey,
+  mint: Keypair.generate().publicKey,
+  totalAmount: new anchor.BN(1_000_000_000),
+  claimedAmount: new anchor.BN(250_000_000),
+  startTime: new anchor.BN(1_700_000_000),
+  cliffDuration: new anchor.BN(30 * oneDay),
+  vestingDuration: new anchor.BN(365 * oneDay),
+  isRevoked: false,
+  revokedAmount: new anchor.BN(0),
+  bump: 254,
+  vaultBump: 253,
+  scheduleId: new anchor.BN(3),
+  initialUnlockBps: 1_000,
+  authority: Keypair.generate().publicKey,
+  revokeAuthority: null,
+  curve: periodicCurve(30 * oneDay),
+  allowCrank: true,
+  allowAdminTransfer: true,
+};
+
+// The account as the program stores it, zero-padded to its allocated size
+async function currentLayout(
+  schedule: VestingSchedule = account
+): Promise<Buffer> {
+  const data = await program.coder.accounts.encode("vestingSchedule", schedule);
+  return Buffer.concat([
+    data,
+    Buffer.alloc(VESTING_SCHEDULE_SIZE - data.length),
+  ]);
+}
+
+describe("account layouts", () => {
+  it("decodes the current layout as is", async () => {
+    const decoded = decodeVestingSchedule(program, await currentLayout());
+
+    expect(decoded.authority.equals(account.authority)).to.be.true;
+    expect(decoded.revokeAuthority).to.be.null;
+    expect(decoded.curve.periodic?.period.toNumber()).to.equal(30 * oneDay);
+    expect(decoded.allowCrank).to.be.true;
+    expect(decoded.allowAdminTransfer).to.be.true;
+  });
+
+  it("reads pre-admin-transfer accounts as not allowing admin transfers", async () => {
+    // Like the crank opt-in before it, the new flag follows the curve
+    const data = await currentLayout({
+      ...account,
+      revokeAuthority: admin,
+      curve: milestoneCurve(
+        Array.from({ length: MAX_MILESTONES }, (_, i) => ({
+          offset: (i + 1) * oneDay,
+          bps: BPS_DENOMINATOR / MAX_MILESTONES,
+        }))
+      ),
+    });
+    const old = data.subarray(0, PRE_ADMIN_TRANSFER_VESTING_SCHEDULE_SIZE);
+
+    const decoded = decodeVestingSchedule(program, old);
+    expect(decoded.allowAdminTransfer).to.be.false;
+    expect(decoded.allowCrank).to.be.true;
+    expect(decoded.curve.milestones?.milestones).to.have.length(MAX_MILESTONES);
+  });
+
+  it("reads pre-crank accounts as not allowing cranks", async () => {
+    // The opt-in follows the curve, so a full milestone table leaves no
+    // padding for it to be read from
+    const data = await currentLayout({
+      ...account,
+      revokeAuthority: admin,
+      curve: milestoneCurve(
+        Array.from({ length: MAX_MILESTONES }, (_, i) => ({
+          offset: (i + 1) * oneDay,
+          bps: BPS_DENOMINATOR / MAX_MILESTONES,
+        }))
+      ),
+    });
+    const old = data.subarray(0, PRE_CRANK_VESTING_SCHEDULE_SIZE);
+
+    const decoded = decodeVestingSchedule(program, old);
+    expect(decoded.allowCrank).to.be.false;
+    expect(decoded.authority.equals(account.authority)).to.be.true;
+    expect(decoded.curve.milestones?.milestones).to.have.length(MAX_MILESTONES);
+  });
+
+  it("gives pre-authority accounts the admin as both authorities", async () => {
+    // Before the authorities, the curve started where they are now. A set
+    // revoke authority takes its full 33 bytes, so the curve follows it.
+    const data = await currentLayout({
+      ...account,
+      revokeAuthority: admin,
+      allowCrank: false,
+      allowAdminTransfer: false,
+    });
+    const old = Buffer.concat([
+      data.subarray(0, AUTHORITY_OFFSET),
+      data.subarray(
+        REVOKE_AUTHORITY_OFFSET + 33,
+        PRE_CRANK_VESTING_SCHEDULE_SIZE
+      ),
+    ]);
+    expect(old.length).to.equal(PRE_AUTHORITY_VESTING_SCHEDULE_SIZE);
+
+    const decoded = decodeVestingSchedule(program, old);
+    expect(decoded.authority.equals(admin)).to.be.true;
+    expect(decoded.revokeAuthority?.equals(admin)).to.be.true;
+    expect(decoded.scheduleId.toNumber()).to.equal(3);
+    expect(decoded.initialUnlockBps).to.equal(1_000);
+    expect(decoded.curve.periodic?.period.toNumber()).to.equal(30 * oneDay);
+    expect(decoded.allowCrank).to.be.false;
+  });
+
+  it("reads pre-curve accounts as linear with no initial unlock", async () => {
+    const old = (await currentLayout()).subarray(
+      0,
+      PRE_CURVE_VESTING_SCHEDULE_SIZE
+    );
+
+    const decoded = decodeVestingSchedule(program, old);
+    expect(decoded.scheduleId.toNumber()).to.equal(3);
+    expect(decoded.initialUnlockBps).to.equal(0);
+    expect(decoded.curve).to.have.property("linear");
+    expect(decoded.authority.equals(admin)).to.be.true;
+    expect(decoded.revokeAuthority?.equals(admin)).to.be.true;
+  });
+
+  it("reads legacy accounts as schedule id 0", async () => {
+    const old = (await currentLayout()).subarray(
+      0,
+      LEGACY_VESTING_SCHEDULE_SIZE
+    );
+
+    const decoded = decodeVestingSchedule(program, old);
+    expect(decoded.scheduleId.toNumber()).to.equal(0);
+    expect(decoded.claimedAmount.toNumber()).to.equal(250_000_000);
+    expect(decoded.vaultBump).to.equal(253);
+    expect(decoded.initialUnlockBps).to.equal(0);
+    expect(decoded.curve).to.have.property("linear");
+    expect(decoded.revokeAuthority?.equals(admin)).to.be.true;
+  });
+});
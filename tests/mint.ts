@@ -0,0 +1,175 @@
+import {
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import {
+  AccountInfo,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+} from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  TOKEN_METADATA_PROGRAM_ID,
+  fetchMintInfo,
+  fetchMintInfos,
+  getMetadataPDA,
+} from "../sdk/src";
+
+function mintAccount(
+  decimals: number,
+  owner: PublicKey = TOKEN_PROGRAM_ID
+): AccountInfo<Buffer> {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: BigInt(0),
+      decimals,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    data
+  );
+  return { data, owner, executable: false, lamports: 1, rentEpoch: 0 };
+}
+
+// Metaplex pads the name to 32 bytes and the symbol to 10 with nulls
+function metadataAccount(name: string, symbol: string): AccountInfo<Buffer> {
+  const padded = (value: string, length: number) => {
+    const bytes = Buffer.alloc(4 + length);
+    bytes.writeUInt32LE(length);
+    bytes.write(value, 4);
+    return bytes;
+  };
+  const data = Buffer.concat([
+    Buffer.from([4]), // key
+    Keypair.generate().publicKey.toBuffer(), // update authority
+    Keypair.generate().publicKey.toBuffer(), // mint
+    padded(name, 32),
+    padded(symbol, 10),
+    padded("https://example.com/token.json", 200),
+  ]);
+  return {
+    data,
+    owner: TOKEN_METADATA_PROGRAM_ID,
+    executable: false,
+    lamports: 1,
+    rentEpoch: 0,
+  };
+}
+
+let endpoints = 0;
+
+// Serves the given accounts and counts requests. Each connection gets its
+// own endpoint, as that's part of the cache key.
+function fakeConnection(accounts: Map<string, AccountInfo<Buffer>>) {
+  const requests: string[][] = [];
+  const connection = {
+    rpcEndpoint: `http://mint-test-${endpoints++}`,
+    getMultipleAccountsInfo: async (keys: PublicKey[]) => {
+      requests.push(keys.map((key) => key.toBase58()));
+      return keys.map((key) => accounts.get(key.toBase58()) ?? null);
+    },
+  };
+  return { connection: connection as unknown as Connection, requests };
+}
+
+describe("mint info", () => {
+  it("reads decimals, token program and metadata", async () => {
+    const mint = Keypair.generate().publicKey;
+    const { connection } = fakeConnection(
+      new Map([
+        [mint.toBase58(), mintAccount(6, TOKEN_2022_PROGRAM_ID)],
+        [
+          getMetadataPDA(mint).toBase58(),
+          metadataAccount("Vesting Token", "VEST"),
+        ],
+      ])
+    );
+
+    const info = await fetchMintInfo(connection, mint);
+    expect(info.address.equals(mint)).to.be.true;
+    expect(info.decimals).to.equal(6);
+    expect(info.tokenProgram.equals(TOKEN_2022_PROGRAM_ID)).to.be.true;
+    expect(info.name).to.equal("Vesting Token");
+    expect(info.symbol).to.equal("VEST");
+  });
+
+  it("falls back to the bare mint without usable metadata", async () => {
+    const bare = Keypair.generate().publicKey;
+    const truncated = Keypair.generate().publicKey;
+    const blank = Keypair.generate().publicKey;
+    const { connection } = fakeConnection(
+      new Map([
+        [bare.toBase58(), mintAccount(9)],
+        [truncated.toBase58(), mintAccount(9)],
+        [
+          getMetadataPDA(truncated).toBase58(),
+          { ...metadataAccount("Cut", "CUT"), data: Buffer.alloc(70) },
+        ],
+        [blank.toBase58(), mintAccount(9)],
+        [getMetadataPDA(blank).toBase58(), metadataAccount("", "")],
+      ])
+    );
+
+    for (const mint of [bare, truncated, blank]) {
+      const info = await fetchMintInfo(connection, mint);
+      expect(info.decimals).to.equal(9);
+      expect(info.tokenProgram.equals(TOKEN_PROGRAM_ID)).to.be.true;
+      expect(info.name).to.be.undefined;
+      expect(info.symbol).to.be.undefined;
+    }
+  });
+
+  it("rejects missing mints and accounts that aren't mints", async () => {
+    const missing = Keypair.generate().publicKey;
+    const wallet = Keypair.generate().publicKey;
+    const { connection } = fakeConnection(
+      new Map([[wallet.toBase58(), mintAccount(9, SystemProgram.programId)]])
+    );
+
+    for (const [mint, message] of [
+      [missing, "Mint not found"],
+      [wallet, "Not a token mint"],
+    ] as const) {
+      let thrown: unknown;
+      try {
+        await fetchMintInfo(connection, mint);
+      } catch (error) {
+        thrown = error;
+      }
+      expect((thrown as Error).message).to.equal(
+        `${message}: ${mint.toBase58()}`
+      );
+    }
+  });
+
+  it("caches lookups but not failures", async () => {
+    const mint = Keypair.generate().publicKey;
+    const accounts = new Map<string, AccountInfo<Buffer>>();
+    const { connection, requests } = fakeConnection(accounts);
+
+    let thrown = false;
+    await fetchMintInfo(connection, mint).catch(() => (thrown = true));
+    expect(thrown).to.be.true;
+
+    // Created since, so the failed lookup is retried
+    accounts.set(mint.toBase58(), mintAccount(2));
+    const [first, second] = await Promise.all([
+      fetchMintInfo(connection, mint),
+      fetchMintInfo(connection, mint),
+    ]);
+    expect(first).to.equal(second);
+    expect(first.decimals).to.equal(2);
+
+    const infos = await fetchMintInfos(connection, [mint, mint]);
+    expect(Object.keys(infos)).to.deep.equal([mint.toBase58()]);
+    expect(requests).to.have.length(2);
+  });
+});
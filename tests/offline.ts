@@ -0,0 +1,103 @@
+import {
+  Connection,
+  Keypair,
+  SystemProgram,
+  Transaction,
+} from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  decodeTransaction,
+  deserializeInstructions,
+  exportTransaction,
+  getNonceAccount,
+  submitSignedTransaction,
+} from "../sdk/src";
+
+const feePayer = Keypair.generate();
+const signer = Keypair.generate();
+const nonceAccount = Keypair.generate().publicKey;
+const blockhash = Keypair.generate().publicKey.toBase58();
+
+// Nothing is sent in these tests; submitting stops before the network
+const connection = new Connection("http://127.0.0.1:1");
+
+function unsigned(withNonce: boolean): Transaction {
+  const transaction = new Transaction();
+  transaction.feePayer = feePayer.publicKey;
+  transaction.recentBlockhash = blockhash;
+  if (withNonce) {
+    transaction.add(
+      SystemProgram.nonceAdvance({
+        noncePubkey: nonceAccount,
+        authorizedPubkey: feePayer.publicKey,
+      })
+    );
+  }
+  return transaction.add(
+    SystemProgram.transfer({
+      fromPubkey: signer.publicKey,
+      toPubkey: feePayer.publicKey,
+      lamports: 1_000,
+    })
+  );
+}
+
+describe("offline signing", () => {
+  it("exports an unsigned transaction with its signers", () => {
+    const exported = exportTransaction(unsigned(false));
+
+    expect(exported.signers).to.deep.equal([
+      feePayer.publicKey.toBase58(),
+      signer.publicKey.toBase58(),
+    ]);
+    expect(exported.nonceAccount).to.be.null;
+
+    const decoded = decodeTransaction(exported.transaction);
+    expect(decoded.recentBlockhash).to.equal(blockhash);
+    expect(decoded.signatures.every(({ signature }) => !signature)).to.be.true;
+
+    const [transfer] = deserializeInstructions(exported.instructions);
+    expect(transfer.programId.equals(SystemProgram.programId)).to.be.true;
+    expect(transfer.data.equals(unsigned(false).instructions[0].data)).to.be
+      .true;
+  });
+
+  it("recognises a durable-nonce transaction", () => {
+    expect(getNonceAccount(unsigned(true))?.equals(nonceAccount)).to.be.true;
+    expect(getNonceAccount(unsigned(false))).to.be.null;
+    expect(exportTransaction(unsigned(true)).nonceAccount).to.equal(
+      nonceAccount.toBase58()
+    );
+  });
+
+  it("survives signing elsewhere", () => {
+    const { transaction } = exportTransaction(unsigned(false));
+
+    const signed = decodeTransaction(transaction);
+    signed.partialSign(feePayer, signer);
+    expect(signed.verifySignatures()).to.be.true;
+  });
+
+  it("refuses to submit a transaction missing a signature", async () => {
+    const partly = decodeTransaction(
+      exportTransaction(unsigned(false)).transaction
+    );
+    partly.partialSign(feePayer);
+    const payload = partly
+      .serialize({ requireAllSignatures: false })
+      .toString("base64");
+
+    try {
+      await submitSignedTransaction(connection, payload);
+      expect.fail("Should have thrown error");
+    } catch (error: any) {
+      expect(error.message).to.contain(signer.publicKey.toBase58());
+    }
+  });
+
+  it("rejects a payload that isn't a transaction", () => {
+    expect(() => decodeTransaction("not a transaction")).to.throw(
+      "Not a base64-encoded transaction"
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  LINEAR_RELEASE,
+  MintInfo,
+  VestingEvent,
+  VestingSchedule,
+  buildVestingStatement,
+  eventToRecord,
+  eventsToCsv,
+  scheduleToRecord,
+  schedulesToCsv,
+  toVestingInfo,
+} from "../sdk/src";
+
+const oneDay = 86_400;
+const start = 1_700_000_000;
+const day = (n: number) => new Date((start + n * oneDay) * 1000);
+
+const admin = Keypair.generate().publicKey;
+const beneficiary = Keypair.generate().publicKey;
+const schedulePda = Keypair.generate().publicKey;
+const mintInfo: MintInfo = {
+  address: Keypair.generate().publicKey,
+  decimals: 6,
+  tokenProgram: PublicKey.default,
+  symbol: 'US"D, Coin',
+};
+
+// 1000 tokens vesting linearly over 100 days, 300 claimed and revoked on day 50
+const account: VestingSchedule = {
+  admin,
+  beneficiary,
+  mint: mintInfo.address,
+  totalAmount: new anchor.BN(1_000_000_000),
+  claimedAmount: new anchor.BN(300_000_000),
+  startTime: new anchor.BN(start),
+  cliffDuration: new anchor.BN(0),
+  vestingDuration: new anchor.BN(100 * oneDay),
+  isRevoked: true,
+  revokedAmount: new anchor.BN(500_000_000),
+  bump: 255,
+  vaultBump: 255,
+  scheduleId: new anchor.BN(0),
+  authority: admin,
+  revokeAuthority: admin,
+  allowCrank: false,
+  allowAdminTransfer: false,
+  ...LINEAR_RELEASE,
+};
+
+function event(
+  blockTime: Date | null,
+  decoded: Pick<VestingEvent, "name" | "data">
+): VestingEvent {
+  return {
+    ...decoded,
+    signature: `sig-${blockTime?.getTime()}`,
+    slot: 1,
+    blockTime,
+  } as VestingEvent;
+}
+
+const events: VestingEvent[] = [
+  event(day(0), {
+    name: "vestingCreated",
+    data: {
+      admin,
+      beneficiary,
+      mint: mintInfo.address,
+      scheduleId: new anchor.BN(0),
+      totalAmount: account.totalAmount,
+      startTime: account.startTime,
+      cliffDuration: account.cliffDuration,
+      vestingDuration: account.vestingDuration,
+      initialUnlockBps: 0,
+      curve: account.curve,
+    },
+  }),
+  event(day(20), {
+    name: "tokensClaimed",
+    data: {
+      beneficiary,
+      mint: mintInfo.address,
+      amount: new anchor.BN(200_000_000),
+      totalClaimed: new anchor.BN(200_000_000),
+      remaining: new anchor.BN(800_000_000),
+    },
+  }),
+  event(day(50), {
+    name: "vestingRevoked",
+    data: {
+      admin,
+      beneficiary,
+      mint: mintInfo.address,
+      unvestedAmount: new anchor.BN(500_000_000),
+      vestedAmount: new anchor.BN(500_000_000),
+    },
+  }),
+  event(day(60), {
+    name: "tokensClaimed",
+    data: {
+      beneficiary,
+      mint: mintInfo.address,
+      amount: new anchor.BN(100_000_000),
+      totalClaimed: new anchor.BN(300_000_000),
+      remaining: new anchor.BN(200_000_000),
+    },
+  }),
+];
+
+describe("reports", () => {
+  it("exports schedules with the mint's decimals", () => {
+    const info = toVestingInfo(schedulePda, account, start + 70 * oneDay);
+    const record = scheduleToRecord(info, mintInfo, start + 70 * oneDay);
+
+    expect(record.totalAmount).to.equal("1000");
+    expect(record.claimedAmount).to.equal("300");
+    expect(record.claimableAmount).to.equal("200");
+    expect(record.revokedAmount).to.equal("500");
+    expect(record.status).to.equal("Revoked");
+
+    const [header, row] = schedulesToCsv([record]).trim().split("\n");
+    expect(header.split(",")).to.have.length(17);
+    // The symbol is quoted, with its quote doubled
+    expect(row).to.contain(',"US""D, Coin",6,');
+  });
+
+  it("exports history with the amount each event moved", () => {
+    const records = events.map((e) => eventToRecord(schedulePda, e, mintInfo));
+
+    expect(
+      records.map((record) => [record.event, record.amount])
+    ).to.deep.equal([
+      ["Created", "1000"],
+      ["Claimed", "200"],
+      ["Revoked", "500"],
+      ["Claimed", "100"],
+    ]);
+    expect(eventsToCsv(records).trim().split("\n")).to.have.length(5);
+  });
+
+  it("states a beneficiary's position as of a past date", () => {
+    const info = toVestingInfo(schedulePda, account);
+    const inputs = [{ info, mintInfo, events }];
+
+    // Before the revoke, vesting follows the curve
+    const [before] = buildVestingStatement(beneficiary, inputs, day(30)).lines;
+    expect(before.vestedAmount.toNumber()).to.equal(300_000_000);
+    expect(before.claimedAmount.toNumber()).to.equal(200_000_000);
+    expect(before.unclaimedAmount.toNumber()).to.equal(100_000_000);
+    expect(before.revokedAmount.toNumber()).to.equal(0);
+
+    // After it, vesting is frozen and the later claim counts
+    const [after] = buildVestingStatement(beneficiary, inputs, day(90)).lines;
+    expect(after.vestedAmount.toNumber()).to.equal(500_000_000);
+    expect(after.claimedAmount.toNumber()).to.equal(300_000_000);
+    expect(after.revokedAmount.toNumber()).to.equal(500_000_000);
+    expect(after.claims).to.have.length(2);
+
+    // Not created yet, or not this beneficiary's
+    expect(buildVestingStatement(beneficiary, inputs, day(-1)).lines).to.be
+      .empty;
+    expect(buildVestingStatement(admin, inputs, day(90)).lines).to.be.empty;
+  });
+});
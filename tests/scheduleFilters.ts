@@ -0,0 +1,182 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Keypair } from "@solana/web3.js";
+import { expect } from "chai";
+import { LINEAR_RELEASE, VestingSchedule, toVestingInfo } from "../sdk/src";
+import {
+  DEFAULT_FILTERS,
+  ScheduleFilters,
+  applyFilters,
+  parseFilters,
+  serializeFilters,
+} from "../frontend/src/utils/scheduleFilters";
+
+const oneDay = 86_400;
+const now = 1_700_000_000;
+
+const admin = Keypair.generate().publicKey;
+const otherAdmin = Keypair.generate().publicKey;
+const usdc = Keypair.generate().publicKey;
+const bonk = Keypair.generate().publicKey;
+
+function schedule(
+  name: string,
+  overrides: Partial<VestingSchedule>
+): [string, VestingSchedule] {
+  return [
+    name,
+    {
+      admin,
+      beneficiary: Keypair.generate().publicKey,
+      mint: usdc,
+      totalAmount: new anchor.BN(1_000),
+      claimedAmount: new anchor.BN(0),
+      startTime: new anchor.BN(now - 50 * oneDay),
+      cliffDuration: new anchor.BN(0),
+      vestingDuration: new anchor.BN(100 * oneDay),
+      isRevoked: false,
+      revokedAmount: new anchor.BN(0),
+      bump: 255,
+      vaultBump: 255,
+      scheduleId: new anchor.BN(0),
+      authority: admin,
+      revokeAuthority: admin,
+      allowCrank: false,
+      allowAdminTransfer: false,
+      ...LINEAR_RELEASE,
+      ...overrides,
+    },
+  ];
+}
+
+const [vesting, upcoming, revoked] = [
+  // 1000, halfway through with 500 claimable and 50 days to go
+  schedule("vesting", {}),
+  // 3000 starting in 10 days, ending in 110
+  schedule("upcoming", {
+    mint: bonk,
+    totalAmount: new anchor.BN(3_000),
+    startTime: new anchor.BN(now + 10 * oneDay),
+  }),
+  // 2000 from another admin, revoked with 200 left to claim, ending in 20 days
+  schedule("revoked", {
+    admin: otherAdmin,
+    totalAmount: new anchor.BN(2_000),
+    claimedAmount: new anchor.BN(1_000),
+    startTime: new anchor.BN(now - 80 * oneDay),
+    isRevoked: true,
+    revokedAmount: new anchor.BN(800),
+  }),
+].map(([name, account]) => ({
+  name,
+  info: toVestingInfo(Keypair.generate().publicKey, account, now),
+}));
+
+const all = [vesting, upcoming, revoked].map(({ info }) => info);
+
+const filtered = (changes: Partial<ScheduleFilters>) =>
+  applyFilters([...all], { ...DEFAULT_FILTERS, ...changes }, now).map(
+    (info) => [vesting, upcoming, revoked].find((s) => s.info === info)?.name
+  );
+
+describe("schedule filters", () => {
+  it("parses an empty query as the defaults", () => {
+    expect(parseFilters("")).to.deep.equal({
+      ...DEFAULT_FILTERS,
+      status: undefined,
+      mint: undefined,
+      address: undefined,
+    });
+  });
+
+  it("round-trips every filter through the query string", () => {
+    const filters: ScheduleFilters = {
+      tab: "admin",
+      status: "fullyVested",
+      mint: usdc.toBase58(),
+      address: "abc",
+      sort: "claimable",
+      descending: true,
+      layout: "table",
+      page: 3,
+    };
+
+    const query = serializeFilters(filters);
+    expect(query).to.equal(
+      `?tab=admin&status=fullyVested&mint=${usdc.toBase58()}&address=abc` +
+        "&sort=claimable&order=desc&layout=table&page=3"
+    );
+    expect(parseFilters(query)).to.deep.equal(filters);
+  });
+
+  it("leaves defaults out of the query string", () => {
+    expect(serializeFilters(DEFAULT_FILTERS)).to.equal("");
+    expect(serializeFilters({ ...DEFAULT_FILTERS, page: 2 })).to.equal(
+      "?page=2"
+    );
+  });
+
+  it("keeps parameters that aren't filters", () => {
+    const search = "?cluster=devnet&tab=admin&page=4";
+
+    expect(serializeFilters({ ...DEFAULT_FILTERS, page: 2 }, search)).to.equal(
+      "?cluster=devnet&page=2"
+    );
+    expect(serializeFilters(DEFAULT_FILTERS, search)).to.equal(
+      "?cluster=devnet"
+    );
+  });
+
+  it("ignores values it doesn't recognise", () => {
+    expect(
+      parseFilters("?tab=other&status=paused&sort=name&order=up&page=2.5")
+    ).to.include({
+      tab: "beneficiary",
+      status: undefined,
+      sort: "end",
+      descending: false,
+      page: 1,
+    });
+    expect(parseFilters("?layout=list&page=-1&mint=")).to.include({
+      layout: "cards",
+      page: 1,
+      mint: undefined,
+    });
+  });
+
+  it("filters by status, mint and part of either address", () => {
+    expect(filtered({ status: "vesting" })).to.deep.equal(["vesting"]);
+    expect(filtered({ status: "notStarted" })).to.deep.equal(["upcoming"]);
+    expect(filtered({ mint: usdc.toBase58() })).to.deep.equal([
+      "revoked",
+      "vesting",
+    ]);
+
+    const beneficiary = upcoming.info.account.beneficiary.toBase58();
+    expect(
+      filtered({ address: ` ${beneficiary.slice(5, 15).toLowerCase()} ` })
+    ).to.deep.equal(["upcoming"]);
+    expect(filtered({ address: otherAdmin.toBase58() })).to.deep.equal([
+      "revoked",
+    ]);
+    expect(filtered({ status: "vesting", mint: bonk.toBase58() })).to.be.empty;
+  });
+
+  it("sorts by end date, claimable or total amount", () => {
+    expect(filtered({})).to.deep.equal(["revoked", "vesting", "upcoming"]);
+    expect(filtered({ descending: true })).to.deep.equal([
+      "upcoming",
+      "vesting",
+      "revoked",
+    ]);
+    expect(filtered({ sort: "claimable" })).to.deep.equal([
+      "upcoming",
+      "revoked",
+      "vesting",
+    ]);
+    expect(filtered({ sort: "total", descending: true })).to.deep.equal([
+      "upcoming",
+      "revoked",
+      "vesting",
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import * as anchor from "@coral-xyz/anchor";
+import { expect } from "chai";
+import {
+  LINEAR_RELEASE,
+  SimulationParams,
+  VestingValidationError,
+  simulateVesting,
+  simulationToCsv,
+} from "../sdk/src";
+
+const oneDay = 86_400;
+const start = 1_700_000_000;
+const day = (n: number) => start + n * oneDay;
+
+// 1000 tokens (no decimals) vesting linearly over 100 days
+function params(overrides: Partial<SimulationParams> = {}): SimulationParams {
+  return {
+    totalAmount: new anchor.BN(1_000),
+    startTime: new anchor.BN(start),
+    cliffDuration: new anchor.BN(0),
+    vestingDuration: new anchor.BN(100 * oneDay),
+    ...LINEAR_RELEASE,
+    ...overrides,
+  };
+}
+
+describe("simulator", () => {
+  it("splits a revoked grant between the beneficiary and the admin", () => {
+    const { rows, schedule } = simulateVesting(
+      params({ claimAt: [day(25), day(60)], revokeAt: day(50) })
+    );
+    const actions = rows.filter((row) => row.kind !== "schedule");
+
+    expect(actions.map((row) => row.kind)).to.deep.equal([
+      "claim",
+      "revoke",
+      "claim",
+    ]);
+    expect(actions.map((row) => row.amount?.toNumber())).to.deep.equal([
+      250, 500, 250,
+    ]);
+    expect(schedule.claimedAmount?.toNumber()).to.equal(500);
+    expect(schedule.revokedAmount?.toNumber()).to.equal(500);
+
+    // Vesting stops at the revoke
+    const last = rows[rows.length - 1];
+    expect(last.vested.toNumber()).to.equal(500);
+    expect(last.claimable.toNumber()).to.equal(0);
+    expect(last.returnedToAdmin.toNumber()).to.equal(500);
+  });
+
+  it("records the errors the program would raise", () => {
+    const { rows } = simulateVesting(
+      params({
+        cliffDuration: new anchor.BN(10 * oneDay),
+        claimAt: [day(5), day(20), day(20)],
+        revokeAt: day(100),
+      })
+    );
+    const failures = rows
+      .filter((row) => row.kind !== "schedule")
+      .map((row) => row.failure);
+
+    expect(failures).to.deep.equal([
+      "CliffNotReached",
+      undefined,
+      "NothingToClaim",
+      "VestingCompleted",
+    ]);
+  });
+
+  it("accounts for every token at every step", () => {
+    const { rows } = simulateVesting(
+      params({
+        initialUnlockBps: 1_000,
+        curve: { periodic: { period: new anchor.BN(7 * oneDay) } },
+        claimAt: [day(3), day(33), day(64)],
+        revokeAt: day(45),
+      })
+    );
+    for (const row of rows) {
+      const inVault = row.vested.sub(row.claimed);
+      expect(
+        row.claimed.add(inVault).add(row.returnedToAdmin).toNumber()
+      ).to.be.at.most(1_000);
+      expect(row.claimable.eq(inVault)).to.be.true;
+    }
+  });
+
+  it("rejects terms the program would reject", () => {
+    expect(() =>
+      simulateVesting(params({ vestingDuration: new anchor.BN(60) }))
+    ).to.throw(VestingValidationError);
+  });
+
+  it("exports one CSV line per row", () => {
+    const result = simulateVesting(params({ claimAt: [day(25)] }));
+    const lines = simulationToCsv(result, 2).trim().split("\n");
+
+    expect(lines[0]).to.equal(
+      "date,event,vested,claimed,claimable,returned_to_admin,amount,failure"
+    );
+    expect(lines).to.have.length(result.rows.length + 1);
+    expect(lines).to.include("2023-12-09T22:13:20.000Z,claim,2.5,2.5,0,0,2.5,");
+  });
+});
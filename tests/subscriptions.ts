@@ -0,0 +1,107 @@
+import { createHash } from "crypto";
+import { utils } from "@coral-xyz/anchor";
+import {
+  Connection,
+  GetProgramAccountsFilter,
+  Keypair,
+  PublicKey,
+} from "@solana/web3.js";
+import { expect } from "chai";
+import {
+  ADMIN_OFFSET,
+  AUTHORITY_OFFSET,
+  BENEFICIARY_OFFSET,
+  REVOKE_AUTHORITY_OFFSET,
+  VestingClient,
+  VestingScheduleFilter,
+  getVestingPDA,
+} from "../sdk/src";
+
+type LogsCallback = (logs: { err: unknown; logs: string[] }) => void;
+
+// Records the subscriptions made instead of opening a websocket
+function fakeConnection() {
+  const subscriptions: GetProgramAccountsFilter[][] = [];
+  const logListeners: LogsCallback[] = [];
+  const connection = {
+    rpcEndpoint: "http://127.0.0.1:1",
+    onProgramAccountChange: (
+      _programId: PublicKey,
+      _callback: unknown,
+      config: { filters: GetProgramAccountsFilter[] }
+    ) => subscriptions.push(config.filters),
+    onLogs: (_programId: PublicKey, callback: LogsCallback) =>
+      logListeners.push(callback),
+  };
+  const client = VestingClient.readOnly(connection as unknown as Connection);
+  return { client, subscriptions, logListeners };
+}
+
+const key = Keypair.generate().publicKey;
+
+describe("schedule subscriptions", () => {
+  it("filters on the field each kind of watcher is after", () => {
+    const { client, subscriptions } = fakeConnection();
+    const filters: VestingScheduleFilter[] = [
+      { admin: key },
+      { beneficiary: key },
+      { authority: key },
+      { revokeAuthority: key },
+    ];
+    const handlers = { onSchedule: () => {}, onClosed: () => {} };
+    filters.forEach((filter) =>
+      client.subscribeToVestingSchedules(filter, handlers)
+    );
+
+    // After the account discriminator
+    expect(subscriptions.map(([, memcmp]) => memcmp)).to.deep.equal([
+      { memcmp: { offset: ADMIN_OFFSET, bytes: key.toBase58() } },
+      { memcmp: { offset: BENEFICIARY_OFFSET, bytes: key.toBase58() } },
+      { memcmp: { offset: AUTHORITY_OFFSET, bytes: key.toBase58() } },
+      {
+        memcmp: {
+          offset: REVOKE_AUTHORITY_OFFSET,
+          bytes: utils.bytes.bs58.encode(
+            Buffer.concat([Buffer.from([1]), key.toBuffer()])
+          ),
+        },
+      },
+    ]);
+  });
+
+  it("tells authority watchers of every close", () => {
+    const { client, logListeners } = fakeConnection();
+    const closed: string[][] = [[], []];
+    [{ beneficiary: key }, { authority: key }].forEach((filter, i) =>
+      client.subscribeToVestingSchedules(filter, {
+        onSchedule: () => {},
+        onClosed: (vestingPDA) => closed[i].push(vestingPDA.toBase58()),
+      })
+    );
+
+    // Someone else's schedule, closed: the event's discriminator, then its
+    // admin, beneficiary, mint and schedule id
+    const [admin, beneficiary, mint] = [0, 1, 2].map(
+      () => Keypair.generate().publicKey
+    );
+    const encoded = Buffer.concat([
+      createHash("sha256")
+        .update("event:VestingClosed")
+        .digest()
+        .subarray(0, 8),
+      admin.toBuffer(),
+      beneficiary.toBuffer(),
+      mint.toBuffer(),
+      Buffer.alloc(8),
+    ]).toString("base64");
+    const logs = [
+      `Program ${client.programId.toBase58()} invoke [1]`,
+      `Program data: ${encoded}`,
+      `Program ${client.programId.toBase58()} success`,
+    ];
+    logListeners.forEach((listener) => listener({ err: null, logs }));
+
+    const [pda] = getVestingPDA(admin, beneficiary, mint, 0, client.programId);
+    expect(closed).to.deep.equal([[], [pda.toBase58()]]);
+  });
+});
@@ -0,0 +1,324 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccount,
+  createInitializeMintInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  createMint,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  getMintLen,
+  mintTo,
+} from "@solana/spl-token";
+import { expect } from "chai";
+import { TokenVesting, VestingClient, getVaultPDA } from "../sdk/src";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("token programs", () => {
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.TokenVesting as Program<TokenVesting>;
+  const client = new VestingClient(program);
+  const admin = provider.wallet as anchor.Wallet;
+
+  const oneDay = 86_400;
+  const totalAmount = new anchor.BN(1_000_000_000);
+
+  async function fundedBeneficiary() {
+    const beneficiary = anchor.web3.Keypair.generate();
+    const signature = await provider.connection.requestAirdrop(
+      beneficiary.publicKey,
+      anchor.web3.LAMPORTS_PER_SOL
+    );
+    await provider.connection.confirmTransaction(signature);
+    return beneficiary;
+  }
+
+  async function mintToAdmin(
+    mint: anchor.web3.PublicKey,
+    tokenProgram: anchor.web3.PublicKey,
+    amount: number
+  ) {
+    const account = await createAssociatedTokenAccount(
+      provider.connection,
+      admin.payer,
+      mint,
+      admin.publicKey,
+      undefined,
+      tokenProgram
+    );
+    await mintTo(
+      provider.connection,
+      admin.payer,
+      mint,
+      account,
+      admin.publicKey,
+      amount,
+      [],
+      undefined,
+      tokenProgram
+    );
+    return account;
+  }
+
+  for (const [label, tokenProgram] of [
+    ["SPL Token", TOKEN_PROGRAM_ID],
+    ["Token-2022", TOKEN_2022_PROGRAM_ID],
+  ] as const) {
+    describe(label, () => {
+      let mint: anchor.web3.PublicKey;
+
+      before(async () => {
+        mint = await createMint(
+          provider.connection,
+          admin.payer,
+          admin.publicKey,
+          null,
+          6,
+          undefined,
+          undefined,
+          tokenProgram
+        );
+        await mintToAdmin(mint, tokenProgram, 2 * totalAmount.toNumber());
+      });
+
+      it("detects the mint's token program", async () => {
+        const info = await client.fetchMintInfo(mint);
+        expect(info.tokenProgram.toBase58()).to.equal(tokenProgram.toBase58());
+        expect(info.decimals).to.equal(6);
+      });
+
+      it("creates, claims and revokes", async () => {
+        const beneficiary = await fundedBeneficiary();
+        const beneficiaryClient = VestingClient.fromProvider(
+          new anchor.AnchorProvider(
+            provider.connection,
+            new anchor.Wallet(beneficiary),
+            provider.opts
+          ),
+          program.programId
+        );
+
+        const startTime = new anchor.BN(Math.floor(Date.now() / 1000) + 3);
+        await client.createVestingSchedule(
+          beneficiary.publicKey,
+          mint,
+          totalAmount,
+          startTime,
+          new anchor.BN(0),
+          new anchor.BN(oneDay)
+        );
+
+        const [schedulePda] = client.getVestingPDA(
+          admin.publicKey,
+          beneficiary.publicKey,
+          mint
+        );
+        const [vaultPda] = getVaultPDA(schedulePda, program.programId);
+        const vault = await getAccount(
+          provider.connection,
+          vaultPda,
+          undefined,
+          tokenProgram
+        );
+        expect(Number(vault.amount)).to.equal(totalAmount.toNumber());
+
+        await sleep(5_000);
+        await beneficiaryClient.claim(admin.publicKey, mint);
+
+        const beneficiaryAccount = await getAccount(
+          provider.connection,
+          getAssociatedTokenAddressSync(
+            mint,
+            beneficiary.publicKey,
+            false,
+            tokenProgram
+          ),
+          undefined,
+          tokenProgram
+        );
+        expect(Number(beneficiaryAccount.amount)).to.be.greaterThan(0);
+
+        await client.revoke(beneficiary.publicKey, mint);
+        const schedule = await client.fetchVestingSchedule(schedulePda);
+        expect(schedule?.isRevoked).to.be.true;
+        expect(schedule?.revokedAmount.toNumber()).to.be.greaterThan(0);
+      });
+    });
+  }
+
+  describe("Token-2022 transfer fee", () => {
+    const feeBasisPoints = 100; // 1%
+    let mint: anchor.web3.PublicKey;
+    let adminTokenAccount: anchor.web3.PublicKey;
+
+    before(async () => {
+      const mintKeypair = anchor.web3.Keypair.generate();
+      const mintLen = getMintLen([ExtensionType.TransferFeeConfig]);
+      const lamports =
+        await provider.connection.getMinimumBalanceForRentExemption(mintLen);
+
+      const tx = new anchor.web3.Transaction().add(
+        anchor.web3.SystemProgram.createAccount({
+          fromPubkey: admin.publicKey,
+          newAccountPubkey: mintKeypair.publicKey,
+          space: mintLen,
+          lamports,
+          programId: TOKEN_2022_PROGRAM_ID,
+        }),
+        createInitializeTransferFeeConfigInstruction(
+          mintKeypair.publicKey,
+          admin.publicKey,
+          admin.publicKey,
+          feeBasisPoints,
+          BigInt(1_000_000_000),
+          TOKEN_2022_PROGRAM_ID
+        ),
+        createInitializeMintInstruction(
+          mintKeypair.publicKey,
+          6,
+          admin.publicKey,
+          null,
+          TOKEN_2022_PROGRAM_ID
+        )
+      );
+      await provider.sendAndConfirm(tx, [mintKeypair]);
+
+      mint = mintKeypair.publicKey;
+      adminTokenAccount = await mintToAdmin(
+        mint,
+        TOKEN_2022_PROGRAM_ID,
+        2 * totalAmount.toNumber()
+      );
+    });
+
+    it("funds the vault with exactly total_amount", async () => {
+      const beneficiary = anchor.web3.Keypair.generate();
+      const before = await getAccount(
+        provider.connection,
+        adminTokenAccount,
+        undefined,
+        TOKEN_2022_PROGRAM_ID
+      );
+
+      await client.createVestingSchedule(
+        beneficiary.publicKey,
+        mint,
+        totalAmount,
+        new anchor.BN(Math.floor(Date.now() / 1000) + 3600),
+        new anchor.BN(0),
+        new anchor.BN(oneDay * 30)
+      );
+
+      const [schedulePda] = client.getVestingPDA(
+        admin.publicKey,
+        beneficiary.publicKey,
+        mint
+      );
+      const [vaultPda] = getVaultPDA(schedulePda, program.programId);
+      const vault = await getAccount(
+        provider.connection,
+        vaultPda,
+        undefined,
+        TOKEN_2022_PROGRAM_ID
+      );
+      expect(Number(vault.amount)).to.equal(totalAmount.toNumber());
+
+      // The admin pays the fee on top of the vested amount
+      const after = await getAccount(
+        provider.connection,
+        adminTokenAccount,
+        undefined,
+        TOKEN_2022_PROGRAM_ID
+      );
+      const spent = Number(before.amount) - Number(after.amount);
+      expect(spent).to.be.greaterThan(totalAmount.toNumber());
+      expect(spent).to.be.at.most(
+        Math.ceil(totalAmount.toNumber() / (1 - feeBasisPoints / 10_000)) + 1
+      );
+    });
+
+    it("closes a vault holding withheld fees", async () => {
+      const beneficiary = anchor.web3.Keypair.generate();
+      await client.createVestingSchedule(
+        beneficiary.publicKey,
+        mint,
+        totalAmount,
+        new anchor.BN(Math.floor(Date.now() / 1000) + 3600),
+        new anchor.BN(0),
+        new anchor.BN(oneDay * 30)
+      );
+      await client.revoke(beneficiary.publicKey, mint);
+
+      // The fee on the deposit stays withheld in the vault until harvested
+      await client.close(beneficiary.publicKey, mint);
+
+      const [schedulePda] = client.getVestingPDA(
+        admin.publicKey,
+        beneficiary.publicKey,
+        mint
+      );
+      const [vaultPda] = getVaultPDA(schedulePda, program.programId);
+      expect(await provider.connection.getAccountInfo(schedulePda)).to.be.null;
+      expect(await provider.connection.getAccountInfo(vaultPda)).to.be.null;
+    });
+
+    it("refuses to move a grant, as the fee would leave it short", async () => {
+      const beneficiary = anchor.web3.Keypair.generate();
+      const newBeneficiary = anchor.web3.Keypair.generate().publicKey;
+      await client.createVestingSchedule(
+        beneficiary.publicKey,
+        mint,
+        totalAmount,
+        new anchor.BN(Math.floor(Date.now() / 1000) + 3600),
+        new anchor.BN(0),
+        new anchor.BN(oneDay * 30)
+      );
+      const [schedulePda] = client.getVestingPDA(
+        admin.publicKey,
+        beneficiary.publicKey,
+        mint
+      );
+      await program.methods
+        .setAllowAdminTransfer(true)
+        .accountsStrict({
+          beneficiary: beneficiary.publicKey,
+          vestingSchedule: schedulePda,
+        })
+        .signers([beneficiary])
+        .rpc();
+
+      try {
+        await client.transferBeneficiary(
+          admin.publicKey,
+          beneficiary.publicKey,
+          mint,
+          newBeneficiary
+        );
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("TransferFeeNotSupported");
+      }
+
+      // The grant stays where it was, fully funded
+      const [vaultPda] = getVaultPDA(schedulePda, program.programId);
+      const vault = await getAccount(
+        provider.connection,
+        vaultPda,
+        undefined,
+        TOKEN_2022_PROGRAM_ID
+      );
+      expect(Number(vault.amount)).to.equal(totalAmount.toNumber());
+      expect(
+        await provider.connection.getAccountInfo(
+          client.getVestingPDA(admin.publicKey, newBeneficiary, mint)[0]
+        )
+      ).to.be.null;
+    });
+  });
+});
@@ -1,15 +1,42 @@
 import * as anchor from "@coral-xyz/anchor";
 import { Program } from "@coral-xyz/anchor";
-import { TokenVesting } from "../target/types/token_vesting";
+import {
+  LEGACY_VESTING_SCHEDULE_SIZE,
+  LINEAR_RELEASE,
+  TokenVesting,
+  VESTING_SCHEDULE_SIZE,
+  VestingClient,
+  claimAll,
+  decodeTransaction,
+  decodeVestingSchedule,
+  getVaultPDA,
+  getVestingPDA,
+  revokeVestingInstructions,
+  setAuthorityInstructions,
+  translateVestingError,
+} from "../sdk/src";
 import {
   createMint,
   createAssociatedTokenAccount,
   mintTo,
   getAccount,
+  getAssociatedTokenAddressSync,
   TOKEN_PROGRAM_ID,
-  ASSOCIATED_TOKEN_PROGRAM_ID,
 } from "@solana/spl-token";
 import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadKeeperState, runKeeper } from "../cli/keeper";
+import {
+  LEGACY_ADMIN,
+  LEGACY_BENEFICIARY,
+  LEGACY_GRANTS,
+  LEGACY_MINT,
+  LEGACY_TOTAL_AMOUNT,
+  legacySchedulePDA,
+} from "./fixtures/legacy";
+import { createVestingUnchecked } from "./utils";
 
 describe("token-vesting", () => {
   // Configure the client
@@ -17,7 +44,8 @@ describe("token-vesting", () => {
   anchor.setProvider(provider);
 
   const program = anchor.workspace.TokenVesting as Program<TokenVesting>;
-  
+  const client = new VestingClient(program);
+
   // Test accounts
   let mint: anchor.web3.PublicKey;
   let adminTokenAccount: anchor.web3.PublicKey;
@@ -27,6 +55,30 @@ describe("token-vesting", () => {
   
   const admin = provider.wallet;
   const beneficiary = anchor.web3.Keypair.generate();
+  const beneficiaryClient = VestingClient.fromProvider(
+    new anchor.AnchorProvider(
+      provider.connection,
+      new anchor.Wallet(beneficiary),
+      provider.opts
+    ),
+    program.programId
+  );
+
+  async function fundedClient(wallet = anchor.web3.Keypair.generate()) {
+    const airdrop = await provider.connection.requestAirdrop(
+      wallet.publicKey,
+      anchor.web3.LAMPORTS_PER_SOL
+    );
+    await provider.connection.confirmTransaction(airdrop);
+    return VestingClient.fromProvider(
+      new anchor.AnchorProvider(
+        provider.connection,
+        new anchor.Wallet(wallet),
+        provider.opts
+      ),
+      program.programId
+    );
+  }
   
   // Vesting parameters
   const totalAmount = new anchor.BN(1_000_000_000); // 1 billion tokens (9 decimals = 1 token)
@@ -70,20 +122,14 @@ describe("token-vesting", () => {
     );
 
     // Derive PDAs
-    [vestingSchedulePda] = anchor.web3.PublicKey.findProgramAddressSync(
-      [
-        Buffer.from("vesting"),
-        admin.publicKey.toBuffer(),
-        beneficiary.publicKey.toBuffer(),
-        mint.toBuffer(),
-      ],
-      program.programId
-    );
-
-    [vaultPda] = anchor.web3.PublicKey.findProgramAddressSync(
-      [Buffer.from("vault"), vestingSchedulePda.toBuffer()],
+    [vestingSchedulePda] = getVestingPDA(
+      admin.publicKey,
+      beneficiary.publicKey,
+      mint,
+      0,
       program.programId
     );
+    [vaultPda] = getVaultPDA(vestingSchedulePda, program.programId);
   });
 
   describe("create_vesting_schedule", () => {
@@ -91,32 +137,22 @@ describe("token-vesting", () => {
       // Start time is 1 hour from now
       const startTime = new anchor.BN(Math.floor(Date.now() / 1000) + 3600);
 
-      const tx = await program.methods
-        .createVestingSchedule(
-          totalAmount,
-          startTime,
-          cliffDuration,
-          vestingDuration
-        )
-        .accounts({
-          admin: admin.publicKey,
-          beneficiary: beneficiary.publicKey,
-          mint,
-          vestingSchedule: vestingSchedulePda,
-          vault: vaultPda,
-          adminTokenAccount,
-          systemProgram: anchor.web3.SystemProgram.programId,
-          tokenProgram: TOKEN_PROGRAM_ID,
-          associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
-        })
-        .rpc();
+      const tx = await client.createVestingSchedule(
+        beneficiary.publicKey,
+        mint,
+        totalAmount,
+        startTime,
+        cliffDuration,
+        vestingDuration
+      );
 
       console.log("Create vesting tx:", tx);
 
-      // Fetch and verify the vesting schedule
-      const vestingSchedule = await program.account.vestingSchedule.fetch(
+      // Fetch and verify the vesting schedule through the typed SDK decoder
+      const vestingSchedule = await client.fetchVestingSchedule(
         vestingSchedulePda
       );
+      if (!vestingSchedule) throw new Error("Vesting schedule not found");
 
       expect(vestingSchedule.admin.toBase58()).to.equal(admin.publicKey.toBase58());
       expect(vestingSchedule.beneficiary.toBase58()).to.equal(beneficiary.publicKey.toBase58());
@@ -135,40 +171,18 @@ describe("token-vesting", () => {
       const startTime = new anchor.BN(Math.floor(Date.now() / 1000) + 3600);
       
       const newBeneficiary = anchor.web3.Keypair.generate();
-      const [newVestingPda] = anchor.web3.PublicKey.findProgramAddressSync(
-        [
-          Buffer.from("vesting"),
-          admin.publicKey.toBuffer(),
-          newBeneficiary.publicKey.toBuffer(),
-          mint.toBuffer(),
-        ],
-        program.programId
-      );
-      const [newVaultPda] = anchor.web3.PublicKey.findProgramAddressSync(
-        [Buffer.from("vault"), newVestingPda.toBuffer()],
-        program.programId
-      );
 
       try {
-        await program.methods
-          .createVestingSchedule(
-            totalAmount,
-            startTime,
-            new anchor.BN(0),
-            shortDuration
-          )
-          .accounts({
-            admin: admin.publicKey,
-            beneficiary: newBeneficiary.publicKey,
-            mint,
-            vestingSchedule: newVestingPda,
-            vault: newVaultPda,
-            adminTokenAccount,
-            systemProgram: anchor.web3.SystemProgram.programId,
-            tokenProgram: TOKEN_PROGRAM_ID,
-            associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
-          })
-          .rpc();
+        await createVestingUnchecked(
+          program,
+          admin.publicKey,
+          newBeneficiary.publicKey,
+          mint,
+          totalAmount,
+          startTime,
+          new anchor.BN(0),
+          shortDuration
+        );
         
         expect.fail("Should have thrown error");
       } catch (error: any) {
@@ -182,40 +196,18 @@ describe("token-vesting", () => {
       const longCliff = new anchor.BN(oneDay * 60); // 60% cliff
       
       const newBeneficiary = anchor.web3.Keypair.generate();
-      const [newVestingPda] = anchor.web3.PublicKey.findProgramAddressSync(
-        [
-          Buffer.from("vesting"),
-          admin.publicKey.toBuffer(),
-          newBeneficiary.publicKey.toBuffer(),
-          mint.toBuffer(),
-        ],
-        program.programId
-      );
-      const [newVaultPda] = anchor.web3.PublicKey.findProgramAddressSync(
-        [Buffer.from("vault"), newVestingPda.toBuffer()],
-        program.programId
-      );
 
       try {
-        await program.methods
-          .createVestingSchedule(
-            totalAmount,
-            startTime,
-            longCliff,
-            duration
-          )
-          .accounts({
-            admin: admin.publicKey,
-            beneficiary: newBeneficiary.publicKey,
-            mint,
-            vestingSchedule: newVestingPda,
-            vault: newVaultPda,
-            adminTokenAccount,
-            systemProgram: anchor.web3.SystemProgram.programId,
-            tokenProgram: TOKEN_PROGRAM_ID,
-            associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
-          })
-          .rpc();
+        await createVestingUnchecked(
+          program,
+          admin.publicKey,
+          newBeneficiary.publicKey,
+          mint,
+          totalAmount,
+          startTime,
+          longCliff,
+          duration
+        );
         
         expect.fail("Should have thrown error");
       } catch (error: any) {
@@ -238,26 +230,24 @@ describe("token-vesting", () => {
       }
 
       try {
-        await program.methods
-          .claim()
-          .accounts({
-            beneficiary: beneficiary.publicKey,
-            vestingSchedule: vestingSchedulePda,
-            mint,
-            vault: vaultPda,
-            beneficiaryTokenAccount,
-            systemProgram: anchor.web3.SystemProgram.programId,
-            tokenProgram: TOKEN_PROGRAM_ID,
-            associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
-          })
-          .signers([beneficiary])
-          .rpc();
+        await beneficiaryClient.claim(admin.publicKey, mint);
         
         expect.fail("Should have thrown error");
       } catch (error: any) {
         expect(error.error.errorCode.code).to.equal("CliffNotReached");
       }
     });
+
+    it("translates program errors into typed vesting errors", async () => {
+      try {
+        await beneficiaryClient.claim(admin.publicKey, mint);
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        const vestingError = translateVestingError(error);
+        expect(vestingError.kind).to.equal("CliffNotReached");
+        expect(vestingError.action).to.be.a("string");
+      }
+    });
   });
 
   describe("revoke", () => {
@@ -266,62 +256,33 @@ describe("token-vesting", () => {
       const newBeneficiary = anchor.web3.Keypair.generate();
       const startTime = new anchor.BN(Math.floor(Date.now() / 1000) + 3600);
       
-      const [newVestingPda] = anchor.web3.PublicKey.findProgramAddressSync(
-        [
-          Buffer.from("vesting"),
-          admin.publicKey.toBuffer(),
-          newBeneficiary.publicKey.toBuffer(),
-          mint.toBuffer(),
-        ],
-        program.programId
-      );
-      const [newVaultPda] = anchor.web3.PublicKey.findProgramAddressSync(
-        [Buffer.from("vault"), newVestingPda.toBuffer()],
-        program.programId
+      const [newVestingPda] = client.getVestingPDA(
+        admin.publicKey,
+        newBeneficiary.publicKey,
+        mint
       );
 
       // Create the vesting
-      await program.methods
-        .createVestingSchedule(
-          new anchor.BN(500_000_000),
-          startTime,
-          cliffDuration,
-          vestingDuration
-        )
-        .accounts({
-          admin: admin.publicKey,
-          beneficiary: newBeneficiary.publicKey,
-          mint,
-          vestingSchedule: newVestingPda,
-          vault: newVaultPda,
-          adminTokenAccount,
-          systemProgram: anchor.web3.SystemProgram.programId,
-          tokenProgram: TOKEN_PROGRAM_ID,
-          associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
-        })
-        .rpc();
+      await client.createVestingSchedule(
+        newBeneficiary.publicKey,
+        mint,
+        new anchor.BN(500_000_000),
+        startTime,
+        cliffDuration,
+        vestingDuration
+      );
 
       // Get admin token balance before revoke
       const beforeBalance = await getAccount(provider.connection, adminTokenAccount);
 
       // Revoke the vesting
-      const tx = await program.methods
-        .revoke()
-        .accounts({
-          admin: admin.publicKey,
-          vestingSchedule: newVestingPda,
-          mint,
-          vault: newVaultPda,
-          adminTokenAccount,
-          tokenProgram: TOKEN_PROGRAM_ID,
-        })
-        .rpc();
+      const tx = await client.revoke(newBeneficiary.publicKey, mint);
 
       console.log("Revoke tx:", tx);
 
       // Verify the vesting is revoked
-      const vestingSchedule = await program.account.vestingSchedule.fetch(newVestingPda);
-      expect(vestingSchedule.isRevoked).to.be.true;
+      const vestingSchedule = await client.fetchVestingSchedule(newVestingPda);
+      expect(vestingSchedule?.isRevoked).to.be.true;
 
       // Verify tokens returned to admin
       const afterBalance = await getAccount(provider.connection, adminTokenAccount);
@@ -332,8 +293,9 @@ describe("token-vesting", () => {
       try {
         await program.methods
           .revoke()
-          .accounts({
-            admin: beneficiary.publicKey, // Wrong admin
+          .accountsStrict({
+            revokeAuthority: beneficiary.publicKey, // Wrong revoke authority
+            admin: admin.publicKey,
             vestingSchedule: vestingSchedulePda,
             mint,
             vault: vaultPda,
@@ -350,4 +312,1088 @@ describe("token-vesting", () => {
       }
     });
   });
+
+  describe("claim after revoke", () => {
+    const sleep = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+
+    // A schedule with no cliff that starts in a few seconds, so tokens vest
+    // while the test runs
+    async function createStartingSoon() {
+      const grantee = anchor.web3.Keypair.generate();
+      const airdrop = await provider.connection.requestAirdrop(
+        grantee.publicKey,
+        anchor.web3.LAMPORTS_PER_SOL
+      );
+      await provider.connection.confirmTransaction(airdrop);
+
+      await client.createVestingSchedule(
+        grantee.publicKey,
+        mint,
+        new anchor.BN(100_000_000),
+        new anchor.BN(Math.floor(Date.now() / 1000) + 3),
+        new anchor.BN(0),
+        new anchor.BN(oneDay)
+      );
+      await sleep(5_000);
+
+      const granteeClient = VestingClient.fromProvider(
+        new anchor.AnchorProvider(
+          provider.connection,
+          new anchor.Wallet(grantee),
+          provider.opts
+        ),
+        program.programId
+      );
+      const [schedulePda] = client.getVestingPDA(
+        admin.publicKey,
+        grantee.publicKey,
+        mint
+      );
+      const [vault] = getVaultPDA(schedulePda, program.programId);
+      return { grantee, granteeClient, schedulePda, vault };
+    }
+
+    it("lets the beneficiary claim what vested before the revoke", async () => {
+      const { granteeClient, schedulePda, vault } = await createStartingSoon();
+
+      await client.revoke(granteeClient.walletPublicKey, mint);
+      const revoked = await client.fetchVestingSchedule(schedulePda);
+      if (!revoked) throw new Error("Vesting schedule not found");
+      const vestedAtRevoke = revoked.totalAmount.sub(revoked.revokedAmount);
+      expect(vestedAtRevoke.toNumber()).to.be.greaterThan(0);
+
+      // The vested remainder stays in the vault until claimed
+      const vaultBefore = await getAccount(provider.connection, vault);
+      expect(Number(vaultBefore.amount)).to.equal(vestedAtRevoke.toNumber());
+
+      await granteeClient.claim(admin.publicKey, mint);
+
+      const claimed = await client.fetchVestingSchedule(schedulePda);
+      expect(claimed?.claimedAmount.toNumber()).to.equal(
+        vestedAtRevoke.toNumber()
+      );
+      const vaultAfter = await getAccount(provider.connection, vault);
+      expect(Number(vaultAfter.amount)).to.equal(0);
+
+      // Vesting stopped at revoke, so there is nothing more to claim later
+      try {
+        await granteeClient.claim(admin.publicKey, mint);
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("NothingToClaim");
+      }
+    });
+
+    it("revokes after a partial claim and pays out the rest", async () => {
+      const { granteeClient, schedulePda, vault } = await createStartingSoon();
+
+      await granteeClient.claim(admin.publicKey, mint);
+      const partial = await client.fetchVestingSchedule(schedulePda);
+      if (!partial) throw new Error("Vesting schedule not found");
+      const firstClaim = partial.claimedAmount;
+      expect(firstClaim.toNumber()).to.be.greaterThan(0);
+
+      await sleep(2_000);
+      await client.revoke(granteeClient.walletPublicKey, mint);
+
+      const revoked = await client.fetchVestingSchedule(schedulePda);
+      if (!revoked) throw new Error("Vesting schedule not found");
+      expect(revoked.claimedAmount.toNumber()).to.equal(firstClaim.toNumber());
+      const remainder = revoked.totalAmount
+        .sub(revoked.revokedAmount)
+        .sub(revoked.claimedAmount);
+      expect(remainder.toNumber()).to.be.greaterThan(0);
+
+      await granteeClient.claim(admin.publicKey, mint);
+
+      const final = await client.fetchVestingSchedule(schedulePda);
+      expect(final?.claimedAmount.add(final.revokedAmount).toNumber()).to.equal(
+        final?.totalAmount.toNumber()
+      );
+      const vaultAfter = await getAccount(provider.connection, vault);
+      expect(Number(vaultAfter.amount)).to.equal(0);
+
+      // Newest first, with both claims adding up to what was paid out
+      const history = await client.fetchHistory(schedulePda);
+      expect(history.map((event) => event.name)).to.deep.equal([
+        "tokensClaimed",
+        "vestingRevoked",
+        "tokensClaimed",
+        "vestingCreated",
+      ]);
+      const claims = history.flatMap((event) =>
+        event.name === "tokensClaimed" ? [event.data.amount] : []
+      );
+      expect(claims[1].toNumber()).to.equal(firstClaim.toNumber());
+      expect(claims[0].add(claims[1]).toNumber()).to.equal(
+        final?.claimedAmount.toNumber()
+      );
+      expect(history.every((event) => event.blockTime !== null)).to.be.true;
+    });
+  });
+
+  describe("multiple schedules", () => {
+    it("creates an additional grant for the same beneficiary and mint", async () => {
+      const nextId = await client.findNextScheduleId(
+        beneficiary.publicKey,
+        mint
+      );
+      expect(nextId.toNumber()).to.equal(1);
+
+      const startTime = new anchor.BN(Math.floor(Date.now() / 1000) + 3600);
+      await client.createVestingSchedule(
+        beneficiary.publicKey,
+        mint,
+        new anchor.BN(250_000_000),
+        startTime,
+        cliffDuration,
+        vestingDuration,
+        nextId
+      );
+
+      const [refreshPda] = client.getVestingPDA(
+        admin.publicKey,
+        beneficiary.publicKey,
+        mint,
+        nextId
+      );
+      expect(refreshPda.toBase58()).to.not.equal(vestingSchedulePda.toBase58());
+      const refresh = await client.fetchVestingSchedule(refreshPda);
+      expect(refresh?.scheduleId.toNumber()).to.equal(1);
+      expect(refresh?.totalAmount.toNumber()).to.equal(250_000_000);
+
+      const grants = await client.fetchVestingSchedulesForGrant(
+        beneficiary.publicKey,
+        mint
+      );
+      expect(grants.map((g) => g.account.scheduleId.toNumber())).to.deep.equal([
+        0, 1,
+      ]);
+
+      const forBeneficiary = await client.fetchVestingSchedulesForBeneficiary(
+        beneficiary.publicKey
+      );
+      const addresses = forBeneficiary.map((info) => info.publicKey.toBase58());
+      expect(addresses).to.include(vestingSchedulePda.toBase58());
+      expect(addresses).to.include(refreshPda.toBase58());
+    });
+
+    it("revokes one grant without touching the other", async () => {
+      await client.revoke(beneficiary.publicKey, mint, 1);
+
+      const [refreshPda] = client.getVestingPDA(
+        admin.publicKey,
+        beneficiary.publicKey,
+        mint,
+        1
+      );
+      const refresh = await client.fetchVestingSchedule(refreshPda);
+      const original = await client.fetchVestingSchedule(vestingSchedulePda);
+      expect(refresh?.isRevoked).to.be.true;
+      expect(original?.isRevoked).to.be.false;
+    });
+
+    it("reads accounts created before schedule ids as id 0", async () => {
+      const account = await provider.connection.getAccountInfo(
+        vestingSchedulePda
+      );
+      if (!account) throw new Error("Vesting schedule not found");
+
+      // A legacy account is the current layout without the trailing schedule_id
+      // and release curve fields
+      const legacy = account.data.subarray(0, LEGACY_VESTING_SCHEDULE_SIZE);
+      const decoded = decodeVestingSchedule(program, legacy);
+      expect(decoded.scheduleId.toNumber()).to.equal(0);
+      expect(decoded.beneficiary.toBase58()).to.equal(
+        beneficiary.publicKey.toBase58()
+      );
+      expect(decoded.totalAmount.toNumber()).to.equal(totalAmount.toNumber());
+      expect(decoded.initialUnlockBps).to.equal(0);
+      expect(decoded.curve).to.have.property("linear");
+    });
+  });
+
+  describe("migrate_vesting_schedule", () => {
+    let legacyAdmin: VestingClient;
+    let legacyBeneficiary: VestingClient;
+
+    before(async () => {
+      legacyAdmin = await fundedClient(LEGACY_ADMIN);
+      legacyBeneficiary = await fundedClient(LEGACY_BENEFICIARY);
+      // Revoked tokens go back to the admin's token account
+      await createAssociatedTokenAccount(
+        provider.connection,
+        admin.payer,
+        LEGACY_MINT,
+        LEGACY_ADMIN.publicKey
+      );
+    });
+
+    async function migrate(
+      schedule: anchor.web3.PublicKey,
+      payer: VestingClient = client
+    ) {
+      await payer.program.methods
+        .migrateVestingSchedule()
+        .accountsStrict({
+          payer: payer.walletPublicKey,
+          vestingSchedule: schedule,
+          systemProgram: anchor.web3.SystemProgram.programId,
+        })
+        .rpc();
+      const account = await provider.connection.getAccountInfo(schedule);
+      return account!.data;
+    }
+
+    for (const grant of LEGACY_GRANTS) {
+      it(`migrates a ${grant.name} schedule that can then be claimed, revoked and closed`, async () => {
+        const schedulePda = legacySchedulePDA(grant);
+        const original = await provider.connection.getAccountInfo(schedulePda);
+        if (!original) {
+          throw new Error(
+            `${grant.name} fixture missing; run with anchor test so Anchor.toml loads it`
+          );
+        }
+        expect(original.data.length).to.equal(grant.size);
+
+        const data = await migrate(schedulePda);
+        expect(data.length).to.equal(VESTING_SCHEDULE_SIZE);
+        const migrated = decodeVestingSchedule(program, data);
+        expect(migrated.scheduleId.toNumber()).to.equal(grant.scheduleId);
+        expect(migrated.totalAmount.toNumber()).to.equal(LEGACY_TOTAL_AMOUNT);
+        expect(migrated.beneficiary.equals(LEGACY_BENEFICIARY.publicKey)).to.be
+          .true;
+        expect(migrated.authority.equals(LEGACY_ADMIN.publicKey)).to.be.true;
+        expect(migrated.revokeAuthority?.equals(LEGACY_ADMIN.publicKey)).to.be
+          .true;
+        expect(migrated.initialUnlockBps).to.equal(grant.initialUnlockBps);
+        expect(migrated.allowCrank).to.be.false;
+        expect(migrated.allowAdminTransfer).to.be.false;
+        expect(migrated.curve.periodic?.period.toNumber() ?? null).to.equal(
+          grant.period
+        );
+
+        // Already migrated accounts are left as they are. A different payer
+        // keeps the transaction from being a duplicate of the first.
+        expect((await migrate(schedulePda, legacyAdmin)).equals(data)).to.be
+          .true;
+
+        await legacyBeneficiary.claim(
+          LEGACY_ADMIN.publicKey,
+          LEGACY_MINT,
+          grant.scheduleId
+        );
+        // Let a little more vest, so there's some left to claim after revoking
+        await new Promise((resolve) => setTimeout(resolve, 2_000));
+        await legacyAdmin.revoke(
+          LEGACY_BENEFICIARY.publicKey,
+          LEGACY_MINT,
+          grant.scheduleId
+        );
+        await legacyBeneficiary.claim(
+          LEGACY_ADMIN.publicKey,
+          LEGACY_MINT,
+          grant.scheduleId
+        );
+
+        const settled = await client.fetchVestingSchedule(schedulePda);
+        expect(settled!.isRevoked).to.be.true;
+        expect(
+          settled!.claimedAmount.add(settled!.revokedAmount).toNumber()
+        ).to.equal(LEGACY_TOTAL_AMOUNT);
+
+        await legacyAdmin.close(
+          LEGACY_BENEFICIARY.publicKey,
+          LEGACY_MINT,
+          grant.scheduleId
+        );
+        expect(await provider.connection.getAccountInfo(schedulePda)).to.be
+          .null;
+      });
+    }
+  });
+
+  describe("claim all", () => {
+    it("claims every schedule with something claimable in one batch", async () => {
+      const grantee = anchor.web3.Keypair.generate();
+      const airdrop = await provider.connection.requestAirdrop(
+        grantee.publicKey,
+        anchor.web3.LAMPORTS_PER_SOL
+      );
+      await provider.connection.confirmTransaction(airdrop);
+
+      // Two grants already vesting and one that hasn't started
+      const now = Math.floor(Date.now() / 1000);
+      for (const [id, start] of [
+        [0, now + 2],
+        [1, now + 2],
+        [2, now + 3600],
+      ]) {
+        await client.createVestingSchedule(
+          grantee.publicKey,
+          mint,
+          new anchor.BN(100_000_000),
+          new anchor.BN(start),
+          new anchor.BN(0),
+          new anchor.BN(oneDay),
+          id
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, 4_000));
+
+      const wallet = new anchor.Wallet(grantee);
+      const results = await claimAll(program, grantee.publicKey, (txs) =>
+        wallet.signAllTransactions(txs)
+      );
+
+      expect(results).to.have.length(2);
+      expect(results.every((r) => r.status === "success")).to.be.true;
+      // Both claims fit in one transaction
+      expect(results[0].signature).to.equal(results[1].signature);
+
+      const schedules = await client.fetchVestingSchedulesForBeneficiary(
+        grantee.publicKey
+      );
+      const claimed = schedules.map((info) => [
+        info.account.scheduleId.toNumber(),
+        info.account.claimedAmount.gtn(0),
+      ]);
+      expect(claimed.sort()).to.deep.equal([
+        [0, true],
+        [1, true],
+        [2, false],
+      ]);
+    });
+  });
+
+  describe("crank claim", () => {
+    // A grantee with no token account, vesting from a few seconds on, who
+    // lets anyone crank unless told otherwise
+    async function createIdleGrant(
+      amount: number,
+      scheduleId = 0,
+      allowCrank = true
+    ) {
+      const grantee = await fundedClient();
+      await client.createVestingSchedule(
+        grantee.walletPublicKey,
+        mint,
+        new anchor.BN(amount),
+        new anchor.BN(Math.floor(Date.now() / 1000) + 2),
+        new anchor.BN(0),
+        new anchor.BN(oneDay),
+        scheduleId
+      );
+      if (allowCrank) {
+        await grantee.setAllowCrank(admin.publicKey, mint, true, scheduleId);
+      }
+      return grantee;
+    }
+
+    it("lets anyone claim into the beneficiary's token account", async () => {
+      const grantee = (await createIdleGrant(100_000_000)).walletPublicKey;
+      const cranker = await fundedClient();
+      await new Promise((resolve) => setTimeout(resolve, 4_000));
+
+      await cranker.crankClaim(admin.publicKey, grantee, mint);
+
+      const tokenAccount = await getAccount(
+        provider.connection,
+        getAssociatedTokenAddressSync(mint, grantee)
+      );
+      expect(Number(tokenAccount.amount)).to.be.greaterThan(0);
+
+      const [pda] = getVestingPDA(
+        admin.publicKey,
+        grantee,
+        mint,
+        0,
+        program.programId
+      );
+      const schedule = await client.fetchVestingSchedule(pda);
+      expect(schedule!.claimedAmount.toString()).to.equal(
+        tokenAccount.amount.toString()
+      );
+
+      const history = await client.fetchHistory(pda);
+      expect(history.map((event) => event.name)).to.include("tokensClaimed");
+    });
+
+    it("needs the beneficiary to allow it", async () => {
+      const grantee = await createIdleGrant(100_000_000, 0, false);
+      const cranker = await fundedClient();
+      await new Promise((resolve) => setTimeout(resolve, 4_000));
+
+      try {
+        await cranker.crankClaim(
+          admin.publicKey,
+          grantee.walletPublicKey,
+          mint
+        );
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("CrankNotAllowed");
+      }
+
+      await grantee.setAllowCrank(admin.publicKey, mint, true);
+      await cranker.crankClaim(admin.publicKey, grantee.walletPublicKey, mint);
+
+      // Taking it back stops cranks again
+      await grantee.setAllowCrank(admin.publicKey, mint, false);
+      const [pda] = grantee.getVestingPDA(
+        admin.publicKey,
+        grantee.walletPublicKey,
+        mint
+      );
+      expect((await client.fetchVestingSchedule(pda))!.allowCrank).to.be.false;
+      try {
+        await cranker.crankClaim(
+          admin.publicKey,
+          grantee.walletPublicKey,
+          mint
+        );
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("CrankNotAllowed");
+      }
+
+      const history = await client.fetchHistory(pda);
+      expect(
+        history
+          .filter((event) => event.name === "allowCrankChanged")
+          .map((event) => event.data.allowCrank)
+      ).to.deep.equal([false, true]);
+    });
+
+    it("fails before anything has vested", async () => {
+      const grantee = await fundedClient();
+      await client.createVestingSchedule(
+        grantee.walletPublicKey,
+        mint,
+        new anchor.BN(100_000_000),
+        new anchor.BN(Math.floor(Date.now() / 1000) + 60),
+        cliffDuration,
+        vestingDuration
+      );
+      await grantee.setAllowCrank(admin.publicKey, mint, true);
+      const cranker = await fundedClient();
+
+      try {
+        await cranker.crankClaim(
+          admin.publicKey,
+          grantee.walletPublicKey,
+          mint
+        );
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("CliffNotReached");
+      }
+    });
+
+    it("keeper cranks grants over the threshold and records them", async () => {
+      const granteeClient = await createIdleGrant(100_000_000);
+      const grantee = granteeClient.walletPublicKey;
+      // Vests about 50 base units a minute, well under the threshold
+      await client.createVestingSchedule(
+        grantee,
+        mint,
+        new anchor.BN(1_000_000),
+        new anchor.BN(Math.floor(Date.now() / 1000) + 2),
+        new anchor.BN(0),
+        new anchor.BN(oneDay * 14),
+        1
+      );
+      await granteeClient.setAllowCrank(admin.publicKey, mint, true, 1);
+      // Over the threshold, but its beneficiary hasn't allowed cranks
+      const unwilling = (await createIdleGrant(100_000_000, 0, false))
+        .walletPublicKey;
+      const keeper = await fundedClient();
+      await new Promise((resolve) => setTimeout(resolve, 4_000));
+
+      const stateFile = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "keeper-")),
+        "state.json"
+      );
+      const wallet = (keeper.provider as anchor.AnchorProvider).wallet;
+      await runKeeper(
+        keeper,
+        (txs) => wallet.signAllTransactions(txs),
+        {
+          admins: [],
+          beneficiaries: [grantee, unwilling],
+          mints: [mint],
+          // 1000 base units of a 9-decimal mint
+          minClaimable: "0.000001",
+          retryAfter: 3_600,
+        },
+        { stateFile, interval: 60, once: true }
+      );
+
+      const [cranked] = getVestingPDA(
+        admin.publicKey,
+        grantee,
+        mint,
+        0,
+        program.programId
+      );
+      const state = loadKeeperState(stateFile);
+      expect(Object.keys(state.schedules)).to.deep.equal([cranked.toBase58()]);
+      expect(state.schedules[cranked.toBase58()]).to.include({
+        beneficiary: grantee.toBase58(),
+        cranks: 1,
+        failures: 0,
+      });
+
+      const schedules = await client.fetchVestingSchedulesForBeneficiary(
+        grantee
+      );
+      const claimed = schedules.map((info) => [
+        info.account.scheduleId.toNumber(),
+        info.account.claimedAmount.gtn(0),
+      ]);
+      expect(claimed.sort()).to.deep.equal([
+        [0, true],
+        [1, false],
+      ]);
+    });
+  });
+
+  describe("transfer beneficiary", () => {
+    // A vesting grant with a first claim made, so there is state to carry over
+    async function createClaimed() {
+      const oldClient = await fundedClient();
+      const newClient = await fundedClient();
+      await client.createVestingSchedule(
+        oldClient.walletPublicKey,
+        mint,
+        new anchor.BN(100_000_000),
+        new anchor.BN(Math.floor(Date.now() / 1000) + 2),
+        new anchor.BN(0),
+        new anchor.BN(oneDay)
+      );
+      await new Promise((resolve) => setTimeout(resolve, 4_000));
+      await oldClient.claim(admin.publicKey, mint);
+
+      const [oldPda] = client.getVestingPDA(
+        admin.publicKey,
+        oldClient.walletPublicKey,
+        mint
+      );
+      const [newPda] = client.getVestingPDA(
+        admin.publicKey,
+        newClient.walletPublicKey,
+        mint
+      );
+      const before = await client.fetchVestingSchedule(oldPda);
+      if (!before) throw new Error("Vesting schedule not found");
+      return { oldClient, newClient, oldPda, newPda, before };
+    }
+
+    it("moves the grant when the beneficiary asks", async () => {
+      const { oldClient, newClient, oldPda, newPda, before } =
+        await createClaimed();
+      await oldClient.setAllowCrank(admin.publicKey, mint, true);
+
+      await oldClient.transferBeneficiary(
+        admin.publicKey,
+        oldClient.walletPublicKey,
+        mint,
+        newClient.walletPublicKey
+      );
+
+      expect(await client.fetchVestingSchedule(oldPda)).to.be.null;
+      const moved = await client.fetchVestingSchedule(newPda);
+      expect(moved?.beneficiary.toBase58()).to.equal(
+        newClient.walletPublicKey.toBase58()
+      );
+      expect(moved?.claimedAmount.toNumber()).to.equal(
+        before.claimedAmount.toNumber()
+      );
+      expect(moved?.startTime.toNumber()).to.equal(before.startTime.toNumber());
+      // The new wallet hasn't agreed to cranks
+      expect(moved?.allowCrank).to.be.false;
+      expect(moved?.totalAmount.toNumber()).to.equal(
+        before.totalAmount.toNumber()
+      );
+
+      // The vault followed the schedule
+      const [newVault] = getVaultPDA(newPda, program.programId);
+      const vault = await getAccount(provider.connection, newVault);
+      expect(Number(vault.amount)).to.equal(
+        before.totalAmount.sub(before.claimedAmount).toNumber()
+      );
+
+      try {
+        await oldClient.claim(admin.publicKey, mint);
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("AccountNotInitialized");
+      }
+
+      await newClient.claim(admin.publicKey, mint);
+      const claimed = await client.fetchVestingSchedule(newPda);
+      expect(claimed?.claimedAmount.gt(before.claimedAmount)).to.be.true;
+    });
+
+    it("lets the admin move a grant whose keys were lost", async () => {
+      const { oldClient, newClient, oldPda, newPda } = await createClaimed();
+      await oldClient.setAllowAdminTransfer(admin.publicKey, mint, true);
+
+      await client.transferBeneficiary(
+        admin.publicKey,
+        oldClient.walletPublicKey,
+        mint,
+        newClient.walletPublicKey
+      );
+
+      expect(await client.fetchVestingSchedule(oldPda)).to.be.null;
+      // The new wallet decides for itself whether the admin may move it
+      const moved = await client.fetchVestingSchedule(newPda);
+      expect(moved?.allowAdminTransfer).to.be.false;
+      try {
+        await oldClient.claim(admin.publicKey, mint);
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("AccountNotInitialized");
+      }
+
+      const history = await client.fetchHistory(newPda);
+      expect(history.map((event) => event.name)).to.deep.equal([
+        "beneficiaryTransferred",
+      ]);
+    });
+
+    it("refuses an admin move the beneficiary hasn't allowed", async () => {
+      const { oldClient, newClient, oldPda } = await createClaimed();
+
+      try {
+        await client.transferBeneficiary(
+          admin.publicKey,
+          oldClient.walletPublicKey,
+          mint,
+          newClient.walletPublicKey
+        );
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("AdminTransferNotAllowed");
+      }
+      expect(await client.fetchVestingSchedule(oldPda)).to.not.be.null;
+    });
+
+    it("refuses an admin move of an irrevocable grant", async () => {
+      const oldClient = await fundedClient();
+      const newClient = await fundedClient();
+      await client.createVestingSchedule(
+        oldClient.walletPublicKey,
+        mint,
+        new anchor.BN(100_000_000),
+        new anchor.BN(Math.floor(Date.now() / 1000) + 60),
+        new anchor.BN(0),
+        new anchor.BN(oneDay),
+        0,
+        LINEAR_RELEASE,
+        admin.publicKey,
+        null
+      );
+      // Allowing it doesn't hand the admin a grant it could never revoke
+      await oldClient.setAllowAdminTransfer(admin.publicKey, mint, true);
+
+      try {
+        await client.transferBeneficiary(
+          admin.publicKey,
+          oldClient.walletPublicKey,
+          mint,
+          newClient.walletPublicKey
+        );
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("AdminTransferNotAllowed");
+      }
+    });
+
+    it("rejects anyone else", async () => {
+      const { oldClient, newClient } = await createClaimed();
+      const stranger = await fundedClient();
+
+      try {
+        await stranger.transferBeneficiary(
+          admin.publicKey,
+          oldClient.walletPublicKey,
+          mint,
+          newClient.walletPublicKey
+        );
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("UnauthorizedTransfer");
+      }
+    });
+  });
+
+  describe("authorities", () => {
+    // A grant starting in a minute, so nothing vests while the tests run
+    async function createGrant(revokeAuthority: anchor.web3.PublicKey | null) {
+      const grantee = anchor.web3.Keypair.generate().publicKey;
+      await client.createVestingSchedule(
+        grantee,
+        mint,
+        new anchor.BN(100_000_000),
+        new anchor.BN(Math.floor(Date.now() / 1000) + 60),
+        new anchor.BN(0),
+        new anchor.BN(oneDay),
+        0,
+        LINEAR_RELEASE,
+        admin.publicKey,
+        revokeAuthority
+      );
+      const [pda] = client.getVestingPDA(admin.publicKey, grantee, mint);
+      return { grantee, pda };
+    }
+
+    it("lets only the revoke authority revoke", async () => {
+      const guardian = await fundedClient();
+      const { grantee, pda } = await createGrant(guardian.walletPublicKey);
+
+      const created = await client.fetchVestingSchedule(pda);
+      expect(created?.authority.toBase58()).to.equal(
+        admin.publicKey.toBase58()
+      );
+      expect(created?.revokeAuthority?.toBase58()).to.equal(
+        guardian.walletPublicKey.toBase58()
+      );
+
+      try {
+        await client.revoke(grantee, mint);
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("UnauthorizedAuthority");
+      }
+
+      const beforeBalance = await getAccount(
+        provider.connection,
+        adminTokenAccount
+      );
+      await guardian.revoke(grantee, mint, 0, admin.publicKey);
+      expect((await client.fetchVestingSchedule(pda))?.isRevoked).to.be.true;
+
+      // Revoked tokens still go back to the admin who funded the grant
+      const afterBalance = await getAccount(
+        provider.connection,
+        adminTokenAccount
+      );
+      expect(
+        Number(afterBalance.amount) - Number(beforeBalance.amount)
+      ).to.equal(100_000_000);
+    });
+
+    it("refuses to revoke an irrevocable grant", async () => {
+      const { grantee, pda } = await createGrant(null);
+      expect((await client.fetchVestingSchedule(pda))?.revokeAuthority).to.be
+        .null;
+
+      try {
+        await client.revoke(grantee, mint);
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("Irrevocable");
+      }
+    });
+
+    it("hands the admin authority to another key", async () => {
+      const successor = await fundedClient();
+      const { grantee, pda } = await createGrant(admin.publicKey);
+
+      await client.setAuthority(
+        admin.publicKey,
+        grantee,
+        mint,
+        { admin: {} },
+        successor.walletPublicKey
+      );
+
+      const updated = await client.fetchVestingSchedule(pda);
+      expect(updated?.authority.toBase58()).to.equal(
+        successor.walletPublicKey.toBase58()
+      );
+      // The funder and the schedule's address don't change
+      expect(updated?.admin.toBase58()).to.equal(admin.publicKey.toBase58());
+
+      const held = await client.fetchVestingSchedulesForAuthority(
+        successor.walletPublicKey
+      );
+      expect(held.map((info) => info.publicKey.toBase58())).to.deep.equal([
+        pda.toBase58(),
+      ]);
+      const revocable = await client.fetchVestingSchedulesForRevokeAuthority(
+        admin.publicKey
+      );
+      expect(revocable.some((info) => info.publicKey.equals(pda))).to.be.true;
+
+      // The old authority can't take it back
+      try {
+        await client.setAuthority(
+          admin.publicKey,
+          grantee,
+          mint,
+          { admin: {} },
+          admin.publicKey
+        );
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("UnauthorizedAuthority");
+      }
+
+      const history = await client.fetchHistory(pda);
+      expect(history.map((event) => event.name)).to.deep.equal([
+        "authorityChanged",
+        "vestingCreated",
+      ]);
+    });
+
+    it("gives up the revoke authority for good", async () => {
+      const { grantee, pda } = await createGrant(admin.publicKey);
+
+      await client.setAuthority(
+        admin.publicKey,
+        grantee,
+        mint,
+        { revoke: {} },
+        null
+      );
+      expect((await client.fetchVestingSchedule(pda))?.revokeAuthority).to.be
+        .null;
+
+      try {
+        await client.revoke(grantee, mint);
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("Irrevocable");
+      }
+    });
+  });
+
+  describe("exported transactions", () => {
+    it("revokes with a transaction signed offline", async () => {
+      const cold = anchor.web3.Keypair.generate();
+      const airdrop = await provider.connection.requestAirdrop(
+        cold.publicKey,
+        anchor.web3.LAMPORTS_PER_SOL
+      );
+      await provider.connection.confirmTransaction(airdrop);
+      const grantee = anchor.web3.Keypair.generate().publicKey;
+      await client.createVestingSchedule(
+        grantee,
+        mint,
+        new anchor.BN(100_000_000),
+        new anchor.BN(Math.floor(Date.now() / 1000) + 60),
+        new anchor.BN(0),
+        new anchor.BN(oneDay),
+        0,
+        LINEAR_RELEASE,
+        admin.publicKey,
+        cold.publicKey
+      );
+
+      // The cold wallet pays the fee too, so it's the only signer
+      const exported = await client.exportTransaction(
+        await revokeVestingInstructions(
+          program,
+          admin.publicKey,
+          grantee,
+          mint,
+          0,
+          cold.publicKey
+        ),
+        cold.publicKey
+      );
+      expect(exported.signers).to.deep.equal([cold.publicKey.toBase58()]);
+
+      const transaction = decodeTransaction(exported.transaction);
+      transaction.partialSign(cold);
+      await client.submitSignedTransaction(
+        transaction.serialize().toString("base64")
+      );
+
+      const [pda] = client.getVestingPDA(admin.publicKey, grantee, mint);
+      expect((await client.fetchVestingSchedule(pda))?.isRevoked).to.be.true;
+    });
+
+    it("holds a durable-nonce transaction until it's signed", async () => {
+      const nonceAccount = anchor.web3.Keypair.generate();
+      await provider.sendAndConfirm(
+        anchor.web3.SystemProgram.createNonceAccount({
+          fromPubkey: admin.publicKey,
+          noncePubkey: nonceAccount.publicKey,
+          authorizedPubkey: admin.publicKey,
+          lamports: await provider.connection.getMinimumBalanceForRentExemption(
+            anchor.web3.NONCE_ACCOUNT_LENGTH
+          ),
+        }),
+        [nonceAccount]
+      );
+      const before = await provider.connection.getNonce(nonceAccount.publicKey);
+
+      const grantee = anchor.web3.Keypair.generate().publicKey;
+      await client.createVestingSchedule(
+        grantee,
+        mint,
+        new anchor.BN(100_000_000),
+        new anchor.BN(Math.floor(Date.now() / 1000) + 60),
+        new anchor.BN(0),
+        new anchor.BN(oneDay)
+      );
+      const exported = await client.exportTransaction(
+        await setAuthorityInstructions(
+          program,
+          admin.publicKey,
+          admin.publicKey,
+          grantee,
+          mint,
+          { revoke: {} },
+          null
+        ),
+        admin.publicKey,
+        { nonceAccount: nonceAccount.publicKey }
+      );
+      expect(exported.nonceAccount).to.equal(nonceAccount.publicKey.toBase58());
+
+      // Long enough for a blockhash transaction to have expired
+      await new Promise((resolve) => setTimeout(resolve, 90_000));
+
+      const signed = await admin.signTransaction(
+        decodeTransaction(exported.transaction)
+      );
+      await client.submitSignedTransaction(
+        signed.serialize().toString("base64")
+      );
+
+      const [pda] = client.getVestingPDA(admin.publicKey, grantee, mint);
+      expect((await client.fetchVestingSchedule(pda))?.revokeAuthority).to.be
+        .null;
+      const after = await provider.connection.getNonce(nonceAccount.publicKey);
+      expect(after?.nonce).to.not.equal(before?.nonce);
+    });
+  });
+
+  describe("close", () => {
+    it("refuses to close a schedule that still holds tokens", async () => {
+      try {
+        await client.close(beneficiary.publicKey, mint);
+        expect.fail("Should have thrown error");
+      } catch (error: any) {
+        expect(error.error.errorCode.code).to.equal("ScheduleNotSettled");
+      }
+    });
+
+    it("closes a settled schedule and returns its rent to the admin", async () => {
+      // Grant #1 was revoked before it started, so everything went back to the admin
+      const [refreshPda] = client.getVestingPDA(
+        admin.publicKey,
+        beneficiary.publicKey,
+        mint,
+        1
+      );
+      const [refreshVault] = getVaultPDA(refreshPda, program.programId);
+      const reclaimable = await client.fetchReclaimableRent(refreshPda);
+      expect(reclaimable).to.be.greaterThan(0);
+
+      // A subscriber hears about the close even though the account is gone
+      const closedVia = new Promise<anchor.web3.PublicKey>((resolve) => {
+        const unsubscribe = client.subscribeToVestingSchedules(
+          { admin: admin.publicKey },
+          {
+            onSchedule: () => {},
+            onClosed: (closed) => {
+              unsubscribe();
+              resolve(closed);
+            },
+          }
+        );
+      });
+      // Subscribing is asynchronous; give it a moment to register
+      await new Promise((resolve) => setTimeout(resolve, 1_000));
+
+      const balanceBefore = await provider.connection.getBalance(
+        admin.publicKey
+      );
+      await client.close(beneficiary.publicKey, mint, 1);
+      const balanceAfter = await provider.connection.getBalance(
+        admin.publicKey
+      );
+      expect((await closedVia).equals(refreshPda)).to.be.true;
+
+      expect(await provider.connection.getAccountInfo(refreshPda)).to.be.null;
+      expect(await provider.connection.getAccountInfo(refreshVault)).to.be.null;
+      // Less the transaction fee
+      expect(balanceAfter - balanceBefore).to.be.greaterThan(
+        reclaimable - 10_000
+      );
+
+      const grants = await client.fetchVestingSchedulesForGrant(
+        beneficiary.publicKey,
+        mint
+      );
+      expect(grants.map((g) => g.account.scheduleId.toNumber())).to.deep.equal([
+        0,
+      ]);
+    });
+
+    it("keeps the history of a closed schedule", async () => {
+      const [closedPda] = client.getVestingPDA(
+        admin.publicKey,
+        beneficiary.publicKey,
+        mint,
+        1
+      );
+
+      const history = await client.fetchHistory(closedPda);
+      expect(history.map((event) => event.name)).to.deep.equal([
+        "vestingClosed",
+        "vestingRevoked",
+        "vestingCreated",
+      ]);
+      const [closed] = history;
+      if (closed.name !== "vestingClosed")
+        throw new Error("Expected a close event");
+      expect(closed.data.scheduleId.toNumber()).to.equal(1);
+      expect(closed.data.admin.equals(admin.publicKey)).to.be.true;
+    });
+
+    it("returns tokens sent straight to the vault to the admin", async () => {
+      const grantee = anchor.web3.Keypair.generate().publicKey;
+      await client.createVestingSchedule(
+        grantee,
+        mint,
+        new anchor.BN(1_000),
+        new anchor.BN(Math.floor(Date.now() / 1000) + 3600),
+        new anchor.BN(0),
+        new anchor.BN(oneDay)
+      );
+      await client.revoke(grantee, mint);
+
+      // Dust from anyone would otherwise keep the vault from closing
+      const [schedulePda] = client.getVestingPDA(
+        admin.publicKey,
+        grantee,
+        mint
+      );
+      const [vault] = getVaultPDA(schedulePda, program.programId);
+      await mintTo(
+        provider.connection,
+        admin.payer,
+        mint,
+        vault,
+        admin.publicKey,
+        7
+      );
+
+      const before = await getAccount(provider.connection, adminTokenAccount);
+      await client.close(grantee, mint);
+      const after = await getAccount(provider.connection, adminTokenAccount);
+
+      expect(Number(after.amount) - Number(before.amount)).to.equal(7);
+      expect(await provider.connection.getAccountInfo(schedulePda)).to.be.null;
+      expect(await provider.connection.getAccountInfo(vault)).to.be.null;
+    });
+  });
 });
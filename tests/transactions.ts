@@ -0,0 +1,114 @@
+import {
+  Connection,
+  Keypair,
+  SystemProgram,
+  Transaction,
+} from "@solana/web3.js";
+import { expect } from "chai";
+import { TRANSACTIONS_PER_PROMPT, signAndSendTransactions } from "../sdk/src";
+
+const payer = Keypair.generate();
+
+function transfers(count: number): Transaction[] {
+  return Array.from({ length: count }, (_, lamports) => {
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: Keypair.generate().publicKey,
+        lamports: lamports + 1,
+      })
+    );
+    transaction.feePayer = payer.publicKey;
+    return transaction;
+  });
+}
+
+// Stands in for the RPC node: a new blockhash per request, and every
+// transaction sent lands
+function fakeConnection() {
+  const sent: Transaction[] = [];
+  const connection = {
+    getLatestBlockhash: async () => ({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 1_000,
+    }),
+    sendRawTransaction: async (raw: Buffer) => {
+      sent.push(Transaction.from(raw));
+      return `signature-${sent.length}`;
+    },
+    confirmTransaction: async () => ({ value: { err: null } }),
+  };
+  return { connection: connection as unknown as Connection, sent };
+}
+
+describe("batch signing", () => {
+  it("signs each chunk with its own fresh blockhash", async () => {
+    const { connection, sent } = fakeConnection();
+    const prompts: number[] = [];
+
+    const results = await signAndSendTransactions(
+      connection,
+      transfers(TRANSACTIONS_PER_PROMPT * 2 + 5),
+      async (transactions) => {
+        prompts.push(transactions.length);
+        transactions.forEach((transaction) => transaction.sign(payer));
+        return transactions;
+      }
+    );
+
+    expect(prompts).to.deep.equal([
+      TRANSACTIONS_PER_PROMPT,
+      TRANSACTIONS_PER_PROMPT,
+      5,
+    ]);
+    expect(results.every(({ error }) => !error)).to.be.true;
+    const blockhashes = sent.map(({ recentBlockhash }) => recentBlockhash);
+    expect(new Set(blockhashes).size).to.equal(3);
+    expect(
+      new Set(blockhashes.slice(0, TRANSACTIONS_PER_PROMPT)).size
+    ).to.equal(1);
+  });
+
+  it("fails the rest when a later prompt is rejected", async () => {
+    const { connection, sent } = fakeConnection();
+    let prompt = 0;
+    const reported: number[] = [];
+
+    const results = await signAndSendTransactions(
+      connection,
+      transfers(5),
+      async (transactions) => {
+        if (++prompt > 1) throw new Error("User rejected the request.");
+        transactions.forEach((transaction) => transaction.sign(payer));
+        return transactions;
+      },
+      (index) => reported.push(index),
+      2
+    );
+
+    expect(sent).to.have.length(2);
+    expect(reported).to.deep.equal([0, 1, 2, 3, 4]);
+    expect(results.map(({ error }) => error ?? null)).to.deep.equal([
+      null,
+      null,
+      "The request was rejected in your wallet.",
+      "The request was rejected in your wallet.",
+      "The request was rejected in your wallet.",
+    ]);
+  });
+
+  it("throws when the first prompt is rejected, as nothing was sent", async () => {
+    const { connection, sent } = fakeConnection();
+
+    let thrown: unknown;
+    try {
+      await signAndSendTransactions(connection, transfers(3), async () => {
+        throw new Error("User rejected the request.");
+      });
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).to.be.an("error");
+    expect(sent).to.be.empty;
+  });
+});
@@ -0,0 +1,96 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { expect } from "chai";
+import { LINEAR_RELEASE, VestingSchedule, summarizeTreasury } from "../sdk/src";
+
+const oneDay = 86_400;
+const start = 1_700_000_000;
+const day = (n: number) => start + n * oneDay;
+
+const admin = Keypair.generate().publicKey;
+const usdc = Keypair.generate().publicKey;
+const bonk = Keypair.generate().publicKey;
+
+// 1000 tokens (no decimals) vesting linearly over 100 days from `start`
+function schedule(
+  mint: PublicKey,
+  overrides: Partial<VestingSchedule> = {}
+): VestingSchedule {
+  return {
+    admin,
+    beneficiary: Keypair.generate().publicKey,
+    mint,
+    totalAmount: new anchor.BN(1_000),
+    claimedAmount: new anchor.BN(0),
+    startTime: new anchor.BN(start),
+    cliffDuration: new anchor.BN(0),
+    vestingDuration: new anchor.BN(100 * oneDay),
+    isRevoked: false,
+    revokedAmount: new anchor.BN(0),
+    bump: 255,
+    vaultBump: 255,
+    scheduleId: new anchor.BN(0),
+    authority: admin,
+    revokeAuthority: admin,
+    allowCrank: false,
+    allowAdminTransfer: false,
+    ...LINEAR_RELEASE,
+    ...overrides,
+  };
+}
+
+describe("treasury", () => {
+  it("totals the schedules of each mint", () => {
+    const [first, second] = summarizeTreasury(
+      [
+        schedule(usdc, { claimedAmount: new anchor.BN(100) }),
+        // Revoked at day 40, with nothing claimed
+        schedule(usdc, {
+          isRevoked: true,
+          revokedAmount: new anchor.BN(600),
+        }),
+        schedule(bonk, { totalAmount: new anchor.BN(500) }),
+      ],
+      day(50)
+    );
+
+    expect(first.mint).to.equal(usdc.toBase58());
+    expect(first.scheduleCount).to.equal(2);
+    expect(first.totalGranted.toNumber()).to.equal(2_000);
+    expect(first.claimed.toNumber()).to.equal(100);
+    expect(first.revoked.toNumber()).to.equal(600);
+    expect(first.locked.toNumber()).to.equal(1_300);
+    // 500 - 100 claimed, plus the 400 the revoked schedule had vested
+    expect(first.vestedUnclaimed.toNumber()).to.equal(800);
+
+    expect(second.mint).to.equal(bonk.toBase58());
+    expect(second.locked.toNumber()).to.equal(500);
+    expect(second.vestedUnclaimed.toNumber()).to.equal(250);
+  });
+
+  it("totals upcoming unlocks within each horizon", () => {
+    const [totals] = summarizeTreasury(
+      [
+        schedule(usdc),
+        // Vesting ends on day 300
+        schedule(usdc, { vestingDuration: new anchor.BN(300 * oneDay) }),
+        schedule(usdc, { isRevoked: true, revokedAmount: new anchor.BN(500) }),
+      ],
+      day(50)
+    );
+
+    // 300 + 100 from the first two, nothing from the revoked one
+    expect(totals.upcoming[30].toNumber()).to.equal(400);
+    // The first schedule finishes on day 100
+    expect(totals.upcoming[90].toNumber()).to.equal(500 + 300);
+    expect(totals.upcoming[365].toNumber()).to.equal(500 + 834);
+  });
+
+  it("counts a schedule that hasn't started as entirely locked", () => {
+    const [totals] = summarizeTreasury([schedule(usdc)], day(-10));
+
+    expect(totals.locked.toNumber()).to.equal(1_000);
+    expect(totals.vestedUnclaimed.toNumber()).to.equal(0);
+    expect(totals.upcoming[30].toNumber()).to.equal(200);
+  });
+});
@@ -0,0 +1,64 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import {
+  LINEAR_RELEASE,
+  TokenVesting,
+  VestingRelease,
+  getVaultPDA,
+  getVestingPDA,
+} from "../sdk/src";
+
+/**
+ * Send create_vesting_schedule straight to the program, skipping the SDK's
+ * client-side validation, so tests can exercise the on-chain checks.
+ */
+export async function createVestingUnchecked(
+  program: Program<TokenVesting>,
+  admin: anchor.web3.PublicKey,
+  beneficiary: anchor.web3.PublicKey,
+  mint: anchor.web3.PublicKey,
+  totalAmount: anchor.BN,
+  startTime: anchor.BN,
+  cliffDuration: anchor.BN,
+  vestingDuration: anchor.BN,
+  scheduleId: anchor.BN = new anchor.BN(0),
+  release: VestingRelease = LINEAR_RELEASE
+): Promise<string> {
+  const [vestingSchedule] = getVestingPDA(
+    admin,
+    beneficiary,
+    mint,
+    scheduleId,
+    program.programId
+  );
+  const [vault] = getVaultPDA(vestingSchedule, program.programId);
+
+  return program.methods
+    .createVestingSchedule(
+      scheduleId,
+      totalAmount,
+      startTime,
+      cliffDuration,
+      vestingDuration,
+      release.initialUnlockBps,
+      release.curve,
+      admin
+    )
+    .accountsStrict({
+      admin,
+      beneficiary,
+      mint,
+      vestingSchedule,
+      vault,
+      adminTokenAccount: getAssociatedTokenAddressSync(mint, admin),
+      systemProgram: anchor.web3.SystemProgram.programId,
+      tokenProgram: TOKEN_PROGRAM_ID,
+      associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+    })
+    .rpc();
+}
@@ -0,0 +1,308 @@
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import {
+  createMint,
+  createAssociatedTokenAccount,
+  mintTo,
+} from "@solana/spl-token";
+import { expect } from "chai";
+import {
+  MAX_VESTING_DURATION,
+  MIN_VESTING_DURATION,
+  TokenVesting,
+  ValidationErrorCode,
+  VestingClient,
+  VestingRelease,
+  VestingValidationError,
+  milestoneCurve,
+  periodicCurve,
+  validateVestingParams,
+} from "../sdk/src";
+import { createVestingUnchecked } from "./utils";
+
+describe("validation parity", () => {
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+
+  const program = anchor.workspace.TokenVesting as Program<TokenVesting>;
+  const client = new VestingClient(program);
+  const admin = provider.wallet as anchor.Wallet;
+
+  let mint: anchor.web3.PublicKey;
+
+  const oneDay = 86_400;
+
+  interface Case {
+    name: string;
+    amount?: number;
+    // Start offset from the cluster clock, in seconds
+    startOffset?: number;
+    cliff: number;
+    duration: number;
+    release?: VestingRelease;
+    expected: ValidationErrorCode | null;
+  }
+
+  // Boundary values around every check in create_vesting_schedule
+  const cases: Case[] = [
+    {
+      name: "zero amount",
+      amount: 0,
+      cliff: 0,
+      duration: oneDay,
+      expected: "InvalidAmount",
+    },
+    {
+      name: "duration one second under minimum",
+      cliff: 0,
+      duration: MIN_VESTING_DURATION - 1,
+      expected: "DurationTooShort",
+    },
+    {
+      name: "duration at minimum",
+      cliff: 0,
+      duration: MIN_VESTING_DURATION,
+      expected: null,
+    },
+    {
+      name: "duration at maximum",
+      cliff: 0,
+      duration: MAX_VESTING_DURATION,
+      expected: null,
+    },
+    {
+      name: "duration one second over maximum",
+      cliff: 0,
+      duration: MAX_VESTING_DURATION + 1,
+      expected: "DurationTooLong",
+    },
+    {
+      name: "cliff longer than duration",
+      cliff: oneDay * 10 + 1,
+      duration: oneDay * 10,
+      expected: "CliffTooLong",
+    },
+    {
+      name: "cliff equal to duration",
+      cliff: oneDay * 10,
+      duration: oneDay * 10,
+      expected: "CliffPercentageTooHigh",
+    },
+    {
+      name: "cliff at exactly 50%",
+      cliff: oneDay * 5,
+      duration: oneDay * 10,
+      expected: null,
+    },
+    {
+      name: "cliff just over 50% that floors to 50%",
+      cliff: oneDay * 5 + 1,
+      duration: oneDay * 10,
+      expected: null,
+    },
+    {
+      name: "cliff at 51%",
+      cliff: 51 * 864,
+      duration: oneDay,
+      expected: "CliffPercentageTooHigh",
+    },
+    {
+      name: "negative cliff",
+      cliff: -1,
+      duration: oneDay,
+      expected: "CalculationOverflow",
+    },
+    {
+      name: "start in the past",
+      startOffset: -60,
+      cliff: 0,
+      duration: oneDay,
+      expected: "StartTimeInPast",
+    },
+    {
+      name: "initial unlock of 100%",
+      cliff: 0,
+      duration: oneDay,
+      release: { initialUnlockBps: 10_000, curve: { linear: {} } },
+      expected: null,
+    },
+    {
+      name: "initial unlock over 100%",
+      cliff: 0,
+      duration: oneDay,
+      release: { initialUnlockBps: 10_001, curve: { linear: {} } },
+      expected: "InvalidUnlockPercentage",
+    },
+    {
+      name: "zero period",
+      cliff: 0,
+      duration: oneDay,
+      release: { initialUnlockBps: 0, curve: periodicCurve(0) },
+      expected: "InvalidPeriod",
+    },
+    {
+      name: "period equal to duration",
+      cliff: 0,
+      duration: oneDay,
+      release: { initialUnlockBps: 0, curve: periodicCurve(oneDay) },
+      expected: null,
+    },
+    {
+      name: "period longer than duration",
+      cliff: 0,
+      duration: oneDay,
+      release: { initialUnlockBps: 0, curve: periodicCurve(oneDay + 1) },
+      expected: "InvalidPeriod",
+    },
+    {
+      name: "quarterly milestones",
+      cliff: 0,
+      duration: oneDay * 360,
+      release: {
+        initialUnlockBps: 1_000,
+        curve: milestoneCurve(
+          [90, 180, 270, 360].map((days) => ({
+            offset: oneDay * days,
+            bps: 2_500,
+          }))
+        ),
+      },
+      expected: null,
+    },
+    {
+      name: "milestones under 100%",
+      cliff: 0,
+      duration: oneDay * 10,
+      release: {
+        initialUnlockBps: 0,
+        curve: milestoneCurve([{ offset: oneDay, bps: 9_999 }]),
+      },
+      expected: "InvalidMilestones",
+    },
+    {
+      name: "milestones out of order",
+      cliff: 0,
+      duration: oneDay * 10,
+      release: {
+        initialUnlockBps: 0,
+        curve: milestoneCurve([
+          { offset: oneDay * 2, bps: 5_000 },
+          { offset: oneDay, bps: 5_000 },
+        ]),
+      },
+      expected: "InvalidMilestones",
+    },
+    {
+      name: "milestone after the end",
+      cliff: 0,
+      duration: oneDay * 10,
+      release: {
+        initialUnlockBps: 0,
+        curve: milestoneCurve([{ offset: oneDay * 10 + 1, bps: 10_000 }]),
+      },
+      expected: "InvalidMilestones",
+    },
+    {
+      name: "empty milestone table",
+      cliff: 0,
+      duration: oneDay * 10,
+      release: { initialUnlockBps: 0, curve: milestoneCurve([]) },
+      expected: "InvalidMilestones",
+    },
+    {
+      name: "several violations report the first on-chain check",
+      cliff: oneDay * 2,
+      duration: oneDay - 1,
+      expected: "DurationTooShort",
+    },
+  ];
+
+  before(async () => {
+    mint = await createMint(
+      provider.connection,
+      admin.payer,
+      admin.publicKey,
+      null,
+      9
+    );
+    const adminTokenAccount = await createAssociatedTokenAccount(
+      provider.connection,
+      admin.payer,
+      mint,
+      admin.publicKey
+    );
+    await mintTo(
+      provider.connection,
+      admin.payer,
+      mint,
+      adminTokenAccount,
+      admin.publicKey,
+      1_000_000_000
+    );
+  });
+
+  const clusterTime = async () => {
+    const slot = await provider.connection.getSlot();
+    return (
+      (await provider.connection.getBlockTime(slot)) ??
+      Math.floor(Date.now() / 1000)
+    );
+  };
+
+  for (const testCase of cases) {
+    it(`agrees with the program: ${testCase.name}`, async () => {
+      const now = await clusterTime();
+      const params = {
+        totalAmount: new anchor.BN(testCase.amount ?? 1_000),
+        startTime: new anchor.BN(now + (testCase.startOffset ?? 3600)),
+        cliffDuration: new anchor.BN(testCase.cliff),
+        vestingDuration: new anchor.BN(testCase.duration),
+        ...testCase.release,
+      };
+
+      const [firstError] = validateVestingParams(params, now);
+      expect(firstError?.code ?? null).to.equal(testCase.expected);
+
+      let onChain: string | null = null;
+      try {
+        await createVestingUnchecked(
+          program,
+          admin.publicKey,
+          anchor.web3.Keypair.generate().publicKey,
+          mint,
+          params.totalAmount,
+          params.startTime,
+          params.cliffDuration,
+          params.vestingDuration,
+          undefined,
+          testCase.release
+        );
+      } catch (error: any) {
+        onChain = error.error.errorCode.code;
+      }
+      expect(onChain).to.equal(testCase.expected);
+    });
+  }
+
+  it("rejects invalid parameters before building a transaction", async () => {
+    const startTime = new anchor.BN((await clusterTime()) + 3600);
+
+    try {
+      await client.createVestingSchedule(
+        anchor.web3.Keypair.generate().publicKey,
+        mint,
+        new anchor.BN(1_000),
+        startTime,
+        new anchor.BN(oneDay * 60),
+        new anchor.BN(oneDay * 100)
+      );
+      expect.fail("Should have thrown error");
+    } catch (error: any) {
+      expect(error).to.be.instanceOf(VestingValidationError);
+      const { fieldErrors } = error as VestingValidationError;
+      expect(fieldErrors.cliffDuration?.code).to.equal(
+        "CliffPercentageTooHigh"
+      );
+    }
+  });
+});